@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Loader2, MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { Textarea } from './ui/textarea';
+
+const NEW_CONVERSATION = 'new';
+
+interface BookChatPanelProps {
+  documentId: string;
+  summaryId: string;
+  bookTitle: string;
+}
+
+/**
+ * Side panel for asking follow-up questions about the book being read.
+ * Answers cite the passages of the book and summary they draw on, and
+ * earlier conversations can be reopened.
+ */
+export function BookChatPanel({ documentId, summaryId, bookTitle }: BookChatPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [conversationId, setConversationId] = useState<string>(NEW_CONVERSATION);
+  const [draft, setDraft] = useState('');
+
+  const utils = trpc.useUtils();
+  const { data: conversations } = trpc.chat.conversations.useQuery({ documentId }, { enabled: open });
+  const { data: messages, isLoading } = trpc.chat.messages.useQuery(
+    { conversationId },
+    { enabled: open && conversationId !== NEW_CONVERSATION }
+  );
+
+  const sendMutation = trpc.chat.send.useMutation({
+    onSuccess: (result) => {
+      setDraft('');
+      setConversationId(result.conversationId);
+      utils.chat.messages.invalidate({ conversationId: result.conversationId });
+      utils.chat.conversations.invalidate({ documentId });
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to send message');
+    },
+  });
+
+  const deleteMutation = trpc.chat.delete.useMutation({
+    onSuccess: () => {
+      setConversationId(NEW_CONVERSATION);
+      utils.chat.conversations.invalidate({ documentId });
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to delete conversation');
+    },
+  });
+
+  const send = () => {
+    const message = draft.trim();
+    if (!message) return;
+    sendMutation.mutate({
+      documentId,
+      summaryId,
+      conversationId: conversationId === NEW_CONVERSATION ? undefined : conversationId,
+      message,
+    });
+  };
+
+  const thread = conversationId === NEW_CONVERSATION ? [] : messages ?? [];
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <MessageSquare className="mr-2 h-4 w-4" />
+          Chat
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Chat about {bookTitle}</SheetTitle>
+          <SheetDescription>
+            Ask follow-up questions. Answers draw on the book and its summary, with numbered citations.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 px-4">
+          <Select value={conversationId} onValueChange={setConversationId}>
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_CONVERSATION}>New conversation</SelectItem>
+              {conversations?.map((conversation) => (
+                <SelectItem key={conversation.id} value={conversation.id}>
+                  {conversation.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="New conversation"
+            onClick={() => setConversationId(NEW_CONVERSATION)}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Delete conversation"
+            disabled={conversationId === NEW_CONVERSATION || deleteMutation.isPending}
+            onClick={() => {
+              if (confirm('Delete this conversation?')) {
+                deleteMutation.mutate({ conversationId });
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 px-4">
+          {isLoading && conversationId !== NEW_CONVERSATION ? (
+            <Loader2 className="h-6 w-6 animate-spin" />
+          ) : thread.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Ask anything about the book, e.g. "What evidence supports the main argument?"
+            </p>
+          ) : (
+            thread.map((message) => (
+              <div
+                key={message.id}
+                className={
+                  message.role === 'user'
+                    ? 'ml-8 rounded-lg bg-[#F4E4D7] p-3 text-sm'
+                    : 'mr-8 rounded-lg border bg-white p-3 text-sm space-y-2'
+                }
+              >
+                <p className="whitespace-pre-line text-gray-800">{message.content}</p>
+                {message.citations.length > 0 && (
+                  <ul className="space-y-1 border-t pt-2">
+                    {message.citations.map((citation) => (
+                      <li key={citation.number} className="text-xs text-gray-600">
+                        <span className="font-medium">[{citation.number}]</span> {citation.title}: {citation.excerpt}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))
+          )}
+          {sendMutation.isPending && (
+            <div className="mr-8 flex items-center gap-2 rounded-lg border bg-white p-3 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Thinking...
+            </div>
+          )}
+        </div>
+
+        <form
+          className="flex gap-2 px-4 pb-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            send();
+          }}
+        >
+          <Textarea
+            rows={2}
+            placeholder="Ask a question about this book"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                send();
+              }
+            }}
+          />
+          <Button type="submit" disabled={!draft.trim() || sendMutation.isPending} aria-label="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
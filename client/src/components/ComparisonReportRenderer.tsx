@@ -0,0 +1,129 @@
+import type { inferRouterOutputs } from '@trpc/server';
+import type { AppRouter } from '../../../server/routers';
+import { JotsNote, renderFormattedText } from './JotsSummaryRenderer';
+
+type ComparisonReport = NonNullable<inferRouterOutputs<AppRouter>['comparisons']['get']['report']>;
+
+interface ComparisonReportRendererProps {
+  title: string;
+  report: ComparisonReport;
+}
+
+const renderParagraphs = (text: string) => (
+  <div className="text-base sm:text-lg text-gray-800 space-y-4">
+    {text.split('\n\n').map((para, i) => (
+      <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
+    ))}
+  </div>
+);
+
+const renderSectionTitle = (title: string) => (
+  <div className="border-l-4 border-[#D4772E] pl-6 mb-6">
+    <h2 className="text-2xl sm:text-3xl font-bold text-[#2E4057]">{title}</h2>
+  </div>
+);
+
+/**
+ * A cross-book comparison report, laid out like a summary: cover, then the
+ * overview, shared themes, contradictions and depth, with the commentary in
+ * Jots note boxes.
+ */
+export function ComparisonReportRenderer({ title, report }: ComparisonReportRendererProps) {
+  const bookTitle = (book: number) => report.books[book - 1]?.bookTitle ?? `Book ${book}`;
+
+  return (
+    <div className="bg-white min-h-screen">
+      <div className="container py-4 sm:py-8 max-w-4xl px-4">
+        {/* Cover */}
+        <div className="bg-gradient-to-br from-white to-[#F4E4D7] p-6 sm:p-12 rounded-lg shadow-lg mb-8 sm:mb-12 min-h-[300px] flex flex-col justify-center">
+          <h1 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-[#2E4057] mb-6 leading-tight">
+            Comparing {title}
+          </h1>
+          <ul className="space-y-2 text-lg sm:text-xl text-gray-600">
+            {report.books.map((book) => (
+              <li key={book.summaryId}>
+                <span className="italic">{book.bookTitle}</span> by {book.bookAuthor}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="h-1 bg-[#D4772E] mb-8 sm:mb-12"></div>
+
+        <div className="mb-8 sm:mb-12">
+          {renderSectionTitle('Overview')}
+          {renderParagraphs(report.overview)}
+        </div>
+
+        {report.sharedThemes.length > 0 && (
+          <div className="mb-12 sm:mb-16">
+            <div className="h-1 bg-[#D4772E] mb-8 sm:mb-12"></div>
+            {renderSectionTitle('Shared Themes')}
+            {report.sharedThemes.map((theme, i) => (
+              <div key={i} className="mb-8">
+                <h3 className="text-xl sm:text-2xl font-semibold text-[#2E4057] mb-2">{theme.title}</h3>
+                {theme.books.length > 0 && (
+                  <p className="mb-4 text-sm italic text-gray-500">
+                    Covered by {theme.books.map(bookTitle).join(', ')}
+                  </p>
+                )}
+                {renderParagraphs(theme.analysis)}
+                {theme.jotsNotes.map((note, noteIndex) => (
+                  <JotsNote key={noteIndex} note={note} />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report.contradictions.length > 0 && (
+          <div className="mb-12 sm:mb-16">
+            <div className="h-1 bg-[#D4772E] mb-8 sm:mb-12"></div>
+            {renderSectionTitle('Where They Disagree')}
+            {report.contradictions.map((contradiction, i) => (
+              <div key={i} className="mb-8">
+                <h3 className="text-xl sm:text-2xl font-semibold text-[#2E4057] mb-4">{contradiction.title}</h3>
+                {renderParagraphs(contradiction.analysis)}
+                <ul className="mt-4 space-y-2">
+                  {contradiction.positions.map((position, positionIndex) => (
+                    <li key={positionIndex} className="border-l-2 border-gray-300 pl-4 text-gray-800">
+                      <span className="font-semibold text-[#2E4057]">{bookTitle(position.book)}:</span>{' '}
+                      {renderFormattedText(position.position)}
+                    </li>
+                  ))}
+                </ul>
+                {contradiction.jotsNotes.map((note, noteIndex) => (
+                  <JotsNote key={noteIndex} note={note} />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report.depth.length > 0 && (
+          <div className="mb-12 sm:mb-16">
+            <div className="h-1 bg-[#D4772E] mb-8 sm:mb-12"></div>
+            {renderSectionTitle('Who Goes Deeper')}
+            <div className="space-y-6">
+              {report.depth.map((entry, i) => (
+                <div key={i}>
+                  <h3 className="text-xl font-semibold text-[#2E4057]">{entry.topic}</h3>
+                  <p className="mb-2 text-sm italic text-gray-500">Deeper: {bookTitle(entry.deeperBook)}</p>
+                  <p className="leading-relaxed text-gray-800">{renderFormattedText(entry.explanation)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {report.conclusion && (
+          <div className="mb-12">
+            <div className="h-1 bg-[#D4772E] mb-8 sm:mb-12"></div>
+            {renderSectionTitle('Reading Them Together')}
+            {renderParagraphs(report.conclusion)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -35,11 +35,11 @@ export function DocumentUpload({ onUploadSuccess }: DocumentUploadProps) {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       // Validate file type
-      const validTypes = ['.pdf', '.docx', '.txt', '.rtf'];
+      const validTypes = ['.pdf', '.docx', '.epub', '.txt', '.rtf', '.html', '.htm', '.xhtml', '.md', '.markdown'];
       const fileExtension = '.' + selectedFile.name.split('.').pop()?.toLowerCase();
       
       if (!validTypes.includes(fileExtension)) {
-        toast.error('Invalid file type. Please upload .pdf, .docx, .txt, or .rtf files.');
+        toast.error('Invalid file type. Please upload .pdf, .docx, .epub, .txt, .rtf, .html, or .md files.');
         return;
       }
 
@@ -71,7 +71,6 @@ export function DocumentUpload({ onUploadSuccess }: DocumentUploadProps) {
         await uploadMutation.mutateAsync({
           filename: file.name,
           fileData: base64Data,
-          fileSize: file.size,
         });
 
         setUploading(false);
@@ -95,7 +94,7 @@ export function DocumentUpload({ onUploadSuccess }: DocumentUploadProps) {
           Upload Document
         </CardTitle>
         <CardDescription>
-          Upload a .pdf, .docx, .txt, or .rtf file to generate a Jonathan's Jots-style summary
+          Upload a .pdf, .docx, .epub, .txt, .rtf, .html, or .md file to generate a Jonathan's Jots-style summary
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -105,7 +104,7 @@ export function DocumentUpload({ onUploadSuccess }: DocumentUploadProps) {
             id="file-upload"
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.docx,.txt,.rtf"
+            accept=".pdf,.docx,.epub,.txt,.rtf,.html,.htm,.xhtml,.md,.markdown"
             onChange={handleFileChange}
             disabled={uploading}
           />
@@ -0,0 +1,165 @@
+import { useState, type ReactNode } from 'react';
+import type { inferRouterInputs } from '@trpc/server';
+import { Loader2, Pencil, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AppRouter } from '../../../server/routers';
+import { trpc } from '@/lib/trpc';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Textarea } from './ui/textarea';
+
+type SummaryInputs = inferRouterInputs<AppRouter>['summaries'];
+export type EditTarget = SummaryInputs['edit']['target'];
+export type RegenerationTarget = SummaryInputs['regenerate']['target'];
+
+interface EditableSummaryBlockProps {
+  summaryId?: string;
+  target: EditTarget;
+  field: 'title' | 'content';
+  value: string;
+  /** Offer "Regenerate" for this part (sections, subsections and notes). */
+  regenerateTarget?: RegenerationTarget;
+  regenerateLabel?: string;
+  onUpdated?: () => void;
+  children: ReactNode;
+}
+
+/**
+ * Wraps a rendered part of a summary with inline edit and regenerate actions.
+ * Without a `summaryId` (e.g. the live preview) it renders its children as-is.
+ */
+export function EditableSummaryBlock({
+  summaryId,
+  target,
+  field,
+  value,
+  regenerateTarget,
+  regenerateLabel = 'Regenerate',
+  onUpdated,
+  children,
+}: EditableSummaryBlockProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [instruction, setInstruction] = useState('');
+  const [isPopoverOpen, setIsPopoverOpen] = useState(false);
+
+  const editMutation = trpc.summaries.edit.useMutation({
+    onSuccess: () => {
+      setIsEditing(false);
+      toast.success('Changes saved');
+      onUpdated?.();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to save changes');
+    },
+  });
+
+  const regenerateMutation = trpc.summaries.regenerate.useMutation({
+    onSuccess: () => {
+      setInstruction('');
+      toast.success(`${regenerateLabel} complete`);
+      onUpdated?.();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to regenerate');
+    },
+  });
+
+  if (!summaryId) {
+    return <>{children}</>;
+  }
+
+  if (isEditing) {
+    return (
+      <div className="my-2 space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          rows={field === 'title' ? 1 : Math.min(20, Math.max(4, Math.ceil(draft.length / 90)))}
+          className="text-base"
+          autoFocus
+        />
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            disabled={!draft.trim() || editMutation.isPending}
+            onClick={() => editMutation.mutate({ summaryId, target, field, text: draft })}
+          >
+            {editMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsEditing(false)} disabled={editMutation.isPending}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const startRegenerate = () => {
+    if (!regenerateTarget) return;
+    setIsPopoverOpen(false);
+    regenerateMutation.mutate({
+      summaryId,
+      target: regenerateTarget,
+      instruction: instruction.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className={`group/editable relative ${regenerateMutation.isPending ? 'opacity-60' : ''}`}>
+      {children}
+      <div className="absolute -top-2 right-0 flex gap-1 opacity-0 transition-opacity group-hover/editable:opacity-100 focus-within:opacity-100 print:hidden">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 px-2 text-xs bg-white"
+          onClick={() => {
+            setDraft(value);
+            setIsEditing(true);
+          }}
+          disabled={regenerateMutation.isPending}
+        >
+          <Pencil className="mr-1 h-3 w-3" />
+          Edit
+        </Button>
+        {regenerateTarget && (
+          <Popover open={isPopoverOpen} onOpenChange={setIsPopoverOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2 text-xs bg-white"
+                disabled={regenerateMutation.isPending}
+              >
+                {regenerateMutation.isPending ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <Sparkles className="mr-1 h-3 w-3" />
+                )}
+                {regenerateMutation.isPending ? 'Regenerating...' : regenerateLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 space-y-3">
+              <p className="text-sm text-gray-600">
+                Optional instruction, e.g. "more critical" or "add a practical example".
+              </p>
+              <Input
+                value={instruction}
+                onChange={(event) => setInstruction(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') startRegenerate();
+                }}
+                placeholder="Instruction (optional)"
+                maxLength={500}
+              />
+              <Button size="sm" className="w-full" onClick={startRegenerate}>
+                {regenerateLabel}
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { EditableSummaryBlock } from './EditableSummaryBlock';
 
 type SummaryData = {
   id?: string;
@@ -14,11 +15,109 @@ type SummaryData = {
   [key: string]: any;
 };
 
+const RISK_STYLES: Record<string, string> = {
+  low: 'bg-green-50 text-green-800',
+  medium: 'bg-amber-50 text-amber-800',
+  high: 'bg-red-50 text-red-800',
+};
+
+// Research sources the bibliographic catalog could not confirm
+const SOURCE_FLAGS: Record<string, string> = {
+  not_found: 'Not found in the bibliographic catalog',
+  author_mismatch: 'The catalog lists this title under a different author',
+};
+
+const PADDED_LABEL = 'Added by the quality gate';
+
+// e.g. "Quality gate: 86% of targets met · 3 parts filled in afterwards"
+function describeQualityGate(gate: any): string {
+  const details = [
+    `Quality gate: ${Math.round(gate.score * 100)}% of targets met`,
+    gate.padded?.length ? `${gate.padded.length} part${gate.padded.length === 1 ? '' : 's'} filled in afterwards` : '',
+    gate.shortfalls?.length ? `${gate.shortfalls.length} still short` : '',
+  ].filter(Boolean);
+  return details.join(' · ');
+}
+
+// e.g. "High hallucination risk · 2 unsupported quotes"
+function describeSectionGrounding(grounding: any): string {
+  const label = `${grounding.risk.charAt(0).toUpperCase()}${grounding.risk.slice(1)} hallucination risk`;
+  const details = [
+    grounding.unsupportedQuotes ? `${grounding.unsupportedQuotes} unsupported quote${grounding.unsupportedQuotes === 1 ? '' : 's'}` : '',
+    grounding.approximateQuotes ? `${grounding.approximateQuotes} inexact quote${grounding.approximateQuotes === 1 ? '' : 's'}` : '',
+  ].filter(Boolean);
+  return [label, ...details].join(' · ');
+}
+
+// Render text with bold and italic formatting
+export function renderFormattedText(text: string) {
+  // Split by bold markers (**text**)
+  const parts = text.split(/(\*\*.*?\*\*)/g);
+  
+  return parts.map((part: string, i: number) => {
+    if (part.startsWith('**') && part.endsWith('**')) {
+      const innerText = part.slice(2, -2);
+      // Check for italic within bold
+      if (innerText.includes('*')) {
+        const italicParts = innerText.split(/(\*.*?\*)/g);
+        return (
+          <strong key={i}>
+            {italicParts.map((ip: string, j: number) => 
+              ip.startsWith('*') && ip.endsWith('*') && !ip.startsWith('**') ? 
+                <em key={j}>{ip.slice(1, -1)}</em> : ip
+            )}
+          </strong>
+        );
+      }
+      return <strong key={i}>{innerText}</strong>;
+    } else if (part.startsWith('*') && part.endsWith('*') && !part.startsWith('**')) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+}
+
+// Jonathan's Jots notes render in GRAY BACKGROUND BOXES (CRITICAL!)
+export function JotsNote({ note }: { note: { content: string; sources?: any[] } }) {
+  const sources = note.sources ?? [];
+  return (
+    <div className="my-6 p-5 bg-gray-100 border border-gray-300 rounded-md">
+      <p className="text-sm leading-relaxed text-gray-800">
+        <span className="font-semibold text-blue-700">(Jonathan's Jots note:</span>{' '}
+        {renderFormattedText(note.content)}
+        {sources.length > 0 && (
+          <span>
+            {" "}According to{" "}
+            {sources.map((source: any, i: number) => (
+              <span key={i}>
+                <a 
+                  href={source.url} 
+                  target="_blank" 
+                  rel="noopener noreferrer"
+                  className="text-blue-600 underline hover:text-blue-800"
+                >
+                  {source.title}
+                </a>
+                {i < sources.length - 1 && ", "}
+              </span>
+            ))}
+          </span>
+        )}
+        <span className="font-semibold text-blue-700">)</span>
+      </p>
+    </div>
+  );
+}
+
 interface JotsSummaryRendererProps {
   summary: SummaryData;
+  /** Show inline edit and regenerate actions (requires `summary.id`). */
+  editable?: boolean;
+  onUpdated?: () => void;
 }
 
-export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProps) {
+export default function JotsSummaryRenderer({ summary, editable = false, onUpdated }: JotsSummaryRendererProps) {
+  const editableSummaryId = editable ? summary.id : undefined;
   // Parse mainContent JSON
   let parsedContent: any = { sections: [], researchSources: [] };
   try {
@@ -35,34 +134,16 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
   const onePageSummary = summary.onePageSummary || '';
   const sections = parsedContent.sections || [];
   const researchSources = parsedContent.researchSources || [];
+  const qualityGate = parsedContent.qualityGate;
+  const isPadded = (kind: string) => !!qualityGate?.padded?.some((part: any) => part.kind === kind);
 
-  // Helper to render text with bold and italic formatting
-  const renderFormattedText = (text: string) => {
-    // Split by bold markers (**text**)
-    const parts = text.split(/(\*\*.*?\*\*)/g);
-    
-    return parts.map((part: string, i: number) => {
-      if (part.startsWith('**') && part.endsWith('**')) {
-        const innerText = part.slice(2, -2);
-        // Check for italic within bold
-        if (innerText.includes('*')) {
-          const italicParts = innerText.split(/(\*.*?\*)/g);
-          return (
-            <strong key={i}>
-              {italicParts.map((ip: string, j: number) => 
-                ip.startsWith('*') && ip.endsWith('*') && !ip.startsWith('**') ? 
-                  <em key={j}>{ip.slice(1, -1)}</em> : ip
-              )}
-            </strong>
-          );
-        }
-        return <strong key={i}>{innerText}</strong>;
-      } else if (part.startsWith('*') && part.endsWith('*') && !part.startsWith('**')) {
-        return <em key={i}>{part.slice(1, -1)}</em>;
-      }
-      return part;
-    });
-  };
+  // Marks parts the quality gate asked the model for after the first pass
+  const renderPaddedMark = (padded: boolean) =>
+    editable && padded ? (
+      <p className="mb-2 inline-block rounded bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">
+        {PADDED_LABEL}
+      </p>
+    ) : null;
 
   // Helper to render a paragraph with formatting
   const renderParagraph = (text: string, className: string = "") => {
@@ -73,37 +154,6 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
     );
   };
 
-  // Helper to render Jonathan's Jots notes in GRAY BACKGROUND BOXES (CRITICAL!)
-  const renderJotsNote = (note: any) => {
-    return (
-      <div className="my-6 p-5 bg-gray-100 border border-gray-300 rounded-md">
-        <p className="text-sm leading-relaxed text-gray-800">
-          <span className="font-semibold text-blue-700">(Jonathan's Jots note:</span>{' '}
-          {renderFormattedText(note.content)}
-          {note.sources && note.sources.length > 0 && (
-            <span>
-              {" "}According to{" "}
-              {note.sources.map((source: any, i: number) => (
-                <span key={i}>
-                  <a 
-                    href={source.url} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="text-blue-600 underline hover:text-blue-800"
-                  >
-                    {source.title}
-                  </a>
-                  {i < note.sources.length - 1 && ", "}
-                </span>
-              ))}
-            </span>
-          )}
-          <span className="font-semibold text-blue-700">)</span>
-        </p>
-      </div>
-    );
-  };
-
   return (
     <div className="bg-white min-h-screen">
       {/* Content */}
@@ -119,12 +169,21 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
             </h2>
             
             {/* Introduction paragraphs on cover */}
+            {introduction && renderPaddedMark(isPadded('introduction'))}
             {introduction && (
-              <div className="text-base sm:text-lg text-gray-700 space-y-4">
-                {introduction.split('\n\n').map((para: string, i: number) => (
-                  <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
-                ))}
-              </div>
+              <EditableSummaryBlock
+                summaryId={editableSummaryId}
+                target={{ kind: 'introduction' }}
+                field="content"
+                value={introduction}
+                onUpdated={onUpdated}
+              >
+                <div className="text-base sm:text-lg text-gray-700 space-y-4">
+                  {introduction.split('\n\n').map((para: string, i: number) => (
+                    <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
+                  ))}
+                </div>
+              </EditableSummaryBlock>
             )}
           </div>
           
@@ -141,6 +200,13 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
         {/* Cognac Separator Bar */}
         <div className="h-1 bg-[#D4772E] mb-8 sm:mb-12"></div>
 
+        {/* How the summary measured up against its targets, for reviewers */}
+        {editable && qualityGate && (
+          <p className={`mb-8 inline-block rounded px-2 py-0.5 text-xs font-medium ${qualityGate.passed ? RISK_STYLES.low : RISK_STYLES.medium}`}>
+            {describeQualityGate(qualityGate)}
+          </p>
+        )}
+
         {/* 1-Page Summary Section */}
         {onePageSummary && (
           <>
@@ -150,11 +216,20 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
                   1-Page Summary
                 </h2>
               </div>
-              <div className="text-base sm:text-lg text-gray-800 space-y-4">
-                {onePageSummary.split('\n\n').map((para: string, i: number) => (
-                  <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
-                ))}
-              </div>
+              {renderPaddedMark(isPadded('onePageSummary'))}
+              <EditableSummaryBlock
+                summaryId={editableSummaryId}
+                target={{ kind: 'onePageSummary' }}
+                field="content"
+                value={onePageSummary}
+                onUpdated={onUpdated}
+              >
+                <div className="text-base sm:text-lg text-gray-800 space-y-4">
+                  {onePageSummary.split('\n\n').map((para: string, i: number) => (
+                    <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
+                  ))}
+                </div>
+              </EditableSummaryBlock>
             </div>
 
             {/* Cognac Separator Bar */}
@@ -166,36 +241,115 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
         {sections.map((section: any, sectionIndex: number) => (
           <div key={sectionIndex} className="mb-12 sm:mb-16">
             {/* Section Title */}
-            <div className="border-l-4 border-[#D4772E] pl-6 mb-6">
-              <h2 className="text-2xl sm:text-3xl font-bold text-[#2E4057]">
-                {section.title}
-              </h2>
-            </div>
+            <EditableSummaryBlock
+              summaryId={editableSummaryId}
+              target={{ kind: 'section', sectionIndex }}
+              field="title"
+              value={section.title || ''}
+              regenerateTarget={{ kind: 'section', sectionIndex }}
+              regenerateLabel="Regenerate section"
+              onUpdated={onUpdated}
+            >
+              <div className="border-l-4 border-[#D4772E] pl-6 mb-6">
+                <h2 className="text-2xl sm:text-3xl font-bold text-[#2E4057]">
+                  {section.title}
+                </h2>
+                {editable && section.grounding && (
+                  <p className={`mt-2 inline-block rounded px-2 py-0.5 text-xs font-medium ${RISK_STYLES[section.grounding.risk] ?? RISK_STYLES.medium}`}>
+                    {describeSectionGrounding(section.grounding)}
+                  </p>
+                )}
+                {editable && section.machinePadded && (
+                  <p className="mt-2 ml-2 inline-block rounded bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">
+                    {PADDED_LABEL}
+                  </p>
+                )}
+              </div>
+            </EditableSummaryBlock>
 
             {/* Subsections */}
             {section.subsections && section.subsections.map((subsection: any, subIndex: number) => (
               <div key={subIndex} className="mb-8">
                 {/* Subsection Title */}
                 {subsection.title && (
-                  <h3 className="text-xl sm:text-2xl font-semibold text-[#2E4057] mb-4">
-                    {subsection.title}
-                  </h3>
+                  <EditableSummaryBlock
+                    summaryId={editableSummaryId}
+                    target={{ kind: 'subsection', sectionIndex, subsectionIndex: subIndex }}
+                    field="title"
+                    value={subsection.title}
+                    regenerateTarget={{ kind: 'subsection', sectionIndex, subsectionIndex: subIndex }}
+                    regenerateLabel="Regenerate subsection"
+                    onUpdated={onUpdated}
+                  >
+                    <h3 className="text-xl sm:text-2xl font-semibold text-[#2E4057] mb-4">
+                      {subsection.title}
+                    </h3>
+                  </EditableSummaryBlock>
+                )}
+
+                {renderPaddedMark(!section.machinePadded && subsection.machinePadded)}
+
+                {/* Where in the book this comes from */}
+                {subsection.source?.label && (
+                  <p className="-mt-2 mb-4 text-sm italic text-gray-500">
+                    from {subsection.source.label}
+                  </p>
+                )}
+
+                {/* Grounding problems, for reviewers */}
+                {editable && subsection.grounding && subsection.grounding.risk !== 'low' && (
+                  <div className="mb-4 rounded border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                    {(subsection.grounding.quotes || [])
+                      .filter((quote: any) => quote.status !== 'verified')
+                      .map((quote: any, i: number) => (
+                        <p key={i} className="mb-1">
+                          <span className="font-semibold">
+                            {quote.status === 'unsupported' ? 'Quote not found in the source:' : 'Quote differs from the source:'}
+                          </span>{' '}
+                          “{quote.text}”
+                        </p>
+                      ))}
+                    {!subsection.source && (
+                      <p className="mb-1">No supporting passage found in the source.</p>
+                    )}
+                    {subsection.grounding.judgement && (
+                      <p className="mb-1 italic">Reviewer model: {subsection.grounding.judgement.explanation}</p>
+                    )}
+                  </div>
                 )}
 
                 {/* Subsection Content */}
                 {subsection.content && (
-                  <div className="text-base sm:text-lg text-gray-800 space-y-4">
-                    {subsection.content.split('\n\n').map((para: string, i: number) => (
-                      <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
-                    ))}
-                  </div>
+                  <EditableSummaryBlock
+                    summaryId={editableSummaryId}
+                    target={{ kind: 'subsection', sectionIndex, subsectionIndex: subIndex }}
+                    field="content"
+                    value={subsection.content}
+                    onUpdated={onUpdated}
+                  >
+                    <div className="text-base sm:text-lg text-gray-800 space-y-4">
+                      {subsection.content.split('\n\n').map((para: string, i: number) => (
+                        <p key={i} className="leading-relaxed">{renderFormattedText(para)}</p>
+                      ))}
+                    </div>
+                  </EditableSummaryBlock>
                 )}
 
                 {/* Jonathan's Jots Notes - GRAY BOXES */}
                 {subsection.jotsNotes && subsection.jotsNotes.map((note: any, noteIndex: number) => (
-                  <div key={noteIndex}>
-                    {renderJotsNote(note)}
-                  </div>
+                  <EditableSummaryBlock
+                    key={noteIndex}
+                    summaryId={editableSummaryId}
+                    target={{ kind: 'note', sectionIndex, subsectionIndex: subIndex, noteIndex }}
+                    field="content"
+                    value={note.content || ''}
+                    regenerateTarget={{ kind: 'note', sectionIndex, subsectionIndex: subIndex, noteIndex }}
+                    regenerateLabel="Regenerate note"
+                    onUpdated={onUpdated}
+                  >
+                    {renderPaddedMark(!subsection.machinePadded && !section.machinePadded && note.machinePadded)}
+                    <JotsNote note={note} />
+                  </EditableSummaryBlock>
                 ))}
               </div>
             ))}
@@ -226,6 +380,19 @@ export default function JotsSummaryRenderer({ summary }: JotsSummaryRendererProp
                     <p className="text-gray-700 text-sm mt-1">
                       by {source.author} {source.authorCredentials && `(${source.authorCredentials})`}
                     </p>
+                    {source.isbn && (
+                      <p className="text-gray-500 text-xs mt-1">ISBN {source.isbn}</p>
+                    )}
+                    {editable && source.machinePadded && (
+                      <p className="mt-2 mr-2 inline-block rounded bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">
+                        {PADDED_LABEL}
+                      </p>
+                    )}
+                    {editable && SOURCE_FLAGS[source.verificationStatus] && (
+                      <p className={`mt-2 inline-block rounded px-2 py-0.5 text-xs font-medium ${RISK_STYLES.high}`}>
+                        {SOURCE_FLAGS[source.verificationStatus]}
+                      </p>
+                    )}
                     {source.relevance && (
                       <p className="text-gray-600 text-sm mt-2 italic">
                         {source.relevance}
@@ -14,24 +14,28 @@ interface LiveSummaryPreviewProps {
 export function LiveSummaryPreview({ summaryId, onComplete, onBack }: LiveSummaryPreviewProps) {
   const [isGenerating, setIsGenerating] = useState(true);
   
-  // Poll for progress updates
-  const { data: progress } = trpc.summaries.progress.useQuery(
+  // Live progress, including the summary text as it streams in
+  const { data: progress } = trpc.summaries.stream.useSubscription(
     { summaryId },
-    {
-      enabled: isGenerating,
-      refetchInterval: 1000, // Poll every second
-    }
+    { enabled: isGenerating }
   );
 
-  // Poll for summary data
+  // Poll for summary status (the stream only carries progress)
   const { data: summary, refetch } = trpc.summaries.get.useQuery(
     { summaryId },
     {
       enabled: true,
-      refetchInterval: isGenerating ? 2000 : false, // Poll every 2 seconds while generating
+      refetchInterval: isGenerating ? 5000 : false,
     }
   );
 
+  // Pick up the finished summary as soon as the stream reports completion
+  useEffect(() => {
+    if (progress?.stage === 'Complete!') {
+      refetch();
+    }
+  }, [progress?.stage, refetch]);
+
   useEffect(() => {
     if (summary?.status === 'completed') {
       setIsGenerating(false);
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import type { inferRouterOutputs } from '@trpc/server';
+import { ArrowLeft, History, Loader2, RotateCcw, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AppRouter } from '../../../server/routers';
+import { trpc } from '@/lib/trpc';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+
+type SummaryOutputs = inferRouterOutputs<AppRouter>['summaries'];
+type VersionInfo = SummaryOutputs['versions'][number];
+type SummaryDiff = SummaryOutputs['diffVersions']['diff'];
+type TextDiff = SummaryDiff['introduction'];
+
+const ROUTED_MODEL = 'routed';
+
+const CHANGE_LABELS: Record<string, string> = {
+  generated: 'Generated',
+  regenerated: 'Regenerated',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+interface SummaryVersionHistoryProps {
+  summaryId: string;
+  onChanged?: () => void;
+}
+
+/**
+ * Side panel listing a summary's versions, with a section-by-section
+ * comparison of any two, restore, and a full re-run with a chosen model.
+ */
+export function SummaryVersionHistory({ summaryId, onChanged }: SummaryVersionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<{ fromVersionId: string; toVersionId: string } | null>(null);
+  const [rerunModel, setRerunModel] = useState(ROUTED_MODEL);
+
+  const utils = trpc.useUtils();
+  const { data: versions, isLoading } = trpc.summaries.versions.useQuery({ summaryId }, { enabled: open });
+  const { data: models } = trpc.summaries.availableModels.useQuery(undefined, { enabled: open });
+  const { data: comparison, isLoading: diffLoading } = trpc.summaries.diffVersions.useQuery(
+    { summaryId, fromVersionId: comparing?.fromVersionId ?? '', toVersionId: comparing?.toVersionId ?? '' },
+    { enabled: open && !!comparing }
+  );
+
+  const restoreMutation = trpc.summaries.restoreVersion.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Restored as version ${data.version.versionNumber}`);
+      utils.summaries.versions.invalidate({ summaryId });
+      onChanged?.();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to restore version');
+    },
+  });
+
+  const rerunMutation = trpc.summaries.rerun.useMutation({
+    onSuccess: () => {
+      toast.success('Summary re-run started');
+      setOpen(false);
+      onChanged?.();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to start re-run');
+    },
+  });
+
+  const toggleSelected = (versionId: string) => {
+    setSelected((current) =>
+      current.includes(versionId)
+        ? current.filter((id) => id !== versionId)
+        : [...current, versionId].slice(-2)
+    );
+  };
+
+  const startCompare = () => {
+    if (!versions || selected.length !== 2) return;
+    // Always diff older -> newer, whatever order the versions were picked in
+    const [older, newer] = versions
+      .filter((version) => selected.includes(version.id))
+      .sort((a, b) => a.versionNumber - b.versionNumber);
+    setComparing({ fromVersionId: older.id, toVersionId: newer.id });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <History className="mr-2 h-4 w-4" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>
+            Every generation, regeneration, edit and restore. Select two versions to compare them.
+          </SheetDescription>
+        </SheetHeader>
+
+        {comparing ? (
+          <div className="space-y-4 px-4 pb-6">
+            <Button variant="ghost" size="sm" onClick={() => setComparing(null)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to versions
+            </Button>
+            {diffLoading || !comparison ? (
+              <Loader2 className="h-6 w-6 animate-spin" />
+            ) : (
+              <VersionDiff from={comparison.from} to={comparison.to} diff={comparison.diff} />
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 px-4 pb-6">
+            <div className="rounded-md border p-3 space-y-2">
+              <p className="text-sm font-medium">Re-run the whole summary</p>
+              <div className="flex gap-2">
+                <Select value={rerunModel} onValueChange={setRerunModel}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ROUTED_MODEL}>Default routing</SelectItem>
+                    {models?.map((option) => (
+                      <SelectItem key={option.model} value={option.model}>
+                        {option.model} ({option.provider})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() =>
+                    rerunMutation.mutate({
+                      summaryId,
+                      model: rerunModel === ROUTED_MODEL ? undefined : rerunModel,
+                    })
+                  }
+                  disabled={rerunMutation.isPending}
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  {rerunMutation.isPending ? 'Starting...' : 'Re-run'}
+                </Button>
+              </div>
+            </div>
+
+            <Button size="sm" disabled={selected.length !== 2} onClick={startCompare}>
+              Compare selected
+            </Button>
+
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin" />
+            ) : !versions?.length ? (
+              <p className="text-sm text-gray-600">No versions recorded yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {versions.map((version, index) => (
+                  <li key={version.id} className="flex items-start gap-3 rounded-md border p-3">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.includes(version.id)}
+                      onChange={() => toggleSelected(version.id)}
+                      aria-label={`Select version ${version.versionNumber}`}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">v{version.versionNumber}</span>
+                        <Badge variant="secondary">{CHANGE_LABELS[version.changeType] ?? version.changeType}</Badge>
+                        {index === 0 && <Badge variant="outline">Current</Badge>}
+                      </div>
+                      {version.changeDescription && (
+                        <p className="text-sm text-gray-700 break-words">{version.changeDescription}</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {version.createdAt ? new Date(version.createdAt).toLocaleString() : ''} · {version.authorId}
+                        {version.model ? ` · ${version.model}` : ''}
+                        {version.promptVersion ? ` · ${version.promptVersion}` : ''}
+                      </p>
+                    </div>
+                    {index > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={restoreMutation.isPending}
+                        onClick={() => restoreMutation.mutate({ summaryId, versionId: version.id })}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Restore
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function VersionDiff({ from, to, diff }: { from: VersionInfo; to: VersionInfo; diff: SummaryDiff }) {
+  const describe = (version: VersionInfo) =>
+    `v${version.versionNumber}${version.model ? ` (${version.model})` : ''}`;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {describe(from)} → {describe(to)}: {diff.stats.wordsAdded} words added, {diff.stats.wordsRemoved} removed
+        {diff.stats.sectionsAdded > 0 && `, ${diff.stats.sectionsAdded} sections added`}
+        {diff.stats.sectionsRemoved > 0 && `, ${diff.stats.sectionsRemoved} sections removed`}
+      </p>
+
+      <DiffBlock label="Title" diff={diff.bookTitle} />
+      <DiffBlock label="Author" diff={diff.bookAuthor} />
+      <DiffBlock label="Introduction" diff={diff.introduction} />
+      <DiffBlock label="1-Page Summary" diff={diff.onePageSummary} />
+
+      {diff.sections.map((section, sectionIndex) => (
+        <div key={sectionIndex} className="rounded-md border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold">
+              <DiffText diff={section.title} />
+            </h3>
+            <StatusBadge status={section.status} />
+          </div>
+          {section.status !== 'unchanged' &&
+            section.subsections
+              .filter((subsection) => subsection.status !== 'unchanged')
+              .map((subsection, subsectionIndex) => (
+                <div key={subsectionIndex} className="space-y-2 border-l-2 pl-3">
+                  <h4 className="font-medium">
+                    <DiffText diff={subsection.title} />
+                  </h4>
+                  <p className="text-sm whitespace-pre-wrap">
+                    <DiffText diff={subsection.content} />
+                  </p>
+                  {subsection.notes
+                    .filter((note) => note.status !== 'unchanged')
+                    .map((note, noteIndex) => (
+                      <p key={noteIndex} className="text-sm bg-gray-50 p-2 rounded">
+                        <DiffText diff={note} />
+                      </p>
+                    ))}
+                </div>
+              ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DiffBlock({ label, diff }: { label: string; diff: TextDiff }) {
+  if (diff.status === 'unchanged') return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-semibold uppercase text-gray-500">{label}</p>
+      <p className="text-sm whitespace-pre-wrap">
+        <DiffText diff={diff} />
+      </p>
+    </div>
+  );
+}
+
+function DiffText({ diff }: { diff: TextDiff }) {
+  return (
+    <>
+      {diff.segments.map((segment, index) =>
+        segment.type === 'insert' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{segment.text}</ins>
+        ) : segment.type === 'delete' ? (
+          <del key={index} className="bg-red-100 text-red-900">{segment.text}</del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function StatusBadge({ status }: { status: TextDiff['status'] }) {
+  switch (status) {
+    case 'added':
+      return <Badge className="bg-green-500">Added</Badge>;
+    case 'removed':
+      return <Badge variant="destructive">Removed</Badge>;
+    case 'changed':
+      return <Badge variant="secondary">Changed</Badge>;
+    default:
+      return <Badge variant="outline">Unchanged</Badge>;
+  }
+}
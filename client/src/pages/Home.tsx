@@ -6,16 +6,23 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { getLoginUrl } from '@/const';
 import { trpc } from '@/lib/trpc';
 import { DocumentUpload } from '@/components/DocumentUpload';
 import { JotsLogo } from '@/components/JotsLogo';
 import { GeneratingLoader } from '@/components/GeneratingLoader';
 import { LiveSummaryPreview } from '@/components/LiveSummaryPreview';
+import { SummaryVersionHistory } from '@/components/SummaryVersionHistory';
+import { BookChatPanel } from '@/components/BookChatPanel';
+import { ComparisonReportRenderer } from '@/components/ComparisonReportRenderer';
+import { Checkbox } from '@/components/ui/checkbox';
 import JotsSummaryRenderer from "@/components/JotsSummaryRenderer";
-import { FileText, Loader2, BookOpen, RefreshCw, Eye, Trash2 } from 'lucide-react';
+import { FileText, Loader2, BookOpen, RefreshCw, Eye, Trash2, Search, GitCompare } from 'lucide-react';
 import { toast } from 'sonner';
-import { Download } from 'lucide-react';
+import { Download, Languages } from 'lucide-react';
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
 
 export default function Home() {
   const { user, loading } = useAuth();
@@ -23,6 +30,16 @@ export default function Home() {
   const [viewingSummaryId, setViewingSummaryId] = useState<string | null>(null);
   const [bookTitle, setBookTitle] = useState('');
   const [bookAuthor, setBookAuthor] = useState('');
+  const [summaryStyle, setSummaryStyle] = useState('deep-dive');
+  const [lengthPreset, setLengthPreset] = useState<'' | 'skim' | 'standard' | 'exhaustive'>('');
+  const [summaryLanguage, setSummaryLanguage] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchNoteType, setSearchNoteType] = useState<'' | 'Comparative' | 'Context' | 'Critique' | 'Practical' | 'Expert'>('');
+  const [searchAuthor, setSearchAuthor] = useState('');
+  const [libraryQuestion, setLibraryQuestion] = useState('');
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const [viewingComparisonId, setViewingComparisonId] = useState<string | null>(null);
 
   const utils = trpc.useUtils();
 
@@ -44,11 +61,74 @@ export default function Home() {
     { enabled: !!viewingSummaryId }
   );
 
+  // Fetch comparison reports
+  const { data: comparisons } = trpc.comparisons.list.useQuery(
+    undefined,
+    { refetchInterval: 5000 }
+  );
+
+  const { data: viewingComparison } = trpc.comparisons.get.useQuery(
+    { comparisonId: viewingComparisonId! },
+    { enabled: !!viewingComparisonId }
+  );
+
+  const { data: comparisonExportFormats } = trpc.comparisons.exportFormats.useQuery(undefined, {
+    enabled: !!viewingComparisonId,
+    staleTime: Infinity,
+  });
+
+  const { data: summaryStyles } = trpc.promptTemplates.styles.useQuery(undefined, {
+    staleTime: 60000,
+  });
+  const selectedStyle = summaryStyles?.find((template) => template.style === summaryStyle);
+
+  const { data: exportFormats } = trpc.summaries.exportFormats.useQuery(undefined, {
+    enabled: !!viewingSummaryId,
+    staleTime: Infinity,
+  });
+
+  const { data: languages } = trpc.summaries.languages.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  // Remaining generation and storage allowance
+  const { data: usage } = trpc.usage.me.useQuery();
+
+  // Search the library once a query has been submitted
+  const { data: searchResults, isFetching: searching } = trpc.search.query.useQuery(
+    {
+      query: searchQuery,
+      noteType: searchNoteType || undefined,
+      author: searchAuthor.trim() || undefined,
+    },
+    { enabled: searchQuery.trim().length > 0 }
+  );
+
+  // Ask a question across the whole library
+  const askLibraryMutation = trpc.library.ask.useMutation({
+    onError: (error) => {
+      toast.error(error.message || 'Failed to answer the question');
+    },
+  });
+
+  // Translate the summary being viewed and switch to the translation
+  const translateSummaryMutation = trpc.summaries.translate.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      utils.summaries.list.invalidate();
+      setViewingSummaryId(result.summaryId);
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to translate summary');
+    },
+  });
+
   // Generate summary mutation
   const generateSummaryMutation = trpc.summaries.generate.useMutation({
     onSuccess: () => {
       toast.success('Summary generation started!');
       utils.summaries.list.invalidate();
+      utils.usage.me.invalidate();
       setSelectedDocumentId(null);
       setBookTitle('');
       setBookAuthor('');
@@ -63,6 +143,7 @@ export default function Home() {
     onSuccess: () => {
       toast.success('Document deleted successfully');
       utils.documents.list.invalidate();
+      utils.usage.me.invalidate();
     },
     onError: (error) => {
       toast.error(error.message || 'Failed to delete document');
@@ -80,29 +161,34 @@ export default function Home() {
     },
   });
 
-  const exportPDFMutation = trpc.summaries.exportPDF.useMutation({
-    onSuccess: (data) => {
-      // Convert base64 to blob and download
-      const byteCharacters = atob(data.pdfData);
-      const byteNumbers = new Array(byteCharacters.length);
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
-      }
-      const byteArray = new Uint8Array(byteNumbers);
-      const blob = new Blob([byteArray], { type: 'application/pdf' });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = data.filename;
-      link.click();
-      window.URL.revokeObjectURL(url);
-      toast.success('PDF exported successfully');
+  // Compare the selected summaries
+  const createComparisonMutation = trpc.comparisons.create.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.message);
+      setCompareSelection([]);
+      utils.comparisons.list.invalidate();
     },
     onError: (error) => {
-      toast.error(`Failed to export PDF: ${error.message}`);
+      toast.error(error.message || 'Failed to compare summaries');
     },
   });
 
+  const deleteComparisonMutation = trpc.comparisons.delete.useMutation({
+    onSuccess: () => {
+      toast.success('Comparison deleted successfully');
+      utils.comparisons.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete comparison: ${error.message}`);
+    },
+  });
+
+  const toggleCompareSelection = (summaryId: string, selected: boolean) => {
+    setCompareSelection((current) =>
+      selected ? [...current, summaryId] : current.filter((id) => id !== summaryId)
+    );
+  };
+
   const handleGenerateSummary = () => {
     if (!selectedDocumentId) {
       toast.error('Please select a document first');
@@ -113,6 +199,9 @@ export default function Home() {
       documentId: selectedDocumentId,
       bookTitle: bookTitle || undefined,
       bookAuthor: bookAuthor || undefined,
+      style: summaryStyle,
+      length: lengthPreset ? { preset: lengthPreset } : undefined,
+      language: languages?.find((option) => option.code === summaryLanguage)?.code,
     });
   };
 
@@ -138,6 +227,42 @@ export default function Home() {
     );
   }
 
+  // If viewing a finished comparison, show the report
+  if (viewingComparison?.status === 'completed' && viewingComparison.report) {
+    return (
+      <div>
+        <div className="border-b-4 border-[#D4772E] bg-white sticky top-0 z-10 shadow-sm">
+          <div className="container py-4 flex items-center justify-between">
+            <JotsLogo />
+            <div className="flex gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(comparisonExportFormats ?? []).map((option) => (
+                    <DropdownMenuItem key={option.format} asChild>
+                      <a href={`/api/comparisons/${viewingComparison.id}/export/${option.format}`} download>
+                        {option.label} (.{option.extension})
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button onClick={() => setViewingComparisonId(null)} variant="outline">
+                ← Back to Dashboard
+              </Button>
+            </div>
+          </div>
+        </div>
+        <ComparisonReportRenderer title={viewingComparison.title} report={viewingComparison.report} />
+      </div>
+    );
+  }
+
   // If viewing a summary, show appropriate view
   if (viewingSummary) {
     if (viewingSummary.status === 'generating') {
@@ -160,21 +285,76 @@ export default function Home() {
           <div className="container py-4 flex items-center justify-between">
             <JotsLogo />
             <div className="flex gap-2">
-              <Button 
-                onClick={() => exportPDFMutation.mutate({ summaryId: viewingSummary.id })}
-                variant="outline"
-                disabled={exportPDFMutation.isPending}
-              >
-                <Download className="mr-2 h-4 w-4" />
-                {exportPDFMutation.isPending ? 'Exporting...' : 'Export PDF'}
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(exportFormats ?? []).map((option) => (
+                    <DropdownMenuItem key={option.format} asChild>
+                      <a href={`/api/summaries/${viewingSummary.id}/export/${option.format}`} download>
+                        {option.label} (.{option.extension})
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={translateSummaryMutation.isPending}>
+                    {translateSummaryMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Languages className="mr-2 h-4 w-4" />
+                    )}
+                    Translate
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(languages ?? [])
+                    .filter((option) => option.code !== (viewingSummary.language ?? 'en'))
+                    .map((option) => (
+                      <DropdownMenuItem
+                        key={option.code}
+                        onSelect={() =>
+                          translateSummaryMutation.mutate({ summaryId: viewingSummary.id, language: option.code })
+                        }
+                      >
+                        {option.name}
+                      </DropdownMenuItem>
+                    ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <BookChatPanel
+                documentId={viewingSummary.documentId}
+                summaryId={viewingSummary.id}
+                bookTitle={viewingSummary.bookTitle || 'this book'}
+              />
+              <SummaryVersionHistory
+                summaryId={viewingSummary.id}
+                onChanged={() => {
+                  utils.summaries.get.invalidate({ summaryId: viewingSummary.id });
+                  utils.summaries.list.invalidate();
+                }}
+              />
               <Button onClick={() => setViewingSummaryId(null)} variant="outline">
                 ← Back to Dashboard
               </Button>
             </div>
           </div>
         </div>
-        <JotsSummaryRenderer summary={viewingSummary} />
+        <JotsSummaryRenderer
+          summary={viewingSummary}
+          editable
+          onUpdated={() => {
+            utils.summaries.get.invalidate({ summaryId: viewingSummary.id });
+            utils.summaries.list.invalidate();
+            utils.summaries.versions.invalidate({ summaryId: viewingSummary.id });
+          }}
+        />
       </div>
     );
     }
@@ -201,7 +381,7 @@ export default function Home() {
           </div>
 
           <Tabs defaultValue="upload" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-1 sm:grid-cols-3 gap-2 h-auto p-2 bg-white border border-gray-200">
+            <TabsList className="grid w-full grid-cols-1 sm:grid-cols-4 gap-2 h-auto p-2 bg-white border border-gray-200">
               <TabsTrigger value="upload" className="py-3 px-4 text-sm sm:text-base">
                 Upload Document
               </TabsTrigger>
@@ -211,6 +391,9 @@ export default function Home() {
               <TabsTrigger value="summaries" className="py-3 px-4 text-sm sm:text-base">
                 My Summaries {summaries && `(${summaries.length})`}
               </TabsTrigger>
+              <TabsTrigger value="search" className="py-3 px-4 text-sm sm:text-base">
+                Search
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="upload" className="space-y-4 sm:space-y-6">
@@ -219,6 +402,7 @@ export default function Home() {
                   onUploadSuccess={(docId) => {
                     setSelectedDocumentId(docId);
                     utils.documents.list.invalidate();
+                    utils.usage.me.invalidate();
                   }}
                 />
 
@@ -269,6 +453,57 @@ export default function Home() {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="summary-style">Summary Style</Label>
+                      <select
+                        id="summary-style"
+                        className="w-full p-2 border rounded-md"
+                        value={summaryStyle}
+                        onChange={(e) => setSummaryStyle(e.target.value)}
+                      >
+                        {(summaryStyles ?? []).map((template) => (
+                          <option key={template.style} value={template.style}>
+                            {template.name}{template.userId ? ` (your version ${template.version})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                      {selectedStyle?.description && (
+                        <p className="text-xs text-muted-foreground">{selectedStyle.description}</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="summary-length">Length</Label>
+                      <select
+                        id="summary-length"
+                        className="w-full p-2 border rounded-md"
+                        value={lengthPreset}
+                        onChange={(e) => setLengthPreset(e.target.value as typeof lengthPreset)}
+                      >
+                        <option value="">Style default</option>
+                        <option value="skim">Skim (about 600 words)</option>
+                        <option value="standard">Standard (4,000-6,000 words)</option>
+                        <option value="exhaustive">Exhaustive (8,000-12,000 words)</option>
+                      </select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="summary-language">Language</Label>
+                      <select
+                        id="summary-language"
+                        className="w-full p-2 border rounded-md"
+                        value={summaryLanguage}
+                        onChange={(e) => setSummaryLanguage(e.target.value)}
+                      >
+                        <option value="">Same as the document</option>
+                        {(languages ?? []).map((option) => (
+                          <option key={option.code} value={option.code}>
+                            {option.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     <Button
                       onClick={handleGenerateSummary}
                       disabled={!selectedDocumentId || generateSummaryMutation.isPending}
@@ -288,6 +523,16 @@ export default function Home() {
                       )}
                     </Button>
 
+                    {usage && (usage.dailyGenerations.remaining !== null || usage.storageBytes.limit !== null) && (
+                      <p className="text-sm text-muted-foreground">
+                        {usage.dailyGenerations.remaining !== null &&
+                          `${usage.dailyGenerations.remaining} of ${usage.dailyGenerations.limit} summaries left today`}
+                        {usage.dailyGenerations.remaining !== null && usage.storageBytes.limit !== null && ' · '}
+                        {usage.storageBytes.limit !== null &&
+                          `${formatMegabytes(usage.storageBytes.used)} of ${formatMegabytes(usage.storageBytes.limit)} storage used`}
+                      </p>
+                    )}
+
                     <div className="text-xs text-muted-foreground space-y-1">
                       <p>• Summary generation takes 2-5 minutes</p>
                       <p>• AI will research 5-10 related books and sources</p>
@@ -362,11 +607,27 @@ export default function Home() {
               </Card>
             </TabsContent>
 
-            <TabsContent value="summaries">
+            <TabsContent value="summaries" className="space-y-4 sm:space-y-6">
               <Card>
-                <CardHeader>
-                  <CardTitle>Generated Summaries</CardTitle>
-                  <CardDescription>View your Jonathan's Jots-style summaries</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>Generated Summaries</CardTitle>
+                    <CardDescription>
+                      View your Jonathan's Jots-style summaries, or select two or more to compare them
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    disabled={compareSelection.length < 2 || createComparisonMutation.isPending}
+                    onClick={() => createComparisonMutation.mutate({ summaryIds: compareSelection })}
+                  >
+                    {createComparisonMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <GitCompare className="mr-2 h-4 w-4" />
+                    )}
+                    Compare{compareSelection.length > 0 && ` (${compareSelection.length})`}
+                  </Button>
                 </CardHeader>
                 <CardContent>
                   {summariesLoading ? (
@@ -385,6 +646,12 @@ export default function Home() {
                           className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50"
                         >
                           <div className="flex items-center gap-3">
+                            <Checkbox
+                              aria-label="Select for comparison"
+                              disabled={summary.status !== 'completed'}
+                              checked={compareSelection.includes(summary.id)}
+                              onCheckedChange={(checked) => toggleCompareSelection(summary.id, checked === true)}
+                            />
                             <BookOpen className="h-5 w-5 text-[#D4772E]" />
                             <div>
                               <p className="font-medium">
@@ -436,6 +703,240 @@ export default function Home() {
                   )}
                 </CardContent>
               </Card>
+
+              {comparisons && comparisons.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Comparisons</CardTitle>
+                    <CardDescription>Shared themes, contradictions and which book goes deeper on what</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {comparisons.map((comparison) => (
+                        <div
+                          key={comparison.id}
+                          className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50"
+                        >
+                          <div className="flex items-center gap-3">
+                            <GitCompare className="h-5 w-5 text-[#D4772E]" />
+                            <div>
+                              <p className="font-medium">{comparison.title}</p>
+                              <p className="text-sm text-gray-500">
+                                {comparison.bookCount} books
+                                {comparison.status === 'failed' && comparison.errorMessage && ` • ${comparison.errorMessage}`}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {getStatusBadge(comparison.status)}
+                            {comparison.status === 'completed' && (
+                              <Button
+                                size="sm"
+                                onClick={() => setViewingComparisonId(comparison.id)}
+                              >
+                                <Eye className="mr-2 h-4 w-4" />
+                                View Report
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                if (confirm('Are you sure you want to delete this comparison?')) {
+                                  deleteComparisonMutation.mutate({ comparisonId: comparison.id });
+                                }
+                              }}
+                              disabled={deleteComparisonMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="search" className="space-y-4 sm:space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Ask Your Library</CardTitle>
+                  <CardDescription>
+                    Ask a question across every book you have summarized, e.g. "Which books discuss habit formation?"
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form
+                    className="flex flex-col sm:flex-row gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      askLibraryMutation.mutate({ question: libraryQuestion.trim() });
+                    }}
+                  >
+                    <Input
+                      placeholder="Ask a question"
+                      value={libraryQuestion}
+                      onChange={(e) => setLibraryQuestion(e.target.value)}
+                    />
+                    <Button
+                      type="submit"
+                      disabled={libraryQuestion.trim().length < 3 || askLibraryMutation.isPending}
+                    >
+                      {askLibraryMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <BookOpen className="mr-2 h-4 w-4" />
+                      )}
+                      Ask
+                    </Button>
+                  </form>
+
+                  {askLibraryMutation.data && (
+                    <div className="space-y-3">
+                      {askLibraryMutation.data.answer ? (
+                        <p className="text-sm text-gray-800 whitespace-pre-line">{askLibraryMutation.data.answer}</p>
+                      ) : askLibraryMutation.data.sources.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-4">
+                          Nothing in your library matches this question yet
+                        </p>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          No AI model is configured, so here are the most relevant passages.
+                        </p>
+                      )}
+                      {(askLibraryMutation.data.answer
+                        ? askLibraryMutation.data.citations
+                        : askLibraryMutation.data.sources
+                      ).map((source) => (
+                        <div key={source.number} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                          <div className="space-y-1">
+                            <p className="text-sm font-medium">
+                              [{source.number}] {source.bookTitle} • {source.title}
+                            </p>
+                            <p className="text-sm text-gray-600">{source.excerpt}</p>
+                          </div>
+                          {source.summaryId && (
+                            <Button size="sm" variant="outline" onClick={() => setViewingSummaryId(source.summaryId)}>
+                              <Eye className="mr-2 h-4 w-4" />
+                              View
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Search Your Library</CardTitle>
+                  <CardDescription>
+                    Find passages, summary sections, Jots notes and research sources. Use "quotes" for phrases and -word to exclude.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form
+                    className="grid grid-cols-1 sm:grid-cols-[1fr_160px_200px_auto] gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      setSearchQuery(searchInput.trim());
+                    }}
+                  >
+                    <Input
+                      placeholder="Search documents, summaries and notes"
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
+                    />
+                    <select
+                      className="p-2 border rounded-md"
+                      value={searchNoteType}
+                      onChange={(e) => setSearchNoteType(e.target.value as typeof searchNoteType)}
+                    >
+                      <option value="">All results</option>
+                      {['Comparative', 'Context', 'Critique', 'Practical', 'Expert'].map((type) => (
+                        <option key={type} value={type}>
+                          {type} notes
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      placeholder="Author"
+                      value={searchAuthor}
+                      onChange={(e) => setSearchAuthor(e.target.value)}
+                    />
+                    <Button type="submit" disabled={!searchInput.trim()}>
+                      <Search className="mr-2 h-4 w-4" />
+                      Search
+                    </Button>
+                  </form>
+
+                  {searching ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                  ) : !searchQuery ? null : !searchResults || searchResults.results.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No matches for "{searchQuery}"
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {searchResults.results.map((result) => {
+                        // Passages of a document open the document's summary, when it has one
+                        const summaryId =
+                          result.summaryId ??
+                          summaries?.find(
+                            (summary) =>
+                              summary.documentId === result.documentId &&
+                              summary.status === 'completed' &&
+                              !summary.translatedFromId
+                          )?.id;
+                        return (
+                          <div key={result.id} className="p-4 border rounded-lg hover:bg-gray-50 space-y-2">
+                            <div className="flex items-start justify-between gap-3">
+                              <div>
+                                <p className="font-medium">{result.title}</p>
+                                {result.bookTitle && (
+                                  <p className="text-sm text-gray-500">
+                                    {result.bookTitle} • {result.bookAuthor || 'Unknown Author'}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2 shrink-0">
+                                <Badge variant="secondary">{result.noteType ? `${result.noteType} note` : result.kind}</Badge>
+                                {summaryId && (
+                                  <Button size="sm" variant="outline" onClick={() => setViewingSummaryId(summaryId)}>
+                                    <Eye className="mr-2 h-4 w-4" />
+                                    View
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                            <p className="text-sm text-gray-700">
+                              {result.snippet.map((segment, index) =>
+                                segment.highlighted ? (
+                                  <mark key={index} className="bg-[#D4772E]/20 rounded px-0.5">
+                                    {segment.text}
+                                  </mark>
+                                ) : (
+                                  <span key={index}>{segment.text}</span>
+                                )
+                              )}
+                            </p>
+                          </div>
+                        );
+                      })}
+                      {searchResults.hasMore && (
+                        <p className="text-center text-sm text-muted-foreground">
+                          Showing the best {searchResults.results.length} matches. Refine your search to see others.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
           </Tabs>
         </div>
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, varchar, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, varchar, integer, real, bigint } from "drizzle-orm/pg-core";
 
 /**
  * Core user table backing auth flow.
@@ -16,6 +16,38 @@ export const users = pgTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+/**
+ * Quota overrides per role. A row replaces the built-in defaults in
+ * server/quotas.ts for its role; a null limit is unlimited.
+ */
+export const roleQuotas = pgTable("roleQuotas", {
+  role: varchar("role", { length: 20 }).primaryKey(), // a users.role value, or "anonymous" for signed-out callers
+  dailyGenerations: integer("dailyGenerations"),
+  monthlyGenerations: integer("monthlyGenerations"),
+  storageBytes: bigint("storageBytes", { mode: "number" }),
+  concurrentJobs: integer("concurrentJobs"),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+export type RoleQuota = typeof roleQuotas.$inferSelect;
+export type InsertRoleQuota = typeof roleQuotas.$inferInsert;
+
+/**
+ * Generations (summaries, translations, comparisons, chat answers, ...)
+ * counted against generation quotas. Rows outlive what was generated, so
+ * deleting it does not give the generation back.
+ */
+export const generationEvents = pgTable("generationEvents", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  kind: varchar("kind", { length: 20 }).default("summary").notNull(), // GenerationKind in server/quotas.ts
+  summaryId: varchar("summaryId", { length: 64 }), // the summary, comparison or document generated for; null for library questions
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type GenerationEvent = typeof generationEvents.$inferSelect;
+export type InsertGenerationEvent = typeof generationEvents.$inferInsert;
+
 /**
  * Documents uploaded for processing
  */
@@ -23,11 +55,13 @@ export const documents = pgTable("documents", {
   id: varchar("id", { length: 64 }).primaryKey(),
   userId: varchar("userId", { length: 64 }).notNull(),
   originalFilename: varchar("originalFilename", { length: 255 }).notNull(),
-  fileType: varchar("fileType", { length: 10 }).notNull(), // pdf, docx, txt, rtf
+  fileType: varchar("fileType", { length: 10 }).notNull(), // pdf, docx, txt, rtf, epub, html, md
   fileSize: integer("fileSize").notNull(), // in bytes
   storageKey: varchar("storageKey", { length: 512 }).notNull(),
   storageUrl: varchar("storageUrl", { length: 1024 }).notNull(),
   extractedText: text("extractedText"), // extracted raw text
+  outline: text("outline"), // JSON DocumentOutline (chapters, headings, pages) located by offsets into extractedText
+  language: varchar("language", { length: 8 }), // detected from extractedText (en, es, de, ...); null when undetermined
   status: varchar("status", { length: 20 }).default("uploaded").notNull(), // uploaded, processing, completed, failed
   errorMessage: text("errorMessage"),
   createdAt: timestamp("createdAt").defaultNow(),
@@ -61,6 +95,10 @@ export const summaries = pgTable("summaries", {
   // AI generation metadata
   researchSourcesCount: integer("researchSourcesCount").default(0), // number of external sources cited
   jotsNotesCount: integer("jotsNotesCount").default(0), // number of research callouts
+  promptTemplateId: varchar("promptTemplateId", { length: 64 }), // prompt template version the summary was generated with
+  lengthTargets: text("lengthTargets"), // JSON SummaryTargets from a length preset or custom targets; null means the template's
+  language: varchar("language", { length: 8 }), // language the summary is written in (en, es, de, ...)
+  translatedFromId: varchar("translatedFromId", { length: 64 }), // summary this one is a translation of
   
   createdAt: timestamp("createdAt").defaultNow(),
   updatedAt: timestamp("updatedAt").defaultNow(),
@@ -80,6 +118,8 @@ export const researchSources = pgTable("researchSources", {
   bookTitle: varchar("bookTitle", { length: 255 }),
   authorName: varchar("authorName", { length: 255 }),
   description: text("description"),
+  verificationStatus: varchar("verificationStatus", { length: 20 }).default("unchecked"), // verified, author_mismatch, not_found, unchecked
+  isbn: varchar("isbn", { length: 20 }), // from the bibliographic catalog when verified
   
   createdAt: timestamp("createdAt").defaultNow(),
 });
@@ -87,3 +127,222 @@ export const researchSources = pgTable("researchSources", {
 export type ResearchSource = typeof researchSources.$inferSelect;
 export type InsertResearchSource = typeof researchSources.$inferInsert;
 
+
+/**
+ * Durable queue of background summary generation jobs
+ */
+export const summaryJobs = pgTable("summaryJobs", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  summaryId: varchar("summaryId", { length: 64 }).notNull(), // the summary the job writes; the comparison for comparison jobs
+  userId: varchar("userId", { length: 64 }).notNull(),
+  kind: varchar("kind", { length: 32 }).default("summary").notNull(),
+  payload: text("payload"), // JSON job input
+
+  // Scheduling state
+  status: varchar("status", { length: 20 }).default("queued").notNull(), // queued, running, completed, failed
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("maxAttempts").default(3).notNull(),
+  runAfter: timestamp("runAfter").defaultNow().notNull(), // earliest time the job may be claimed (retry backoff)
+  lockedBy: varchar("lockedBy", { length: 64 }), // worker currently running the job
+  heartbeatAt: timestamp("heartbeatAt"),
+
+  progress: text("progress"), // JSON ProgressUpdate
+  lastError: text("lastError"),
+
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+  completedAt: timestamp("completedAt"),
+});
+
+export type SummaryJob = typeof summaryJobs.$inferSelect;
+export type InsertSummaryJob = typeof summaryJobs.$inferInsert;
+
+/**
+ * Snapshots of a summary's content, one per generation, regeneration, edit or restore
+ */
+export const summaryVersions = pgTable("summaryVersions", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  summaryId: varchar("summaryId", { length: 64 }).notNull(),
+  versionNumber: integer("versionNumber").notNull(),
+
+  // Snapshot of the summary content after this change
+  bookTitle: varchar("bookTitle", { length: 255 }),
+  bookAuthor: varchar("bookAuthor", { length: 255 }),
+  onePageSummary: text("onePageSummary"),
+  introduction: text("introduction"),
+  mainContent: text("mainContent"),
+  researchSourcesCount: integer("researchSourcesCount").default(0),
+  jotsNotesCount: integer("jotsNotesCount").default(0),
+
+  // Provenance
+  changeType: varchar("changeType", { length: 20 }).notNull(), // generated, regenerated, edited, restored
+  changeDescription: text("changeDescription"),
+  authorId: varchar("authorId", { length: 64 }).notNull(), // user who made the change, or "system"
+  model: varchar("model", { length: 128 }), // LLM that produced the content, null for hand edits
+  promptVersion: varchar("promptVersion", { length: 64 }),
+
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type SummaryVersion = typeof summaryVersions.$inferSelect;
+export type InsertSummaryVersion = typeof summaryVersions.$inferInsert;
+
+/**
+ * Versioned summary prompt templates. Built-in styles have no userId; users
+ * save their own versions of a style, numbered per user and style.
+ */
+export const promptTemplates = pgTable("promptTemplates", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  style: varchar("style", { length: 64 }).notNull(), // e.g. deep-dive, executive-brief, study-guide
+  version: integer("version").notNull(),
+  userId: varchar("userId", { length: 64 }), // null for built-in templates
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  body: text("body").notNull(), // prompt text with {{placeholder}} variables
+  variables: text("variables").notNull(), // JSON PromptTemplateVariables (word targets, counts, note types)
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = typeof promptTemplates.$inferInsert;
+
+/**
+ * Search index: one row per searchable piece of a user's library (a passage
+ * of a document's text, a summary's overview, a subsection, a Jots note or a
+ * research source). In Postgres a generated "searchVector" tsvector column
+ * over title and body backs the full-text queries (see initDb.ts).
+ */
+export const searchEntries = pgTable("searchEntries", {
+  id: varchar("id", { length: 160 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  documentId: varchar("documentId", { length: 64 }).notNull(),
+  summaryId: varchar("summaryId", { length: 64 }), // null for passages of the document itself
+  kind: varchar("kind", { length: 20 }).notNull(), // passage, overview, subsection, note, researchSource
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  bookTitle: varchar("bookTitle", { length: 255 }),
+  bookAuthor: varchar("bookAuthor", { length: 255 }),
+  noteType: varchar("noteType", { length: 20 }), // notes only, lowercase (critique, practical, ...)
+  location: text("location"), // JSON SearchLocation: where in the summary or document the entry sits
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+export type SearchEntry = typeof searchEntries.$inferSelect;
+export type InsertSearchEntry = typeof searchEntries.$inferInsert;
+
+/**
+ * Semantic index: embedding vectors for chunks of a user's library (passages
+ * of a document's text, a summary's overview and each of its subsections).
+ * Vectors from different embedding models are not comparable, so each row
+ * records the model that produced it.
+ */
+export const embeddingChunks = pgTable("embeddingChunks", {
+  id: varchar("id", { length: 160 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  documentId: varchar("documentId", { length: 64 }).notNull(),
+  summaryId: varchar("summaryId", { length: 64 }), // null for passages of the document itself
+  kind: varchar("kind", { length: 20 }).notNull(), // passage, overview, subsection
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  bookTitle: varchar("bookTitle", { length: 255 }),
+  bookAuthor: varchar("bookAuthor", { length: 255 }),
+  location: text("location"), // JSON SearchLocation, as for searchEntries
+  model: varchar("model", { length: 128 }).notNull(),
+  vector: real("vector").array().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+export type EmbeddingChunk = typeof embeddingChunks.$inferSelect;
+export type InsertEmbeddingChunk = typeof embeddingChunks.$inferInsert;
+
+/**
+ * Chat threads about one document, grounded in its text and its summary.
+ */
+export const conversations = pgTable("conversations", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  documentId: varchar("documentId", { length: 64 }).notNull(),
+  summaryId: varchar("summaryId", { length: 64 }), // the summary the thread was started from, if any
+  title: varchar("title", { length: 255 }).notNull(), // the start of the first question
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = typeof conversations.$inferInsert;
+
+/**
+ * Messages of a conversation, in the order they were sent.
+ */
+export const conversationMessages = pgTable("conversationMessages", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  conversationId: varchar("conversationId", { length: 64 }).notNull(),
+  position: integer("position").notNull(), // 1, 2, 3... within the conversation
+  role: varchar("role", { length: 20 }).notNull(), // user, assistant
+  content: text("content").notNull(),
+  citations: text("citations"), // JSON LibrarySource[] the answer cites (assistant messages)
+  model: varchar("model", { length: 128 }),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+export type InsertConversationMessage = typeof conversationMessages.$inferInsert;
+
+/**
+ * Cross-book comparison reports generated from two or more completed summaries.
+ */
+export const comparisons = pgTable("comparisons", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  title: varchar("title", { length: 255 }).notNull(), // the compared book titles
+  summaryIds: text("summaryIds").notNull(), // JSON string[] of the compared summaries, in the order chosen
+  report: text("report"), // JSON ComparisonReport once generated
+  status: varchar("status", { length: 20 }).default("generating").notNull(), // generating, completed, failed
+  errorMessage: text("errorMessage"),
+  model: varchar("model", { length: 128 }),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+export type Comparison = typeof comparisons.$inferSelect;
+export type InsertComparison = typeof comparisons.$inferInsert;
+
+/**
+ * Ledger of every LLM call made through the router, for usage and cost reporting.
+ */
+export const llmCalls = pgTable("llmCalls", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: varchar("userId", { length: 64 }), // null for calls made outside a request or job (e.g. evaluations)
+  summaryId: varchar("summaryId", { length: 64 }), // the summary the call was made for, if any
+  task: varchar("task", { length: 32 }), // TaskType for routed calls; null when the model was chosen explicitly
+  model: varchar("model", { length: 128 }).notNull(),
+  provider: varchar("provider", { length: 20 }).notNull(), // anthropic, openai, local
+  promptTokens: integer("promptTokens").default(0).notNull(),
+  completionTokens: integer("completionTokens").default(0).notNull(),
+  latencyMs: integer("latencyMs").notNull(),
+  costUsd: real("costUsd"), // estimated from modelPricing.ts; null when the model's price is unknown
+  outcome: varchar("outcome", { length: 20 }).notNull(), // success, error
+  errorMessage: text("errorMessage"),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+export type LLMCall = typeof llmCalls.$inferSelect;
+export type InsertLLMCall = typeof llmCalls.$inferInsert;
+
+/**
+ * Cached LLM responses, keyed by a hash of the request (see server/_core/llmCache.ts).
+ */
+export const llmCache = pgTable("llmCache", {
+  key: varchar("key", { length: 64 }).primaryKey(), // sha256 of the model, messages, tools, output format, max tokens and temperature
+  model: varchar("model", { length: 128 }).notNull(),
+  response: text("response").notNull(), // the InvokeResult, as JSON
+  promptTokens: integer("promptTokens").default(0).notNull(),
+  completionTokens: integer("completionTokens").default(0).notNull(),
+  hits: integer("hits").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  lastHitAt: timestamp("lastHitAt"),
+});
+
+export type LLMCacheEntry = typeof llmCache.$inferSelect;
+export type InsertLLMCacheEntry = typeof llmCache.$inferInsert;
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const reply = (content: string) => ({
+  id: "r1",
+  created: 0,
+  model: "chatter",
+  choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content } }],
+});
+
+const BOOK_TEXT = [
+  "Every habit starts with a cue. The cue triggers a craving, and the craving motivates a response.",
+  "The response delivers a reward, and rewards are the end goal of every habit loop.",
+].join("\n\n");
+
+describe("chat with a book", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("answers from retrieved passages of the one book and keeps the thread", async () => {
+    const invokeLLMWithRouting = vi.fn(async (_params: { messages: Array<{ role: string; content: string }> }) =>
+      reply("Cues start the loop [1], as the summary explains [7]."),
+    );
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      invokeLLMWithRouting,
+      hasLLMProvidersConfigured: () => true,
+    }));
+    const db = await import("../db");
+    const { sendChatMessage } = await import("../bookChat");
+    const { indexDocument } = await import("../search");
+
+    const document = await db.createDocument({
+      id: "doc-habits",
+      userId: "u1",
+      originalFilename: "atomic-habits.txt",
+      fileType: "txt",
+      fileSize: BOOK_TEXT.length,
+      storageKey: "documents/u1/atomic-habits.txt",
+      storageUrl: "/storage/atomic-habits.txt",
+      status: "completed",
+      extractedText: BOOK_TEXT,
+    });
+    await db.createSummary({
+      id: "sum-habits",
+      documentId: "doc-habits",
+      userId: "u1",
+      bookTitle: "Atomic Habits",
+      bookAuthor: "James Clear",
+      status: "completed",
+      mainContent: JSON.stringify({
+        sections: [
+          {
+            title: "The Habit Loop",
+            subsections: [{ title: "Cues", content: "A cue is the trigger that starts a habit.", jotsNotes: [] }],
+          },
+        ],
+        researchSources: [],
+      }),
+    });
+    // Another book about habits, which must not leak into this conversation.
+    const other = await db.createDocument({
+      id: "doc-other",
+      userId: "u1",
+      originalFilename: "power-of-habit.txt",
+      fileType: "txt",
+      fileSize: 60,
+      storageKey: "documents/u1/power-of-habit.txt",
+      storageUrl: "/storage/power-of-habit.txt",
+      status: "completed",
+      extractedText: "Keystone habits start a chain reaction of cues and cravings.",
+    });
+    await indexDocument(other);
+
+    // The first question indexes the book, which predates the index, and starts a conversation.
+    const first = await sendChatMessage("u1", document, undefined, {
+      documentId: "doc-habits",
+      summaryId: "sum-habits",
+      message: "What starts a habit?",
+    });
+
+    const [system, question] = invokeLLMWithRouting.mock.calls[0][0].messages;
+    expect(system.role).toBe("system");
+    expect(system.content).toContain('"Atomic Habits" by James Clear');
+    expect(system.content).toContain("A cue is the trigger that starts a habit.");
+    expect(system.content).toContain("Every habit starts with a cue.");
+    expect(system.content).not.toContain("Keystone");
+    expect(question).toEqual({ role: "user", content: "What starts a habit?" });
+
+    expect(first.conversation).toMatchObject({ documentId: "doc-habits", summaryId: "sum-habits", title: "What starts a habit?" });
+    expect(first.messages.map(message => [message.role, message.content])).toEqual([
+      ["user", "What starts a habit?"],
+      ["assistant", "Cues start the loop [1], as the summary explains."],
+    ]);
+    expect(first.messages[1].citations).toEqual([expect.objectContaining({ number: 1, documentId: "doc-habits" })]);
+    expect(first.messages[1].model).toBe("chatter");
+
+    // A follow-up sends the earlier turns along and is appended to the same thread.
+    const conversation = await db.getConversation(first.conversation.id);
+    await sendChatMessage("u1", document, conversation, {
+      documentId: "doc-habits",
+      conversationId: first.conversation.id,
+      message: "And then?",
+    });
+
+    const followUp = invokeLLMWithRouting.mock.calls[1][0].messages;
+    expect(followUp.slice(1).map(message => message.role)).toEqual(["user", "assistant", "user"]);
+    const stored = await db.getConversationMessages(first.conversation.id);
+    expect(stored.map(message => [message.position, message.content])).toEqual([
+      [1, "What starts a habit?"],
+      [2, "Cues start the loop [1], as the summary explains."],
+      [3, "And then?"],
+      [4, "Cues start the loop [1], as the summary explains."],
+    ]);
+    expect((await db.getDocumentConversations("u1", "doc-habits")).map(thread => thread.id)).toEqual([
+      first.conversation.id,
+    ]);
+
+    await db.deleteDocument("doc-habits");
+    expect(await db.getConversation(first.conversation.id)).toBeUndefined();
+    expect(await db.getConversationMessages(first.conversation.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { detectChapterBoundaries, splitIntoChapterChunks } from "../chapterChunker";
+
+const paragraph = (seed: string, sentences: number): string =>
+  Array.from({ length: sentences }, (_, i) => `${seed} sentence ${i + 1} explores the argument in detail.`).join(" ");
+
+const buildBook = (chapters: number, sentencesPerChapter: number): string =>
+  Array.from(
+    { length: chapters },
+    (_, i) => `Chapter ${i + 1}: Theme ${i + 1}\n\n${paragraph(`Chapter ${i + 1}`, sentencesPerChapter)}`,
+  ).join("\n\n");
+
+describe("detectChapterBoundaries", () => {
+  it("finds numbered and named chapter headings", () => {
+    const text = [
+      "Preface",
+      "",
+      "Some opening words.",
+      "",
+      "CHAPTER ONE",
+      "",
+      "The first argument.",
+      "",
+      "Chapter 2: Why It Matters",
+      "",
+      "The second argument.",
+    ].join("\n");
+
+    const titles = detectChapterBoundaries(text).map(boundary => boundary.title);
+    expect(titles).toEqual(["Preface", "Chapter ONE", "Chapter 2: Why It Matters"]);
+  });
+
+  it("ignores prose sentences that merely start with a heading word", () => {
+    const text = "Introduction of the new policy was delayed.\n\nChapter 3 covers this, as noted earlier.";
+    expect(detectChapterBoundaries(text)).toHaveLength(0);
+  });
+});
+
+describe("splitIntoChapterChunks", () => {
+  it("covers the whole document without exceeding the chunk size", () => {
+    const text = buildBook(12, 400);
+    const chunks = splitIntoChapterChunks(text, { maxChunkChars: 40000, minChunkChars: 2000 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(40000));
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, index) => index));
+    expect(chunks[chunks.length - 1].text).toContain("Chapter 12 sentence 400");
+  });
+
+  it("merges table-of-contents style headings into neighbouring chapters", () => {
+    const toc = "Contents\n\nChapter 1\n\nChapter 2\n\nChapter 3\n\n";
+    const text = toc + buildBook(3, 200);
+    const chunks = splitIntoChapterChunks(text, { maxChunkChars: 30000, minChunkChars: 5000 });
+
+    chunks.forEach(chunk => expect(chunk.text.length).toBeGreaterThan(100));
+  });
+
+  it("splits oversized chapters into numbered parts", () => {
+    const text = `Chapter 1: Everything\n\n${paragraph("Long", 2000)}`;
+    const chunks = splitIntoChapterChunks(text, { maxChunkChars: 20000 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].title).toBe("Chapter 1: Everything (part 1)");
+  });
+
+  it("falls back to fixed windows when no headings are present", () => {
+    const text = paragraph("Plain", 3000);
+    const chunks = splitIntoChapterChunks(text, { maxChunkChars: 50000 });
+
+    expect(chunks.length).toBe(Math.ceil(text.length / 50000));
+    expect(chunks.map(chunk => chunk.text).join(" ").length).toBeGreaterThan(text.length - chunks.length * 2);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCitationChecker, extractQuotations, summarizeSectionGrounding } from "../citationGrounding";
+import { createPassageLocator, emptyOutline } from "../documentOutline";
+import { attachSourceLocations } from "../progressiveSummary";
+
+const BOOK = [
+  "Chapter 1: The Deep Work Hypothesis",
+  "The ability to perform deep work is becoming increasingly rare at exactly the same time it is becoming " +
+    "increasingly valuable in our economy. As a consequence, the few who cultivate this skill, and then make it the " +
+    "core of their working life, will thrive.",
+  "Chapter 2: Attention Residue",
+  "When you switch from some Task A to another Task B, your attention doesn't immediately follow — a residue of " +
+    "your attention remains stuck thinking about the original task. Sophie Leroy measured this residue in her " +
+    "laboratory experiments on task switching.",
+].join("\n\n");
+
+describe("citation grounding", () => {
+  it("finds quotations in the book regardless of case, punctuation and line breaks", () => {
+    const checker = createCitationChecker(BOOK);
+
+    const verified = checker.checkQuote("The ability to perform deep work is becoming\nincreasingly RARE");
+    expect(verified).toMatchObject({ status: "verified", similarity: 1 });
+    expect(BOOK.slice(verified.startOffset, verified.endOffset)).toBe(
+      "The ability to perform deep work is becoming increasingly rare",
+    );
+
+    expect(checker.checkQuote("your attention doesn't immediately follow")).toMatchObject({ status: "verified" });
+    expect(checker.checkQuote("a residue of your focus remains stuck thinking about the original task")).toMatchObject({
+      status: "approximate",
+    });
+    expect(checker.checkQuote("deep work is the superpower of the twenty-first century")).toMatchObject({
+      status: "unsupported",
+    });
+  });
+
+  it("only treats quoted passages of four or more words as quotations", () => {
+    expect(
+      extractQuotations(`He calls it “deep work.” Later he writes "the few who cultivate this skill" and 'single quotes'.`),
+    ).toEqual(["the few who cultivate this skill"]);
+  });
+
+  it("rates each subsection and rolls the risk up to its section", () => {
+    const section = {
+      title: "Focus",
+      subsections: [
+        {
+          title: "Attention residue",
+          content: `Switching tasks leaves a residue: "your attention remains stuck thinking about the original task," as Sophie Leroy's experiments showed.`,
+        },
+        {
+          title: "Deep work is rare",
+          content: `Newport claims "deep work is the superpower of the twenty-first century" and that rare skills thrive.`,
+        },
+        {
+          title: "Quantum gardening",
+          content: "Photosynthetic lattices entangle chlorophyll with orbital greenhouses.",
+        },
+      ] as any[],
+    };
+    attachSourceLocations([section], createPassageLocator(BOOK, emptyOutline()));
+
+    const checker = createCitationChecker(BOOK);
+    section.subsections.forEach(subsection => {
+      subsection.grounding = checker.checkSubsection(subsection);
+    });
+
+    const [grounded, misquoted, invented] = section.subsections.map(subsection => subsection.grounding);
+    expect(grounded).toMatchObject({ risk: "low", quotes: [{ status: "verified" }] });
+    expect(misquoted).toMatchObject({ risk: "high", quotes: [{ status: "unsupported" }] });
+    expect(invented.risk).toBe("high");
+    expect(invented.termCoverage).toBeLessThan(0.5);
+
+    expect(summarizeSectionGrounding(section)).toEqual({
+      risk: "high",
+      unsupportedQuotes: 1,
+      approximateQuotes: 0,
+      flaggedSubsections: 2,
+    });
+  });
+});
+
+describe("citation grounding judge", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+  });
+
+  it("asks a model about doubtful subsections but never excuses a missing quotation", async () => {
+    const invokeLLMWithRouting = vi.fn(async () => ({
+      id: "j1",
+      created: 0,
+      model: "judge-model",
+      choices: [
+        {
+          index: 0,
+          finish_reason: "stop",
+          message: {
+            role: "assistant" as const,
+            content: JSON.stringify({ verdict: "supported", explanation: "The passage makes this point." }),
+          },
+        },
+      ],
+    }));
+    vi.doMock("../_core/llmRouter", () => ({ invokeLLMWithRouting, hasLLMProvidersConfigured: () => true }));
+    const { groundSections } = await import("../citationGrounding");
+
+    const paraphrase = {
+      title: "Rare and valuable",
+      content: "Deep work grows rarer while its value in the economy climbs.",
+      source: { startOffset: 0, endOffset: 300, paragraph: 1, label: "Paragraph 1" },
+    };
+    const misquote = {
+      ...paraphrase,
+      title: "Superpower",
+      content: `Newport says "deep work is the superpower of the twenty-first century" in the economy.`,
+    };
+    const sections: any[] = [{ subsections: [paraphrase, misquote] }];
+
+    await groundSections(sections, BOOK, { judge: true });
+
+    const judged = sections[0].subsections.filter((subsection: any) => subsection.grounding.judgement);
+    expect(judged.length).toBe(invokeLLMWithRouting.mock.calls.length);
+    expect(misquote).toMatchObject({
+      grounding: { risk: "high", judgement: { verdict: "supported", model: "judge-model" } },
+    });
+    expect(sections[0].grounding.risk).toBe("high");
+  });
+});
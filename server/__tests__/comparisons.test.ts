@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const reply = (content: unknown) => ({
+  id: "r1",
+  created: 0,
+  model: "comparer",
+  choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content: JSON.stringify(content) } }],
+});
+
+const summaryContent = (sectionTitle: string, subsectionTitle: string, content: string) =>
+  JSON.stringify({
+    sections: [{ title: sectionTitle, subsections: [{ title: subsectionTitle, content, jotsNotes: [] }] }],
+    researchSources: [],
+  });
+
+const report = (deeperBook: number) => ({
+  overview: "Both books treat behaviour as something designed rather than willed.",
+  sharedThemes: [
+    {
+      theme: "Environment over willpower",
+      books: [2, 1, 2],
+      analysis: "Both argue that surroundings shape behaviour more than resolve.",
+      jotsNotes: [{ noteType: "Practical", content: "Remove one cue from your desk today." }],
+    },
+  ],
+  contradictions: [
+    {
+      topic: "Multitasking",
+      analysis: "They disagree on whether small switches matter.",
+      positions: [
+        { book: 1, position: "Small switches are harmless." },
+        { book: 2, position: "Every switch leaves attention residue." },
+      ],
+      jotsNotes: [{ noteType: "Critique", content: "Neither cites a replication." }],
+    },
+  ],
+  depth: [{ topic: "Focus", deeperBook, explanation: "It devotes whole chapters to deep work." }],
+  conclusion: "Read Atomic Habits first, then Deep Work.",
+});
+
+describe("comparison reports", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  async function setup() {
+    const db = await import("../db");
+    const queue = await import("../jobQueue");
+    const { comparisonJobHandler } = await import("../comparisons");
+    queue.registerJobHandler("comparison", comparisonJobHandler);
+
+    await db.createSummary({
+      id: "sum-habits",
+      documentId: "doc-habits",
+      userId: "u1",
+      bookTitle: "Atomic Habits",
+      bookAuthor: "James Clear",
+      status: "completed",
+      onePageSummary: "Small habits compound.",
+      mainContent: summaryContent("Habit Formation", "The habit loop", "Cue, craving, response and reward."),
+    });
+    await db.createSummary({
+      id: "sum-focus",
+      documentId: "doc-focus",
+      userId: "u1",
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      status: "completed",
+      onePageSummary: "Focus is rare and valuable.",
+      mainContent: summaryContent("Focus", "Attention residue", "Switching tasks lowers performance."),
+    });
+    const comparison = await db.createComparison({
+      id: "cmp-1",
+      userId: "u1",
+      title: "Atomic Habits vs. Deep Work",
+      summaryIds: JSON.stringify(["sum-habits", "sum-focus"]),
+    });
+    await queue.enqueueJob({ kind: "comparison", summaryId: comparison.id, userId: "u1", payload: {}, maxAttempts: 1 });
+
+    return { db, queue };
+  }
+
+  it("compares the summaries, repairing book numbers that do not exist, and exports the report", async () => {
+    const invokeLLMWithRouting = vi
+      .fn()
+      .mockResolvedValueOnce(reply(report(5)))
+      .mockResolvedValueOnce(reply(report(2)));
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      invokeLLMWithRouting,
+      hasLLMProvidersConfigured: () => true,
+    }));
+    const { db, queue } = await setup();
+
+    await queue.processNextJob();
+
+    expect(invokeLLMWithRouting).toHaveBeenCalledTimes(2);
+    expect(invokeLLMWithRouting).toHaveBeenCalledWith(expect.anything(), "comparative_analysis");
+    const prompt = (invokeLLMWithRouting.mock.calls[0] as any)[0].messages[0].content as string;
+    expect(prompt).toContain('BOOK 1: "Atomic Habits" by James Clear');
+    expect(prompt).toContain("- Attention residue: Switching tasks lowers performance.");
+    const repair = (invokeLLMWithRouting.mock.calls[1] as any)[0].messages[2].content as string;
+    expect(repair).toContain("Book numbers must be between 1 and 2");
+
+    const { toComparisonDetails } = await import("../comparisons");
+    const stored = toComparisonDetails((await db.getComparison("cmp-1"))!);
+    expect(stored).toMatchObject({ status: "completed", model: "comparer", summaryIds: ["sum-habits", "sum-focus"] });
+    expect(stored.report!.books.map(book => book.bookTitle)).toEqual(["Atomic Habits", "Deep Work"]);
+    expect(stored.report!.sharedThemes[0]).toMatchObject({
+      title: "Environment over willpower",
+      books: [1, 2],
+      jotsNotes: [{ type: "practical", content: "Remove one cue from your desk today." }],
+    });
+    expect(stored.report!.depth[0].deeperBook).toBe(2);
+
+    const { exportComparison } = await import("../exporters");
+    const markdown = exportComparison(stored.title, stored.report!, "markdown");
+    expect(markdown.filename).toBe("Atomic Habits vs. Deep Work.md");
+    const text = markdown.data.toString("utf8");
+    expect(text).toContain("### Multitasking");
+    expect(text).toContain("- **Deep Work:** Every switch leaves attention residue.");
+    expect(text).toContain("> [!warning] Jonathan's Jots: Critique\n> Neither cites a replication.");
+    expect(text).toContain("- **Focus**: *Deep Work*. It devotes whole chapters to deep work.");
+
+    const pdf = exportComparison(stored.title, stored.report!, "pdf");
+    expect(pdf.data.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+
+    // The compared summaries outlive the comparison
+    await db.deleteComparison("cmp-1");
+    expect(await db.getComparison("cmp-1")).toBeUndefined();
+    expect(await db.getSummary("sum-habits")).toBeDefined();
+  });
+
+  it("marks the comparison failed when a compared summary has gone", async () => {
+    const invokeLLMWithRouting = vi.fn();
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      invokeLLMWithRouting,
+      hasLLMProvidersConfigured: () => true,
+    }));
+    const { db, queue } = await setup();
+    await db.deleteSummary("sum-focus");
+
+    await queue.processNextJob();
+
+    expect(invokeLLMWithRouting).not.toHaveBeenCalled();
+    expect(await db.getComparison("cmp-1")).toMatchObject({
+      status: "failed",
+      errorMessage: "A summary in this comparison is no longer available",
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { processDocument, getFileType } from "../documentProcessor";
+import { chaptersFromBlocks, htmlToBlocks, markdownToBlocks } from "../documentStructure";
+import { boundariesFromOutline, splitIntoChapterChunks } from "../chapterChunker";
+import { createZip, type ZipEntry } from "../zip";
+
+const xhtml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>x</title><style>p{}</style></head><body>${body}</body></html>`;
+
+function buildEpub(overrides: Record<string, Buffer> = {}): Buffer {
+  const opf = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Deep Work</dc:title><dc:creator>Cal Newport</dc:creator></metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c1" href="text/chapter%201.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c1b" href="text/chapter1-continued.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c23" href="text/chapters2-3.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine><itemref idref="cover"/><itemref idref="c23" linear="no"/><itemref idref="c1"/><itemref idref="c1b"/><itemref idref="c23"/></spine>
+</package>`;
+  const nav = xhtml(`<nav epub:type="toc"><ol>
+    <li><a href="text/chapter%201.xhtml">Chapter 1: <em>Deep Work Is Valuable</em></a>
+      <ol><li><a href="text/chapter%201.xhtml#s1">A subsection</a></li></ol></li>
+    <li><a href="text/chapters2-3.xhtml#ch2">Chapter 2: Deep Work Is Rare</a></li>
+    <li><a href="text/chapters2-3.xhtml#ch3">Chapter 3: Deep Work Is Meaningful</a></li>
+  </ol></nav>`);
+
+  const entries: ZipEntry[] = [
+    { path: "mimetype", data: "application/epub+zip", store: true },
+    {
+      path: "META-INF/container.xml",
+      data: `<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>`,
+    },
+    { path: "OEBPS/content.opf", data: opf },
+    { path: "OEBPS/nav.xhtml", data: nav },
+    { path: "OEBPS/text/cover.xhtml", data: xhtml("<p>Copyright &copy; 2016</p>") },
+    {
+      path: "OEBPS/text/chapter 1.xhtml",
+      data: xhtml(`<h1>Chapter 1</h1><p>The ability to
+        focus is valuable.</p><h2 id="s1">A subsection</h2><p>Skills matter.</p>`),
+    },
+    { path: "OEBPS/text/chapter1-continued.xhtml", data: xhtml("<p>More of chapter one.</p>") },
+    {
+      path: "OEBPS/text/chapters2-3.xhtml",
+      data: xhtml(`<section id="ch2"><h1>Chapter 2</h1><p>Rare &amp; hard.</p></section><section id="ch3"><h1>Chapter 3</h1><p>Meaning.</p></section>`),
+    },
+  ];
+  return createZip(entries.map(entry => ({ ...entry, data: overrides[entry.path] ?? entry.data })));
+}
+
+/** Rewrite the uncompressed size the central directory gives for `path`. */
+function declareEntrySize(archive: Buffer, path: string, size: number): void {
+  const signature = Buffer.from([0x50, 0x4b, 0x01, 0x02]);
+  for (let at = archive.indexOf(signature); at !== -1; at = archive.indexOf(signature, at + 4)) {
+    if (archive.toString("utf8", at + 46, at + 46 + archive.readUInt16LE(at + 28)) === path) {
+      archive.writeUInt32LE(size, at + 24);
+      return;
+    }
+  }
+  throw new Error(`No central directory entry for ${path}`);
+}
+
+describe("document ingestion", () => {
+  it("recognizes the new file types", () => {
+    expect(getFileType("book.EPUB")).toBe("epub");
+    expect(getFileType("page.htm")).toBe("html");
+    expect(getFileType("notes.markdown")).toBe("md");
+  });
+
+  it("reads an EPUB in spine order with chapter titles from the nav document", async () => {
+    const result = await processDocument(buildEpub(), "epub");
+
+    expect(result.success).toBe(true);
+    expect(result.outline?.chapters.map(chapter => chapter.title)).toEqual([
+      "Chapter 1: Deep Work Is Valuable",
+      "Chapter 2: Deep Work Is Rare",
+      "Chapter 3: Deep Work Is Meaningful",
+    ]);
+    expect(result.text.startsWith("Copyright © 2016\n\nChapter 1")).toBe(true);
+
+    const [first, second] = result.outline!.chapters;
+    const firstText = result.text.slice(first.startOffset, first.endOffset);
+    expect(firstText).toContain("The ability to focus is valuable.");
+    expect(firstText).toContain("Skills matter.");
+    expect(firstText.endsWith("More of chapter one.")).toBe(true);
+    expect(result.text.slice(second.startOffset, second.endOffset)).toBe("Chapter 2\n\nRare & hard.");
+  });
+
+  it("rejects EPUBs whose entries inflate to more than the extraction limit", async () => {
+    // 60 MB of zeros deflates to about 60 KB
+    const bomb = Buffer.alloc(60 * 1024 * 1024);
+
+    const declared = await processDocument(buildEpub({ "OEBPS/text/cover.xhtml": bomb }), "epub");
+    expect(declared.success).toBe(false);
+    expect(declared.error).toContain("too large to extract");
+
+    // A header that understates the size is caught while inflating
+    const understated = buildEpub({ "OEBPS/text/cover.xhtml": bomb });
+    declareEntrySize(understated, "OEBPS/text/cover.xhtml", 1024);
+    const lying = await processDocument(understated, "epub");
+    expect(lying.success).toBe(false);
+    expect(lying.error).toContain("inflates past its declared size of 1024 bytes");
+  });
+
+  it("splits Markdown at the outermost repeated heading level", async () => {
+    const markdown = [
+      "---",
+      "title: Notes",
+      "---",
+      "# Deep Work",
+      "",
+      "Intro with a [link](https://example.com) and **bold** text.",
+      "",
+      "## Rule 1: Work Deeply",
+      "",
+      "```",
+      "# not a heading",
+      "```",
+      "",
+      "Rule 2: Embrace Boredom",
+      "-----------------------",
+      "",
+      "* Be bored.",
+    ].join("\n");
+
+    const result = await processDocument(Buffer.from(markdown), "md");
+
+    expect(result.outline?.chapters.map(chapter => chapter.title)).toEqual(["Rule 1: Work Deeply", "Rule 2: Embrace Boredom"]);
+    expect(result.text).toContain("Intro with a link and bold text.");
+    expect(result.text).toContain("# not a heading");
+    expect(result.text).toContain("- Be bored.");
+    expect(result.outline?.headings.map(heading => [heading.level, heading.text])).toEqual([
+      [1, "Deep Work"],
+      [2, "Rule 1: Work Deeply"],
+      [2, "Rule 2: Embrace Boredom"],
+    ]);
+    const [heading] = result.outline!.headings;
+    expect(result.text.slice(heading.offset, heading.offset + heading.text.length)).toBe("Deep Work");
+  });
+
+  it("turns HTML into headings and paragraphs", () => {
+    const blocks = htmlToBlocks(
+      "<body><h2>One</h2><p>First&nbsp;line<br/>second line</p><script>ignored()</script><h2>Two</h2><ul><li>Item</li></ul></body>",
+    );
+
+    expect(blocks).toEqual([
+      { kind: "heading", level: 2, text: "One" },
+      { kind: "paragraph", text: "First line\nsecond line" },
+      { kind: "heading", level: 2, text: "Two" },
+      { kind: "paragraph", text: "Item" },
+    ]);
+    expect(chaptersFromBlocks(blocks).map(chapter => chapter.title)).toEqual(["One", "Two"]);
+    expect(chaptersFromBlocks(markdownToBlocks("Just text.")).map(chapter => chapter.title)).toEqual([null]);
+  });
+
+  it("chunks by the stored outline instead of guessing headings", () => {
+    const text = `${"a".repeat(100)}\n\n${"b".repeat(100)}`;
+    const outline = JSON.stringify([
+      { title: "Real Chapter Two", startOffset: 102, endOffset: 202 },
+      { title: "Real Chapter One", startOffset: 0, endOffset: 100 },
+    ]);
+
+    const chunks = splitIntoChapterChunks(text, {
+      maxChunkChars: 150,
+      minChunkChars: 10,
+      boundaries: boundariesFromOutline(outline),
+    });
+
+    expect(chunks.map(chunk => chunk.title)).toEqual(["Real Chapter One", "Real Chapter Two"]);
+    expect(boundariesFromOutline("not json")).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { processDocument } from "../documentProcessor";
+import { createPassageLocator, describeLocation, parseDocumentOutline, type DocumentOutline } from "../documentOutline";
+
+const paragraph = (topic: string) =>
+  `${topic} ${"Careful readers notice how ordinary sentences pad out every page of a long book. ".repeat(8)}`.trim();
+
+function buildBook(): { text: string; outline: DocumentOutline } {
+  const parts = [
+    "Chapter 1: Work Deeply",
+    paragraph("Rituals and routines protect concentration; a shutdown ritual ends each workday."),
+    "Chapter 2: Embrace Boredom",
+    paragraph("Productive meditation during walks trains attention."),
+    paragraph("Internet sabbaticals fail; instead schedule internet blocks and resist distraction."),
+  ];
+  const text = parts.join("\n\n");
+  const offsetOf = (part: string) => text.indexOf(part);
+
+  return {
+    text,
+    outline: {
+      chapters: [
+        { title: parts[0], startOffset: 0, endOffset: offsetOf(parts[2]) - 2 },
+        { title: parts[2], startOffset: offsetOf(parts[2]), endOffset: text.length },
+      ],
+      headings: [{ text: "Internet Blocks", level: 3, offset: offsetOf(parts[4]) }],
+      pages: [
+        { page: 1, startOffset: 0 },
+        { page: 2, startOffset: offsetOf(parts[3]) },
+      ],
+    },
+  };
+}
+
+describe("document outline", () => {
+  it("describes a passage by chapter, heading and page", () => {
+    const { text, outline } = buildBook();
+    const offset = text.indexOf("Internet sabbaticals");
+
+    expect(describeLocation(outline, text, offset)).toMatchObject({
+      chapter: "Chapter 2: Embrace Boredom",
+      heading: "Internet Blocks",
+      page: 2,
+      paragraph: 5,
+      label: "Chapter 2: Embrace Boredom › Internet Blocks, p. 2",
+    });
+    expect(describeLocation(parseDocumentOutline(null), text, offset).label).toBe("Paragraph 5");
+  });
+
+  it("locates the passage a summary subsection draws on", () => {
+    const { text, outline } = buildBook();
+    const locate = createPassageLocator(text, outline);
+
+    expect(locate("The Shutdown Ritual\nEnd every workday with a ritual that protects concentration.")?.chapter).toBe(
+      "Chapter 1: Work Deeply",
+    );
+    expect(locate("Schedule internet blocks\nRather than a sabbatical, resist distraction.")?.heading).toBe(
+      "Internet Blocks",
+    );
+    expect(locate("Quantum chromodynamics")).toBeNull();
+  });
+
+  it("reads the earlier chapter-array format", () => {
+    const outline = parseDocumentOutline(JSON.stringify([{ title: "One", startOffset: 0, endOffset: 10 }]));
+
+    expect(outline).toEqual({ chapters: [{ title: "One", startOffset: 0, endOffset: 10 }], headings: [], pages: [] });
+    expect(parseDocumentOutline("{broken")).toEqual({ chapters: [], headings: [], pages: [] });
+  });
+
+  it("falls back to detected chapter headings for plain text", async () => {
+    const text = `Preface\n\nWhy this book.\n\nChapter 1: Rules\n\n${paragraph("Rules.")}`;
+    const result = await processDocument(Buffer.from(text), "txt");
+
+    expect(result.outline?.chapters.map(chapter => [chapter.title, text.slice(chapter.startOffset, chapter.startOffset + 7)])).toEqual([
+      ["Preface", "Preface"],
+      ["Chapter 1: Rules", "Chapter"],
+    ]);
+    expect(result.outline?.chapters[0].endOffset).toBe(text.indexOf("Chapter 1"));
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  compareVariants,
+  createEvaluationModel,
+  createRecordedModel,
+  loadCorpus,
+  MOCK_MODEL,
+  runEvaluation,
+} from "../evaluation";
+import { measureChapterCoverage, measureRedundancy } from "../evaluation/metrics";
+import { SHORTFORM_PROMPT_VERSION } from "../shortformPrompt";
+
+describe("evaluation harness", () => {
+  it("scores the mock baseline on every fixture and averages per variant", async () => {
+    const fixtures = await loadCorpus();
+    expect(fixtures.map(fixture => fixture.id)).toEqual(["quiet-hour", "small-gardens"]);
+
+    const results = await runEvaluation({
+      fixtures,
+      variants: [{ promptVersion: SHORTFORM_PROMPT_VERSION, model: MOCK_MODEL }],
+    });
+
+    expect(results.map(result => result.error)).toEqual([undefined, undefined]);
+    for (const { metrics } of results) {
+      expect(metrics).toMatchObject({ chapterCoverage: 1, uncoveredChapters: [], notesPerSubsection: 1, sourceCount: 0 });
+      expect(metrics!.referenceRecall).toBeGreaterThan(0.5);
+      expect(metrics!.targetScore).toBeLessThan(1);
+    }
+
+    const [report] = compareVariants(results);
+    expect(report).toMatchObject({ promptVersion: SHORTFORM_PROMPT_VERSION, model: MOCK_MODEL, fixtures: 2, failures: 0 });
+    expect(report.averages.chapterCoverage).toBe(1);
+  });
+
+  it("flags uncovered chapters and repeated sentences", () => {
+    const document = [
+      "Chapter 1: Bees",
+      "Bees pollinate orchards, and hives need water, shade and forage through the summer.",
+      "Chapter 2: Tides",
+      "Tides follow the moon; harbors schedule ships around high water and spring tides.",
+    ].join("\n\n");
+
+    expect(measureChapterCoverage("Hives of bees pollinate orchards when forage and water are near.", document)).toEqual({
+      coverage: 0.5,
+      uncovered: ["Chapter 2: Tides"],
+    });
+
+    expect(
+      measureRedundancy([
+        "Deep work produces valuable output for knowledge workers.",
+        "Knowledge workers produce valuable output through deep work.",
+        "Shallow tasks fragment the calendar into small pieces.",
+      ]),
+    ).toBe(0.33);
+  });
+
+  it("records responses once and replays them until the prompt changes", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "eval-recordings-"));
+    try {
+      const [fixture] = await loadCorpus(undefined, ["quiet-hour"]);
+      const variants = [{ promptVersion: SHORTFORM_PROMPT_VERSION, model: "provider/model-a" }];
+      const response = await createEvaluationModel()({ ...variants[0], model: MOCK_MODEL, fixtureId: fixture.id, prompt: "", ...fixture });
+      const invoke = vi.fn(async () => response);
+
+      const recorded = await runEvaluation({
+        fixtures: [fixture],
+        variants,
+        model: createRecordedModel({ dir, record: true, invoke }),
+      });
+      const replayed = await runEvaluation({ fixtures: [fixture], variants, model: createRecordedModel({ dir, invoke }) });
+
+      expect(invoke).toHaveBeenCalledTimes(1);
+      expect(replayed).toEqual(recorded);
+      expect(replayed[0].metrics).not.toBeNull();
+
+      const stale = createRecordedModel({ dir });
+      await expect(
+        stale({ ...variants[0], fixtureId: fixture.id, prompt: "a different prompt", ...fixture }),
+      ).rejects.toThrow(/different shortform-3 prompt/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { generateSummaryMarkdown } from "../exporters/markdown";
+import { generateSummaryEpub } from "../exporters/epub";
+import { generateSummaryDocx } from "../exporters/docx";
+import type { SummaryData } from "../pdfExport";
+
+const summary: SummaryData = {
+  bookTitle: "Deep Work",
+  bookAuthor: "Cal Newport",
+  introduction: "An argument for focus.",
+  onePageSummary: "Focus is rare & valuable.\n\nCultivate it.",
+  sections: [
+    {
+      title: "Focus",
+      subsections: [
+        {
+          title: "Attention residue",
+          content: "Switching tasks leaves <residue>.",
+          jotsNotes: [{ type: "critique", content: "The studies are small." }],
+        },
+      ],
+    },
+  ],
+  researchSources: [
+    { title: "Flow", author: "Mihaly Csikszentmihalyi", authorCredentials: "Psychologist", relevance: "Optimal experience." },
+  ],
+};
+
+// Read entries back from the central directory of a ZIP archive.
+function readZip(archive: Buffer): Map<string, { method: number; text: string }> {
+  const entries = new Map<string, { method: number; text: string }>();
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  for (let index = 0; index < count; index++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, { method, text: (method === 0 ? data : inflateRawSync(data)).toString("utf8") });
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe("summary exporters", () => {
+  it("renders Jots notes as Obsidian callouts in Markdown", () => {
+    const markdown = generateSummaryMarkdown(summary);
+
+    expect(markdown).toContain('title: "Deep Work"');
+    expect(markdown).toContain("## Focus\n\n### Attention residue");
+    expect(markdown).toContain("> [!warning] Jonathan's Jots: Critique\n> The studies are small.");
+    expect(markdown).toContain("- **Flow** by Mihaly Csikszentmihalyi (Psychologist): Optimal experience.");
+  });
+
+  it("packages an EPUB with an uncompressed mimetype first and one chapter per section", () => {
+    const archive = generateSummaryEpub(summary);
+    const entries = readZip(archive);
+
+    expect(archive.toString("utf8", 30, 38)).toBe("mimetype");
+    expect(entries.get("mimetype")).toEqual({ method: 0, text: "application/epub+zip" });
+    expect(entries.get("OEBPS/content.opf")?.text).toContain('<itemref idref="section-1"/>');
+    expect(entries.get("OEBPS/nav.xhtml")?.text).toContain('<a href="section-1.xhtml">Focus</a>');
+
+    const chapter = entries.get("OEBPS/section-1.xhtml")!.text;
+    expect(chapter).toContain("Switching tasks leaves &lt;residue&gt;.");
+    expect(chapter).toContain('<div class="jots-note jots-note-critique">');
+  });
+
+  it("writes a DOCX with heading styles and shaded Jots note paragraphs", () => {
+    const entries = readZip(generateSummaryDocx(summary));
+
+    expect(entries.has("[Content_Types].xml")).toBe(true);
+    expect(entries.get("word/styles.xml")?.text).toContain('w:styleId="JotsNote"');
+
+    const document = entries.get("word/document.xml")!.text;
+    expect(document).toContain('<w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">Focus</w:t>');
+    expect(document).toContain("Focus is rare &amp; valuable.");
+    expect(document).toMatch(/JotsNote.*Jonathan&apos;s Jots: Critique.*JotsNote.*The studies are small\./s);
+  });
+});
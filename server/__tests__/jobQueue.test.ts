@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueueModule = typeof import("../jobQueue");
+type DbModule = typeof import("../db");
+
+const ORIGINAL_ENV = { ...process.env };
+
+const loadModules = async (): Promise<{ queue: QueueModule; db: DbModule }> => {
+  const db = await import("../db");
+  const queue = await import("../jobQueue");
+  return { queue, db };
+};
+
+describe("jobQueue", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("runs queued jobs and persists their progress", async () => {
+    const { queue, db } = await loadModules();
+    const run = vi.fn(async (_job, context) => {
+      await context.reportProgress({ stage: "Halfway", sectionsCompleted: 1, totalSections: 2 });
+    });
+    queue.registerJobHandler("summary", { run });
+
+    const job = await queue.enqueueJob({ kind: "summary", summaryId: "s1", userId: "u1", payload: { documentId: "d1" } });
+    await queue.processNextJob();
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(queue.parseJobPayload(run.mock.calls[0][0])).toEqual({ documentId: "d1" });
+
+    const stored = await db.getSummaryJob(job.id);
+    expect(stored?.status).toBe("completed");
+    expect(stored?.attempts).toBe(1);
+    expect(JSON.parse(stored!.progress!)).toMatchObject({ stage: "Halfway" });
+  });
+
+  it("retries failures with backoff and reports the final failure", async () => {
+    const { queue, db } = await loadModules();
+    const onFailure = vi.fn(async () => undefined);
+    queue.registerJobHandler("summary", {
+      run: async () => {
+        throw new Error("provider unavailable");
+      },
+      onFailure,
+    });
+
+    const job = await queue.enqueueJob({
+      kind: "summary",
+      summaryId: "s2",
+      userId: "u1",
+      payload: {},
+      maxAttempts: 2,
+    });
+
+    await queue.processNextJob();
+    let stored = await db.getSummaryJob(job.id);
+    expect(stored?.status).toBe("queued");
+    expect(stored?.lastError).toBe("provider unavailable");
+    expect(stored!.runAfter.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet, so nothing is claimed.
+    expect(await queue.processNextJob()).toBeUndefined();
+
+    await db.updateSummaryJob(job.id, { runAfter: new Date(0) });
+    await queue.processNextJob();
+    stored = await db.getSummaryJob(job.id);
+    expect(stored?.status).toBe("failed");
+    expect(onFailure).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-queues jobs whose worker stopped sending heartbeats", async () => {
+    const { queue, db } = await loadModules();
+    const job = await queue.enqueueJob({ kind: "summary", summaryId: "s3", userId: "u1", payload: {} });
+
+    const claimed = await db.claimNextSummaryJob("crashed-worker");
+    expect(claimed?.id).toBe(job.id);
+    await db.updateSummaryJob(job.id, { heartbeatAt: new Date(Date.now() - 10 * 60 * 1000) });
+
+    expect(await queue.recoverOrphanedJobs(60 * 1000)).toBe(1);
+    const stored = await db.getSummaryJob(job.id);
+    expect(stored?.status).toBe("queued");
+    expect(stored?.lockedBy).toBeNull();
+  });
+
+  it("doubles the retry delay on each attempt", async () => {
+    const { queue } = await loadModules();
+    expect(queue.computeRetryDelay(1, 1000)).toBe(1000);
+    expect(queue.computeRetryDelay(2, 1000)).toBe(2000);
+    expect(queue.computeRetryDelay(3, 1000)).toBe(4000);
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { detectLanguage } from "../language";
+import { generateGapFillPrompt, generateShortformPrompt, getBuiltInPromptTemplate, renderSummaryPrompt } from "../shortformPrompt";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const ENGLISH =
+  "The habit of deep work is rare and valuable. Most of the people who try it give up because the rewards are slow, but those who persist find that focus is a skill which can be trained.";
+const SPANISH =
+  "El hábito del trabajo profundo es raro y valioso. La mayoría de las personas que lo intentan se rinden porque los resultados son lentos, pero los que persisten descubren que la concentración es una habilidad que se puede entrenar con paciencia y por eso es muy útil para sus proyectos.";
+const GERMAN =
+  "Die Gewohnheit der konzentrierten Arbeit ist selten und wertvoll. Die meisten, die es versuchen, geben auf, weil sich der Erfolg nicht sofort zeigt, aber wer dabei bleibt, merkt, dass sich Konzentration trainieren lässt und dass es sich auch lohnt, wenn es anfangs nicht leicht ist und die Ablenkung groß ist.";
+
+const reply = (content: unknown, model = "translator") => ({
+  id: "r1",
+  created: 0,
+  model,
+  choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content: JSON.stringify(content) } }],
+});
+
+/** Every string in `value`, prefixed the way the fake translator marks its output. */
+const translated = (value: unknown): unknown => {
+  if (typeof value === "string") return `ES: ${value}`;
+  if (Array.isArray(value)) return value.map(translated);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, translated(item)]));
+  }
+  return value;
+};
+
+describe("summary languages", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("detects the language of extracted text and leaves short or unclear text undetected", () => {
+    expect(detectLanguage(ENGLISH)).toBe("en");
+    expect(detectLanguage(SPANISH)).toBe("es");
+    expect(detectLanguage(GERMAN)).toBe("de");
+    expect(detectLanguage("Deep Work")).toBeNull();
+    expect(detectLanguage("1234 5678 ---")).toBeNull();
+  });
+
+  it("asks for the output language only when the summary is not English from English", () => {
+    const template = getBuiltInPromptTemplate("deep-dive")!;
+    const english = generateShortformPrompt(ENGLISH, "Deep Work");
+    expect(english).not.toContain("OUTPUT LANGUAGE");
+    const context = { documentText: ENGLISH, bookTitle: "Deep Work", outputLanguage: "en" as const };
+    expect(renderSummaryPrompt(template.body, template.variables, context)).toBe(english);
+
+    const german = renderSummaryPrompt(template.body, template.variables, {
+      documentText: SPANISH,
+      bookTitle: "Deep Work",
+      outputLanguage: "de",
+      sourceLanguage: "es",
+    });
+    expect(german.startsWith("OUTPUT LANGUAGE: German")).toBe(true);
+    expect(german).toContain("The document is written in Spanish; summarize it in German");
+    expect(german).toContain('"noteType" values exactly as specified below, in English');
+
+    const gapFill = {
+      partKind: "note" as const,
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      onePageSummary: "",
+      location: "Section 1",
+      shortfall: "Missing note.",
+      context: {},
+    };
+    expect(generateGapFillPrompt(gapFill)).not.toContain("Write all text in");
+    expect(generateGapFillPrompt({ ...gapFill, language: "es" })).toContain("Write all text in Spanish");
+  });
+
+  it("writes the offline summary in the document's own language", async () => {
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      hasLLMProvidersConfigured: () => false,
+    }));
+    const db = await import("../db");
+    const { generateSummaryWithProgress } = await import("../progressiveSummary");
+
+    await db.createDocument({
+      id: "doc-es",
+      userId: "u1",
+      originalFilename: "trabajo.txt",
+      fileType: "txt",
+      fileSize: 100,
+      storageKey: "documents/u1/trabajo.txt",
+      storageUrl: "/storage/trabajo.txt",
+      status: "completed",
+      extractedText: Array(20).fill(SPANISH).join("\n\n"),
+      language: "es",
+    });
+    await db.createSummary({ id: "sum-es", documentId: "doc-es", userId: "u1", status: "generating" });
+
+    await generateSummaryWithProgress({ summaryId: "sum-es", documentId: "doc-es", language: "de" }, async () => {});
+
+    const summary = await db.getSummary("sum-es");
+    expect(summary!.language).toBe("es");
+    const { sections } = JSON.parse(summary!.mainContent!);
+    expect(sections[0].subsections[0].title).toMatch(/: idea 1$/);
+    expect(sections[0].subsections[0].jotsNotes[0].content).not.toMatch(/\b(the|and|of)\b/);
+    const [version] = await db.getSummaryVersions("sum-es");
+    expect(version.changeDescription).toContain("Written in Spanish; German needs a model");
+  });
+
+  it("translates a summary into a linked copy with the same sections and notes", async () => {
+    let droppedNote = false;
+    const invokeLLMWithRouting = vi.fn(
+      async ({ messages, outputSchema }: { messages: Array<{ content: string }>; outputSchema: { name: string } }) => {
+        const prompt = messages[0].content;
+        const original = JSON.parse(prompt.slice(prompt.indexOf("\n{"), prompt.indexOf("\n\nRULES:")));
+        const result = translated(original) as any;
+        // The first reply for the second section loses a note and has to be asked for again.
+        if (outputSchema.name === "translated_section" && original.title === "Shallow Work" && !droppedNote) {
+          droppedNote = true;
+          result.subsections[0].jotsNotes = [];
+        }
+        return reply(result);
+      },
+    );
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      invokeLLMWithRouting,
+      hasLLMProvidersConfigured: () => true,
+    }));
+    const db = await import("../db");
+    const { translateSummary } = await import("../summaryTranslation");
+
+    const sections = ["Deep Work", "Shallow Work"].map(title => ({
+      title,
+      grounding: { risk: "low" },
+      subsections: [
+        {
+          title: `${title} matters`,
+          content: "Focus compounds.",
+          source: { startOffset: 0, endOffset: 10 },
+          grounding: { risk: "low" },
+          jotsNotes: [
+            { type: "critique", content: "The evidence is thin." },
+            { type: "practical", content: "Block your calendar.", machinePadded: true },
+          ],
+        },
+      ],
+    }));
+    const researchSources = [
+      { title: "Flow", author: "Mihaly Csikszentmihalyi", authorCredentials: "", relevance: "Focus research." },
+    ];
+    await db.createSummary({
+      id: "sum-en",
+      documentId: "doc-1",
+      userId: "u1",
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      introduction: "An introduction.",
+      onePageSummary: "A summary.",
+      mainContent: JSON.stringify({ sections, researchSources, qualityGate: { passed: true } }),
+      jotsNotesCount: 4,
+      researchSourcesCount: 1,
+      language: "en",
+      status: "completed",
+    });
+    await db.createSummary({
+      id: "sum-es",
+      documentId: "doc-1",
+      userId: "u1",
+      language: "es",
+      translatedFromId: "sum-en",
+      status: "generating",
+    });
+
+    await translateSummary({ summaryId: "sum-es", sourceSummaryId: "sum-en", language: "es" }, async () => {});
+
+    expect(invokeLLMWithRouting).toHaveBeenCalledTimes(5);
+    const translation = await db.getSummary("sum-es");
+    expect(translation).toMatchObject({
+      status: "completed",
+      language: "es",
+      translatedFromId: "sum-en",
+      bookTitle: "Deep Work",
+      introduction: "ES: An introduction.",
+      onePageSummary: "ES: A summary.",
+      jotsNotesCount: 4,
+    });
+
+    const content = JSON.parse(translation!.mainContent!);
+    expect(content.qualityGate).toEqual({ passed: true });
+    expect(content.sections.map((section: any) => section.title)).toEqual(["ES: Deep Work", "ES: Shallow Work"]);
+    expect(content.sections[1].grounding).toBeUndefined();
+    expect(content.sections[1].subsections[0]).toEqual({
+      title: "ES: Shallow Work matters",
+      content: "ES: Focus compounds.",
+      source: { startOffset: 0, endOffset: 10 },
+      jotsNotes: [
+        { type: "critique", content: "ES: The evidence is thin." },
+        { type: "practical", content: "ES: Block your calendar.", machinePadded: true },
+      ],
+    });
+    expect(content.researchSources).toEqual([{ ...researchSources[0], relevance: "ES: Focus research." }]);
+
+    expect((await db.getSummaryByDocumentId("doc-1"))!.id).toBe("sum-en");
+    expect((await db.getSummaryTranslations("sum-en")).map(summary => summary.id)).toEqual(["sum-es"]);
+  });
+});
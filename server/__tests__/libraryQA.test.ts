@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { localEmbedding } from "../embeddings";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const reply = (content: unknown) => ({
+  id: "r1",
+  created: 0,
+  model: "librarian",
+  choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content: JSON.stringify(content) } }],
+});
+
+const summaryContent = (sectionTitle: string, subsectionTitle: string, content: string, note: string) =>
+  JSON.stringify({
+    sections: [
+      {
+        title: sectionTitle,
+        subsections: [{ title: subsectionTitle, content, jotsNotes: [{ type: "practical", content: note }] }],
+      },
+    ],
+    researchSources: [],
+  });
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe("ask your library", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  async function setup() {
+    const db = await import("../db");
+    const search = await import("../search");
+
+    const document = await db.createDocument({
+      id: "doc-habits",
+      userId: "u1",
+      originalFilename: "atomic-habits.txt",
+      fileType: "txt",
+      fileSize: 100,
+      storageKey: "documents/u1/atomic-habits.txt",
+      storageUrl: "/storage/atomic-habits.txt",
+      status: "completed",
+      extractedText: "Habits are the compound interest of self-improvement. Small habits form through cues and rewards.",
+    });
+    await db.createSummary({
+      id: "sum-habits",
+      documentId: "doc-habits",
+      userId: "u1",
+      bookTitle: "Atomic Habits",
+      bookAuthor: "James Clear",
+      status: "completed",
+      mainContent: summaryContent(
+        "Habit Formation",
+        "The habit loop",
+        "Every habit forms through a loop of cue, craving, response and reward.",
+        "Stack a new habit onto an existing one.",
+      ),
+    });
+    await db.createSummary({
+      id: "sum-focus",
+      documentId: "doc-focus",
+      userId: "u1",
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      status: "completed",
+      mainContent: summaryContent(
+        "Focus",
+        "Attention residue",
+        "Switching tasks leaves attention residue that lowers performance.",
+        "Batch email into fixed blocks.",
+      ),
+    });
+    await search.indexDocument(document);
+    await search.indexSummary("sum-habits");
+    await search.indexSummary("sum-focus");
+
+    return { db };
+  }
+
+  it("embeds text deterministically into unit vectors that favour shared words", () => {
+    const habits = localEmbedding("How habits form");
+    expect(localEmbedding("How habits form")).toEqual(habits);
+    expect(dot(habits, habits)).toBeCloseTo(1);
+
+    const related = localEmbedding("Forming a new habit takes a cue and a reward");
+    const unrelated = localEmbedding("Attention residue lowers performance");
+    expect(dot(habits, related)).toBeGreaterThan(dot(habits, unrelated));
+  });
+
+  it("scores only the chunks of the documents asked about", async () => {
+    await setup();
+    const { findSimilarChunks } = await import("../embeddings");
+    const question = "attention residue and habit loops";
+
+    const everything = await findSimilarChunks("u1", question, { limit: 10 });
+    expect(new Set(everything.map(chunk => chunk.documentId))).toEqual(new Set(["doc-habits", "doc-focus"]));
+
+    const focus = await findSimilarChunks("u1", question, { limit: 10, documentIds: ["doc-focus"] });
+    expect(focus.length).toBeGreaterThan(0);
+    expect(focus.every(chunk => chunk.documentId === "doc-focus")).toBe(true);
+    expect(focus[0]).toMatchObject({ bookTitle: "Deep Work", content: expect.stringContaining("attention residue") });
+    expect(focus.map(chunk => chunk.score)).toEqual([...focus.map(chunk => chunk.score)].sort((a, b) => b - a));
+    expect(await findSimilarChunks("u1", question, { limit: 1 })).toEqual([everything[0]]);
+  });
+
+  it("answers from the most similar chunks and keeps only citations it was given", async () => {
+    const invokeLLMWithRouting = vi.fn(async () => reply({ answer: "Atomic Habits covers the habit loop [1][9]." }));
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      invokeLLMWithRouting,
+      hasLLMProvidersConfigured: () => true,
+    }));
+    await setup();
+    const { askLibrary } = await import("../libraryQA");
+
+    const result = await askLibrary("u1", { question: "Which books discuss habit formation?", limit: 3 });
+
+    expect(invokeLLMWithRouting).toHaveBeenCalledWith(expect.anything(), "library_qa");
+    const prompt = (invokeLLMWithRouting.mock.calls[0] as any)[0].messages[0].content as string;
+    expect(prompt).toContain('[1] "Atomic Habits" by James Clear — Habit Formation › The habit loop');
+    expect(prompt).toContain("Stack a new habit onto an existing one.");
+
+    expect(result.answer).toBe("Atomic Habits covers the habit loop [1].");
+    expect(result.model).toBe("librarian");
+    expect(result.sources.map(source => source.summaryId)).not.toContain("sum-focus");
+    expect(result.citations).toEqual([
+      expect.objectContaining({
+        number: 1,
+        kind: "subsection",
+        summaryId: "sum-habits",
+        location: { sectionIndex: 0, subsectionIndex: 0 },
+      }),
+    ]);
+  });
+
+  it("returns the matching passages without a model, linked to the book's summary", async () => {
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      hasLLMProvidersConfigured: () => false,
+    }));
+    const { db } = await setup();
+    const { askLibrary } = await import("../libraryQA");
+
+    const result = await askLibrary("u1", { question: "compound interest of self-improvement" });
+    expect(result.answer).toBeNull();
+    expect(result.citations).toEqual([]);
+    expect(result.sources[0]).toMatchObject({
+      kind: "passage",
+      documentId: "doc-habits",
+      summaryId: "sum-habits",
+      bookTitle: "Atomic Habits",
+    });
+
+    await db.deleteDocument("doc-habits");
+    await db.deleteSummary("sum-habits");
+    const afterDelete = await askLibrary("u1", { question: "compound interest of self-improvement" });
+    expect(afterDelete.sources).toEqual([]);
+  });
+});
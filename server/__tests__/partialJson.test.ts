@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parsePartialJson } from "../partialJson";
+
+describe("parsePartialJson", () => {
+  it("parses complete documents like JSON.parse", () => {
+    const text = '{"title":"Book","sections":[{"heading":"One","points":[1,2.5,true,null]}]}';
+    expect(parsePartialJson(text)).toEqual(JSON.parse(text));
+  });
+
+  it("closes open containers and drops unfinished strings", () => {
+    const text = '{"title":"Deep Work","sections":[{"heading":"Rule 1","content":"Work dee';
+    expect(parsePartialJson(text)).toEqual({
+      title: "Deep Work",
+      sections: [{ heading: "Rule 1" }],
+    });
+  });
+
+  it("skips leading prose and code fences", () => {
+    expect(parsePartialJson('Here you go:\n```json\n{"a":"b","c":[')).toEqual({ a: "b", c: [] });
+  });
+
+  it("holds back numbers and literals that may still be growing", () => {
+    expect(parsePartialJson('{"count":12')).toEqual({});
+    expect(parsePartialJson('{"done":tr')).toEqual({});
+    expect(parsePartialJson('{"count":12,')).toEqual({ count: 12 });
+  });
+
+  it("returns undefined before any JSON has arrived", () => {
+    expect(parsePartialJson("Thinking about the summary")).toBeUndefined();
+    expect(parsePartialJson("")).toBeUndefined();
+  });
+});
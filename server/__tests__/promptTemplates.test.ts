@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { evaluateSummary } from "../qualityGate";
+import {
+  generateShortformPrompt,
+  getBuiltInPromptTemplate,
+  renderSummaryPrompt,
+  SHORTFORM_PROMPT_VERSION,
+  SUMMARY_TARGETS,
+} from "../shortformPrompt";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const loadRegistry = async () => await import("../promptTemplates");
+
+describe("prompt templates", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("renders variables in one pass and keeps the deep-dive prompt as the default", () => {
+    const template = getBuiltInPromptTemplate("deep-dive")!;
+    expect(template.id).toBe(SHORTFORM_PROMPT_VERSION);
+
+    const prompt = generateShortformPrompt("Text mentioning {{noteTypeList}} verbatim.", "Deep Work", "Cal Newport");
+    expect(prompt).toContain("Text mentioning {{noteTypeList}} verbatim.");
+    expect(prompt).toContain("BOOK TITLE: Deep Work");
+    expect(prompt).toContain("- Total summary: 4,000-6,000 words");
+    expect(prompt).toContain("Five types of notes:");
+    expect(prompt).not.toMatch(/\{\{(?!noteTypeList)\w+\}\}/);
+
+    const brief = renderSummaryPrompt(
+      "{{sections}} sections, {{noteTypeCount}}: {{noteTypeList}}\n{{documentText}}",
+      { targets: { ...SUMMARY_TARGETS, sections: { min: 2, max: 3 } }, noteTypes: ["Practical"] },
+      { documentText: "Body" },
+    );
+    expect(brief).toBe("2-3 sections, One type of note: Practical\nBody");
+  });
+
+  it("resolves a style to the user's latest version and falls back to the built-in", async () => {
+    const registry = await loadRegistry();
+
+    expect((await registry.listSummaryStyles("u1")).map(template => template.style).sort()).toEqual([
+      "deep-dive",
+      "executive-brief",
+      "study-guide",
+    ]);
+    expect((await registry.resolvePromptTemplate("u1")).id).toBe(SHORTFORM_PROMPT_VERSION);
+
+    const first = await registry.savePromptTemplate("u1", {
+      style: "executive-brief",
+      variables: { targets: { sections: { min: 2, max: 3 } } },
+    });
+    const second = await registry.savePromptTemplate("u1", {
+      style: "executive-brief",
+      variables: { noteTypes: ["Critique"] },
+    });
+
+    expect([first.version, second.version]).toEqual([2, 3]);
+    expect(second.variables.targets.sections).toEqual({ min: 2, max: 3 });
+    expect(second.variables.targets.totalWords).toEqual({ min: 1500, max: 2500 });
+    expect(second.variables.noteTypes).toEqual(["Critique"]);
+
+    expect((await registry.resolvePromptTemplate("u1", "executive-brief")).id).toBe(second.id);
+    expect((await registry.resolvePromptTemplate("u2", "executive-brief")).id).toBe("executive-brief-1");
+    expect((await registry.loadPromptTemplate(first.id)).version).toBe(2);
+    expect((await registry.loadPromptTemplate("missing")).id).toBe(SHORTFORM_PROMPT_VERSION);
+    await expect(registry.resolvePromptTemplate("u1", "haiku")).rejects.toThrow(/Unknown summary style "haiku"/);
+  });
+
+  it("rejects bodies with unknown variables or without the document", async () => {
+    const registry = await loadRegistry();
+
+    await expect(
+      registry.savePromptTemplate("u1", { style: "deep-dive", body: "Summarize {{documentText}} in {{wordCount}} words" }),
+    ).rejects.toThrow(/Unknown template variable\(s\): \{\{wordCount\}\}/);
+    await expect(registry.savePromptTemplate("u1", { style: "deep-dive", body: "Summarize the book." })).rejects.toThrow(
+      /must include \{\{documentText\}\}/,
+    );
+  });
+
+  it("scores summaries against the template's own targets", () => {
+    const brief = getBuiltInPromptTemplate("executive-brief")!;
+    const summary = {
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      introduction: "",
+      onePageSummary: "",
+      sections: [1, 2, 3].map(index => ({ title: `Idea ${index}`, subsections: [] })),
+      researchSources: [],
+    };
+
+    const sectionGaps = (targets: typeof SUMMARY_TARGETS) =>
+      evaluateSummary(summary, targets).shortfalls.filter(shortfall => shortfall.kind === "section").length;
+    expect(sectionGaps(SUMMARY_TARGETS)).toBe(2);
+    expect(sectionGaps(brief.variables.targets)).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SanitizedSummary } from "../progressiveSummary";
+
+const words = (count: number, word = "focus") => Array(count).fill(word).join(" ");
+
+const note = () => ({ type: "context", content: words(120, "context") });
+const subsection = (title: string) => ({ title, content: words(400), jotsNotes: [note()] });
+const section = (title: string) => ({ title, subsections: [subsection(`${title} A`), subsection(`${title} B`)] });
+const source = (index: number) => ({
+  title: `Source ${index}`,
+  author: `Author ${index}`,
+  authorCredentials: "",
+  relevance: "Related reading.",
+});
+
+const completeSummary = (): SanitizedSummary => ({
+  bookTitle: "Deep Work",
+  bookAuthor: "Cal Newport",
+  introduction: words(350),
+  onePageSummary: words(600),
+  sections: ["One", "Two", "Three", "Four", "Five"].map(section),
+  researchSources: Array.from({ length: 8 }, (_, index) => source(index)),
+});
+
+const reply = (content: unknown) => ({
+  id: "r1",
+  created: 0,
+  model: "gap-model",
+  choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant" as const, content: JSON.stringify(content) } }],
+});
+
+describe("quality gate", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+  });
+
+  it("passes a summary that meets its targets and lists the gaps in one that does not", async () => {
+    const { evaluateSummary } = await import("../qualityGate");
+    expect(evaluateSummary(completeSummary())).toMatchObject({ score: 1, passed: true, shortfalls: [] });
+
+    const sparse = completeSummary();
+    sparse.introduction = "";
+    sparse.sections = sparse.sections.slice(0, 4);
+    sparse.sections[0].subsections = [sparse.sections[0].subsections[0]];
+    sparse.sections[1].subsections[1].jotsNotes = [];
+    sparse.sections[2].subsections[0].jotsNotes[0].content = words(50);
+    sparse.researchSources = sparse.researchSources.slice(0, 6);
+
+    const report = evaluateSummary(sparse);
+    expect(report.passed).toBe(false);
+    expect(report.score).toBeLessThan(1);
+    expect(report.shortfalls.map(({ kind, sectionIndex, subsectionIndex, noteIndex }) => ({
+      kind,
+      sectionIndex,
+      subsectionIndex,
+      noteIndex,
+    }))).toEqual([
+      { kind: "section", sectionIndex: undefined, subsectionIndex: undefined, noteIndex: undefined },
+      { kind: "subsection", sectionIndex: 0, subsectionIndex: undefined, noteIndex: undefined },
+      { kind: "note", sectionIndex: 1, subsectionIndex: 1, noteIndex: undefined },
+      { kind: "note", sectionIndex: 2, subsectionIndex: 0, noteIndex: 0 },
+      { kind: "introduction", sectionIndex: undefined, subsectionIndex: undefined, noteIndex: undefined },
+      { kind: "researchSources", sectionIndex: undefined, subsectionIndex: undefined, noteIndex: undefined },
+    ]);
+  });
+
+  it("asks the model for only the missing parts and marks them as padded", async () => {
+    const modelNote = { type: "jonathans_jots_note", noteType: "Critique", content: words(120, "critique"), sources: [] };
+    const modelSubsection = { title: "Filled", content: words(400, "filled"), jotsNotes: [modelNote] };
+    const invokeLLMWithRouting = vi.fn(async ({ outputSchema }: { outputSchema: { name: string } }) => {
+      switch (outputSchema.name) {
+        case "summary_introduction":
+          return reply({ text: words(320, "intro") });
+        case "summary_subsection":
+          return reply(modelSubsection);
+        case "jots_note":
+          return reply(modelNote);
+        case "research_sources":
+          return reply({ researchSources: [source(0), source(20), source(21)] });
+        default:
+          throw new Error(`Unexpected request for ${outputSchema.name}`);
+      }
+    });
+    vi.doMock("../_core/llmRouter", () => ({ invokeLLMWithRouting, hasLLMProvidersConfigured: () => true }));
+    const { applyQualityGate } = await import("../qualityGate");
+
+    const summary = completeSummary();
+    summary.introduction = "";
+    summary.sections[0].subsections = [summary.sections[0].subsections[0]];
+    summary.sections[1].subsections[1].jotsNotes = [];
+    summary.researchSources = summary.researchSources.slice(0, 6);
+    const untouched = JSON.stringify(summary.sections[3]);
+
+    const report = await applyQualityGate(summary, { documentText: "Chapter 1: Focus\n\nDeep work matters.", fill: true });
+
+    expect(invokeLLMWithRouting).toHaveBeenCalledTimes(4);
+    expect(report).toMatchObject({ passed: true, score: 1, shortfalls: [] });
+    expect(report.initialScore).toBeLessThan(1);
+    expect(report.padded.map(part => part.kind)).toEqual(["subsection", "note", "introduction", "researchSources"]);
+
+    expect(summary.introduction).toBe(words(320, "intro"));
+    expect(summary.sections[0].subsections[1]).toMatchObject({ title: "Filled", machinePadded: true });
+    expect(summary.sections[1].subsections[1].jotsNotes).toEqual([
+      { type: "critique", content: words(120, "critique"), machinePadded: true },
+    ]);
+    expect(summary.researchSources.slice(6)).toEqual([
+      { ...source(20), machinePadded: true },
+      { ...source(21), machinePadded: true },
+    ]);
+    expect(JSON.stringify(summary.sections[3])).toBe(untouched);
+  });
+
+  it("only scores the summary when filling is off", async () => {
+    const invokeLLMWithRouting = vi.fn();
+    vi.doMock("../_core/llmRouter", () => ({ invokeLLMWithRouting, hasLLMProvidersConfigured: () => true }));
+    const { applyQualityGate } = await import("../qualityGate");
+
+    const summary = completeSummary();
+    summary.onePageSummary = "";
+    const report = await applyQualityGate(summary, { documentText: "", fill: false });
+
+    expect(invokeLLMWithRouting).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ passed: false, padded: [], shortfalls: [{ kind: "onePageSummary" }] });
+    expect(summary.onePageSummary).toBe("");
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const ORIGINAL_ENV = { ...process.env };
+const MB = 1024 * 1024;
+
+describe("quotas", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("limits generations per day and concurrent jobs, and deleting a summary does not refund it", async () => {
+    const db = await import("../db");
+    const quotas = await import("../quotas");
+    const { enqueueJob } = await import("../jobQueue");
+
+    await db.upsertRoleQuota({ role: "user", dailyGenerations: 2, monthlyGenerations: null, storageBytes: null, concurrentJobs: 1 });
+
+    await quotas.withGenerationQuota("u1", "user", { kind: "summary", summaryId: "sum-1" }, () =>
+      enqueueJob({ kind: "summary", summaryId: "sum-1", userId: "u1", payload: {} }),
+    );
+
+    await expect(quotas.assertCanGenerate("u1", "user")).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+      message: expect.stringContaining("Too many jobs in progress (1 allowed at once)"),
+    });
+
+    await db.deleteSummary("sum-1");
+    await quotas.withGenerationQuota("u1", "user", { kind: "chat" }, async () => "Answer");
+
+    await expect(quotas.assertCanGenerate("u1", "user")).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+      message: expect.stringContaining("Daily generation limit reached (2 per day)"),
+    });
+    // Another user has their own allowance, and admins are unlimited by default
+    await expect(quotas.assertCanGenerate("u2", "user")).resolves.toBeUndefined();
+    await expect(quotas.getQuotaUsage("u1", "admin")).resolves.toMatchObject({
+      dailyGenerations: { limit: null, used: 2, remaining: null },
+    });
+  });
+
+  it("lets only as many parallel requests through as the quota allows, and does not count failed starts", async () => {
+    const db = await import("../db");
+    const quotas = await import("../quotas");
+    const { enqueueJob } = await import("../jobQueue");
+
+    await db.upsertRoleQuota({ role: "user", dailyGenerations: 2, monthlyGenerations: null, storageBytes: null, concurrentJobs: 3 });
+
+    await expect(
+      quotas.withGenerationQuota("u1", "user", { kind: "rerun", summaryId: "sum-0" }, async () => {
+        throw new Error("Summary is already being generated");
+      }),
+    ).rejects.toThrow("already being generated");
+
+    const results = await Promise.allSettled(
+      ["sum-1", "sum-2", "sum-3"].map(summaryId =>
+        quotas.withGenerationQuota("u1", "user", { kind: "translation", summaryId }, () =>
+          enqueueJob({ kind: "translation", summaryId, userId: "u1", payload: {} }),
+        ),
+      ),
+    );
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "fulfilled", "rejected"]);
+
+    // Queued jobs hold the concurrency limit even when requests arrive together
+    await db.upsertRoleQuota({ role: "user", dailyGenerations: null, monthlyGenerations: null, storageBytes: null, concurrentJobs: 3 });
+    const comparisons = await Promise.allSettled(
+      ["cmp-1", "cmp-2"].map(summaryId =>
+        quotas.withGenerationQuota("u1", "user", { kind: "comparison", summaryId }, () =>
+          enqueueJob({ kind: "comparison", summaryId, userId: "u1", payload: {} }),
+        ),
+      ),
+    );
+    expect(comparisons.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect(await db.countGenerationEvents("u1", new Date(0))).toBe(3);
+  });
+
+  it("counts stored documents against the storage allowance and reports usage", async () => {
+    const db = await import("../db");
+    const quotas = await import("../quotas");
+
+    await db.createDocument({
+      id: "doc-1",
+      userId: "anonymous",
+      originalFilename: "book.pdf",
+      fileType: "pdf",
+      fileSize: 45 * MB,
+      storageKey: "documents/anonymous/book.pdf",
+      storageUrl: "/storage/book.pdf",
+    });
+
+    await expect(quotas.assertCanUpload("anonymous", quotas.quotaRole(null), 4 * MB)).resolves.toBeUndefined();
+    await expect(quotas.assertCanUpload("anonymous", quotas.quotaRole(null), 6 * MB)).rejects.toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+      message: expect.stringContaining("50 MB allowance"),
+    });
+
+    const usage = await quotas.getQuotaUsage("anonymous", "anonymous", new Date(Date.UTC(2026, 0, 31, 18)));
+    expect(usage).toMatchObject({
+      role: "anonymous",
+      storageBytes: { limit: 50 * MB, used: 45 * MB, remaining: 5 * MB },
+      dailyGenerations: { limit: 2, used: 0, remaining: 2, resetsAt: new Date(Date.UTC(2026, 1, 1)) },
+      monthlyGenerations: { resetsAt: new Date(Date.UTC(2026, 1, 1)) },
+    });
+  });
+});
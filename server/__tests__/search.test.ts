@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const BOOK_TEXT = [
+  "Chapter 1: Deep Work",
+  "Deep work is the ability to focus without distraction on a cognitively demanding task.",
+  "Chapter 2: Shallow Work",
+  "Shallow work is logistical and easy to replicate. Email and meetings fill the day with it.",
+].join("\n\n");
+
+const CONTENT = {
+  sections: [
+    {
+      title: "Focus",
+      subsections: [
+        {
+          title: "Attention residue",
+          content: "Switching tasks leaves attention residue that lowers performance.",
+          jotsNotes: [
+            { type: "critique", content: "The residue studies used small samples of students." },
+            { type: "practical", content: "Batch email into two fixed blocks a day to protect focus." },
+          ],
+        },
+      ],
+    },
+  ],
+  researchSources: [
+    {
+      title: "Flow",
+      author: "Mihaly Csikszentmihalyi",
+      authorCredentials: "Psychologist",
+      relevance: "Describes the focus of optimal experience.",
+    },
+  ],
+};
+
+describe("library search", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  async function setup() {
+    const db = await import("../db");
+    const search = await import("../search");
+
+    const document = await db.createDocument({
+      id: "doc-1",
+      userId: "u1",
+      originalFilename: "deep-work.txt",
+      fileType: "txt",
+      fileSize: BOOK_TEXT.length,
+      storageKey: "documents/u1/deep-work.txt",
+      storageUrl: "/storage/deep-work.txt",
+      status: "completed",
+      extractedText: BOOK_TEXT,
+    });
+    await db.createSummary({
+      id: "sum-1",
+      documentId: "doc-1",
+      userId: "u1",
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      introduction: "A book about focus.",
+      onePageSummary: "Focus is rare and valuable.",
+      mainContent: JSON.stringify(CONTENT),
+      status: "completed",
+    });
+    await search.indexDocument(document);
+    await search.indexSummary("sum-1");
+
+    return { db, search };
+  }
+
+  it("finds document passages and summary parts with highlighted snippets", async () => {
+    const { search } = await setup();
+
+    const { results } = await search.searchLibrary("u1", { query: "focus" });
+    // Subsections and their notes match through their titles ("Focus › ...").
+    expect(new Set(results.map(result => result.kind))).toEqual(
+      new Set(["passage", "overview", "subsection", "note", "researchSource"]),
+    );
+
+    const note = results.find(result => result.id === "sum-1:s0.0.n1")!;
+    expect(note).toMatchObject({
+      kind: "note",
+      summaryId: "sum-1",
+      noteType: "practical",
+      bookAuthor: "Cal Newport",
+      location: { sectionIndex: 0, subsectionIndex: 0, noteIndex: 1 },
+    });
+    expect(note.snippet.filter(segment => segment.highlighted)).toEqual([{ text: "focus.", highlighted: true }]);
+    expect(note.snippet.map(segment => segment.text).join("")).toBe(
+      "Batch email into two fixed blocks a day to protect focus.",
+    );
+
+    const passage = results.find(result => result.kind === "passage")!;
+    expect(passage.summaryId).toBeNull();
+    expect(passage.title).toBe(`deep-work.txt · ${passage.location.passage!.label}`);
+
+    expect((await search.searchLibrary("u2", { query: "focus" })).results).toEqual([]);
+  });
+
+  it("filters by note type and author and understands phrases and exclusions", async () => {
+    const { search } = await setup();
+
+    const critiques = await search.searchLibrary("u1", { query: "residue", noteType: "Critique" });
+    expect(critiques.results.map(result => result.id)).toEqual(["sum-1:s0.0.n0"]);
+
+    expect((await search.searchLibrary("u1", { query: "focus", author: "newport" })).results).not.toHaveLength(0);
+    expect((await search.searchLibrary("u1", { query: "focus", author: "Kahneman" })).results).toEqual([]);
+
+    const phrase = await search.searchLibrary("u1", { query: '"lowers performance"' });
+    expect(phrase.results.map(result => result.id)).toEqual(["sum-1:s0.0"]);
+    expect((await search.searchLibrary("u1", { query: '"performance lowers"' })).results).toEqual([]);
+
+    const excluded = await search.searchLibrary("u1", { query: "email -batch" });
+    expect(excluded.results.map(result => result.kind)).toEqual(["passage"]);
+  });
+
+  it("pages through results and forgets deleted summaries and documents", async () => {
+    const { db, search } = await setup();
+
+    const firstPage = await search.searchLibrary("u1", { query: "focus", limit: 2 });
+    expect(firstPage.results).toHaveLength(2);
+    expect(firstPage.hasMore).toBe(true);
+    const rest = await search.searchLibrary("u1", { query: "focus", limit: 50, offset: 2 });
+    expect(rest.hasMore).toBe(false);
+    expect(rest.results.map(result => result.id)).not.toContain(firstPage.results[0].id);
+
+    await db.deleteSummary("sum-1");
+    const afterSummary = await search.searchLibrary("u1", { query: "focus" });
+    expect(afterSummary.results.map(result => result.kind)).toEqual(["passage"]);
+
+    await db.deleteDocument("doc-1");
+    expect((await search.searchLibrary("u1", { query: "focus" })).results).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { gzipSync } from "zlib";
+import { afterEach, describe, expect, it } from "vitest";
+import { createInMemoryCatalog, setBibliographicCatalog } from "../catalog";
+import { readLocalCatalog } from "../catalog/localCatalog";
+import { verifyResearchSources } from "../sourceVerification";
+
+const catalog = createInMemoryCatalog("stub", [
+  { title: "Flow: The Psychology of Optimal Experience", authors: ["Mihaly Csikszentmihalyi"], isbn: "9780061339202" },
+  { title: "The Shallows", authors: ["Carr, Nicholas"], isbn: "0393339750" },
+]);
+
+const source = (title: string, author: string) => ({
+  title,
+  author,
+  authorCredentials: "",
+  relevance: "Related reading.",
+});
+
+describe("research source verification", () => {
+  afterEach(() => {
+    setBibliographicCatalog(null);
+  });
+
+  it("verifies sources by title and author surname and records the ISBN", async () => {
+    const verified = await verifyResearchSources(
+      [
+        source("Flow", "Mihaly Csikszentmihalyi"),
+        source("the shallows", "Nicholas Carr"),
+        source("The Shallows", "Cal Newport"),
+        source("Deep Focus Companion Reading", "Editorial Research Collective"),
+      ],
+      { catalog, policy: "flag" },
+    );
+
+    expect(verified.map(({ title, verificationStatus, isbn }) => ({ title, verificationStatus, isbn }))).toEqual([
+      { title: "Flow", verificationStatus: "verified", isbn: "9780061339202" },
+      { title: "the shallows", verificationStatus: "verified", isbn: "0393339750" },
+      { title: "The Shallows", verificationStatus: "author_mismatch", isbn: undefined },
+      { title: "Deep Focus Companion Reading", verificationStatus: "not_found", isbn: undefined },
+    ]);
+  });
+
+  it("drops flagged sources under the drop policy and leaves them unchecked without a catalog", async () => {
+    const sources = [source("Flow", "Csikszentmihalyi"), source("Invented Book", "Nobody")];
+
+    const dropped = await verifyResearchSources(sources, { catalog, policy: "drop" });
+    expect(dropped.map(entry => entry.title)).toEqual(["Flow"]);
+
+    const unchecked = await verifyResearchSources(sources, { policy: "drop" });
+    expect(unchecked.map(entry => entry.verificationStatus)).toEqual(["unchecked", "unchecked"]);
+  });
+
+  it("reads Open Library dumps and ISBN lists", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "catalog-"));
+    try {
+      const dumpPath = join(dir, "ol_dump_editions.txt.gz");
+      const dump = [
+        `/type/edition\t/books/OL1M\t3\t2020-01-01\t${JSON.stringify({
+          title: "Deep Work",
+          subtitle: "Rules for Focused Success in a Distracted World",
+          authors: [{ key: "/authors/OL1A" }],
+          isbn_13: ["978-1-4555-8669-1"],
+          publish_date: "January 5, 2016",
+        })}`,
+        `/type/author\t/authors/OL1A\t1\t2020-01-01\t${JSON.stringify({ key: "/authors/OL1A", name: "Cal Newport" })}`,
+        "not a record",
+      ].join("\n");
+      await writeFile(dumpPath, gzipSync(dump));
+
+      expect(await readLocalCatalog(dumpPath)).toEqual([
+        {
+          title: "Deep Work: Rules for Focused Success in a Distracted World",
+          authors: ["Cal Newport"],
+          isbn: "9781455586691",
+          year: 2016,
+        },
+      ]);
+
+      const csvPath = join(dir, "isbns.csv");
+      await writeFile(csvPath, 'isbn,title,author,year\n0316413038,"Indistractable: How to Control Your Attention",Nir Eyal; Julie Li,2019\n');
+      const records = await readLocalCatalog(csvPath);
+      expect(records).toEqual([
+        {
+          title: "Indistractable: How to Control Your Attention",
+          authors: ["Nir Eyal", "Julie Li"],
+          isbn: "0316413038",
+          year: 2019,
+        },
+      ]);
+
+      setBibliographicCatalog(createInMemoryCatalog(csvPath, records));
+      const [verified] = await verifyResearchSources([source("Indistractable", "Nir Eyal")]);
+      expect(verified).toMatchObject({ verificationStatus: "verified", isbn: "0316413038" });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
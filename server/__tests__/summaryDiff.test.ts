@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { diffSummaries, diffText } from "../summaryDiff";
+
+const summaryWith = (sections: unknown[], overrides: Record<string, string> = {}) => ({
+  bookTitle: "Deep Work",
+  bookAuthor: "Cal Newport",
+  introduction: "An argument for focus.",
+  onePageSummary: "Focus matters.",
+  mainContent: JSON.stringify({ sections, researchSources: [] }),
+  ...overrides,
+});
+
+const section = (title: string, content: string) => ({
+  title,
+  subsections: [{ title: `${title} detail`, content, jotsNotes: [{ type: "context", content: "A note." }] }],
+});
+
+describe("diffText", () => {
+  it("marks inserted and deleted words", () => {
+    const diff = diffText("focus is rare and valuable", "deep focus is valuable");
+
+    expect(diff.status).toBe("changed");
+    expect(diff.segments.filter(segment => segment.type === "insert").map(segment => segment.text.trim())).toEqual(["deep"]);
+    expect(diff.segments.filter(segment => segment.type === "delete").map(segment => segment.text.trim())).toEqual([
+      "rare and",
+    ]);
+    expect(diff.segments.filter(segment => segment.type !== "delete").map(segment => segment.text).join("")).toBe(
+      "deep focus is valuable",
+    );
+  });
+
+  it("reports unchanged, added and removed text", () => {
+    expect(diffText("same", "same").status).toBe("unchanged");
+    expect(diffText("", "new").status).toBe("added");
+    expect(diffText("old", "").status).toBe("removed");
+  });
+});
+
+describe("diffSummaries", () => {
+  it("pairs sections by title even when they move", () => {
+    const from = summaryWith([section("Focus", "Work deeply."), section("Rest", "Take breaks.")]);
+    const to = summaryWith([section("Rest", "Take breaks."), section("Focus", "Work very deeply.")]);
+
+    const diff = diffSummaries(from, to);
+
+    expect(diff.sections.map(entry => entry.status)).toEqual(["unchanged", "changed"]);
+    expect(diff.sections[1].subsections[0].content.segments).toContainEqual({ type: "insert", text: "very " });
+    expect(diff.stats).toMatchObject({ sectionsChanged: 1, sectionsAdded: 0, sectionsRemoved: 0, wordsAdded: 1 });
+  });
+
+  it("reports added and removed sections", () => {
+    const from = summaryWith([section("Focus", "Work deeply."), section("Email", "Batch it.")]);
+    const to = summaryWith([section("Focus", "Work deeply."), section("Boredom", "Embrace it.")], {
+      introduction: "A case for focus.",
+    });
+
+    const diff = diffSummaries(from, to);
+
+    expect(diff.introduction.status).toBe("changed");
+    expect(diff.sections.map(entry => entry.status)).toEqual(["unchanged", "changed"]);
+    expect(diff.sections[1].title.segments).toEqual([
+      { type: "delete", text: "Email" },
+      { type: "insert", text: "Boredom" },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type EditingModule = typeof import("../summaryEditing");
+type DbModule = typeof import("../db");
+
+const ORIGINAL_ENV = { ...process.env };
+
+const storedContent = {
+  sections: [
+    {
+      title: "Focus",
+      subsections: [
+        {
+          title: "Attention residue",
+          content: "Switching tasks leaves residue.",
+          jotsNotes: [{ type: "context", content: "Original note." }],
+        },
+      ],
+    },
+  ],
+  researchSources: [{ title: "Flow", author: "Mihaly Csikszentmihalyi" }],
+};
+
+const loadModules = async (): Promise<{ editing: EditingModule; db: DbModule }> => {
+  const db = await import("../db");
+  const editing = await import("../summaryEditing");
+  return { editing, db };
+};
+
+const createCompletedSummary = async (db: DbModule) => {
+  await db.createDocument({
+    id: "doc-1",
+    userId: "u1",
+    originalFilename: "deep-work.txt",
+    fileType: "txt",
+    fileSize: 100,
+    storageKey: "documents/u1/deep-work.txt",
+    storageUrl: "/storage/deep-work.txt",
+    status: "completed",
+    extractedText: "Chapter 1: Focus\n\nDeep work produces value. Attention residue hurts it.",
+  });
+  return await db.createSummary({
+    id: "sum-1",
+    documentId: "doc-1",
+    userId: "u1",
+    bookTitle: "Deep Work",
+    bookAuthor: "Cal Newport",
+    onePageSummary: "Focus matters.",
+    introduction: "An argument for focus.",
+    mainContent: JSON.stringify(storedContent),
+    status: "completed",
+    jotsNotesCount: 1,
+    researchSourcesCount: 1,
+  });
+};
+
+describe("summaryEditing", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("saves hand edits into mainContent", async () => {
+    const { editing, db } = await loadModules();
+    const summary = await createCompletedSummary(db);
+
+    await editing.editSummaryPart(
+      summary,
+      { kind: "subsection", sectionIndex: 0, subsectionIndex: 0 },
+      "content",
+      "  Rewritten by the reader.  ",
+      "u1",
+    );
+
+    const stored = await db.getSummary(summary.id);
+    const content = JSON.parse(stored!.mainContent!);
+    expect(content.sections[0].subsections[0].content).toBe("Rewritten by the reader.");
+    expect(content.researchSources).toHaveLength(1);
+  });
+
+  it("rejects edits to parts that do not exist", async () => {
+    const { editing, db } = await loadModules();
+    const summary = await createCompletedSummary(db);
+
+    await expect(
+      editing.editSummaryPart(summary, { kind: "note", sectionIndex: 0, subsectionIndex: 0, noteIndex: 4 }, "content", "x", "u1"),
+    ).rejects.toThrow(/does not exist/);
+  });
+
+  it("regenerates a subsection with the reader's instruction and updates counts", async () => {
+    const invokeLLMWithRouting = vi.fn(async () => ({
+      id: "r1",
+      created: 0,
+      model: "test",
+      choices: [
+        {
+          index: 0,
+          finish_reason: "stop",
+          message: {
+            role: "assistant" as const,
+            content: JSON.stringify({
+              title: "Attention residue, revisited",
+              content: "A more critical take.",
+              jotsNotes: [
+                { type: "jonathans_jots_note", noteType: "Critique", content: "First.", sources: [] },
+                { type: "jonathans_jots_note", noteType: "Practical", content: "Second.", sources: [] },
+              ],
+            }),
+          },
+        },
+      ],
+    }));
+    vi.doMock("../_core/llmRouter", () => ({ invokeLLMWithRouting }));
+
+    const { editing, db } = await loadModules();
+    const summary = await createCompletedSummary(db);
+
+    await editing.regenerateSummaryPart(
+      summary,
+      { kind: "subsection", sectionIndex: 0, subsectionIndex: 0 },
+      "u1",
+      "more critical",
+    );
+
+    const prompt = (invokeLLMWithRouting.mock.calls[0] as any)[0].messages[0].content as string;
+    expect(prompt).toContain("more critical");
+    expect(prompt).toContain("Attention residue hurts it.");
+
+    const stored = await db.getSummary(summary.id);
+    const content = JSON.parse(stored!.mainContent!);
+    expect(content.sections[0].subsections[0].title).toBe("Attention residue, revisited");
+    expect(content.sections[0].subsections[0].jotsNotes[0]).toEqual({ type: "critique", content: "First." });
+    expect(stored!.jotsNotesCount).toBe(2);
+
+    const versions = await db.getSummaryVersions(summary.id);
+    expect(versions.map(version => version.changeType)).toEqual(["regenerated", "generated"]);
+    expect(versions[0]).toMatchObject({ model: "test", authorId: "u1", versionNumber: 2 });
+  });
+
+  it("applies changes made at the same time one after another, each with its own version", async () => {
+    const { editing, db } = await loadModules();
+    const summary = await createCompletedSummary(db);
+    const subsection = { kind: "subsection" as const, sectionIndex: 0, subsectionIndex: 0 };
+    const note = { kind: "note" as const, sectionIndex: 0, subsectionIndex: 0, noteIndex: 0 };
+
+    await Promise.all([
+      editing.editSummaryPart(summary, subsection, "content", "Residue lingers after a switch.", "u1"),
+      editing.editSummaryPart(summary, note, "content", "Edited note.", "u2"),
+      editing.editSummaryPart(summary, { kind: "introduction" }, "content", "A new introduction.", "u1"),
+    ]);
+
+    const stored = editing.parseStoredContent((await db.getSummary(summary.id))!.mainContent);
+    expect(stored.sections[0].subsections[0]).toMatchObject({
+      content: "Residue lingers after a switch.",
+      jotsNotes: [{ content: "Edited note." }],
+    });
+    const versions = await db.getSummaryVersions(summary.id);
+    expect(versions.map(version => version.versionNumber)).toEqual([4, 3, 2, 1]);
+  });
+
+  it("restores an earlier version as a new revision", async () => {
+    const { editing, db } = await loadModules();
+    const summary = await createCompletedSummary(db);
+
+    await editing.editSummaryPart(summary, { kind: "introduction" }, "content", "A new introduction.", "u1");
+    const [edited, baseline] = await db.getSummaryVersions(summary.id);
+    expect(edited.changeType).toBe("edited");
+
+    const current = await db.getSummary(summary.id);
+    const restored = await editing.restoreSummaryVersion(current!, baseline.id, "u1");
+
+    expect(restored).toMatchObject({ changeType: "restored", versionNumber: 3 });
+    expect((await db.getSummary(summary.id))!.introduction).toBe("An argument for focus.");
+    expect(await db.getResearchSourcesBySummaryId(summary.id)).toHaveLength(1);
+  });
+
+  it("keeps a summary whose re-run failed editable, so an earlier version can be restored", async () => {
+    const { editing, db } = await loadModules();
+    const queue = await import("../jobQueue");
+    const { summaryJobHandler } = await import("../progressiveSummary");
+    const { ensureBaselineVersion } = await import("../summaryVersions");
+    const summary = await createCompletedSummary(db);
+    await editing.editSummaryPart(summary, { kind: "introduction" }, "content", "A new introduction.", "u1");
+
+    // What summaries.rerun does before the job runs
+    await ensureBaselineVersion((await db.getSummary(summary.id))!);
+    await db.updateSummary(summary.id, { status: "generating", errorMessage: null });
+    queue.registerJobHandler("summary", summaryJobHandler);
+    await queue.enqueueJob({
+      kind: "summary",
+      summaryId: summary.id,
+      userId: "u1",
+      payload: { documentId: "missing-doc" },
+      maxAttempts: 1,
+    });
+    await queue.processNextJob();
+
+    const failed = await db.getSummary(summary.id);
+    expect(failed).toMatchObject({ status: "completed", introduction: "A new introduction." });
+    expect(failed!.errorMessage).toBeTruthy();
+
+    const baseline = (await db.getSummaryVersions(summary.id)).find(version => version.versionNumber === 1);
+    await editing.restoreSummaryVersion(failed!, baseline!.id, "u1");
+    expect((await db.getSummary(summary.id))!.introduction).toBe("An argument for focus.");
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { sanitizeStructuredSummary, type StructuredSummary } from "../progressiveSummary";
+import { SUMMARY_TARGETS } from "../shortformPrompt";
+import { LENGTH_PRESETS, parseStoredTargets, resolveSummaryTargets, summaryLengthSchema } from "../summaryLength";
+
+const ORIGINAL_ENV = { ...process.env };
+
+const note = (content: string) => ({ type: "jonathans_jots_note", noteType: "Context", content, sources: [] });
+
+describe("summary length presets", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../_core/llmRouter");
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("layers custom targets over a preset or the template's own", () => {
+    const brief = resolveSummaryTargets(SUMMARY_TARGETS, {
+      preset: "skim",
+      targets: { totalWords: { min: 500, max: 700 } },
+    });
+    expect(brief).toEqual({ ...LENGTH_PRESETS.skim, totalWords: { min: 500, max: 700 } });
+
+    const templateTargets = { ...SUMMARY_TARGETS, sections: { min: 3, max: 4 } };
+    expect(resolveSummaryTargets(templateTargets, {})).toEqual(templateTargets);
+    expect(resolveSummaryTargets(templateTargets, { preset: "standard" })).toEqual(SUMMARY_TARGETS);
+
+    expect(parseStoredTargets(JSON.stringify(brief))).toEqual(brief);
+    expect(parseStoredTargets("not json")).toBeUndefined();
+    expect(summaryLengthSchema.safeParse({ targets: { sections: { min: 4, max: 2 } } }).success).toBe(false);
+    expect(summaryLengthSchema.safeParse({ targets: { sections: { min: 0, max: 0 } } }).success).toBe(false);
+    // Capped at twice the exhaustive preset
+    expect(summaryLengthSchema.safeParse({ targets: { sections: { min: 24, max: 24 } } }).success).toBe(true);
+    expect(summaryLengthSchema.safeParse({ targets: { sections: { min: 5000, max: 5000 } } }).success).toBe(false);
+    expect(summaryLengthSchema.safeParse({ targets: { totalWords: { min: 1000, max: 1e9 } } }).success).toBe(false);
+  });
+
+  it("drops whatever exceeds the maximum counts when sanitizing", () => {
+    const raw: StructuredSummary = {
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      introduction: "Intro.",
+      onePageSummary: "Summary.",
+      sections: [1, 2, 3, 4].map(index => ({
+        title: `Section ${index}`,
+        subsections: [1, 2, 3].map(sub => ({
+          title: `Idea ${index}.${sub}`,
+          content: "Focus compounds.",
+          jotsNotes: [note("First."), note("Second.")],
+        })),
+      })),
+      researchSources: [1, 2, 3, 4, 5].map(index => ({
+        title: `Study ${index}`,
+        author: "Researcher",
+        relevance: "Relevant.",
+      })),
+    };
+
+    const sanitized = sanitizeStructuredSummary(raw, { targets: LENGTH_PRESETS.skim });
+
+    expect(sanitized.sections.map(section => section.title)).toEqual(["Section 1", "Section 2", "Section 3"]);
+    expect(sanitized.sections.every(section => section.subsections.length === 2)).toBe(true);
+    expect(sanitized.sections[0].subsections[0].jotsNotes).toEqual([{ type: "context", content: "First." }]);
+    expect(sanitized.researchSources).toHaveLength(3);
+    expect(sanitizeStructuredSummary(raw).sections).toHaveLength(4);
+  });
+
+  it("writes the offline summary to the requested targets", async () => {
+    vi.doMock("../_core/llmRouter", async importOriginal => ({
+      ...(await importOriginal<typeof import("../_core/llmRouter")>()),
+      hasLLMProvidersConfigured: () => false,
+    }));
+    const db = await import("../db");
+    const { generateSummaryWithProgress } = await import("../progressiveSummary");
+
+    const chapters = Array.from({ length: 8 }, (_, chapter) =>
+      Array.from(
+        { length: 30 },
+        (_, sentence) => `Chapter ${chapter + 1} idea ${sentence + 1} explains how habits shape attention over time.`,
+      ).join(" "),
+    );
+    await db.createDocument({
+      id: "doc-1",
+      userId: "u1",
+      originalFilename: "habits.txt",
+      fileType: "txt",
+      fileSize: 100,
+      storageKey: "documents/u1/habits.txt",
+      storageUrl: "/storage/habits.txt",
+      status: "completed",
+      extractedText: chapters.join("\n\n"),
+    });
+    await db.createSummary({ id: "sum-1", documentId: "doc-1", userId: "u1", status: "generating" });
+
+    await generateSummaryWithProgress(
+      { summaryId: "sum-1", documentId: "doc-1", bookTitle: "Habits", targets: LENGTH_PRESETS.skim },
+      async () => {},
+    );
+
+    const summary = await db.getSummary("sum-1");
+    const { sections } = JSON.parse(summary!.mainContent!);
+    expect(sections.length).toBeLessThanOrEqual(LENGTH_PRESETS.skim.sections.max);
+    expect(sections.length).toBeGreaterThanOrEqual(LENGTH_PRESETS.skim.sections.min);
+    for (const section of sections) {
+      expect(section.subsections.length).toBeLessThanOrEqual(LENGTH_PRESETS.skim.subsectionsPerSection.max);
+      for (const subsection of section.subsections) {
+        expect(subsection.content.split(/\s+/).length).toBeGreaterThanOrEqual(LENGTH_PRESETS.skim.subsectionWords.min);
+        expect(subsection.jotsNotes).toHaveLength(1);
+      }
+    }
+    // The later chapters are represented, not just the opening ones.
+    expect(sections[sections.length - 1].subsections[0].content).toMatch(/Chapter [6-8]/);
+    expect(summary!.introduction!.split(/\s+/).length).toBeLessThanOrEqual(LENGTH_PRESETS.skim.introductionWords.max);
+  });
+});
@@ -1,10 +1,8 @@
 import { describe, expect, it } from "vitest";
 import { sanitizeStructuredSummary, type StructuredSummary } from "../progressiveSummary";
 
-const countWords = (value: string): number => value.split(/\s+/).filter(Boolean).length;
-
 describe("sanitizeStructuredSummary", () => {
-  it("pads sparse summaries to exceed Jonathan's Jots standards", () => {
+  it("leaves sparse summaries sparse instead of padding them", () => {
     const raw: StructuredSummary = {
       bookTitle: "",
       bookAuthor: "",
@@ -19,6 +17,14 @@ describe("sanitizeStructuredSummary", () => {
               content: "Readers learn one core idea about slowing down.",
               jotsNotes: [],
             },
+            {
+              title: "Rest",
+              content: "Strategic rest restores attention.",
+              jotsNotes: [
+                { type: "jonathans_jots_note", noteType: "Analysis", content: "Short note.", sources: [] },
+                { type: "jonathans_jots_note", noteType: "Context", content: "  ", sources: [] },
+              ],
+            },
           ],
         },
       ],
@@ -28,33 +34,47 @@ describe("sanitizeStructuredSummary", () => {
     const sanitized = sanitizeStructuredSummary(raw, {
       fallbackTitle: "Test Book",
       fallbackAuthor: "Test Author",
-      documentText:
-        "This document provides deep insight into mindful productivity. " +
-        "It emphasises emotional regulation, strategic rest, and evidence-based routines." +
-        " Through comparative research we see why comprehensive notes must exceed Shortform expectations.",
     });
 
-    expect(sanitized.sections.length).toBeGreaterThanOrEqual(5);
-    sanitized.sections.forEach(section => {
-      expect(section.subsections.length).toBeGreaterThanOrEqual(2);
-      section.subsections.forEach(subsection => {
-        expect(subsection.jotsNotes.length).toBeGreaterThanOrEqual(1);
-        subsection.jotsNotes.forEach(note => {
-          const words = countWords(note.content);
-          expect(words).toBeGreaterThanOrEqual(100);
-          expect(words).toBeLessThanOrEqual(160);
-        });
-      });
+    expect(sanitized).toEqual({
+      bookTitle: "Test Book",
+      bookAuthor: "Test Author",
+      introduction: "",
+      onePageSummary: "",
+      sections: [
+        {
+          title: "Section 1",
+          subsections: [
+            { title: "Section 1 Insight 1", content: "Readers learn one core idea about slowing down.", jotsNotes: [] },
+            { title: "Rest", content: "Strategic rest restores attention.", jotsNotes: [{ type: "critique", content: "Short note." }] },
+          ],
+        },
+      ],
+      researchSources: [],
     });
+  });
 
-    expect(sanitized.researchSources.length).toBeGreaterThanOrEqual(8);
-    expect(sanitized.researchSources.length).toBeLessThanOrEqual(12);
-    sanitized.researchSources.forEach(source => {
-      expect(source.title).not.toHaveLength(0);
-      expect(source.relevance).not.toHaveLength(0);
+  it("keeps only complete, distinct research sources", () => {
+    const source = {
+      title: "Flow",
+      author: "Mihaly Csikszentmihalyi",
+      authorCredentials: "",
+      relevance: "Explains optimal experience.",
+    };
+    const sanitized = sanitizeStructuredSummary({
+      bookTitle: "Deep Work",
+      bookAuthor: "Cal Newport",
+      introduction: "Intro.",
+      onePageSummary: "Summary.",
+      sections: [],
+      researchSources: [
+        source,
+        { ...source, title: "FLOW" },
+        { ...source, title: "Untitled Study", author: "" },
+        { ...source, title: "Hyperfocus", author: "Chris Bailey", relevance: "" },
+      ],
     });
 
-    expect(sanitized.introduction.length).toBeGreaterThan(0);
-    expect(sanitized.onePageSummary.length).toBeGreaterThan(0);
+    expect(sanitized.researchSources).toEqual([{ ...source, title: "FLOW" }]);
   });
 });
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { summaryOutputSchema, validateModelSummary } from "../summarySchema";
+
+const validSummary = {
+  bookTitle: "Deep Work",
+  bookAuthor: "Cal Newport",
+  introduction: "An argument for focused work.",
+  onePageSummary: "Depth is rare and valuable.",
+  sections: [
+    {
+      title: "The Idea",
+      subsections: [
+        {
+          title: "Deep work is valuable",
+          content: "Focused effort produces results that shallow work cannot.",
+          jotsNotes: [
+            {
+              type: "jonathans_jots_note",
+              noteType: "Context",
+              content: "Research on attention residue supports this.",
+              sources: [{ title: "Attention Residue", author: "Sophie Leroy", authorCredentials: "PhD", url: "" }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  researchSources: [{ title: "Flow", author: "Mihaly Csikszentmihalyi", authorCredentials: "", relevance: "" }],
+};
+
+describe("validateModelSummary", () => {
+  it("accepts output that matches the schema", () => {
+    const result = validateModelSummary(JSON.stringify(validSummary));
+    expect(result.success).toBe(true);
+  });
+
+  it("reports readable paths for each problem", () => {
+    const broken = structuredClone(validSummary) as any;
+    broken.sections[0].subsections[0].content = "   ";
+    broken.sections[0].subsections[0].jotsNotes[0].noteType = "Opinion";
+
+    const result = validateModelSummary(JSON.stringify(broken));
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^sections\[0\]\.subsections\[0\]\.content: /),
+          expect.stringMatching(/^sections\[0\]\.subsections\[0\]\.jotsNotes\[0\]\.noteType: /),
+        ]),
+      );
+    }
+  });
+
+  it("treats truncated output as a validation failure", () => {
+    const result = validateModelSummary(JSON.stringify(validSummary).slice(0, 80));
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("summaryOutputSchema", () => {
+  it("is a strict-mode compatible JSON schema", () => {
+    const schema = summaryOutputSchema.schema as any;
+    expect(schema.$schema).toBeUndefined();
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.required).toEqual(Object.keys(schema.properties));
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const ORIGINAL_ENV = { ...process.env };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("LLM response cache", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_SUMMARY_MODEL;
+    delete process.env.LLM_CACHE_TTL_HOURS;
+    process.env.ANTHROPIC_API_KEY = "test";
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.doUnmock("../anthropic.js");
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("answers repeated requests from the cache until they expire or are bypassed", async () => {
+    let replies = 0;
+    const invokeAnthropic = vi.fn(async () => ({
+      id: `msg_${++replies}`,
+      content: `Reply ${replies}`,
+      model: "claude-3-5-sonnet-20241022",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: "end_turn",
+    }));
+    vi.doMock("../anthropic.js", async importOriginal => ({
+      ...(await importOriginal<typeof import("../anthropic")>()),
+      invokeAnthropic,
+    }));
+    const { invokeLLMWithRouting, streamLLMWithRouting } = await import("../llmRouter");
+    const { clearLLMCache, getLLMCacheStats, runWithLLMCacheBypass } = await import("../llmCache");
+    const { aggregateLLMCalls } = await import("../../db");
+    const params = { messages: [{ role: "user" as const, content: "Summarize" }] };
+    const contentOf = (result: Awaited<ReturnType<typeof invokeLLMWithRouting>>) => result.choices[0].message.content;
+
+    expect(contentOf(await invokeLLMWithRouting(params, "summary_generation"))).toBe("Reply 1");
+    expect(contentOf(await invokeLLMWithRouting(params, "summary_generation"))).toBe("Reply 1");
+    const deltas: string[] = [];
+    await streamLLMWithRouting(params, "summary_generation", delta => deltas.push(delta));
+    expect(deltas).toEqual(["Reply 1"]);
+    expect(invokeAnthropic).toHaveBeenCalledTimes(1);
+
+    // A different max tokens or temperature is a different request
+    expect(contentOf(await invokeLLMWithRouting({ ...params, maxTokens: 1000 }, "summary_generation"))).toBe("Reply 2");
+    expect(contentOf(await invokeLLMWithRouting({ ...params, temperature: 0 }, "summary_generation"))).toBe("Reply 3");
+
+    // Bypassing asks again, and the fresh response replaces the cached one
+    await runWithLLMCacheBypass(true, () => invokeLLMWithRouting(params, "summary_generation"));
+    expect(contentOf(await invokeLLMWithRouting(params, "summary_generation"))).toBe("Reply 4");
+
+    expect(await getLLMCacheStats()).toMatchObject({
+      enabled: true,
+      ttlHours: 168,
+      entries: 3,
+      expiredEntries: 0,
+      hits: 1,
+      tokensSaved: 15,
+      lookups: { hits: 3, misses: 3, bypassed: 1 },
+    });
+    // Only provider calls are charged for
+    expect(await aggregateLLMCalls({})).toEqual([expect.objectContaining({ calls: 4 })]);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 8 * DAY_MS);
+    expect(contentOf(await invokeLLMWithRouting(params, "summary_generation"))).toBe("Reply 5");
+    expect(await clearLLMCache(true)).toBe(2);
+    expect(await getLLMCacheStats()).toMatchObject({ entries: 1 });
+  });
+
+  it("is off when LLM_CACHE_TTL_HOURS is 0", async () => {
+    process.env.LLM_CACHE_TTL_HOURS = "0";
+    const invokeAnthropic = vi.fn(async () => ({
+      id: "msg_1",
+      content: "Reply",
+      model: "claude-3-5-sonnet-20241022",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: "end_turn",
+    }));
+    vi.doMock("../anthropic.js", async importOriginal => ({
+      ...(await importOriginal<typeof import("../anthropic")>()),
+      invokeAnthropic,
+    }));
+    const { invokeLLMWithModel } = await import("../llmRouter");
+    const { getLLMCacheStats } = await import("../llmCache");
+    const params = { messages: [{ role: "user" as const, content: "Summarize" }] };
+
+    await invokeLLMWithModel(params, "claude-3-5-sonnet-20241022");
+    await invokeLLMWithModel(params, "claude-3-5-sonnet-20241022");
+
+    expect(invokeAnthropic).toHaveBeenCalledTimes(2);
+    expect(await getLLMCacheStats()).toMatchObject({ enabled: false, entries: 0, lookups: { hits: 0, misses: 0 } });
+  });
+});
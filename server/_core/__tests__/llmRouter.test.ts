@@ -1,3 +1,5 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
 import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
 
 type ModuleExports = typeof import("../llmRouter");
@@ -15,6 +17,13 @@ const resetEnv = () => {
   delete process.env.ANTHROPIC_SUMMARY_MODEL;
   delete process.env.OPENAI_ROUTER_MODEL;
   delete process.env.OPENAI_ROUTER_FAST_MODEL;
+  delete process.env.LOCAL_LLM_BASE_URL;
+  delete process.env.LOCAL_LLM_API_KEY;
+  delete process.env.LOCAL_LLM_MODELS;
+  delete process.env.LOCAL_LLM_ROUTING;
+  delete process.env.LOCAL_LLM_CONTEXT_TOKENS;
+  // Repeated requests below are meant to reach the providers
+  process.env.LLM_CACHE_TTL_HOURS = "0";
 };
 
 describe("llmRouter model selection", () => {
@@ -57,3 +66,280 @@ describe("llmRouter model selection", () => {
     );
   });
 });
+
+describe("llmRouter structured output", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    resetEnv();
+    process.env.ANTHROPIC_API_KEY = "test";
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../anthropic.js");
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("enforces an output schema on Claude through a forced tool call", async () => {
+    const invokeAnthropic = vi.fn(async () => ({
+      id: "msg_1",
+      content: "",
+      model: "claude-3-5-sonnet-20241022",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: "tool_use",
+      toolCalls: [{ id: "toolu_1", name: "book_summary", input: { title: "Deep Work" } }],
+    }));
+    vi.doMock("../anthropic.js", () => ({ invokeAnthropic, invokeAnthropicStream: vi.fn() }));
+
+    const { invokeLLMWithRouting } = await loadRouter();
+    const schema = { type: "object", properties: { title: { type: "string" } }, required: ["title"] };
+    const result = await invokeLLMWithRouting(
+      {
+        messages: [{ role: "user", content: "Summarize" }],
+        outputSchema: { name: "book_summary", schema },
+      },
+      "summary_generation",
+    );
+
+    expect(invokeAnthropic).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tools: [expect.objectContaining({ name: "book_summary", inputSchema: schema })],
+        toolChoice: { type: "tool", name: "book_summary" },
+      }),
+    );
+    expect(result.choices[0].message.content).toBe('{"title":"Deep Work"}');
+    expect(result.choices[0].message.tool_calls).toBeUndefined();
+    expect(result.choices[0].finish_reason).toBe("stop");
+  });
+});
+
+describe("llmRouter provider fallback", () => {
+  const openAIReply = {
+    id: "chatcmpl_1",
+    created: 0,
+    model: "gpt-4o-2024-08-06",
+    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "From GPT" } }],
+  };
+  const params = { messages: [{ role: "user" as const, content: "Summarize" }] };
+
+  beforeEach(() => {
+    vi.resetModules();
+    resetEnv();
+    process.env.ANTHROPIC_API_KEY = "test";
+    process.env.OPENAI_API_KEY = "test";
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../anthropic.js");
+    vi.doUnmock("../llm.js");
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("moves down the preference list on provider errors and opens the circuit after repeated failures", async () => {
+    const overloaded = Object.assign(new Error("529 Overloaded"), { status: 529 });
+    const invokeAnthropic = vi.fn(async () => {
+      throw overloaded;
+    });
+    const invokeLLM = vi.fn(async () => openAIReply);
+    vi.doMock("../anthropic.js", () => ({ invokeAnthropic, invokeAnthropicStream: vi.fn() }));
+    vi.doMock("../llm.js", async importOriginal => ({ ...(await importOriginal<typeof import("../llm")>()), invokeLLM }));
+
+    const { invokeLLMWithRouting, getProviderHealth } = await loadRouter();
+
+    for (let call = 0; call < 3; call++) {
+      const result = await invokeLLMWithRouting(params, "summary_generation");
+      expect(result.choices[0].message.content).toBe("From GPT");
+    }
+    expect(invokeAnthropic).toHaveBeenCalledTimes(3);
+    expect(invokeLLM).toHaveBeenLastCalledWith(expect.objectContaining({ model: "gpt-4o-2024-08-06" }));
+
+    // The circuit is now open, so Claude is not tried at all
+    await invokeLLMWithRouting(params, "summary_generation");
+    expect(invokeAnthropic).toHaveBeenCalledTimes(3);
+    expect(invokeLLM).toHaveBeenCalledTimes(4);
+
+    const health = getProviderHealth();
+    expect(health.find(entry => entry.provider === "anthropic")).toMatchObject({
+      configured: true,
+      state: "open",
+      consecutiveFailures: 3,
+      lastError: "529 Overloaded",
+    });
+    expect(health.find(entry => entry.provider === "openai")).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("does not fall back when the request itself is rejected", async () => {
+    const invokeAnthropic = vi.fn(async () => {
+      throw Object.assign(new Error("400 prompt is too long"), { status: 400 });
+    });
+    const invokeLLM = vi.fn(async () => openAIReply);
+    vi.doMock("../anthropic.js", () => ({ invokeAnthropic, invokeAnthropicStream: vi.fn() }));
+    vi.doMock("../llm.js", async importOriginal => ({ ...(await importOriginal<typeof import("../llm")>()), invokeLLM }));
+
+    const { invokeLLMWithRouting, getProviderHealth } = await loadRouter();
+
+    await expect(invokeLLMWithRouting(params, "summary_generation")).rejects.toThrow("prompt is too long");
+    expect(invokeLLM).not.toHaveBeenCalled();
+    expect(getProviderHealth().find(entry => entry.provider === "anthropic")).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+    });
+  });
+});
+
+describe("llmRouter local provider", () => {
+  let server: Server;
+  let requests: Array<{ url?: string; authorization?: string; body: any }>;
+  let reply: (body: any) => string;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    resetEnv();
+    requests = [];
+    reply = () => "From the local model";
+
+    // Stands in for Ollama's OpenAI-compatible API
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        const parsed = JSON.parse(body);
+        requests.push({ url: req.url, authorization: req.headers.authorization, body: parsed });
+        res.setHeader("content-type", "application/json");
+        res.end(
+          JSON.stringify({
+            id: "local-1",
+            created: 0,
+            model: parsed.model,
+            choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: reply(parsed) } }],
+            usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+          }),
+        );
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    process.env.ANTHROPIC_API_KEY = "test";
+    process.env.LOCAL_LLM_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    process.env.LOCAL_LLM_MODELS = "llama3.1:8b, qwen2.5:7b";
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("keeps every request on the local endpoint when routing is local-only", async () => {
+    process.env.LOCAL_LLM_ROUTING = "only";
+    delete process.env.DATABASE_URL;
+
+    const router = await loadRouter();
+    const { currentEmbeddingModel, LOCAL_EMBEDDING_MODEL } = await import("../../embeddings");
+
+    const result = await router.invokeLLMWithRouting(
+      { messages: [{ role: "user", content: "Summarize this confidential manuscript" }] },
+      "summary_generation",
+    );
+
+    expect(result.choices[0].message.content).toBe("From the local model");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/chat/completions");
+    expect(requests[0].authorization).toBeUndefined();
+    // Limits registered for the Llama 3.1 family
+    expect(requests[0].body).toMatchObject({ model: "llama3.1:8b", max_tokens: 8192 });
+
+    expect(router.getModelForTask("summary_generation")).toBe("llama3.1:8b");
+    expect(router.listAvailableModels().map(entry => entry.provider)).toEqual(["local", "local"]);
+    await expect(router.invokeLLMWithModel({ messages: [{ role: "user", content: "Hi" }] }, "claude-3-5-sonnet-20241022"))
+      .rejects.toThrow(/LOCAL_LLM_ROUTING=only/);
+    expect(currentEmbeddingModel()).toBe(LOCAL_EMBEDDING_MODEL);
+
+    const { aggregateLLMCalls } = await import("../../db");
+    expect(await aggregateLLMCalls({}, ["model"])).toEqual([
+      expect.objectContaining({ model: "llama3.1:8b", calls: 1, promptTokens: 12, costUsd: 0 }),
+    ]);
+  });
+
+  it("routes after the hosted models by default and passes over models whose context is too small", async () => {
+    process.env.LOCAL_LLM_ROUTING = "prefer";
+    process.env.LOCAL_LLM_CONTEXT_TOKENS = "2048";
+    const invokeAnthropic = vi.fn(async () => ({
+      id: "msg_1",
+      content: "From Claude",
+      model: "claude-3-5-sonnet-20241022",
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      finishReason: "end_turn",
+    }));
+    vi.doMock("../anthropic.js", () => ({ invokeAnthropic, invokeAnthropicStream: vi.fn() }));
+
+    const { invokeLLMWithRouting } = await loadRouter();
+
+    const short = await invokeLLMWithRouting({ messages: [{ role: "user", content: "A short question" }] });
+    expect(short.choices[0].message.content).toBe("From the local model");
+    // 2048-token context less the prompt
+    expect(requests[0].body.max_tokens).toBeLessThan(2048);
+
+    const long = await invokeLLMWithRouting({ messages: [{ role: "user", content: "word ".repeat(4000) }] });
+    expect(long.choices[0].message.content).toBe("From Claude");
+    expect(requests).toHaveLength(1);
+    vi.doUnmock("../anthropic.js");
+  });
+
+  it("summarizes a long document in chunks that fit a small local context window", async () => {
+    process.env.LOCAL_LLM_ROUTING = "only";
+    process.env.LOCAL_LLM_CONTEXT_TOKENS = "8192";
+    delete process.env.DATABASE_URL;
+    const subsection = { title: "Depth", content: "Focus compounds over time.", jotsNotes: [] };
+    reply = body =>
+      JSON.stringify(
+        body.response_format
+          ? {
+              bookTitle: "Deep Work",
+              bookAuthor: "Cal Newport",
+              introduction: "A book about focus.",
+              onePageSummary: "Deep work is valuable, rare and meaningful.",
+              sections: [{ title: "Focus", subsections: [subsection] }],
+              researchSources: [],
+            }
+          : {
+              chapterTitle: "Part",
+              synopsis: "A part of the book.",
+              keyIdeas: [{ title: "Depth", explanation: "Focus compounds.", evidence: "" }],
+              notableQuotes: [],
+            },
+      );
+
+    const db = await import("../../db");
+    const { generateSummaryWithProgress } = await import("../../progressiveSummary");
+    const text = Array.from({ length: 40 }, (_, chapter) =>
+      Array.from({ length: 20 }, (_, sentence) => `Chapter ${chapter + 1} point ${sentence + 1} explains why deep work matters.`).join(" "),
+    ).join("\n\n");
+    await db.createDocument({
+      id: "doc-1",
+      userId: "u1",
+      originalFilename: "deep-work.txt",
+      fileType: "txt",
+      fileSize: text.length,
+      storageKey: "documents/u1/deep-work.txt",
+      storageUrl: "/storage/deep-work.txt",
+      status: "completed",
+      extractedText: text,
+    });
+    await db.createSummary({ id: "sum-1", documentId: "doc-1", userId: "u1", status: "generating" });
+
+    await generateSummaryWithProgress({ summaryId: "sum-1", documentId: "doc-1" }, async () => {});
+
+    expect(text.length).toBeLessThan(100000);
+    expect(requests.filter(request => !request.body.response_format).length).toBeGreaterThan(1);
+    for (const request of requests) {
+      // The router's own estimate: what it checks against the context window
+      expect(JSON.stringify(request.body.messages).length / 4 + 1024).toBeLessThanOrEqual(8192);
+    }
+    expect(await db.getLatestSummaryVersion("sum-1")).toMatchObject({
+      model: "llama3.1:8b",
+      changeDescription: expect.stringMatching(/^Summarized from \d+ chapter digests/),
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type ModuleExports = typeof import("../llm");
+
+const ORIGINAL_ENV = { ...process.env };
+
+const loadLLM = async (): Promise<ModuleExports> => {
+  return await import("../llm");
+};
+
+const sseResponse = (events: unknown[], splitAt = 7): Response => {
+  const body = events.map(event => `data: ${typeof event === "string" ? event : JSON.stringify(event)}\n\n`).join("");
+  const encoder = new TextEncoder();
+  // Deliver the body in small, arbitrary pieces to exercise line buffering.
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let index = 0; index < body.length; index += splitAt) {
+        controller.enqueue(encoder.encode(body.slice(index, index + splitAt)));
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+};
+
+describe("invokeLLMStream", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV, OPENAI_API_KEY: "test" };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("emits content deltas and assembles the final response", async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([
+        { id: "chatcmpl-1", model: "gpt-4o", choices: [{ index: 0, delta: { role: "assistant", content: '{"title":' } }] },
+        { choices: [{ index: 0, delta: { content: '"Deep Work"}' } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+        { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } },
+        "[DONE]",
+      ]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { invokeLLMStream } = await loadLLM();
+    const deltas: string[] = [];
+    const result = await invokeLLMStream({ messages: [{ role: "user", content: "Summarize" }] }, delta =>
+      deltas.push(delta),
+    );
+
+    expect(deltas).toEqual(['{"title":', '"Deep Work"}']);
+    expect(result.id).toBe("chatcmpl-1");
+    expect(result.choices[0].message.content).toBe('{"title":"Deep Work"}');
+    expect(result.choices[0].finish_reason).toBe("stop");
+    expect(result.usage?.total_tokens).toBe(15);
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.stream).toBe(true);
+  });
+
+  it("reports HTTP errors before any output", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("rate limited", { status: 429, statusText: "Too Many Requests" })));
+
+    const { invokeLLMStream } = await loadLLM();
+    await expect(invokeLLMStream({ messages: [{ role: "user", content: "Hi" }] }, () => undefined)).rejects.toThrow(
+      /LLM stream failed: 429/,
+    );
+  });
+});
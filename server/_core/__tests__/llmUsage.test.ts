@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const ORIGINAL_ENV = { ...process.env };
+
+describe("LLM usage accounting", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    delete process.env.DATABASE_URL;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_SUMMARY_MODEL;
+    process.env.ANTHROPIC_API_KEY = "test";
+    // Repeated requests below are meant to reach the provider
+    process.env.LLM_CACHE_TTL_HOURS = "0";
+  });
+
+  afterEach(() => {
+    vi.doUnmock("../anthropic.js");
+    vi.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+  });
+
+  it("records every routed call with its tokens, cost and scope, and totals them", async () => {
+    const invokeAnthropic = vi
+      .fn()
+      .mockResolvedValueOnce({
+        id: "msg_1",
+        content: "Done",
+        model: "claude-3-5-sonnet-20241022",
+        usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+        finishReason: "end_turn",
+      })
+      .mockRejectedValueOnce(new Error("Anthropic API error: 529 Overloaded"))
+      .mockRejectedValueOnce(new Error("Anthropic API error: 401 Unauthorized"));
+    vi.doMock("../anthropic.js", async importOriginal => ({
+      ...(await importOriginal<typeof import("../anthropic")>()),
+      invokeAnthropic,
+    }));
+    const { invokeLLMWithRouting } = await import("../llmRouter");
+    const { runWithLLMUsageScope } = await import("../llmUsage");
+    const { aggregateLLMCalls } = await import("../../db");
+    const params = { messages: [{ role: "user" as const, content: "Summarize" }] };
+
+    await runWithLLMUsageScope({ userId: "u1" }, () =>
+      runWithLLMUsageScope({ summaryId: "sum-1" }, async () => {
+        await invokeLLMWithRouting(params, "summary_generation");
+        await expect(invokeLLMWithRouting(params, "summary_generation")).rejects.toThrow("529 Overloaded");
+      }),
+    );
+    await expect(invokeLLMWithRouting(params)).rejects.toThrow("401 Unauthorized");
+
+    const [summaryTotals] = await aggregateLLMCalls({ summaryId: "sum-1" });
+    expect(summaryTotals).toEqual({
+      calls: 2,
+      failedCalls: 1,
+      promptTokens: 1000,
+      completionTokens: 500,
+      costUsd: expect.closeTo(0.0105, 6),
+    });
+
+    const byUser = await aggregateLLMCalls({}, ["userId", "model"]);
+    expect(byUser).toEqual([
+      expect.objectContaining({ userId: "u1", model: "claude-3-5-sonnet-20241022", calls: 2 }),
+      expect.objectContaining({ userId: null, calls: 1, failedCalls: 1 }),
+    ]);
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(await aggregateLLMCalls({ userId: "u1" }, ["day"])).toEqual([expect.objectContaining({ day: today, calls: 2 })]);
+    expect(await aggregateLLMCalls({ since: new Date(Date.now() + 60000) })).toEqual([
+      { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 },
+    ]);
+  });
+});
@@ -8,12 +8,31 @@ import type { Message, MessageContent } from './llm.js';
 import { resolveMaxOutputTokens } from './modelLimits.js';
 
 // Define types for Anthropic service
+export type LLMTool = {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type LLMToolChoice =
+  | { type: 'auto' }
+  | { type: 'any' }
+  | { type: 'tool'; name: string };
+
+export type LLMToolCall = {
+  id: string;
+  name: string;
+  input: unknown;
+};
+
 export type LLMParams = {
   messages: Message[];
   model?: string;
   maxTokens?: number;
   temperature?: number;
   topP?: number;
+  tools?: LLMTool[];
+  toolChoice?: LLMToolChoice;
 };
 
 export type LLMResponse = {
@@ -26,6 +45,7 @@ export type LLMResponse = {
     totalTokens: number;
   };
   finishReason: string;
+  toolCalls?: LLMToolCall[];
 };
 
 const ENV = {
@@ -98,6 +118,10 @@ const convertFromAnthropicFormat = (response: Anthropic.Message): LLMResponse =>
     .map(block => (block as Anthropic.TextBlock).text)
     .join('\n');
 
+  const toolCalls = response.content
+    .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+    .map(block => ({ id: block.id, name: block.name, input: block.input }));
+
   return {
     id: response.id,
     content,
@@ -108,7 +132,42 @@ const convertFromAnthropicFormat = (response: Anthropic.Message): LLMResponse =>
       totalTokens: response.usage.input_tokens + response.usage.output_tokens,
     },
     finishReason: response.stop_reason === 'end_turn' ? 'stop' : response.stop_reason || 'stop',
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+};
+
+/**
+ * Build the Messages API request shared by the buffered and streaming calls
+ */
+const buildMessageRequest = (params: LLMParams): Anthropic.MessageCreateParamsNonStreaming => {
+  const { system, messages } = convertToAnthropicFormat(params.messages);
+
+  const model = params.model || DEFAULT_CLAUDE_MODEL;
+  const maxTokens =
+    resolveMaxOutputTokens(model, params.maxTokens, DEFAULT_MAX_OUTPUT_TOKENS) ??
+    DEFAULT_MAX_OUTPUT_TOKENS;
+
+  const request: Anthropic.MessageCreateParamsNonStreaming = {
+    model,
+    max_tokens: maxTokens,
+    messages,
+    system,
+    temperature: params.temperature ?? 0.7,
+    top_p: params.topP,
   };
+
+  if (params.tools && params.tools.length > 0) {
+    request.tools = params.tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+    }));
+    if (params.toolChoice) {
+      request.tool_choice = params.toolChoice;
+    }
+  }
+
+  return request;
 };
 
 /**
@@ -164,26 +223,14 @@ async function withRetry<T>(
  */
 export const invokeAnthropic = async (params: LLMParams): Promise<LLMResponse> => {
   const client = getAnthropicClient();
-  const { system, messages } = convertToAnthropicFormat(params.messages);
-
-  const model = params.model || DEFAULT_CLAUDE_MODEL;
-  const maxTokens =
-    resolveMaxOutputTokens(model, params.maxTokens, DEFAULT_MAX_OUTPUT_TOKENS) ??
-    DEFAULT_MAX_OUTPUT_TOKENS;
+  const request = buildMessageRequest(params);
 
   console.log(
-    `[Anthropic] Invoking ${model} with ${messages.length} messages (max ${maxTokens} tokens)`
+    `[Anthropic] Invoking ${request.model} with ${request.messages.length} messages (max ${request.max_tokens} tokens)`
   );
 
   const response = await withRetry(async () => {
-    return await client.messages.create({
-      model,
-      max_tokens: maxTokens,
-      messages,
-      system,
-      temperature: params.temperature ?? 0.7,
-      top_p: params.topP,
-    });
+    return await client.messages.create(request);
   });
 
   console.log(`[Anthropic] Response received: ${response.usage.output_tokens} tokens`);
@@ -191,6 +238,58 @@ export const invokeAnthropic = async (params: LLMParams): Promise<LLMResponse> =
   return convertFromAnthropicFormat(response);
 };
 
+/**
+ * Invoke Claude with token streaming. `onText` receives each text delta as it
+ * arrives; the resolved value is the complete response.
+ *
+ * Streams are not retried once output has started (the caller would see
+ * duplicated text), so a failure before the first token falls back to the
+ * buffered `invokeAnthropic` call, which has its own retry logic.
+ */
+export const invokeAnthropicStream = async (
+  params: LLMParams,
+  onText: (delta: string) => void
+): Promise<LLMResponse> => {
+  const client = getAnthropicClient();
+  const request = buildMessageRequest(params);
+
+  console.log(
+    `[Anthropic] Streaming ${request.model} with ${request.messages.length} messages (max ${request.max_tokens} tokens)`
+  );
+
+  let emitted = false;
+  try {
+    const stream = client.messages.stream(request);
+
+    stream.on('text', delta => {
+      emitted = true;
+      onText(delta);
+    });
+    // Tool input arrives as raw JSON fragments, which is what structured
+    // output callers want to preview.
+    stream.on('inputJson', delta => {
+      emitted = true;
+      onText(delta);
+    });
+
+    const response = await stream.finalMessage();
+    console.log(`[Anthropic] Stream finished: ${response.usage.output_tokens} tokens`);
+    return convertFromAnthropicFormat(response);
+  } catch (error) {
+    if (emitted) {
+      throw error;
+    }
+
+    console.warn('[Anthropic] Stream failed before any output, retrying without streaming:', error);
+    const response = await invokeAnthropic(params);
+    onText(response.content);
+    for (const call of response.toolCalls ?? []) {
+      onText(JSON.stringify(call.input));
+    }
+    return response;
+  }
+};
+
 /**
  * Check if a model is a Claude model
  */
@@ -222,6 +321,7 @@ export const getClaudeContextLimit = (): number => {
 
 export default {
   invokeAnthropic,
+  invokeAnthropicStream,
   isClaudeModel,
   getClaudeModelForTask,
   getClaudeMaxTokens,
@@ -0,0 +1,137 @@
+/**
+ * Per-provider circuit breakers for the LLM router.
+ *
+ * A provider's circuit opens after several consecutive provider failures
+ * (outages, overload, rate limits, network errors) so the router skips it
+ * and moves on to the next model in its preference list instead of waiting
+ * on retries that will fail. After a cool-down the circuit goes half-open:
+ * calls are let through again, the first success closes it and another
+ * failure opens it for a further cool-down.
+ *
+ * Errors about the request itself (a 400 for an oversized prompt, say) say
+ * nothing about the provider's health, so they neither count as failures
+ * nor trigger a fallback.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitHealth = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+  lastSuccessAt: Date | null;
+  /** When an open circuit goes half-open; null unless open. */
+  retryAt: Date | null;
+};
+
+type Circuit = {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+  lastSuccessAt: Date | null;
+};
+
+const FAILURE_THRESHOLD = 3;
+const OPEN_DURATION_MS = 60 * 1000;
+
+/** HTTP statuses that mean the provider is unhealthy rather than the request wrong. */
+const PROVIDER_ERROR_STATUSES = [401, 403, 408, 429];
+
+const circuits = new Map<string, Circuit>();
+
+const getCircuit = (provider: string): Circuit => {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openedAt: null, lastError: null, lastFailureAt: null, lastSuccessAt: null };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+};
+
+const stateOf = (circuit: Circuit, now: number): CircuitState => {
+  if (circuit.openedAt === null) return 'closed';
+  return now - circuit.openedAt < OPEN_DURATION_MS ? 'open' : 'half_open';
+};
+
+/**
+ * HTTP status of a failed provider call: the SDK error's `status`, or the
+ * status in our own "... failed: 503 Service Unavailable" messages.
+ */
+const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+
+  const match = error instanceof Error ? /failed: (\d{3})\b/.exec(error.message) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Whether an error reflects the provider's health (and so is worth trying
+ * another provider for) rather than a problem with the request.
+ */
+export const isProviderError = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  if (status === undefined || status >= 500) return true;
+  return PROVIDER_ERROR_STATUSES.includes(status);
+};
+
+/**
+ * Whether calls to the provider should be attempted (its circuit is not open).
+ */
+export const isProviderAvailable = (provider: string, now = Date.now()): boolean =>
+  stateOf(getCircuit(provider), now) !== 'open';
+
+export const recordProviderSuccess = (provider: string): void => {
+  const circuit = getCircuit(provider);
+  if (circuit.openedAt !== null) {
+    console.log(`[Circuit Breaker] ${provider} recovered; closing its circuit`);
+  }
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.lastSuccessAt = new Date();
+};
+
+/**
+ * Count a failed call against the provider. Returns false, without
+ * counting it, for errors that are not the provider's fault.
+ */
+export const recordProviderFailure = (provider: string, error: unknown, now = Date.now()): boolean => {
+  if (!isProviderError(error)) return false;
+
+  const circuit = getCircuit(provider);
+  const wasHalfOpen = stateOf(circuit, now) === 'half_open';
+  circuit.consecutiveFailures += 1;
+  circuit.lastError = error instanceof Error ? error.message : String(error);
+  circuit.lastFailureAt = new Date(now);
+
+  if (wasHalfOpen || (circuit.openedAt === null && circuit.consecutiveFailures >= FAILURE_THRESHOLD)) {
+    circuit.openedAt = now;
+    console.warn(
+      `[Circuit Breaker] Opening circuit for ${provider} after ${circuit.consecutiveFailures} consecutive failures`,
+    );
+  }
+  return true;
+};
+
+export const getCircuitHealth = (provider: string, now = Date.now()): CircuitHealth => {
+  const circuit = getCircuit(provider);
+  const state = stateOf(circuit, now);
+
+  return {
+    state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    lastError: circuit.lastError,
+    lastFailureAt: circuit.lastFailureAt,
+    lastSuccessAt: circuit.lastSuccessAt,
+    retryAt: state === 'open' ? new Date(circuit.openedAt! + OPEN_DURATION_MS) : null,
+  };
+};
+
+/**
+ * Close every circuit and forget its history.
+ */
+export const resetCircuitBreakers = (): void => {
+  circuits.clear();
+};
@@ -5,4 +5,23 @@ export const ENV = {
   oAuthServerUrl: process.env.OAUTH_SERVER_URL ?? "",
   ownerId: process.env.OWNER_OPEN_ID ?? "",
   isProduction: process.env.NODE_ENV === "production",
+  groundingLlmJudge: process.env.GROUNDING_LLM_JUDGE === "true",
+  bibliographicCatalogPath: process.env.BIBLIOGRAPHIC_CATALOG_PATH ?? "",
+  embeddingProvider: (process.env.EMBEDDING_PROVIDER === "local" ? "local" : "auto") as "auto" | "local",
+  openAIEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL?.trim() || "text-embedding-3-small",
+  researchSourcePolicy: (process.env.RESEARCH_SOURCE_POLICY === "drop" ? "drop" : "flag") as "flag" | "drop",
+  // OpenAI-compatible local server (Ollama, llama.cpp, vLLM), e.g. http://localhost:11434/v1
+  localLLMBaseUrl: process.env.LOCAL_LLM_BASE_URL?.trim().replace(/\/$/, "") ?? "",
+  localLLMApiKey: process.env.LOCAL_LLM_API_KEY?.trim() ?? "",
+  localLLMModels: (process.env.LOCAL_LLM_MODELS ?? "").split(",").map(model => model.trim()).filter(Boolean),
+  // fallback: after the hosted models; prefer: before them; only: never send anything off the network
+  localLLMRouting: (["prefer", "only"].includes(process.env.LOCAL_LLM_ROUTING ?? "")
+    ? process.env.LOCAL_LLM_ROUTING
+    : "fallback") as "fallback" | "prefer" | "only",
+  // The context the server actually runs local models with, when smaller than the models support
+  localLLMContextTokens: parseInt(process.env.LOCAL_LLM_CONTEXT_TOKENS || "0", 10) || undefined,
+  // Hours LLM responses are cached for; 0 turns the cache off
+  llmCacheTtlHours: process.env.LLM_CACHE_TTL_HOURS?.trim()
+    ? Math.max(0, Number(process.env.LLM_CACHE_TTL_HOURS) || 0)
+    : 24 * 7,
 };
@@ -8,6 +8,11 @@ import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { initializeDatabase } from "../initDb";
+import { registerJobHandler, startJobWorker, stopJobWorker } from "../jobQueue";
+import { summaryJobHandler } from "../progressiveSummary";
+import { translationJobHandler } from "../summaryTranslation";
+import { comparisonJobHandler } from "../comparisons";
+import { registerExportRoutes } from "../exportRoutes";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -53,6 +58,13 @@ function setupGracefulShutdown(server: ReturnType<typeof createServer>) {
     isShuttingDown = true;
     
     console.log(`\n${signal} received. Starting graceful shutdown...`);
+
+    // Hand in-flight generation jobs back to the queue so the next process resumes them
+    try {
+      await stopJobWorker();
+    } catch (error) {
+      console.error('Failed to release background jobs:', error);
+    }
     
     // Close server to stop accepting new connections
     server.close(() => {
@@ -97,6 +109,9 @@ async function startServer() {
   
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+
+  // Summary file downloads under /api/summaries/:summaryId/export/:format
+  registerExportRoutes(app);
   
   // tRPC API
   app.use(
@@ -122,6 +137,12 @@ async function startServer() {
     process.exit(1);
   }
 
+  // Start the background worker (also resumes jobs orphaned by a previous process)
+  registerJobHandler("summary", summaryJobHandler);
+  registerJobHandler("translation", translationJobHandler);
+  registerJobHandler("comparison", comparisonJobHandler);
+  startJobWorker();
+
   const preferredPort = parseInt(process.env.PORT || "3000");
   const port = await findAvailablePort(preferredPort);
 
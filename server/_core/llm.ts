@@ -64,6 +64,8 @@ export type InvokeParams = {
   model?: string;
   maxTokens?: number;
   max_tokens?: number;
+  /** The provider's default (Claude: 0.7) when absent. */
+  temperature?: number;
   outputSchema?: OutputSchema;
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
@@ -216,7 +218,28 @@ type ApiConfig = {
   headers: Record<string, string>;
 };
 
-const resolveApiConfig = (): ApiConfig => {
+/**
+ * An OpenAI-compatible server other than OpenAI's, such as a local Ollama,
+ * llama.cpp or vLLM server. `baseUrl` includes the API version, as in
+ * http://localhost:11434/v1, and `apiKey` is only sent when set.
+ */
+export type OpenAICompatibleEndpoint = {
+  baseUrl: string;
+  apiKey?: string;
+};
+
+const resolveApiConfig = (path = "/v1/chat/completions", endpoint?: OpenAICompatibleEndpoint): ApiConfig => {
+  if (endpoint) {
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (endpoint.apiKey) {
+      headers.authorization = `Bearer ${endpoint.apiKey}`;
+    }
+    return {
+      url: `${endpoint.baseUrl.replace(/\/$/, "")}${path.replace(/^\/v1/, "")}`,
+      headers,
+    };
+  }
+
   const openAIKey = process.env.OPENAI_API_KEY?.trim();
   if (openAIKey) {
     const base = (process.env.OPENAI_BASE_URL || "https://api.openai.com").trim().replace(/\/$/, "");
@@ -233,7 +256,7 @@ const resolveApiConfig = (): ApiConfig => {
       headers["OpenAI-Project"] = project;
     }
     return {
-      url: `${base}/v1/chat/completions`,
+      url: `${base}${path}`,
       headers,
     };
   }
@@ -332,9 +355,7 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  const apiConfig = resolveApiConfig();
-
+const buildRequestPayload = (params: InvokeParams): Record<string, unknown> => {
   const {
     messages,
     tools,
@@ -347,59 +368,74 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     response_format,
   } = params;
 
-  return withRetry(async () => {
-    const payload: Record<string, unknown> = {
-      model: explicitModel || process.env.OPENAI_MODEL || "gpt-4o",
-      messages: messages.map(normalizeMessage),
-    };
+  const payload: Record<string, unknown> = {
+    model: explicitModel || process.env.OPENAI_MODEL || "gpt-4o",
+    messages: messages.map(normalizeMessage),
+  };
 
-    if (tools && tools.length > 0) {
-      payload.tools = tools;
-    }
+  if (tools && tools.length > 0) {
+    payload.tools = tools;
+  }
 
-    const normalizedToolChoice = normalizeToolChoice(
-      toolChoice || tool_choice,
-      tools
-    );
-    if (normalizedToolChoice) {
-      payload.tool_choice = normalizedToolChoice;
-    }
+  const normalizedToolChoice = normalizeToolChoice(
+    toolChoice || tool_choice,
+    tools
+  );
+  if (normalizedToolChoice) {
+    payload.tool_choice = normalizedToolChoice;
+  }
 
-    const requestedMaxTokens =
-      typeof params.maxTokens === "number"
-        ? params.maxTokens
-        : typeof params.max_tokens === "number"
-          ? params.max_tokens
-          : undefined;
-
-    const resolvedMaxTokens = resolveMaxOutputTokens(
-      String(payload.model),
-      requestedMaxTokens,
-      32768
-    );
-
-    if (typeof resolvedMaxTokens === "number") {
-      payload.max_tokens = resolvedMaxTokens;
-    }
+  const requestedMaxTokens =
+    typeof params.maxTokens === "number"
+      ? params.maxTokens
+      : typeof params.max_tokens === "number"
+        ? params.max_tokens
+        : undefined;
+
+  const resolvedMaxTokens = resolveMaxOutputTokens(
+    String(payload.model),
+    requestedMaxTokens,
+    32768
+  );
+
+  if (typeof resolvedMaxTokens === "number") {
+    payload.max_tokens = resolvedMaxTokens;
+  }
 
-    // Only add thinking budget if model supports it
-    const model = String(payload.model);
-    if (model.includes('gemini') || model.includes('thinking')) {
-      payload.thinking = {
-        "budget_tokens": parseInt(process.env.LLM_THINKING_BUDGET || "128", 10)
-      };
-    }
+  if (typeof params.temperature === "number") {
+    payload.temperature = params.temperature;
+  }
 
-    const normalizedResponseFormat = normalizeResponseFormat({
-      responseFormat,
-      response_format,
-      outputSchema,
-      output_schema,
-    });
+  // Only add thinking budget if model supports it
+  const model = String(payload.model);
+  if (model.includes('gemini') || model.includes('thinking')) {
+    payload.thinking = {
+      "budget_tokens": parseInt(process.env.LLM_THINKING_BUDGET || "128", 10)
+    };
+  }
 
-    if (normalizedResponseFormat) {
-      payload.response_format = normalizedResponseFormat;
-    }
+  const normalizedResponseFormat = normalizeResponseFormat({
+    responseFormat,
+    response_format,
+    outputSchema,
+    output_schema,
+  });
+
+  if (normalizedResponseFormat) {
+    payload.response_format = normalizedResponseFormat;
+  }
+
+  return payload;
+};
+
+/**
+ * Invoke the chat completions API of OpenAI, or of `endpoint` when given.
+ */
+export async function invokeLLM(params: InvokeParams, endpoint?: OpenAICompatibleEndpoint): Promise<InvokeResult> {
+  const apiConfig = resolveApiConfig(undefined, endpoint);
+
+  return withRetry(async () => {
+    const payload = buildRequestPayload(params);
 
     const controller = new AbortController();
     const timeout = parseInt(process.env.LLM_TIMEOUT || "60000", 10);
@@ -426,3 +462,191 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     }
   }, parseInt(process.env.LLM_MAX_RETRIES || "3", 10));
 }
+
+export type EmbeddingResult = {
+  model: string;
+  data: Array<{ index: number; embedding: number[] }>;
+  usage?: { prompt_tokens: number; total_tokens: number };
+};
+
+/**
+ * Embed `input` with the OpenAI-compatible embeddings API. Vectors come back
+ * in the order of `input`.
+ */
+export async function invokeEmbeddings(params: { input: string[]; model: string }): Promise<EmbeddingResult> {
+  const apiConfig = resolveApiConfig("/v1/embeddings");
+
+  return withRetry(async () => {
+    const controller = new AbortController();
+    const timeout = parseInt(process.env.LLM_TIMEOUT || "60000", 10);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(apiConfig.url, {
+        method: "POST",
+        headers: apiConfig.headers,
+        body: JSON.stringify({ model: params.model, input: params.input }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Embedding request failed: ${response.status} ${response.statusText} – ${errorText}`
+        );
+      }
+
+      const result = (await response.json()) as EmbeddingResult;
+      return { ...result, data: [...result.data].sort((a, b) => a.index - b.index) };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }, parseInt(process.env.LLM_MAX_RETRIES || "3", 10));
+}
+
+type StreamChunk = {
+  id?: string;
+  created?: number;
+  model?: string;
+  choices?: Array<{
+    index: number;
+    delta?: {
+      role?: Role;
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: "function";
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: InvokeResult["usage"];
+};
+
+/**
+ * Invoke the chat completions API with `stream: true`. Content deltas are
+ * passed to `onDelta` as they arrive and the assembled response is returned
+ * in the same shape as `invokeLLM`.
+ *
+ * The timeout applies to gaps between chunks rather than the whole request,
+ * since long summaries legitimately stream for several minutes.
+ */
+export async function invokeLLMStream(
+  params: InvokeParams,
+  onDelta: (delta: string) => void,
+  endpoint?: OpenAICompatibleEndpoint
+): Promise<InvokeResult> {
+  const apiConfig = resolveApiConfig(undefined, endpoint);
+  const payload: Record<string, unknown> = {
+    ...buildRequestPayload(params),
+    stream: true,
+    stream_options: { include_usage: true },
+  };
+
+  const controller = new AbortController();
+  const idleTimeout = parseInt(process.env.LLM_TIMEOUT || "60000", 10);
+  let timeoutId = setTimeout(() => controller.abort(), idleTimeout);
+  const resetIdleTimer = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), idleTimeout);
+  };
+
+  try {
+    const response = await fetch(apiConfig.url, {
+      method: "POST",
+      headers: apiConfig.headers,
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(
+        `LLM stream failed: ${response.status} ${response.statusText} – ${errorText}`
+      );
+    }
+
+    const result: InvokeResult = {
+      id: "",
+      created: Math.floor(Date.now() / 1000),
+      model: String(payload.model),
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: "" },
+          finish_reason: null,
+        },
+      ],
+    };
+    const toolCalls: ToolCall[] = [];
+    let content = "";
+
+    const applyChunk = (chunk: StreamChunk) => {
+      if (chunk.id) result.id = chunk.id;
+      if (chunk.model) result.model = chunk.model;
+      if (chunk.usage) result.usage = chunk.usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) return;
+
+      const delta = choice.delta;
+      if (delta?.content) {
+        content += delta.content;
+        onDelta(delta.content);
+      }
+      for (const toolDelta of delta?.tool_calls ?? []) {
+        const existing = (toolCalls[toolDelta.index] ??= {
+          id: toolDelta.id ?? "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (toolDelta.id) existing.id = toolDelta.id;
+        if (toolDelta.function?.name) existing.function.name += toolDelta.function.name;
+        if (toolDelta.function?.arguments) {
+          existing.function.arguments += toolDelta.function.arguments;
+          onDelta(toolDelta.function.arguments);
+        }
+      }
+      if (choice.finish_reason) {
+        result.choices[0].finish_reason = choice.finish_reason;
+      }
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetIdleTimer();
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (!data || data === "[DONE]") continue;
+
+        try {
+          applyChunk(JSON.parse(data) as StreamChunk);
+        } catch (error) {
+          console.warn("[LLM] Ignoring malformed stream chunk:", error);
+        }
+      }
+    }
+
+    result.choices[0].message.content = content;
+    if (toolCalls.length > 0) {
+      result.choices[0].message.tool_calls = toolCalls.filter(Boolean);
+    }
+    return result;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Response cache for LLM calls.
+ *
+ * Successful responses are stored under a hash of everything that shapes
+ * them (model, messages, tools, output format, max tokens and temperature),
+ * so asking a model the same thing again, as when a document is summarized a
+ * second time with the same prompt, returns the stored response instead of
+ * spending the tokens again. Entries expire after LLM_CACHE_TTL_HOURS (a
+ * week by default; 0 turns the cache off).
+ *
+ * Code that wants a fresh answer runs inside a bypass scope: cached
+ * responses are ignored there, and the new ones replace them.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import {
+  deleteLLMCacheEntries,
+  getLLMCacheEntry,
+  getLLMCacheTotals,
+  recordLLMCacheHit,
+  upsertLLMCacheEntry,
+  type LLMCacheTotals,
+} from "../db";
+import { ENV } from "./env";
+import type { InvokeParams, InvokeResult } from "./llm";
+
+export type LLMCacheStats = LLMCacheTotals & {
+  enabled: boolean;
+  ttlHours: number;
+  /** Lookups since the server started. */
+  lookups: {
+    hits: number;
+    misses: number;
+    bypassed: number;
+    since: Date;
+  };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const bypassScopes = new AsyncLocalStorage<boolean>();
+const lookups = { hits: 0, misses: 0, bypassed: 0, since: new Date() };
+
+export const isLLMCacheEnabled = (): boolean => ENV.llmCacheTtlHours > 0;
+
+/**
+ * Run `fn` with cached responses ignored (when `bypass` is set); responses
+ * it receives still replace the cached ones.
+ */
+export function runWithLLMCacheBypass<T>(bypass: boolean, fn: () => T): T {
+  return bypassScopes.run(bypass || (bypassScopes.getStore() ?? false), fn);
+}
+
+/**
+ * Cache key for a request to `model` with `maxTokens` resolved
+ */
+export function llmCacheKey(params: InvokeParams, model: string, maxTokens: number): string {
+  const request = {
+    model,
+    messages: params.messages,
+    tools: params.tools ?? null,
+    toolChoice: params.toolChoice || params.tool_choice || null,
+    format: params.responseFormat || params.response_format || params.outputSchema || params.output_schema || null,
+    maxTokens,
+    temperature: params.temperature ?? null,
+  };
+  return createHash("sha256").update(JSON.stringify(request)).digest("hex");
+}
+
+/**
+ * The cached response for `key`, if there is an unexpired one and the
+ * current scope does not bypass the cache. A cache that cannot be read
+ * counts as a miss.
+ */
+export async function getCachedLLMResponse(key: string): Promise<InvokeResult | null> {
+  if (bypassScopes.getStore()) {
+    lookups.bypassed += 1;
+    return null;
+  }
+
+  try {
+    const entry = await getLLMCacheEntry(key);
+    if (entry && entry.expiresAt.getTime() > Date.now()) {
+      await recordLLMCacheHit(key);
+      lookups.hits += 1;
+      return JSON.parse(entry.response) as InvokeResult;
+    }
+  } catch (error) {
+    console.warn("[LLM Cache] Failed to read cached response:", error);
+  }
+
+  lookups.misses += 1;
+  return null;
+}
+
+/**
+ * Cache a response. Like usage accounting, caching never fails the call, so
+ * errors are only logged.
+ */
+export async function cacheLLMResponse(key: string, model: string, result: InvokeResult): Promise<void> {
+  try {
+    await upsertLLMCacheEntry({
+      key,
+      model,
+      response: JSON.stringify(result),
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+      expiresAt: new Date(Date.now() + ENV.llmCacheTtlHours * HOUR_MS),
+    });
+  } catch (error) {
+    console.warn("[LLM Cache] Failed to cache response:", error);
+  }
+}
+
+export async function getLLMCacheStats(): Promise<LLMCacheStats> {
+  return {
+    enabled: isLLMCacheEnabled(),
+    ttlHours: ENV.llmCacheTtlHours,
+    ...(await getLLMCacheTotals()),
+    lookups: { ...lookups },
+  };
+}
+
+/**
+ * Delete expired responses, or every response when `expiredOnly` is false.
+ * Returns how many were deleted.
+ */
+export async function clearLLMCache(expiredOnly: boolean): Promise<number> {
+  return deleteLLMCacheEntries(expiredOnly ? new Date() : undefined);
+}
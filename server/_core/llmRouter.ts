@@ -1,15 +1,42 @@
 /**
  * LLM Router - Intelligent routing between Claude and GPT models
  * Uses the best model for each task to exceed Shortform quality standards
+ *
+ * Models served by a local OpenAI-compatible server (LOCAL_LLM_BASE_URL and
+ * LOCAL_LLM_MODELS) are routed to as well: after the hosted models by
+ * default, before them with LOCAL_LLM_ROUTING=prefer, or exclusively with
+ * LOCAL_LLM_ROUTING=only, so that nothing sent to a model leaves our network.
  */
 
 import {
   invokeLLM as invokeOpenAI,
+  invokeLLMStream as streamOpenAI,
   type InvokeParams,
   type InvokeResult,
+  type JsonSchema,
+  type OpenAICompatibleEndpoint,
+  type ToolChoice,
 } from './llm.js';
-import { invokeAnthropic, type LLMParams, type LLMResponse } from './anthropic.js';
-import { resolveMaxOutputTokens } from './modelLimits.js';
+import {
+  invokeAnthropic,
+  invokeAnthropicStream,
+  type LLMParams,
+  type LLMResponse,
+  type LLMTool,
+  type LLMToolChoice,
+} from './anthropic.js';
+import { getContextWindow, resolveMaxOutputTokens } from './modelLimits.js';
+import { ENV } from './env.js';
+import { recordLLMCall } from './llmUsage.js';
+import { cacheLLMResponse, getCachedLLMResponse, isLLMCacheEnabled, llmCacheKey } from './llmCache.js';
+import {
+  getCircuitHealth,
+  isProviderAvailable,
+  isProviderError,
+  recordProviderFailure,
+  recordProviderSuccess,
+  type CircuitHealth,
+} from './circuitBreaker.js';
 
 // Model configuration
 // Default models track the latest generally available releases that support
@@ -36,76 +63,159 @@ export type TaskType =
   | 'research_synthesis'      // Synthesize research sources - use Claude
   | 'comparative_analysis'    // Compare books/concepts - use Claude
   | 'quick_analysis'          // Quick text analysis - use GPT-4
+  | 'library_qa'              // Answer questions from retrieved library passages - use Claude
   | 'default';                // Default to Claude for quality
 
-type Provider = 'anthropic' | 'openai';
+type Provider = 'anthropic' | 'openai' | 'local';
+
+const PROVIDERS: Provider[] = ['anthropic', 'openai', 'local'];
 
 const isClaudeModel = (model: string): boolean => {
   return model.startsWith('claude-');
 };
 
+const isLocalModel = (model: string): boolean => ENV.localLLMModels.includes(model);
+
 const resolveProvider = (model: string): Provider =>
-  isClaudeModel(model) ? 'anthropic' : 'openai';
+  isClaudeModel(model) ? 'anthropic' : isLocalModel(model) ? 'local' : 'openai';
 
 const hasAnthropicApiKey = (): boolean => Boolean(process.env.ANTHROPIC_API_KEY?.trim());
 const hasOpenAIApiKey = (): boolean => Boolean(process.env.OPENAI_API_KEY?.trim());
+const hasLocalEndpoint = (): boolean => Boolean(ENV.localLLMBaseUrl) && ENV.localLLMModels.length > 0;
 
-const findAvailableModel = (models: string[]): { model: string; provider: Provider } | null => {
-  for (const candidate of models) {
-    const provider = resolveProvider(candidate);
-    if (provider === 'anthropic' && hasAnthropicApiKey()) {
-      return { model: candidate, provider };
-    }
-    if (provider === 'openai' && hasOpenAIApiKey()) {
-      return { model: candidate, provider };
-    }
-  }
-
-  return null;
+/**
+ * Whether requests can be sent to the provider. Hosted providers are never
+ * used when routing is restricted to the local endpoint.
+ */
+const isProviderConfigured = (provider: Provider): boolean => {
+  if (provider === 'local') return hasLocalEndpoint();
+  if (ENV.localLLMRouting === 'only') return false;
+  return provider === 'anthropic' ? hasAnthropicApiKey() : hasOpenAIApiKey();
 };
 
+const localEndpoint = (): OpenAICompatibleEndpoint => ({
+  baseUrl: ENV.localLLMBaseUrl,
+  apiKey: ENV.localLLMApiKey || undefined,
+});
+
+/**
+ * Context window a model is run with. Local servers are often configured
+ * with less context than the model supports, so LOCAL_LLM_CONTEXT_TOKENS
+ * takes precedence for them.
+ */
+const resolveContextWindow = (model: string, provider: Provider): number | undefined =>
+  (provider === 'local' ? ENV.localLLMContextTokens : undefined) ?? getContextWindow(model);
+
+/** Rough prompt size: about four characters per token. */
+const estimatePromptTokens = (params: InvokeParams): number =>
+  Math.ceil(JSON.stringify(params.messages).length / 4);
+
+/** Room a model needs for its answer on top of the prompt to be worth calling. */
+const MIN_OUTPUT_TOKENS = 1024;
+
+/**
+ * The models in `models` whose provider is configured, in order, without repeats
+ */
+const findAvailableModels = (models: string[]): Array<{ model: string; provider: Provider }> =>
+  models
+    .filter((model, index) => models.indexOf(model) === index)
+    .map(model => ({ model, provider: resolveProvider(model) }))
+    .filter(candidate => isProviderConfigured(candidate.provider));
+
 const TASK_MODEL_PREFERENCES: Record<TaskType, string[]> = {
   summary_generation: [MODELS.CLAUDE_SONNET, MODELS.GPT4_LATEST, MODELS.GPT4O_MINI],
   research_synthesis: [MODELS.CLAUDE_SONNET, MODELS.GPT4_LATEST, MODELS.GPT4O_MINI],
   comparative_analysis: [MODELS.CLAUDE_SONNET, MODELS.GPT4_LATEST],
   document_processing: [MODELS.GPT4_LATEST, MODELS.GPT4O_MINI, MODELS.CLAUDE_SONNET],
   quick_analysis: [MODELS.GPT4O_MINI, MODELS.GPT4_LATEST, MODELS.CLAUDE_SONNET],
+  library_qa: [MODELS.CLAUDE_SONNET, MODELS.GPT4_LATEST, MODELS.GPT4O_MINI],
   default: [MODELS.CLAUDE_SONNET, MODELS.GPT4_LATEST, MODELS.GPT4O_MINI],
 };
 
 const DEFAULT_MODEL_SEQUENCE = TASK_MODEL_PREFERENCES.default;
 
-const selectModelForTask = (task: TaskType): { model: string; provider: Provider } => {
+/**
+ * A task's preferences with the local models placed according to
+ * LOCAL_LLM_ROUTING
+ */
+const withLocalModels = (models: string[]): string[] =>
+  ENV.localLLMRouting === 'fallback'
+    ? [...models, ...ENV.localLLMModels]
+    : [...ENV.localLLMModels, ...models];
+
+/**
+ * Every configured model for a task in order of preference, falling back to
+ * the default sequence when none of the task's own models is available
+ */
+const selectModelsForTask = (task: TaskType): Array<{ model: string; provider: Provider }> => {
   const preferences = TASK_MODEL_PREFERENCES[task] ?? DEFAULT_MODEL_SEQUENCE;
-  const selection = findAvailableModel(preferences);
+  const selection = findAvailableModels(withLocalModels(preferences));
 
-  if (selection) {
+  if (selection.length > 0) {
     return selection;
   }
 
-  const fallback = findAvailableModel(DEFAULT_MODEL_SEQUENCE);
-  if (fallback) {
+  const fallback = findAvailableModels(DEFAULT_MODEL_SEQUENCE);
+  if (fallback.length > 0) {
     console.warn(
-      `[LLM Router] Preferred models unavailable for task "${task}". Falling back to ${fallback.model}.`,
+      `[LLM Router] Preferred models unavailable for task "${task}". Falling back to ${fallback[0].model}.`,
     );
     return fallback;
   }
 
   throw new Error(
-    '[LLM Router] No LLM providers are configured. Please set ANTHROPIC_API_KEY and/or OPENAI_API_KEY.',
+    ENV.localLLMRouting === 'only'
+      ? '[LLM Router] LOCAL_LLM_ROUTING=only, but no local models are configured. Please set LOCAL_LLM_BASE_URL and LOCAL_LLM_MODELS.'
+      : '[LLM Router] No LLM providers are configured. Please set ANTHROPIC_API_KEY, OPENAI_API_KEY and/or LOCAL_LLM_BASE_URL.',
   );
 };
 
 export const hasLLMProvidersConfigured = (): boolean =>
-  hasAnthropicApiKey() || hasOpenAIApiKey();
+  PROVIDERS.some(isProviderConfigured);
+
+/**
+ * The smallest context window among the models a task may be routed to, or
+ * that of `model` when one is requested explicitly, so callers can size
+ * prompts that any of them can take. Undefined when no window is known.
+ */
+export const getSmallestContextWindow = (task: TaskType, model?: string): number | undefined => {
+  const candidates = model ? [{ model, provider: resolveProvider(model) }] : selectModelsForTask(task);
+  const windows = candidates
+    .map(candidate => resolveContextWindow(candidate.model, candidate.provider))
+    .filter((window): window is number => window !== undefined);
+  return windows.length > 0 ? Math.min(...windows) : undefined;
+};
 
 /**
  * Get the best model for a specific task
  */
-export const getModelForTask = (task: TaskType): string => selectModelForTask(task).model;
+export const getModelForTask = (task: TaskType): string => selectModelsForTask(task)[0].model;
+
+/**
+ * The JSON schema requested via `outputSchema` or a `json_schema` response format
+ */
+const resolveStructuredOutput = (params: InvokeParams): JsonSchema | undefined => {
+  const format = params.responseFormat || params.response_format;
+  if (format?.type === 'json_schema') {
+    return format.json_schema;
+  }
+  return params.outputSchema || params.output_schema;
+};
+
+const convertToolChoice = (choice: ToolChoice | undefined): LLMToolChoice | undefined => {
+  if (!choice || choice === 'none') return undefined;
+  if (choice === 'auto') return { type: 'auto' };
+  if (choice === 'required') return { type: 'any' };
+  if ('function' in choice) return { type: 'tool', name: choice.function.name };
+  return { type: 'tool', name: choice.name };
+};
 
 /**
  * Convert InvokeParams to LLMParams for Anthropic
+ *
+ * Claude has no response-format switch, so a requested JSON schema becomes a
+ * tool the model is forced to call; `convertToInvokeResult` turns that call
+ * back into message content.
  */
 const convertToAnthropicParams = (
   params: InvokeParams,
@@ -115,18 +225,51 @@ const convertToAnthropicParams = (
   const maxTokens =
     resolveMaxOutputTokens(model, requestedMax, 8192) ?? 8192;
 
+  const choice = params.toolChoice || params.tool_choice;
+  const tools: LLMTool[] =
+    choice === 'none'
+      ? []
+      : (params.tools ?? []).map(tool => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          inputSchema: tool.function.parameters ?? { type: 'object', properties: {} },
+        }));
+  let toolChoice = convertToolChoice(choice);
+
+  const structured = resolveStructuredOutput(params);
+  if (structured) {
+    tools.push({
+      name: structured.name,
+      description: 'Return the complete response by calling this tool with arguments matching the schema.',
+      inputSchema: structured.schema,
+    });
+    toolChoice = { type: 'tool', name: structured.name };
+  }
+
   return {
     messages: params.messages,
     maxTokens,
-    temperature: 0.7, // Good balance for creative yet accurate summaries
+    temperature: params.temperature ?? 0.7, // Good balance for creative yet accurate summaries
     topP: 0.9,
+    ...(tools.length > 0 ? { tools, toolChoice } : {}),
   };
 };
 
 /**
  * Convert LLMResponse to InvokeResult for consistency
+ *
+ * When `structuredToolName` is given, that tool's input is returned as the
+ * JSON message content, matching what OpenAI returns for a json_schema format.
  */
-const convertToInvokeResult = (response: LLMResponse): InvokeResult => {
+const convertToInvokeResult = (
+  response: LLMResponse,
+  structuredToolName?: string
+): InvokeResult => {
+  const structuredCall = structuredToolName
+    ? response.toolCalls?.find(call => call.name === structuredToolName)
+    : undefined;
+  const toolCalls = (response.toolCalls ?? []).filter(call => call !== structuredCall);
+
   return {
     id: response.id,
     created: Date.now(),
@@ -135,9 +278,19 @@ const convertToInvokeResult = (response: LLMResponse): InvokeResult => {
       index: 0,
       message: {
         role: 'assistant',
-        content: response.content,
+        content: structuredCall ? JSON.stringify(structuredCall.input) : response.content,
+        ...(toolCalls.length > 0
+          ? {
+              tool_calls: toolCalls.map(call => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: JSON.stringify(call.input) },
+              })),
+            }
+          : {}),
       },
-      finish_reason: response.finishReason,
+      finish_reason:
+        structuredCall && response.finishReason === 'tool_use' ? 'stop' : response.finishReason,
     }],
     usage: {
       prompt_tokens: response.usage.promptTokens,
@@ -148,55 +301,226 @@ const convertToInvokeResult = (response: LLMResponse): InvokeResult => {
 };
 
 /**
- * Invoke LLM with intelligent model routing
- * Automatically selects the best model based on the task type
+ * Make a provider call and record it in the usage ledger, whether it
+ * succeeds or fails.
  */
-export const invokeLLMWithRouting = async (
+const recordCall = async (
+  call: { task: TaskType | null; model: string; provider: Provider },
+  invoke: () => Promise<InvokeResult>
+): Promise<InvokeResult> => {
+  const startedAt = Date.now();
+
+  try {
+    const result = await invoke();
+    await recordLLMCall({
+      ...call,
+      model: result.model || call.model,
+      promptTokens: result.usage?.prompt_tokens ?? 0,
+      completionTokens: result.usage?.completion_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'success',
+    });
+    return result;
+  } catch (error) {
+    await recordLLMCall({
+      ...call,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'error',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};
+
+/**
+ * Call one model, recording the call in the usage ledger and its outcome
+ * against the provider's circuit breaker. `task` is null for explicitly
+ * requested models. A cached response to the same request is returned
+ * without calling the provider; when streaming, its text arrives as a
+ * single delta.
+ */
+const callModel = async (
   params: InvokeParams,
-  task: TaskType = 'default'
+  { model, provider }: { model: string; provider: Provider },
+  task: TaskType | null,
+  onDelta?: (delta: string) => void
 ): Promise<InvokeResult> => {
-  const { model, provider } = selectModelForTask(task);
   const fallbackMax = model.startsWith('claude-') ? 8192 : 4096;
-  const maxTokens =
+  const contextWindow = resolveContextWindow(model, provider);
+  const maxTokens = Math.min(
     resolveMaxOutputTokens(
       model,
       params.maxTokens || params.max_tokens,
       fallbackMax
-    ) ?? fallbackMax;
+    ) ?? fallbackMax,
+    // Leave the prompt room in the context window
+    contextWindow ? Math.max(contextWindow - estimatePromptTokens(params), MIN_OUTPUT_TOKENS) : Infinity
+  );
 
-  console.log(`[LLM Router] Task: ${task}, Selected model: ${model}, Max tokens: ${maxTokens}`);
+  const cacheKey = isLLMCacheEnabled() ? llmCacheKey(params, model, maxTokens) : null;
+  const cached = cacheKey ? await getCachedLLMResponse(cacheKey) : null;
+  if (cached) {
+    console.log(`[LLM Router] ${task ? `Task: ${task}` : 'Explicit model'}, Model: ${model}: cached response`);
+    const content = cached.choices[0]?.message.content;
+    if (onDelta && typeof content === 'string' && content) {
+      onDelta(content);
+    }
+    return cached;
+  }
 
-  if (provider === 'anthropic') {
-    // Use Claude via Anthropic API
-    const anthropicParams: LLMParams = {
-      ...convertToAnthropicParams(params, model),
-      model,
-      maxTokens,
-    };
-
-    const response = await invokeAnthropic(anthropicParams);
-    return convertToInvokeResult(response);
-  } else {
-    // Use GPT via OpenAI-compatible API
-    const openaiParams: InvokeParams = {
-      ...params,
-      model,
-      maxTokens: maxTokens,
-    };
+  console.log(
+    `[LLM Router] ${task ? `Task: ${task}` : 'Explicit model'}, Model: ${model}${onDelta ? ' (streaming)' : ''}, Max tokens: ${maxTokens}`
+  );
 
-    return await invokeOpenAI(openaiParams);
+  try {
+    const result = await recordCall({ task, model, provider }, async () => {
+      if (provider === 'anthropic') {
+        // Use Claude via Anthropic API
+        const anthropicParams: LLMParams = {
+          ...convertToAnthropicParams(params, model),
+          model,
+          maxTokens,
+        };
+
+        const response = onDelta
+          ? await invokeAnthropicStream(anthropicParams, onDelta)
+          : await invokeAnthropic(anthropicParams);
+        return convertToInvokeResult(response, resolveStructuredOutput(params)?.name);
+      } else {
+        // Use GPT, or a local model, via OpenAI-compatible API
+        const openaiParams: InvokeParams = {
+          ...params,
+          model,
+          maxTokens: maxTokens,
+        };
+
+        if (provider === 'local') {
+          return onDelta
+            ? await streamOpenAI(openaiParams, onDelta, localEndpoint())
+            : await invokeOpenAI(openaiParams, localEndpoint());
+        }
+        return onDelta
+          ? await streamOpenAI(openaiParams, onDelta)
+          : await invokeOpenAI(openaiParams);
+      }
+    });
+    recordProviderSuccess(provider);
+    if (cacheKey) {
+      await cacheLLMResponse(cacheKey, model, result);
+    }
+    return result;
+  } catch (error) {
+    recordProviderFailure(provider, error);
+    throw error;
   }
 };
 
 /**
- * Invoke LLM with explicit model selection
+ * Call the task's models in order of preference until one succeeds.
+ *
+ * A provider error (outage, overload, rate limit) moves on to the next
+ * model, skipping providers whose circuit is open. Errors in the request
+ * itself are thrown straight away, as is any failure once a stream has
+ * started producing output, since the caller has already seen that text.
+ * Models whose context window cannot hold the prompt are passed over.
  */
-export const invokeLLMWithModel = async (
+const routeWithFallback = async (
   params: InvokeParams,
-  model: string
+  task: TaskType,
+  onDelta?: (delta: string) => void
 ): Promise<InvokeResult> => {
+  const promptTokens = estimatePromptTokens(params);
+  const candidates = selectModelsForTask(task).filter(({ model, provider }) => {
+    const contextWindow = resolveContextWindow(model, provider);
+    const fits = !contextWindow || promptTokens + MIN_OUTPUT_TOKENS <= contextWindow;
+    if (!fits) {
+      console.warn(`[LLM Router] Skipping ${model}: a ~${promptTokens}-token prompt does not fit its ${contextWindow}-token context`);
+    }
+    return fits;
+  });
+  if (candidates.length === 0) {
+    throw new Error(`[LLM Router] The prompt for task "${task}" is too long for every available model.`);
+  }
+
+  const open = candidates.filter(candidate => !isProviderAvailable(candidate.provider));
+  if (open.length === candidates.length) {
+    throw new Error(
+      `[LLM Router] Every provider for task "${task}" is unavailable after repeated failures; try again shortly.`,
+    );
+  }
+
+  let emitted = false;
+  const forwardDelta = onDelta
+    ? (delta: string) => {
+        emitted = true;
+        onDelta(delta);
+      }
+    : undefined;
+  let lastError: unknown;
+
+  for (const candidate of candidates) {
+    // Checked per attempt: an earlier attempt may have just opened the circuit.
+    if (!isProviderAvailable(candidate.provider)) {
+      continue;
+    }
+
+    try {
+      return await callModel(params, candidate, task, forwardDelta);
+    } catch (error) {
+      if (emitted || !isProviderError(error)) {
+        throw error;
+      }
+      lastError = error;
+      console.warn(
+        `[LLM Router] ${candidate.model} failed for task "${task}"; trying the next model:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  throw lastError;
+};
+
+/**
+ * Invoke LLM with intelligent model routing
+ * Automatically selects the best model based on the task type, falling back
+ * through the task's other models when a provider fails
+ */
+export const invokeLLMWithRouting = async (
+  params: InvokeParams,
+  task: TaskType = 'default'
+): Promise<InvokeResult> => routeWithFallback(params, task);
+
+/**
+ * Streaming variant of `invokeLLMWithRouting`. Text deltas are passed to
+ * `onDelta` as they arrive; the resolved value is the complete response.
+ */
+export const streamLLMWithRouting = async (
+  params: InvokeParams,
+  task: TaskType = 'default',
+  onDelta: (delta: string) => void
+): Promise<InvokeResult> => routeWithFallback(params, task, onDelta);
+
+/**
+ * Provider for an explicitly requested model, after checking it is configured
+ */
+const resolveExplicitProvider = (model: string): Provider => {
   const provider = resolveProvider(model);
 
+  if (provider === 'local' && !hasLocalEndpoint()) {
+    throw new Error(
+      `[LLM Router] Model ${model} requires LOCAL_LLM_BASE_URL, but it is not configured.`,
+    );
+  }
+
+  if (provider !== 'local' && ENV.localLLMRouting === 'only') {
+    throw new Error(
+      `[LLM Router] Model ${model} is not a local model, and LOCAL_LLM_ROUTING=only keeps requests on the local endpoint.`,
+    );
+  }
+
   if (provider === 'anthropic' && !hasAnthropicApiKey()) {
     throw new Error(
       `[LLM Router] Model ${model} requires ANTHROPIC_API_KEY, but it is not configured.`,
@@ -209,41 +533,67 @@ export const invokeLLMWithModel = async (
     );
   }
 
-  const fallbackMax = model.startsWith('claude-') ? 8192 : 4096;
-  const maxTokens =
-    resolveMaxOutputTokens(
-      model,
-      params.maxTokens || params.max_tokens,
-      fallbackMax
-    ) ?? fallbackMax;
+  return provider;
+};
 
-  console.log(`[LLM Router] Explicit model: ${model}, Max tokens: ${maxTokens}`);
+/**
+ * Invoke LLM with explicit model selection. There is no fallback: the
+ * caller asked for this model.
+ */
+export const invokeLLMWithModel = async (
+  params: InvokeParams,
+  model: string
+): Promise<InvokeResult> => callModel(params, { model, provider: resolveExplicitProvider(model) }, null);
 
-  if (provider === 'anthropic') {
-    const anthropicParams: LLMParams = {
-      ...convertToAnthropicParams(params, model),
-      model,
-      maxTokens,
-    };
-
-    const response = await invokeAnthropic(anthropicParams);
-    return convertToInvokeResult(response);
-  } else {
-    const openaiParams: InvokeParams = {
-      ...params,
-      model,
-      maxTokens: maxTokens,
-    };
+/**
+ * Streaming variant of `invokeLLMWithModel`
+ */
+export const streamLLMWithModel = async (
+  params: InvokeParams,
+  model: string,
+  onDelta: (delta: string) => void
+): Promise<InvokeResult> =>
+  callModel(params, { model, provider: resolveExplicitProvider(model) }, null, onDelta);
 
-    return await invokeOpenAI(openaiParams);
+/**
+ * Models that can be requested explicitly with the configured API keys
+ */
+export const listAvailableModels = (): Array<{ model: string; provider: Provider }> => {
+  const available: Array<{ model: string; provider: Provider }> = [];
+  if (isProviderConfigured('anthropic')) {
+    available.push({ model: MODELS.CLAUDE_SONNET, provider: 'anthropic' });
+  }
+  if (isProviderConfigured('openai')) {
+    available.push({ model: MODELS.GPT4_LATEST, provider: 'openai' });
+    available.push({ model: MODELS.GPT4O_MINI, provider: 'openai' });
+  }
+  if (isProviderConfigured('local')) {
+    ENV.localLLMModels.forEach(model => available.push({ model, provider: 'local' }));
   }
+  return available;
 };
 
+/**
+ * Health of each provider: whether it is configured and the state of its
+ * circuit breaker
+ */
+export const getProviderHealth = (): Array<{ provider: Provider; configured: boolean } & CircuitHealth> =>
+  PROVIDERS.map(provider => ({
+    provider,
+    configured: isProviderConfigured(provider),
+    ...getCircuitHealth(provider),
+  }));
+
 export default {
   invokeLLMWithRouting,
+  streamLLMWithRouting,
   invokeLLMWithModel,
+  streamLLMWithModel,
+  listAvailableModels,
   getModelForTask,
+  getSmallestContextWindow,
   MODELS,
   hasLLMProvidersConfigured,
+  getProviderHealth,
 };
 
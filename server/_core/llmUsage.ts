@@ -0,0 +1,74 @@
+/**
+ * LLM usage accounting.
+ *
+ * Every call made through llmRouter.ts, successful or not, is written to the
+ * `llmCalls` ledger with its tokens, latency and estimated cost. Calls are
+ * attributed through an async-local usage scope rather than extra arguments:
+ * tRPC requests open one for the signed-in user, the job worker one for the
+ * job's owner, and code working on a particular summary narrows it to that
+ * summary.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { nanoid } from "nanoid";
+import { createLLMCall } from "../db";
+import { estimateCostUsd } from "./modelPricing";
+
+export type LLMUsageScope = {
+  userId?: string | null;
+  summaryId?: string | null;
+};
+
+export type LLMCallRecord = {
+  /** The routed task type; null when a model was requested explicitly. */
+  task: string | null;
+  model: string;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  outcome: "success" | "error";
+  errorMessage?: string;
+};
+
+const usageScopes = new AsyncLocalStorage<LLMUsageScope>();
+
+/**
+ * Run `fn` with LLM calls attributed to `scope`, on top of any scope it is
+ * already running in.
+ */
+export function runWithLLMUsageScope<T>(scope: LLMUsageScope, fn: () => T): T {
+  return usageScopes.run({ ...usageScopes.getStore(), ...scope }, fn);
+}
+
+export function getLLMUsageScope(): LLMUsageScope {
+  return usageScopes.getStore() ?? {};
+}
+
+/**
+ * Add a call to the ledger under the current scope. Accounting never fails
+ * the call it describes, so errors are only logged.
+ */
+export async function recordLLMCall(call: LLMCallRecord): Promise<void> {
+  const scope = getLLMUsageScope();
+
+  try {
+    await createLLMCall({
+      id: nanoid(),
+      userId: scope.userId ?? null,
+      summaryId: scope.summaryId ?? null,
+      task: call.task,
+      model: call.model,
+      provider: call.provider,
+      promptTokens: call.promptTokens,
+      completionTokens: call.completionTokens,
+      latencyMs: call.latencyMs,
+      // Our own hardware: nothing to pay per token
+      costUsd: call.provider === "local" ? 0 : estimateCostUsd(call.model, call.promptTokens, call.completionTokens),
+      outcome: call.outcome,
+      errorMessage: call.errorMessage ?? null,
+    });
+  } catch (error) {
+    console.warn("[LLM Usage] Failed to record call:", error);
+  }
+}
@@ -2,7 +2,8 @@
  * Centralised model capability metadata used across providers.
  *
  * The limits below are sourced from the public OpenAI and Anthropic
- * documentation (as of October 2024) and intentionally grouped by
+ * documentation (as of October 2024), and from the model cards of the
+ * open-weight models we serve locally, and intentionally grouped by
  * family so that newly suffixed releases automatically inherit sane
  * defaults. The goal is to ensure we always request the maximum number
  * of completion tokens supported by a model without exceeding the
@@ -16,6 +17,8 @@
 type ModelLimitRule = {
   test: (model: string) => boolean;
   maxOutputTokens: number;
+  /** Prompt and completion together. */
+  contextTokens: number;
 };
 
 const MODEL_LIMIT_RULES: ModelLimitRule[] = [
@@ -23,66 +26,116 @@ const MODEL_LIMIT_RULES: ModelLimitRule[] = [
   {
     test: model => /^claude-3-5-sonnet/i.test(model),
     maxOutputTokens: 8192,
+    contextTokens: 200000,
   },
   {
     test: model => /^claude-3-5-haiku/i.test(model),
     maxOutputTokens: 4096,
+    contextTokens: 200000,
   },
   {
     test: model => /^claude-3-7-sonnet/i.test(model),
     maxOutputTokens: 8192,
+    contextTokens: 200000,
   },
   {
     test: model => /^claude-3-opus/i.test(model),
     maxOutputTokens: 4096,
+    contextTokens: 200000,
   },
   {
     test: model => /^claude-3-sonnet/i.test(model),
     maxOutputTokens: 4096,
+    contextTokens: 200000,
   },
   {
     test: model => /^claude-3-haiku/i.test(model),
     maxOutputTokens: 4096,
+    contextTokens: 200000,
   },
   // OpenAI GPT-4o + 4.1 families
   {
     test: model => /^gpt-4\.1-mini/i.test(model),
     maxOutputTokens: 12288,
+    contextTokens: 1047576,
   },
   {
     test: model => /^gpt-4\.1/i.test(model),
     maxOutputTokens: 16384,
+    contextTokens: 1047576,
   },
   {
     test: model => /^gpt-4o-mini/i.test(model),
     maxOutputTokens: 16384,
+    contextTokens: 128000,
   },
   {
     test: model => /^gpt-4o/i.test(model),
     maxOutputTokens: 16384,
+    contextTokens: 128000,
   },
   {
     test: model => /^o3-mini/i.test(model),
     maxOutputTokens: 8192,
+    contextTokens: 200000,
   },
   {
     test: model => /^gpt-4-turbo/i.test(model),
     maxOutputTokens: 8192,
+    contextTokens: 128000,
   },
   {
     test: model => /^gpt-4/i.test(model),
     maxOutputTokens: 8192,
+    contextTokens: 8192,
   },
   {
     test: model => /^gpt-3\.5-turbo/i.test(model),
     maxOutputTokens: 4096,
+    contextTokens: 16385,
+  },
+  // Open-weight models served locally (Ollama, llama.cpp, vLLM). Names
+  // may carry an organisation prefix ("meta-llama/Llama-3.1-8B-Instruct")
+  // or a size tag ("llama3.1:8b"). Context sizes are what the models
+  // support; servers often run them with less (see LOCAL_LLM_CONTEXT_TOKENS).
+  {
+    test: model => /(^|\/)llama-?3\.[123]/i.test(model),
+    maxOutputTokens: 8192,
+    contextTokens: 131072,
+  },
+  {
+    test: model => /(^|\/)(meta-)?llama-?3\b/i.test(model),
+    maxOutputTokens: 4096,
+    contextTokens: 8192,
+  },
+  {
+    test: model => /(^|\/)qwen2\.5/i.test(model),
+    maxOutputTokens: 8192,
+    contextTokens: 32768,
+  },
+  {
+    test: model => /(^|\/)(mistral|mixtral)/i.test(model),
+    maxOutputTokens: 8192,
+    contextTokens: 32768,
+  },
+  {
+    test: model => /(^|\/)gemma-?2/i.test(model),
+    maxOutputTokens: 4096,
+    contextTokens: 8192,
+  },
+  {
+    test: model => /(^|\/)phi-?3.*128k/i.test(model),
+    maxOutputTokens: 4096,
+    contextTokens: 131072,
+  },
+  {
+    test: model => /(^|\/)phi-?3/i.test(model),
+    maxOutputTokens: 2048,
+    contextTokens: 4096,
   },
 ];
 
-/**
- * Return the documented maximum number of output tokens for a model.
- */
-export const getMaxOutputTokens = (model: string): number | undefined => {
+const findModelLimitRule = (model: string): ModelLimitRule | undefined => {
   if (!model) return undefined;
 
   const trimmed = model.trim();
@@ -91,7 +144,7 @@ export const getMaxOutputTokens = (model: string): number | undefined => {
   for (const rule of MODEL_LIMIT_RULES) {
     try {
       if (rule.test(trimmed)) {
-        return rule.maxOutputTokens;
+        return rule;
       }
     } catch (error) {
       console.warn(
@@ -104,6 +157,18 @@ export const getMaxOutputTokens = (model: string): number | undefined => {
   return undefined;
 };
 
+/**
+ * Return the documented maximum number of output tokens for a model.
+ */
+export const getMaxOutputTokens = (model: string): number | undefined =>
+  findModelLimitRule(model)?.maxOutputTokens;
+
+/**
+ * Return the documented context window (prompt plus output tokens) of a model.
+ */
+export const getContextWindow = (model: string): number | undefined =>
+  findModelLimitRule(model)?.contextTokens;
+
 /**
  * Resolve the appropriate max completion tokens for a request, clamping
  * the caller-provided value so that we never exceed the underlying model
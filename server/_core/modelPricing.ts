@@ -0,0 +1,109 @@
+/**
+ * Published per-token prices used to estimate what each LLM call cost.
+ *
+ * Prices are in US dollars per million tokens, taken from the public OpenAI
+ * and Anthropic pricing pages (standard, non-batch rates) and grouped by
+ * family like the limits in modelLimits.ts, so suffixed releases inherit
+ * their family's price. Models without a rule have no estimate rather than
+ * a guessed one; calls to the local provider are recorded as free.
+ */
+
+type ModelPriceRule = {
+  test: (model: string) => boolean;
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type ModelPrice = Omit<ModelPriceRule, "test">;
+
+const MODEL_PRICE_RULES: ModelPriceRule[] = [
+  // Anthropic Claude 3.x family
+  {
+    test: model => /^claude-3-(5|7)-sonnet/i.test(model),
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  {
+    test: model => /^claude-3-5-haiku/i.test(model),
+    inputPerMillion: 0.8,
+    outputPerMillion: 4,
+  },
+  {
+    test: model => /^claude-3-opus/i.test(model),
+    inputPerMillion: 15,
+    outputPerMillion: 75,
+  },
+  {
+    test: model => /^claude-3-sonnet/i.test(model),
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  {
+    test: model => /^claude-3-haiku/i.test(model),
+    inputPerMillion: 0.25,
+    outputPerMillion: 1.25,
+  },
+  // OpenAI GPT-4o + 4.1 families
+  {
+    test: model => /^gpt-4\.1-mini/i.test(model),
+    inputPerMillion: 0.4,
+    outputPerMillion: 1.6,
+  },
+  {
+    test: model => /^gpt-4\.1/i.test(model),
+    inputPerMillion: 2,
+    outputPerMillion: 8,
+  },
+  {
+    test: model => /^gpt-4o-mini/i.test(model),
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+  },
+  {
+    test: model => /^gpt-4o/i.test(model),
+    inputPerMillion: 2.5,
+    outputPerMillion: 10,
+  },
+  {
+    test: model => /^o3-mini/i.test(model),
+    inputPerMillion: 1.1,
+    outputPerMillion: 4.4,
+  },
+  {
+    test: model => /^gpt-4-turbo/i.test(model),
+    inputPerMillion: 10,
+    outputPerMillion: 30,
+  },
+  {
+    test: model => /^gpt-4/i.test(model),
+    inputPerMillion: 30,
+    outputPerMillion: 60,
+  },
+  {
+    test: model => /^gpt-3\.5-turbo/i.test(model),
+    inputPerMillion: 0.5,
+    outputPerMillion: 1.5,
+  },
+];
+
+/**
+ * Return the published price of a model, if it is known.
+ */
+export const getModelPrice = (model: string): ModelPrice | undefined => {
+  const trimmed = model?.trim();
+  if (!trimmed) return undefined;
+
+  const rule = MODEL_PRICE_RULES.find(candidate => candidate.test(trimmed));
+  return rule ? { inputPerMillion: rule.inputPerMillion, outputPerMillion: rule.outputPerMillion } : undefined;
+};
+
+/**
+ * Estimated cost of a call in US dollars, or null when the model's price
+ * is unknown.
+ */
+export const estimateCostUsd = (model: string, promptTokens: number, completionTokens: number): number | null => {
+  const price = getModelPrice(model);
+  if (!price) return null;
+
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1000000;
+};
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { getProviderHealth } from "./llmRouter";
 import { notifyOwner } from "./notification";
 import { adminProcedure, publicProcedure, router } from "./trpc";
 
@@ -11,6 +12,15 @@ export const systemRouter = router({
     )
     .query(() => ({
       ok: true,
+      // Circuit breaker state per LLM provider; error details stay in the server logs
+      providers: getProviderHealth().map(({ provider, configured, state, consecutiveFailures, lastSuccessAt, retryAt }) => ({
+        provider,
+        configured,
+        state,
+        consecutiveFailures,
+        lastSuccessAt,
+        retryAt,
+      })),
     })),
 
   notifyOwner: adminProcedure
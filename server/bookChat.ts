@@ -0,0 +1,171 @@
+/**
+ * Conversations about a single book, grounded in its extracted text and its
+ * summary.
+ *
+ * Each question retrieves the most similar chunks of that one document from
+ * the semantic index (embeddings.ts) rather than sending the whole book; the
+ * previous question joins the query so follow-ups like "why?" still find the
+ * right passages. The last few turns go to the model as conversation history.
+ * Both sides of every exchange are stored, so threads can be reopened later.
+ */
+
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { invokeLLMWithRouting } from "./_core/llmRouter";
+import type { Message } from "./_core/llm";
+import {
+  appendConversationMessages,
+  createConversation,
+  getConversationMessages,
+  getSummary,
+  getSummaryByDocumentId,
+  hasEmbeddingChunks,
+  touchConversation,
+  type Conversation,
+  type ConversationMessage,
+  type Document,
+} from "./db";
+import { currentEmbeddingModel, findSimilarChunks } from "./embeddings";
+import { describeSources, resolveCitations, type LibrarySource } from "./libraryQA";
+import { indexDocument, indexSummary } from "./search";
+import { generateBookChatPrompt } from "./shortformPrompt";
+
+/** Earlier messages sent along with a question. */
+const HISTORY_MESSAGES = 10;
+const RETRIEVED_PASSAGES = 6;
+const MAX_PROMPT_PASSAGE_CHARS = 1500;
+const TITLE_CHARS = 80;
+
+export const chatSendSchema = z.object({
+  documentId: z.string(),
+  /** Continue this conversation; a new one is started without it. */
+  conversationId: z.string().optional(),
+  /** The summary the reader is looking at, recorded on a new conversation. */
+  summaryId: z.string().optional(),
+  message: z.string().trim().min(1).max(2000),
+});
+
+export type ChatSendInput = z.infer<typeof chatSendSchema>;
+
+export type ChatMessage = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  /** The passages an answer cites. */
+  citations: LibrarySource[];
+  model: string | null;
+  createdAt: Date | null;
+};
+
+/**
+ * Answer `input.message` about `document` and store both messages. The
+ * caller has checked that the user may read the document and, when given,
+ * the conversation.
+ */
+export async function sendChatMessage(
+  userId: string,
+  document: Document,
+  conversation: Conversation | undefined,
+  input: ChatSendInput,
+): Promise<{ conversation: Conversation; messages: ChatMessage[] }> {
+  const history = conversation ? await getConversationMessages(conversation.id, HISTORY_MESSAGES) : [];
+  const summary = await resolveSummary(document, conversation?.summaryId ?? input.summaryId);
+
+  await ensureIndexed(document, summary?.id);
+  const previousQuestion = history.filter(message => message.role === "user").pop()?.content;
+  const chunks = await findSimilarChunks(userId, [previousQuestion, input.message].filter(Boolean).join("\n"), {
+    limit: RETRIEVED_PASSAGES,
+    documentIds: [document.id],
+  });
+  const sources = await describeSources(chunks);
+
+  const messages: Message[] = [
+    {
+      role: "system",
+      content: generateBookChatPrompt({
+        bookTitle: summary?.bookTitle || document.originalFilename,
+        bookAuthor: summary?.bookAuthor || "Unknown Author",
+        passages: chunks.map(chunk => ({
+          fromSummary: chunk.summaryId !== null,
+          location: chunk.title,
+          content: chunk.content.slice(0, MAX_PROMPT_PASSAGE_CHARS),
+        })),
+      }),
+    },
+    ...history.map(message => ({ role: message.role as "user" | "assistant", content: message.content })),
+    { role: "user", content: input.message },
+  ];
+  const response = await invokeLLMWithRouting({ messages }, "library_qa");
+  const raw = response.choices[0]?.message?.content;
+  const reply = typeof raw === "string" ? raw.trim() : "";
+  if (!reply) {
+    throw new Error("The model returned an empty reply");
+  }
+  const { answer, cited } = resolveCitations(reply, sources.length);
+
+  const thread =
+    conversation ??
+    (await createConversation({
+      id: nanoid(),
+      userId,
+      documentId: document.id,
+      summaryId: summary?.id ?? null,
+      title: toTitle(input.message),
+    }));
+  const stored = await appendConversationMessages(thread.id, [
+    { id: nanoid(), role: "user", content: input.message },
+    {
+      id: nanoid(),
+      role: "assistant",
+      content: answer,
+      citations: JSON.stringify(sources.filter(source => cited.has(source.number))),
+      model: response.model,
+    },
+  ]);
+  await touchConversation(thread.id);
+
+  return { conversation: thread, messages: stored.map(toChatMessage) };
+}
+
+export function toChatMessage(message: ConversationMessage): ChatMessage {
+  return {
+    id: message.id,
+    role: message.role as ChatMessage["role"],
+    content: message.content,
+    citations: message.citations ? (JSON.parse(message.citations) as LibrarySource[]) : [],
+    model: message.model,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * The summary to talk about: the one the thread started from if it is still
+ * there, otherwise the document's own.
+ */
+async function resolveSummary(document: Document, summaryId: string | null | undefined) {
+  const summary = summaryId ? await getSummary(summaryId) : undefined;
+  if (summary && summary.documentId === document.id && summary.status === "completed") {
+    return summary;
+  }
+  const fallback = await getSummaryByDocumentId(document.id);
+  return fallback?.status === "completed" ? fallback : undefined;
+}
+
+/**
+ * Index documents that predate the semantic index, or were indexed with
+ * another embedding model, before their first question.
+ */
+async function ensureIndexed(document: Document, summaryId: string | undefined): Promise<void> {
+  if (await hasEmbeddingChunks(document.id, currentEmbeddingModel())) {
+    return;
+  }
+  await indexDocument(document);
+  if (summaryId) {
+    await indexSummary(summaryId);
+  }
+}
+
+function toTitle(message: string): string {
+  const title = message.replace(/\s+/g, " ").trim();
+  return title.length > TITLE_CHARS ? `${title.slice(0, TITLE_CHARS).trimEnd()}…` : title;
+}
@@ -0,0 +1,100 @@
+/**
+ * Bibliographic catalogs used to check that research sources are real books.
+ *
+ * A catalog only has to find records by title; matching authors and deciding
+ * what counts as verified is left to `sourceVerification`. The configured
+ * catalog is a local file (an Open Library dump or an ISBN list, see
+ * `localCatalog`), loaded once on first use. Tests install an in-memory one
+ * with `setBibliographicCatalog`.
+ */
+
+import { ENV } from "../_core/env";
+import { readLocalCatalog } from "./localCatalog";
+
+export type CatalogRecord = {
+  title: string;
+  authors: string[];
+  isbn?: string;
+  year?: number;
+};
+
+export interface BibliographicCatalog {
+  readonly name: string;
+  /** Records whose title matches, ignoring case, punctuation, leading articles and subtitles. */
+  findByTitle(title: string): Promise<CatalogRecord[]>;
+}
+
+let configuredCatalog: Promise<BibliographicCatalog | null> | null = null;
+
+/**
+ * The catalog named by `BIBLIOGRAPHIC_CATALOG_PATH`, or null when none is
+ * configured (sources are then left unchecked).
+ */
+export function getBibliographicCatalog(): Promise<BibliographicCatalog | null> {
+  if (!configuredCatalog) {
+    const path = ENV.bibliographicCatalogPath;
+    configuredCatalog = path
+      ? readLocalCatalog(path)
+          .then(records => createInMemoryCatalog(path, records))
+          .catch(error => {
+            console.error(`[Catalog] Failed to load ${path}; research sources will not be verified:`, error);
+            return null;
+          })
+      : Promise.resolve(null);
+  }
+  return configuredCatalog;
+}
+
+/**
+ * Replace the configured catalog (pass null to disable verification).
+ */
+export function setBibliographicCatalog(catalog: BibliographicCatalog | null): void {
+  configuredCatalog = Promise.resolve(catalog);
+}
+
+/**
+ * A catalog over records held in memory, indexed by normalized title.
+ */
+export function createInMemoryCatalog(name: string, records: Iterable<CatalogRecord>): BibliographicCatalog {
+  const index = new Map<string, CatalogRecord[]>();
+  for (const record of Array.from(records)) {
+    for (const key of titleKeys(record.title)) {
+      const existing = index.get(key);
+      if (existing) existing.push(record);
+      else index.set(key, [record]);
+    }
+  }
+
+  return {
+    name,
+    async findByTitle(title: string) {
+      const matches = new Set<CatalogRecord>();
+      for (const key of titleKeys(title)) {
+        index.get(key)?.forEach(record => matches.add(record));
+      }
+      return Array.from(matches);
+    },
+  };
+}
+
+/**
+ * Lookup keys for a title: the full title and, when there is one, the title
+ * without its subtitle, so "Deep Work" finds "Deep Work: Rules for Focused
+ * Success in a Distracted World" and vice versa.
+ */
+export function titleKeys(title: string): string[] {
+  const full = normalizeTitle(title);
+  const main = normalizeTitle(title.split(/[:(]|\s[—–-]\s/)[0]);
+  return Array.from(new Set([full, main].filter(Boolean)));
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^(the|a|an) /, "");
+}
@@ -0,0 +1,159 @@
+/**
+ * Catalog records from a local file, optionally gzip-compressed:
+ *
+ * - An Open Library dump (`ol_dump_editions_*.txt`, tab-separated with the
+ *   record JSON in the last column) or JSON lines in the shape of Open
+ *   Library search results. Editions name their authors by key, so include
+ *   the matching `/type/author` lines (e.g. concatenate a filtered authors
+ *   dump) to get author names.
+ * - A CSV ISBN list (`.csv`): `isbn,title,author[,year]`, several authors
+ *   separated by semicolons, with an optional header row.
+ */
+
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import { createGunzip } from "zlib";
+import type { CatalogRecord } from "./index";
+
+type PendingRecord = CatalogRecord & { authorKeys: string[] };
+
+export async function readLocalCatalog(path: string): Promise<CatalogRecord[]> {
+  const isCsv = /\.csv(\.gz)?$/i.test(path);
+  const records: PendingRecord[] = [];
+  const authorNames = new Map<string, string>();
+
+  const input = createReadStream(path);
+  const lines = createInterface({ input: /\.gz$/i.test(path) ? input.pipe(createGunzip()) : input, crlfDelay: Infinity });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    if (isCsv) {
+      const record = parseIsbnListRow(line);
+      if (record) records.push({ ...record, authorKeys: [] });
+      else if (lineNumber > 1) console.warn(`[Catalog] Skipping malformed line ${lineNumber} of ${path}`);
+      continue;
+    }
+
+    const json = line.slice(line.lastIndexOf("\t") + 1);
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      console.warn(`[Catalog] Skipping malformed line ${lineNumber} of ${path}`);
+      continue;
+    }
+
+    if (typeof data?.key === "string" && data.key.startsWith("/authors/") && typeof data.name === "string") {
+      authorNames.set(data.key, data.name);
+    } else {
+      const record = parseOpenLibraryRecord(data);
+      if (record) records.push(record);
+    }
+  }
+
+  return records.map(({ authorKeys, ...record }) => ({
+    ...record,
+    authors: [...record.authors, ...authorKeys.map(key => authorNames.get(key)).filter((name): name is string => !!name)],
+  }));
+}
+
+function parseOpenLibraryRecord(data: any): PendingRecord | null {
+  const title = typeof data?.title === "string" ? data.title.trim() : "";
+  if (!title) {
+    return null;
+  }
+
+  const subtitle = typeof data.subtitle === "string" && data.subtitle.trim() ? `: ${data.subtitle.trim()}` : "";
+  const authors: string[] = [];
+  const authorKeys: string[] = [];
+
+  // Search results carry names; dump editions and works carry author keys.
+  for (const name of Array.isArray(data.author_name) ? data.author_name : []) {
+    if (typeof name === "string") authors.push(name);
+  }
+  for (const author of Array.isArray(data.authors) ? data.authors : []) {
+    const key = author?.key ?? author?.author?.key;
+    if (typeof author?.name === "string") authors.push(author.name);
+    else if (typeof key === "string") authorKeys.push(key);
+  }
+  if (authors.length === 0 && authorKeys.length === 0 && typeof data.by_statement === "string") {
+    authors.push(data.by_statement.replace(/^by\s+/i, "").replace(/[.;]\s*$/, ""));
+  }
+
+  const isbn = [data.isbn_13, data.isbn_10, data.isbn]
+    .flatMap(value => (Array.isArray(value) ? value : []))
+    .find((value): value is string => typeof value === "string" && isIsbn(value));
+  const year = parseYear(data.first_publish_year ?? data.publish_date);
+
+  return {
+    title: `${title}${subtitle}`,
+    authors,
+    authorKeys,
+    ...(isbn ? { isbn: normalizeIsbn(isbn) } : {}),
+    ...(year ? { year } : {}),
+  };
+}
+
+function parseIsbnListRow(line: string): CatalogRecord | null {
+  const [isbn = "", title = "", author = "", year = ""] = parseCsvLine(line);
+  if (!title.trim() || !isIsbn(isbn)) {
+    return null;
+  }
+
+  const parsedYear = parseYear(year);
+  return {
+    title: title.trim(),
+    authors: author
+      .split(";")
+      .map(name => name.trim())
+      .filter(Boolean),
+    isbn: normalizeIsbn(isbn),
+    ...(parsedYear ? { year: parsedYear } : {}),
+  };
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields;
+}
+
+function isIsbn(value: string): boolean {
+  return /^(\d{9}[\dX]|\d{13})$/i.test(normalizeIsbn(value));
+}
+
+function normalizeIsbn(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function parseYear(value: unknown): number | undefined {
+  const match = /\b(1[5-9]\d\d|20\d\d)\b/.exec(String(value ?? ""));
+  return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,233 @@
+/**
+ * Chapter-aware chunking for long documents.
+ *
+ * Books routinely run to several hundred thousand characters, far beyond what a
+ * single summary prompt can carry. These helpers locate chapter headings in the
+ * extracted text and group the document into prompt-sized chunks that respect
+ * those boundaries, so every part of the book is read by the model.
+ */
+
+import { parseDocumentOutline } from "./documentOutline";
+
+export type ChapterBoundary = {
+  title: string;
+  offset: number;
+};
+
+export type DocumentChunk = {
+  index: number;
+  title: string;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+};
+
+export type ChunkOptions = {
+  maxChunkChars?: number;
+  minChunkChars?: number;
+  /** Known chapter starts (e.g. from an EPUB's table of contents); detected from headings otherwise. */
+  boundaries?: ChapterBoundary[];
+};
+
+const DEFAULT_MAX_CHUNK_CHARS = 60000;
+const DEFAULT_MIN_CHUNK_CHARS = 6000;
+const MAX_HEADING_LENGTH = 90;
+
+const NUMBER_WORDS =
+  "one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty";
+
+const NUMBERED_HEADING = new RegExp(
+  `^(chapter|part|book|section)\\s+(\\d{1,3}|[ivxlcdm]{1,7}|${NUMBER_WORDS})\\b[\\s.:—–-]*(.*)$`,
+  "i",
+);
+
+const NAMED_HEADING =
+  /^(prologue|epilogue|introduction|conclusion|preface|foreword|afterword|appendix(?:\s+[a-z0-9]+)?)\s*[.:—–-]?\s*(.*)$/i;
+
+/**
+ * Find lines that look like chapter headings. Headings must be short, stand on
+ * their own line and be preceded by a blank line (or the start of the text).
+ */
+export function detectChapterBoundaries(text: string): ChapterBoundary[] {
+  const boundaries: ChapterBoundary[] = [];
+  const lines = text.split("\n");
+  let offset = 0;
+  let previousBlank = true;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const lineOffset = offset;
+    offset += rawLine.length + 1;
+
+    if (!line) {
+      previousBlank = true;
+      continue;
+    }
+
+    const isCandidate = previousBlank && line.length <= MAX_HEADING_LENGTH;
+    previousBlank = false;
+
+    if (!isCandidate) {
+      continue;
+    }
+
+    const numbered = line.match(NUMBERED_HEADING);
+    if (numbered) {
+      const subtitle = numbered[3]?.trim();
+      // "Chapter 3 covers this, as noted earlier." is prose, not a heading.
+      if (subtitle && /[.!?,;]$/.test(subtitle)) {
+        continue;
+      }
+      const label = `${capitalize(numbered[1])} ${numbered[2]}`;
+      boundaries.push({
+        title: subtitle ? `${label}: ${subtitle}` : label,
+        offset: lineOffset,
+      });
+      continue;
+    }
+
+    const named = line.match(NAMED_HEADING);
+    if (named && !/[.!?,;]$/.test(line)) {
+      const subtitle = named[2]?.trim();
+      const label = capitalize(named[1]);
+      boundaries.push({
+        title: subtitle ? `${label}: ${subtitle}` : label,
+        offset: lineOffset,
+      });
+    }
+  }
+
+  return boundaries;
+}
+
+/**
+ * Split a document into ordered chunks no larger than `maxChunkChars`.
+ *
+ * Chapter boundaries are used when present; chapters shorter than
+ * `minChunkChars` (typically table-of-contents entries or very short
+ * interludes) are merged into their neighbours, and chapters longer than the
+ * limit are split on paragraph breaks.
+ */
+export function splitIntoChapterChunks(text: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChunkChars = options.maxChunkChars ?? DEFAULT_MAX_CHUNK_CHARS;
+  const minChunkChars = Math.min(options.minChunkChars ?? DEFAULT_MIN_CHUNK_CHARS, maxChunkChars);
+
+  if (!text.trim()) {
+    return [];
+  }
+
+  const boundaries = options.boundaries?.length ? options.boundaries : detectChapterBoundaries(text);
+  const segments = buildChapterSegments(text, boundaries);
+  const merged = mergeShortSegments(segments, minChunkChars, maxChunkChars);
+
+  const chunks: DocumentChunk[] = [];
+  for (const segment of merged) {
+    const pieces = splitOversizedSegment(text, segment, maxChunkChars);
+    pieces.forEach((piece, pieceIndex) => {
+      const chunkText = text.slice(piece.start, piece.end).trim();
+      if (!chunkText) {
+        return;
+      }
+      chunks.push({
+        index: chunks.length,
+        title: pieces.length > 1 ? `${segment.title} (part ${pieceIndex + 1})` : segment.title,
+        text: chunkText,
+        startOffset: piece.start,
+        endOffset: piece.end,
+      });
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Chapter boundaries from a document's stored outline (see `documents.outline`).
+ */
+export function boundariesFromOutline(outline: string | null | undefined): ChapterBoundary[] {
+  return parseDocumentOutline(outline)
+    .chapters.map(chapter => ({ title: chapter.title, offset: chapter.startOffset }))
+    .sort((a, b) => a.offset - b.offset);
+}
+
+type Segment = {
+  title: string;
+  start: number;
+  end: number;
+};
+
+function buildChapterSegments(text: string, boundaries: ChapterBoundary[]): Segment[] {
+  if (boundaries.length === 0) {
+    return [{ title: "Part 1", start: 0, end: text.length }];
+  }
+
+  const segments: Segment[] = [];
+  if (boundaries[0].offset > 0) {
+    segments.push({ title: "Opening Material", start: 0, end: boundaries[0].offset });
+  }
+
+  boundaries.forEach((boundary, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1].offset : text.length;
+    segments.push({ title: boundary.title, start: boundary.offset, end });
+  });
+
+  return segments;
+}
+
+function mergeShortSegments(segments: Segment[], minChunkChars: number, maxChunkChars: number): Segment[] {
+  const merged: Segment[] = [];
+
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    const length = segment.end - segment.start;
+
+    if (previous) {
+      const previousLength = previous.end - previous.start;
+      const combinedLength = segment.end - previous.start;
+      if ((previousLength < minChunkChars || length < minChunkChars) && combinedLength <= maxChunkChars) {
+        // Keep the title of whichever part carries the substantive text.
+        merged[merged.length - 1] = {
+          title: previousLength >= length ? previous.title : segment.title,
+          start: previous.start,
+          end: segment.end,
+        };
+        continue;
+      }
+    }
+
+    merged.push({ ...segment });
+  }
+
+  return merged;
+}
+
+function splitOversizedSegment(
+  text: string,
+  segment: Segment,
+  maxChunkChars: number,
+): Array<{ start: number; end: number }> {
+  const pieces: Array<{ start: number; end: number }> = [];
+  let start = segment.start;
+
+  while (segment.end - start > maxChunkChars) {
+    const window = text.slice(start, start + maxChunkChars);
+    const paragraphBreak = window.lastIndexOf("\n\n");
+    const sentenceBreak = window.lastIndexOf(". ");
+    const cut =
+      paragraphBreak > maxChunkChars / 2
+        ? paragraphBreak + 2
+        : sentenceBreak > maxChunkChars / 2
+          ? sentenceBreak + 2
+          : maxChunkChars;
+    pieces.push({ start, end: start + cut });
+    start += cut;
+  }
+
+  pieces.push({ start, end: segment.end });
+  return pieces;
+}
+
+function capitalize(value: string): string {
+  const lower = value.toLowerCase();
+  return lower.charAt(0).toUpperCase() + lower.slice(1);
+}
@@ -0,0 +1,315 @@
+/**
+ * Post-generation check that a summary stays grounded in its book.
+ *
+ * Every quotation in a subsection's text is looked up in the extracted text
+ * word by word, so punctuation, case and line breaks do not matter and a
+ * single changed word still counts as a close match. (Jots notes are left
+ * out: they quote other books by design.) Claims
+ * are checked more loosely: the subsection must have a supporting passage
+ * (see `attachSourceLocations`) and its distinctive terms must occur in the
+ * book. Optionally, a model judges the doubtful subsections against their
+ * passage.
+ *
+ * The results are stored on each subsection and rolled up into a per-section
+ * hallucination risk for reviewers.
+ */
+
+import { z } from "zod";
+import { ENV } from "./_core/env";
+import { hasLLMProvidersConfigured, invokeLLMWithRouting } from "./_core/llmRouter";
+import { extractTerms, type SourceLocation } from "./documentOutline";
+import { toOutputSchema, validateModelOutput } from "./summarySchema";
+
+export type GroundingRisk = "low" | "medium" | "high";
+
+export type QuoteCheck = {
+  text: string;
+  status: "verified" | "approximate" | "unsupported";
+  /** Share of the quotation's word pairs found at the best match, 0–1. */
+  similarity: number;
+  startOffset?: number;
+  endOffset?: number;
+};
+
+export type GroundingJudgement = {
+  verdict: "supported" | "partially_supported" | "unsupported";
+  explanation: string;
+  model: string;
+};
+
+export type SubsectionGrounding = {
+  risk: GroundingRisk;
+  /** Share of the subsection's distinctive terms that occur in the book, 0–1. */
+  termCoverage: number;
+  quotes: QuoteCheck[];
+  judgement?: GroundingJudgement;
+};
+
+export type SectionGrounding = {
+  risk: GroundingRisk;
+  unsupportedQuotes: number;
+  approximateQuotes: number;
+  flaggedSubsections: number;
+};
+
+type GroundableSubsection = {
+  title: string;
+  content: string;
+  source?: SourceLocation;
+  grounding?: SubsectionGrounding;
+};
+
+type GroundableSection = {
+  subsections: GroundableSubsection[];
+  grounding?: SectionGrounding;
+};
+
+export type GroundingOptions = {
+  /** Ask a model to judge subsections the text checks could not confirm. */
+  judge?: boolean;
+};
+
+const MIN_QUOTE_WORDS = 4;
+const APPROXIMATE_SIMILARITY = 0.7;
+const MAX_ANCHOR_OCCURRENCES = 500;
+const LOW_RISK_COVERAGE = 0.6;
+const HIGH_RISK_COVERAGE = 0.4;
+const MAX_JUDGED_SUBSECTIONS = 12;
+const JUDGE_PASSAGE_CHARS = 4000;
+
+const RISK_ORDER: GroundingRisk[] = ["low", "medium", "high"];
+
+const QUOTATION = /["“]([^"“”\n]{12,400})["”]/g;
+const WORD = /[0-9A-Za-z\u00C0-\u024F]+(?:['’][A-Za-z\u00C0-\u024F]+)*/g;
+
+const judgementSchema = z.object({
+  verdict: z.enum(["supported", "partially_supported", "unsupported"]),
+  explanation: z.string(),
+});
+
+/**
+ * Ground every subsection of `sections` against the book, replacing any
+ * earlier results. Subsections should already carry their `source`.
+ */
+export async function groundSections(
+  sections: GroundableSection[],
+  documentText: string,
+  options: GroundingOptions = {},
+): Promise<void> {
+  const checker = createCitationChecker(documentText);
+  const judge = options.judge ?? isJudgeEnabled();
+  let judged = 0;
+
+  for (const section of sections) {
+    for (const subsection of section.subsections) {
+      subsection.grounding = checker.checkSubsection(subsection);
+
+      if (judge && subsection.grounding.risk !== "low" && judged < MAX_JUDGED_SUBSECTIONS) {
+        judged++;
+        const judgement = await judgeSubsection(subsection, documentText);
+        if (judgement) {
+          subsection.grounding = applyJudgement(subsection.grounding, judgement);
+        }
+      }
+    }
+    section.grounding = summarizeSectionGrounding(section);
+  }
+}
+
+/**
+ * Whether the LLM judge runs by default: opt in with `GROUNDING_LLM_JUDGE=true`,
+ * since it costs a model call per doubtful subsection.
+ */
+export function isJudgeEnabled(): boolean {
+  return ENV.groundingLlmJudge && hasLLMProvidersConfigured();
+}
+
+/**
+ * Text checks against one book. Building the word index is the expensive
+ * part, so one checker serves every subsection of a summary.
+ */
+export function createCitationChecker(documentText: string) {
+  const words: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const positions = new Map<string, number[]>();
+
+  for (const match of Array.from(documentText.matchAll(WORD))) {
+    const word = normalizeWord(match[0]);
+    const list = positions.get(word);
+    if (list) list.push(words.length);
+    else positions.set(word, [words.length]);
+    words.push(word);
+    starts.push(match.index!);
+    ends.push(match.index! + match[0].length);
+  }
+
+  const vocabulary = new Set(extractTerms(documentText).map(stem));
+
+  const checkQuote = (quote: string): QuoteCheck => {
+    const quoteWords = tokenize(quote);
+    const quotePairs = wordPairs(quoteWords);
+
+    // Anchor on the rarest word the book contains; quotations are short.
+    let anchor = -1;
+    quoteWords.forEach((word, index) => {
+      const count = positions.get(word)?.length ?? 0;
+      if (count > 0 && (anchor === -1 || count < positions.get(quoteWords[anchor])!.length)) {
+        anchor = index;
+      }
+    });
+    if (anchor === -1) {
+      return { text: quote, status: "unsupported", similarity: 0 };
+    }
+
+    let best = { similarity: 0, start: 0 };
+    for (const position of positions.get(quoteWords[anchor])!.slice(0, MAX_ANCHOR_OCCURRENCES)) {
+      const start = Math.max(0, position - anchor);
+      const window = new Set(wordPairs(words.slice(Math.max(0, start - 2), start + quoteWords.length + 2)));
+      const similarity = quotePairs.length > 0 ? quotePairs.filter(pair => window.has(pair)).length / quotePairs.length : 0;
+      if (similarity > best.similarity) {
+        best = { similarity, start };
+      }
+      if (similarity === 1) break;
+    }
+
+    const exact = quoteWords.every((word, index) => words[best.start + index] === word);
+    const status = exact ? "verified" : best.similarity >= APPROXIMATE_SIMILARITY ? "approximate" : "unsupported";
+    const last = Math.min(best.start + quoteWords.length, words.length) - 1;
+
+    return {
+      text: quote,
+      status,
+      similarity: exact ? 1 : round(best.similarity),
+      ...(status !== "unsupported" ? { startOffset: starts[best.start], endOffset: ends[last] } : {}),
+    };
+  };
+
+  const checkSubsection = (subsection: GroundableSubsection): SubsectionGrounding => {
+    const quotes = Array.from(new Set(extractQuotations(subsection.content))).map(checkQuote);
+    const terms = Array.from(new Set(extractTerms(`${subsection.title}\n${subsection.content}`).map(stem)));
+    const termCoverage = terms.length > 0 ? round(terms.filter(term => vocabulary.has(term)).length / terms.length) : 1;
+
+    let risk: GroundingRisk = "low";
+    if (
+      quotes.some(quote => quote.status === "unsupported") ||
+      (!subsection.source && termCoverage < HIGH_RISK_COVERAGE)
+    ) {
+      risk = "high";
+    } else if (
+      quotes.some(quote => quote.status === "approximate") ||
+      !subsection.source ||
+      termCoverage < LOW_RISK_COVERAGE
+    ) {
+      risk = "medium";
+    }
+
+    return { risk, termCoverage, quotes };
+  };
+
+  return { checkQuote, checkSubsection };
+}
+
+/**
+ * Quotations of at least four words, in straight or curly double quotes.
+ */
+export function extractQuotations(text: string): string[] {
+  return Array.from(text.matchAll(QUOTATION), match => match[1].trim()).filter(
+    quote => tokenize(quote).length >= MIN_QUOTE_WORDS,
+  );
+}
+
+export function summarizeSectionGrounding(section: GroundableSection): SectionGrounding {
+  const groundings = section.subsections.map(subsection => subsection.grounding).filter(Boolean) as SubsectionGrounding[];
+  const quotes = groundings.flatMap(grounding => grounding.quotes);
+
+  return {
+    risk: groundings.reduce<GroundingRisk>((risk, grounding) => maxRisk(risk, grounding.risk), "low"),
+    unsupportedQuotes: quotes.filter(quote => quote.status === "unsupported").length,
+    approximateQuotes: quotes.filter(quote => quote.status === "approximate").length,
+    flaggedSubsections: groundings.filter(grounding => grounding.risk !== "low").length,
+  };
+}
+
+async function judgeSubsection(
+  subsection: GroundableSubsection,
+  documentText: string,
+): Promise<GroundingJudgement | null> {
+  const passage = subsection.source
+    ? documentText.slice(subsection.source.startOffset, subsection.source.startOffset + JUDGE_PASSAGE_CHARS)
+    : "";
+  if (!passage) {
+    return null;
+  }
+
+  const prompt = `You are fact-checking a book summary against the book itself.
+
+BOOK PASSAGE:
+"""
+${passage}
+"""
+
+SUMMARY SUBSECTION ("${subsection.title}"):
+"""
+${subsection.content}
+"""
+
+Does the passage support the claims and any quotations in the subsection? Answer "supported" if everything is backed by the passage, "partially_supported" if some claims go beyond it, and "unsupported" if the subsection misrepresents it or quotes words it does not contain. Explain in one or two sentences.
+
+Return ONLY a JSON object: {"verdict": "...", "explanation": "..."}`;
+
+  try {
+    const response = await invokeLLMWithRouting(
+      {
+        messages: [{ role: "user", content: prompt }],
+        outputSchema: toOutputSchema("grounding_judgement", judgementSchema),
+      },
+      "quick_analysis",
+    );
+    const raw = response.choices[0]?.message?.content;
+    const validation = validateModelOutput(typeof raw === "string" ? raw : "", judgementSchema);
+    if (!validation.success) {
+      console.warn(`[Grounding] Ignoring invalid judgement for "${subsection.title}": ${validation.issues[0]}`);
+      return null;
+    }
+    return { ...validation.data, explanation: validation.data.explanation.trim(), model: response.model };
+  } catch (error) {
+    console.warn(`[Grounding] Judge failed for "${subsection.title}":`, error);
+    return null;
+  }
+}
+
+function applyJudgement(grounding: SubsectionGrounding, judgement: GroundingJudgement): SubsectionGrounding {
+  // The judge can raise the risk, or clear a weak match, but never excuse a quotation missing from the book.
+  const floor: GroundingRisk = grounding.quotes.some(quote => quote.status === "unsupported") ? "high" : "low";
+  const judged: GroundingRisk =
+    judgement.verdict === "supported" ? "low" : judgement.verdict === "partially_supported" ? "medium" : "high";
+
+  return { ...grounding, risk: maxRisk(floor, judged), judgement };
+}
+
+function maxRisk(a: GroundingRisk, b: GroundingRisk): GroundingRisk {
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+}
+
+function tokenize(text: string): string[] {
+  return Array.from(text.matchAll(WORD), match => normalizeWord(match[0]));
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/’/g, "'");
+}
+
+/** Adjacent word pairs, so matching respects word order. */
+function wordPairs(words: string[]): string[] {
+  return words.length < 2 ? words : words.slice(1).map((word, index) => `${words[index]} ${word}`);
+}
+
+/** Crude suffix stripping, so "tasks" and "Leroy's" count as words of a book that has "task" and "Leroy". */
+export function stem(term: string): string {
+  return term.replace(/['’]s$/, "").replace(/(?:ing|ed|es|s)$/, "");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
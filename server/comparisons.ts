@@ -0,0 +1,282 @@
+/**
+ * Cross-book comparison reports.
+ *
+ * A comparison is an entity of its own (the `comparisons` table), written in
+ * the background by a `comparison` job from two or more completed summaries.
+ * The model works from a digest of each summary (its one-page summary and
+ * the gist of every subsection) rather than from the books, and returns the
+ * themes the books share, where they contradict each other and which book
+ * goes deeper on what, with Jots notes as commentary.
+ *
+ * The report refers to books by number and stores their titles alongside, so
+ * it still reads correctly after one of the summaries is deleted.
+ */
+
+import { z } from "zod";
+import {
+  getComparison,
+  getSummary,
+  updateComparison,
+  type Comparison,
+  type Summary,
+  type SummaryJob,
+} from "./db";
+import type { JobHandler } from "./jobQueue";
+import type { SanitizedSummary } from "./progressiveSummary";
+import { generateComparisonPrompt } from "./shortformPrompt";
+import { requestSummaryPart } from "./summaryParts";
+import { JOTS_NOTE_TYPES } from "./summarySchema";
+
+export const MAX_COMPARED_BOOKS = 6;
+
+/** Budget for all book digests together, split evenly between the books. */
+const MAX_PROMPT_DIGEST_CHARS = 60000;
+const SUBSECTION_GIST_CHARS = 280;
+const MAX_TITLE_CHARS = 255;
+
+export const comparisonCreateSchema = z.object({
+  summaryIds: z
+    .array(z.string())
+    .min(2)
+    .max(MAX_COMPARED_BOOKS)
+    .refine(ids => new Set(ids).size === ids.length, { message: "Each summary can only be compared once" }),
+});
+
+export type ComparisonCreateInput = z.infer<typeof comparisonCreateSchema>;
+
+export type ComparisonBook = {
+  summaryId: string;
+  documentId: string;
+  bookTitle: string;
+  bookAuthor: string;
+};
+
+/** A Jots note of commentary; `type` is lower case, as in summaries. */
+export type ComparisonNote = { type: string; content: string };
+
+/** Books are referred to by their 1-based number in `books`. */
+export type ComparisonReport = {
+  books: ComparisonBook[];
+  overview: string;
+  sharedThemes: Array<{ title: string; analysis: string; books: number[]; jotsNotes: ComparisonNote[] }>;
+  contradictions: Array<{
+    title: string;
+    analysis: string;
+    positions: Array<{ book: number; position: string }>;
+    jotsNotes: ComparisonNote[];
+  }>;
+  depth: Array<{ topic: string; deeperBook: number; explanation: string }>;
+  conclusion: string;
+};
+
+export type ComparisonDetails = Omit<Comparison, "summaryIds" | "report"> & {
+  summaryIds: string[];
+  report: ComparisonReport | null;
+};
+
+const text = (label: string) =>
+  z.string().refine(value => value.trim().length > 0, { message: `${label} must not be empty` });
+
+/**
+ * The model's reply. Book numbers are checked against the number of books
+ * compared, so a reply citing a book that does not exist is repaired.
+ */
+function createComparisonOutputSchema(bookCount: number) {
+  const bookNumber = z
+    .number()
+    .int()
+    .refine(value => value >= 1 && value <= bookCount, { message: `Book numbers must be between 1 and ${bookCount}` });
+  const commentary = z.array(
+    z.object({
+      noteType: z.enum(JOTS_NOTE_TYPES),
+      content: text("Note content"),
+    }),
+  );
+
+  return z.object({
+    overview: text("Overview"),
+    sharedThemes: z.array(
+      z.object({
+        theme: text("Theme"),
+        books: z.array(bookNumber),
+        analysis: text("Theme analysis"),
+        jotsNotes: commentary,
+      }),
+    ),
+    contradictions: z.array(
+      z.object({
+        topic: text("Contradiction topic"),
+        analysis: text("Contradiction analysis"),
+        positions: z.array(z.object({ book: bookNumber, position: text("Position") })),
+        jotsNotes: commentary,
+      }),
+    ),
+    depth: z.array(
+      z.object({
+        topic: text("Depth topic"),
+        deeperBook: bookNumber,
+        explanation: text("Depth explanation"),
+      }),
+    ),
+    conclusion: text("Conclusion"),
+  });
+}
+
+/**
+ * Job queue handler for `comparison` jobs. The job's `summaryId` is the id
+ * of the comparison being written.
+ */
+export const comparisonJobHandler: JobHandler = {
+  run: async (job, context) => {
+    const comparison = await getComparison(job.summaryId);
+    if (!comparison) {
+      throw new Error("Comparison not found");
+    }
+    if (comparison.status === "completed") {
+      return;
+    }
+
+    await generateComparison(comparison, context.reportProgress);
+  },
+  onFailure: async (job: SummaryJob, error: Error) => {
+    await updateComparison(job.summaryId, {
+      status: "failed",
+      errorMessage: error.message,
+    });
+  },
+};
+
+/**
+ * Write the report for `comparison` from its summaries and store it.
+ */
+export async function generateComparison(
+  comparison: Comparison,
+  reportProgress: (progress: unknown) => Promise<void>,
+): Promise<ComparisonReport> {
+  const summaryIds = JSON.parse(comparison.summaryIds) as string[];
+  const summaries = await Promise.all(summaryIds.map(id => getSummary(id)));
+  const available = summaries.filter(
+    (summary): summary is Summary => summary?.status === "completed" && Boolean(summary.mainContent),
+  );
+  if (available.length !== summaryIds.length) {
+    throw new Error("A summary in this comparison is no longer available");
+  }
+
+  await reportProgress({
+    stage: `Comparing ${available.length} books...`,
+    sectionsCompleted: 0,
+    totalSections: 1,
+  });
+
+  const books = available.map(toComparisonBook);
+  const digestChars = Math.floor(MAX_PROMPT_DIGEST_CHARS / available.length);
+  const prompt = generateComparisonPrompt({
+    books: available.map((summary, index) => ({
+      bookTitle: books[index].bookTitle,
+      bookAuthor: books[index].bookAuthor,
+      digest: summaryDigest(summary, digestChars),
+    })),
+  });
+  const { data, model } = await requestSummaryPart(
+    prompt,
+    "comparison_report",
+    createComparisonOutputSchema(books.length),
+    "comparative_analysis",
+  );
+
+  const report: ComparisonReport = {
+    books,
+    overview: data.overview.trim(),
+    sharedThemes: data.sharedThemes.map(theme => ({
+      title: theme.theme.trim(),
+      analysis: theme.analysis.trim(),
+      books: uniqueNumbers(theme.books),
+      jotsNotes: toNotes(theme.jotsNotes),
+    })),
+    contradictions: data.contradictions.map(contradiction => ({
+      title: contradiction.topic.trim(),
+      analysis: contradiction.analysis.trim(),
+      positions: contradiction.positions.map(position => ({
+        book: position.book,
+        position: position.position.trim(),
+      })),
+      jotsNotes: toNotes(contradiction.jotsNotes),
+    })),
+    depth: data.depth.map(entry => ({
+      topic: entry.topic.trim(),
+      deeperBook: entry.deeperBook,
+      explanation: entry.explanation.trim(),
+    })),
+    conclusion: data.conclusion.trim(),
+  };
+
+  await updateComparison(comparison.id, {
+    report: JSON.stringify(report),
+    model,
+    status: "completed",
+    errorMessage: null,
+  });
+  await reportProgress({
+    stage: "Complete!",
+    sectionsCompleted: 1,
+    totalSections: 1,
+  });
+
+  return report;
+}
+
+/**
+ * Title for a new comparison: the compared book titles.
+ */
+export function comparisonTitle(summaries: Summary[]): string {
+  const title = summaries.map(summary => summary.bookTitle || "Untitled").join(" vs. ");
+  return title.length > MAX_TITLE_CHARS ? `${title.slice(0, MAX_TITLE_CHARS - 1).trimEnd()}…` : title;
+}
+
+export function toComparisonDetails(comparison: Comparison): ComparisonDetails {
+  return {
+    ...comparison,
+    summaryIds: JSON.parse(comparison.summaryIds) as string[],
+    report: comparison.report ? (JSON.parse(comparison.report) as ComparisonReport) : null,
+  };
+}
+
+function toComparisonBook(summary: Summary): ComparisonBook {
+  return {
+    summaryId: summary.id,
+    documentId: summary.documentId,
+    bookTitle: summary.bookTitle || "Untitled",
+    bookAuthor: summary.bookAuthor || "Unknown Author",
+  };
+}
+
+/**
+ * What the model sees of a book: the one-page summary, then each section
+ * with the opening of every subsection.
+ */
+function summaryDigest(summary: Summary, maxChars: number): string {
+  const { sections } = JSON.parse(summary.mainContent || "{}") as Partial<Pick<SanitizedSummary, "sections">>;
+  const outline = (sections ?? [])
+    .map(section =>
+      [
+        `${section.title}:`,
+        ...section.subsections.map(subsection => `- ${subsection.title}: ${clip(subsection.content, SUBSECTION_GIST_CHARS)}`),
+      ].join("\n"),
+    )
+    .join("\n\n");
+
+  return clip(`${summary.onePageSummary ?? ""}\n\nMAIN POINTS:\n${outline}`.trim(), maxChars);
+}
+
+function clip(value: string, maxChars: number): string {
+  const clipped = value.length > maxChars ? `${value.slice(0, maxChars).trimEnd()}…` : value;
+  return clipped.replace(/[ \t]+/g, " ");
+}
+
+function toNotes(notes: Array<{ noteType: string; content: string }>): ComparisonNote[] {
+  return notes.map(note => ({ type: note.noteType.toLowerCase(), content: note.content.trim() }));
+}
+
+function uniqueNumbers(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
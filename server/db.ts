@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, getTableColumns, gte, ilike, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
 import {
@@ -7,17 +7,69 @@ import {
   documents,
   summaries,
   researchSources,
+  summaryJobs,
+  summaryVersions,
   InsertDocument,
   InsertSummary,
   InsertResearchSource,
   Document,
   Summary,
   ResearchSource,
+  SummaryJob,
+  InsertSummaryJob,
+  SummaryVersion,
+  InsertSummaryVersion,
+  promptTemplates,
+  PromptTemplate,
+  InsertPromptTemplate,
+  searchEntries,
+  SearchEntry,
+  InsertSearchEntry,
+  embeddingChunks,
+  EmbeddingChunk,
+  InsertEmbeddingChunk,
+  conversations,
+  Conversation,
+  InsertConversation,
+  conversationMessages,
+  ConversationMessage,
+  InsertConversationMessage,
+  comparisons,
+  Comparison,
+  InsertComparison,
+  llmCalls,
+  LLMCall,
+  InsertLLMCall,
+  roleQuotas,
+  RoleQuota,
+  InsertRoleQuota,
+  generationEvents,
+  GenerationEvent,
+  InsertGenerationEvent,
+  llmCache,
+  LLMCacheEntry,
+  InsertLLMCacheEntry,
   User,
 } from "../drizzle/schema";
 import { ENV } from "./_core/env";
 
-export type { Document, Summary };
+export type {
+  Document,
+  Summary,
+  SummaryJob,
+  SummaryVersion,
+  PromptTemplate,
+  SearchEntry,
+  InsertSearchEntry,
+  EmbeddingChunk,
+  InsertEmbeddingChunk,
+  Conversation,
+  ConversationMessage,
+  Comparison,
+  LLMCall,
+  RoleQuota,
+  LLMCacheEntry,
+};
 
 type MutableDocument = Document & { updatedAt?: Date | null };
 type MutableSummary = Summary & { updatedAt?: Date | null };
@@ -27,6 +79,21 @@ const memoryUsers = new Map<string, User>();
 const memoryDocuments = new Map<string, MutableDocument>();
 const memorySummaries = new Map<string, MutableSummary>();
 const memoryResearchSources = new Map<string, MutableResearchSource>();
+const memorySummaryJobs = new Map<string, SummaryJob>();
+const memorySummaryVersions = new Map<string, SummaryVersion>();
+const memoryPromptTemplates = new Map<string, PromptTemplate>();
+const memorySearchEntries = new Map<string, SearchEntry>();
+// Inverted index over memorySearchEntries: word -> entry ids, and entry id -> its words.
+const memorySearchIndex = new Map<string, Set<string>>();
+const memorySearchEntryTerms = new Map<string, string[]>();
+const memoryEmbeddingChunks = new Map<string, EmbeddingChunk>();
+const memoryConversations = new Map<string, Conversation>();
+const memoryConversationMessages = new Map<string, ConversationMessage>();
+const memoryComparisons = new Map<string, Comparison>();
+const memoryLLMCalls = new Map<string, LLMCall>();
+const memoryRoleQuotas = new Map<string, RoleQuota>();
+const memoryGenerationEvents = new Map<string, GenerationEvent>();
+const memoryLLMCache = new Map<string, LLMCacheEntry>();
 
 const now = () => new Date();
 
@@ -137,6 +204,8 @@ function normalizeDocumentInput(doc: InsertDocument): MutableDocument {
     storageKey: doc.storageKey,
     storageUrl: doc.storageUrl,
     extractedText: doc.extractedText ?? null,
+    outline: doc.outline ?? null,
+    language: doc.language ?? null,
     status: (doc.status ?? "uploaded") as MutableDocument["status"],
     errorMessage: doc.errorMessage ?? null,
     createdAt,
@@ -165,6 +234,10 @@ function normalizeSummaryInput(summary: InsertSummary): MutableSummary {
     errorMessage: summary.errorMessage ?? null,
     researchSourcesCount: summary.researchSourcesCount ?? 0,
     jotsNotesCount: summary.jotsNotesCount ?? 0,
+    promptTemplateId: summary.promptTemplateId ?? null,
+    lengthTargets: summary.lengthTargets ?? null,
+    language: summary.language ?? null,
+    translatedFromId: summary.translatedFromId ?? null,
     createdAt,
     updatedAt,
   };
@@ -184,7 +257,154 @@ function normalizeResearchSourceInput(source: InsertResearchSource): MutableRese
     bookTitle: source.bookTitle ?? null,
     authorName: source.authorName ?? null,
     description: source.description ?? null,
+    verificationStatus: source.verificationStatus ?? "unchecked",
+    isbn: source.isbn ?? null,
+    createdAt,
+  };
+}
+
+function normalizeSummaryJobInput(job: InsertSummaryJob): SummaryJob {
+  if (!job.id) throw new Error("Summary job ID is required");
+  if (!job.summaryId) throw new Error("Summary job summaryId is required");
+  if (!job.userId) throw new Error("Summary job userId is required");
+
+  const createdAt = job.createdAt ?? now();
+
+  return {
+    id: job.id,
+    summaryId: job.summaryId,
+    userId: job.userId,
+    kind: job.kind ?? "summary",
+    payload: job.payload ?? null,
+    status: job.status ?? "queued",
+    attempts: job.attempts ?? 0,
+    maxAttempts: job.maxAttempts ?? 3,
+    runAfter: job.runAfter ?? createdAt,
+    lockedBy: job.lockedBy ?? null,
+    heartbeatAt: job.heartbeatAt ?? null,
+    progress: job.progress ?? null,
+    lastError: job.lastError ?? null,
+    createdAt,
+    updatedAt: job.updatedAt ?? createdAt,
+    completedAt: job.completedAt ?? null,
+  };
+}
+
+function normalizeSummaryVersionInput(version: InsertSummaryVersion): SummaryVersion {
+  if (!version.id) throw new Error("Summary version ID is required");
+  if (!version.summaryId) throw new Error("Summary version summaryId is required");
+  if (!version.changeType) throw new Error("Summary version changeType is required");
+  if (!version.authorId) throw new Error("Summary version authorId is required");
+
+  return {
+    id: version.id,
+    summaryId: version.summaryId,
+    versionNumber: version.versionNumber,
+    bookTitle: version.bookTitle ?? null,
+    bookAuthor: version.bookAuthor ?? null,
+    onePageSummary: version.onePageSummary ?? null,
+    introduction: version.introduction ?? null,
+    mainContent: version.mainContent ?? null,
+    researchSourcesCount: version.researchSourcesCount ?? 0,
+    jotsNotesCount: version.jotsNotesCount ?? 0,
+    changeType: version.changeType,
+    changeDescription: version.changeDescription ?? null,
+    authorId: version.authorId,
+    model: version.model ?? null,
+    promptVersion: version.promptVersion ?? null,
+    createdAt: version.createdAt ?? now(),
+  };
+}
+
+function normalizePromptTemplateInput(template: InsertPromptTemplate): PromptTemplate {
+  if (!template.id) throw new Error("Prompt template ID is required");
+  if (!template.style) throw new Error("Prompt template style is required");
+  if (!template.body) throw new Error("Prompt template body is required");
+
+  return {
+    id: template.id,
+    style: template.style,
+    version: template.version,
+    userId: template.userId ?? null,
+    name: template.name,
+    description: template.description ?? null,
+    body: template.body,
+    variables: template.variables,
+    createdAt: template.createdAt ?? now(),
+  };
+}
+
+function normalizeConversationInput(conversation: InsertConversation): Conversation {
+  if (!conversation.id) throw new Error("Conversation ID is required");
+  if (!conversation.userId) throw new Error("Conversation userId is required");
+  if (!conversation.documentId) throw new Error("Conversation documentId is required");
+
+  return {
+    id: conversation.id,
+    userId: conversation.userId,
+    documentId: conversation.documentId,
+    summaryId: conversation.summaryId ?? null,
+    title: conversation.title,
+    createdAt: conversation.createdAt ?? now(),
+    updatedAt: conversation.updatedAt ?? now(),
+  };
+}
+
+function normalizeConversationMessageInput(message: InsertConversationMessage): ConversationMessage {
+  if (!message.id) throw new Error("Conversation message ID is required");
+  if (!message.conversationId) throw new Error("Conversation message conversationId is required");
+  if (!message.role) throw new Error("Conversation message role is required");
+
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    position: message.position,
+    role: message.role,
+    content: message.content,
+    citations: message.citations ?? null,
+    model: message.model ?? null,
+    createdAt: message.createdAt ?? now(),
+  };
+}
+
+function normalizeLLMCallInput(call: InsertLLMCall): LLMCall {
+  if (!call.id) throw new Error("LLM call ID is required");
+  if (!call.model) throw new Error("LLM call model is required");
+
+  return {
+    id: call.id,
+    userId: call.userId ?? null,
+    summaryId: call.summaryId ?? null,
+    task: call.task ?? null,
+    model: call.model,
+    provider: call.provider,
+    promptTokens: call.promptTokens ?? 0,
+    completionTokens: call.completionTokens ?? 0,
+    latencyMs: call.latencyMs,
+    costUsd: call.costUsd ?? null,
+    outcome: call.outcome,
+    errorMessage: call.errorMessage ?? null,
+    createdAt: call.createdAt ?? now(),
+  };
+}
+
+function normalizeComparisonInput(comparison: InsertComparison): Comparison {
+  if (!comparison.id) throw new Error("Comparison ID is required");
+  if (!comparison.userId) throw new Error("Comparison userId is required");
+
+  const createdAt = comparison.createdAt ?? now();
+
+  return {
+    id: comparison.id,
+    userId: comparison.userId,
+    title: comparison.title,
+    summaryIds: comparison.summaryIds,
+    report: comparison.report ?? null,
+    status: comparison.status ?? "generating",
+    errorMessage: comparison.errorMessage ?? null,
+    model: comparison.model ?? null,
     createdAt,
+    updatedAt: comparison.updatedAt ?? createdAt,
   };
 }
 
@@ -308,6 +528,24 @@ export async function getUserDocuments(userId: string): Promise<Document[]> {
   return await db.select().from(documents).where(eq(documents.userId, userId));
 }
 
+/**
+ * Total size in bytes of a user's uploaded documents
+ */
+export async function getUserStorageBytes(userId: string): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryDocuments.values())
+      .filter(doc => doc.userId === userId)
+      .reduce((total, doc) => total + doc.fileSize, 0);
+  }
+
+  const result = await db
+    .select({ total: sql<number>`coalesce(sum(${documents.fileSize}), 0)`.mapWith(Number) })
+    .from(documents)
+    .where(eq(documents.userId, userId));
+  return result[0]?.total ?? 0;
+}
+
 export async function updateDocumentStatus(
   id: string,
   status: "uploaded" | "processing" | "completed" | "failed",
@@ -340,6 +578,36 @@ export async function updateDocumentStatus(
   await db.update(documents).set(updateData).where(eq(documents.id, id));
 }
 
+export async function updateDocumentLanguage(id: string, language: string | null): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    const existing = memoryDocuments.get(id);
+    if (!existing) {
+      throw new Error("Document not found");
+    }
+
+    memoryDocuments.set(id, { ...existing, language, updatedAt: now() });
+    return;
+  }
+
+  await db.update(documents).set({ language, updatedAt: now() }).where(eq(documents.id, id));
+}
+
+export async function updateDocumentOutline(id: string, outline: string | null): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    const existing = memoryDocuments.get(id);
+    if (!existing) {
+      throw new Error("Document not found");
+    }
+
+    memoryDocuments.set(id, { ...existing, outline, updatedAt: now() });
+    return;
+  }
+
+  await db.update(documents).set({ outline, updatedAt: now() }).where(eq(documents.id, id));
+}
+
 export async function createSummary(summary: InsertSummary): Promise<Summary> {
   const db = await getDb();
   if (!db) {
@@ -364,11 +632,15 @@ export async function getSummary(id: string): Promise<Summary | undefined> {
   return result.length > 0 ? result[0] : undefined;
 }
 
+/**
+ * The document's summary. Translations of it share the document but are not
+ * returned here; see `getSummaryTranslations`.
+ */
 export async function getSummaryByDocumentId(documentId: string): Promise<Summary | undefined> {
   const db = await getDb();
   if (!db) {
     for (const summary of Array.from(memorySummaries.values())) {
-      if (summary.documentId === documentId) {
+      if (summary.documentId === documentId && !summary.translatedFromId) {
         return cloneSummary(summary);
       }
     }
@@ -378,11 +650,22 @@ export async function getSummaryByDocumentId(documentId: string): Promise<Summar
   const result = await db
     .select()
     .from(summaries)
-    .where(eq(summaries.documentId, documentId))
+    .where(and(eq(summaries.documentId, documentId), isNull(summaries.translatedFromId)))
     .limit(1);
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getSummaryTranslations(summaryId: string): Promise<Summary[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memorySummaries.values())
+      .filter(summary => summary.translatedFromId === summaryId)
+      .map(cloneSummary);
+  }
+
+  return await db.select().from(summaries).where(eq(summaries.translatedFromId, summaryId));
+}
+
 export async function getUserSummaries(userId: string): Promise<Summary[]> {
   const db = await getDb();
   if (!db) {
@@ -458,6 +741,10 @@ export async function deleteResearchSourcesBySummaryId(summaryId: string): Promi
  * Delete a document by ID
  */
 export async function deleteDocument(documentId: string): Promise<void> {
+  await deleteSearchEntries({ documentId, summaryId: null });
+  await deleteEmbeddingChunks({ documentId, summaryId: null });
+  await deleteConversationsByDocumentId(documentId);
+
   const db = await getDb();
   if (!db) {
     memoryDocuments.delete(documentId);
@@ -471,8 +758,12 @@ export async function deleteDocument(documentId: string): Promise<void> {
  * Delete a summary by ID (also deletes associated research sources)
  */
 export async function deleteSummary(summaryId: string): Promise<void> {
-  // First delete associated research sources
+  // First delete associated research sources, generation jobs, history and search index rows
   await deleteResearchSourcesBySummaryId(summaryId);
+  await deleteSummaryJobsBySummaryId(summaryId);
+  await deleteSummaryVersionsBySummaryId(summaryId);
+  await deleteSearchEntries({ summaryId });
+  await deleteEmbeddingChunks({ summaryId });
   
   const db = await getDb();
   if (!db) {
@@ -482,3 +773,1244 @@ export async function deleteSummary(summaryId: string): Promise<void> {
 
   await db.delete(summaries).where(eq(summaries.id, summaryId));
 }
+
+export type SummaryJobUpdate = Partial<Omit<SummaryJob, "id" | "summaryId" | "userId" | "kind" | "createdAt">>;
+
+export async function createSummaryJob(job: InsertSummaryJob): Promise<SummaryJob> {
+  const db = await getDb();
+  if (!db) {
+    const normalized = normalizeSummaryJobInput(job);
+    memorySummaryJobs.set(normalized.id, normalized);
+    return { ...normalized };
+  }
+
+  const result = await db.insert(summaryJobs).values(job).returning();
+  return result[0];
+}
+
+export async function getSummaryJob(id: string): Promise<SummaryJob | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const job = memorySummaryJobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  const result = await db.select().from(summaryJobs).where(eq(summaryJobs.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Most recent job for a summary (a summary can be re-queued after failing)
+ */
+export async function getLatestSummaryJob(summaryId: string): Promise<SummaryJob | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const jobs = Array.from(memorySummaryJobs.values())
+      .filter(job => job.summaryId === summaryId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    return jobs[0] ? { ...jobs[0] } : undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(summaryJobs)
+    .where(eq(summaryJobs.summaryId, summaryId))
+    .orderBy(desc(summaryJobs.createdAt))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Atomically move the oldest runnable job to `running` for the given worker.
+ * Returns undefined when nothing is due or another worker won the race.
+ */
+export async function claimNextSummaryJob(workerId: string): Promise<SummaryJob | undefined> {
+  const claimedAt = now();
+  const db = await getDb();
+  if (!db) {
+    const candidate = Array.from(memorySummaryJobs.values())
+      .filter(job => job.status === "queued" && job.runAfter.getTime() <= claimedAt.getTime())
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))[0];
+    if (!candidate) {
+      return undefined;
+    }
+
+    const claimed: SummaryJob = {
+      ...candidate,
+      status: "running",
+      attempts: candidate.attempts + 1,
+      lockedBy: workerId,
+      heartbeatAt: claimedAt,
+      updatedAt: claimedAt,
+    };
+    memorySummaryJobs.set(claimed.id, claimed);
+    return { ...claimed };
+  }
+
+  const [candidate] = await db
+    .select()
+    .from(summaryJobs)
+    .where(and(eq(summaryJobs.status, "queued"), lte(summaryJobs.runAfter, claimedAt)))
+    .orderBy(asc(summaryJobs.createdAt))
+    .limit(1);
+  if (!candidate) {
+    return undefined;
+  }
+
+  const result = await db
+    .update(summaryJobs)
+    .set({
+      status: "running",
+      attempts: candidate.attempts + 1,
+      lockedBy: workerId,
+      heartbeatAt: claimedAt,
+      updatedAt: claimedAt,
+    })
+    .where(and(eq(summaryJobs.id, candidate.id), eq(summaryJobs.status, "queued")))
+    .returning();
+  return result[0];
+}
+
+/**
+ * Update a job. When `lockedBy` is given the update only applies while that
+ * worker still owns the job, so a worker that lost its lease cannot overwrite
+ * the state written by whoever picked the job up next.
+ */
+export async function updateSummaryJob(
+  id: string,
+  updates: SummaryJobUpdate,
+  lockedBy?: string,
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    const existing = memorySummaryJobs.get(id);
+    if (!existing || (lockedBy !== undefined && existing.lockedBy !== lockedBy)) {
+      return false;
+    }
+
+    memorySummaryJobs.set(id, { ...existing, ...updates, updatedAt: now() });
+    return true;
+  }
+
+  const condition = lockedBy !== undefined
+    ? and(eq(summaryJobs.id, id), eq(summaryJobs.lockedBy, lockedBy))
+    : eq(summaryJobs.id, id);
+  const result = await db
+    .update(summaryJobs)
+    .set({ ...updates, updatedAt: now() })
+    .where(condition)
+    .returning({ id: summaryJobs.id });
+  return result.length > 0;
+}
+
+/**
+ * Running jobs whose worker has stopped sending heartbeats (crash, deploy,
+ * restart) are considered orphaned.
+ */
+export async function getStaleSummaryJobs(heartbeatBefore: Date): Promise<SummaryJob[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memorySummaryJobs.values())
+      .filter(
+        job =>
+          job.status === "running" &&
+          (job.heartbeatAt?.getTime() ?? 0) < heartbeatBefore.getTime(),
+      )
+      .map(job => ({ ...job }));
+  }
+
+  return await db
+    .select()
+    .from(summaryJobs)
+    .where(and(eq(summaryJobs.status, "running"), lt(summaryJobs.heartbeatAt, heartbeatBefore)));
+}
+
+/**
+ * Number of a user's jobs, of any kind, that are queued or running
+ */
+export async function countActiveSummaryJobs(userId: string): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memorySummaryJobs.values()).filter(
+      job => job.userId === userId && (job.status === "queued" || job.status === "running"),
+    ).length;
+  }
+
+  const result = await db
+    .select({ count: sql<number>`count(*)`.mapWith(Number) })
+    .from(summaryJobs)
+    .where(and(eq(summaryJobs.userId, userId), inArray(summaryJobs.status, ["queued", "running"])));
+  return result[0]?.count ?? 0;
+}
+
+export async function deleteSummaryJobsBySummaryId(summaryId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    for (const [id, job] of Array.from(memorySummaryJobs.entries())) {
+      if (job.summaryId === summaryId) {
+        memorySummaryJobs.delete(id);
+      }
+    }
+    return;
+  }
+
+  await db.delete(summaryJobs).where(eq(summaryJobs.summaryId, summaryId));
+}
+
+const VERSION_NUMBER_ATTEMPTS = 5;
+
+/**
+ * Append a version. The version number is assigned here as one more than the
+ * latest existing version of the summary; if another process takes that
+ * number first (it is unique per summary), the next one is tried.
+ */
+export async function createSummaryVersion(
+  version: Omit<InsertSummaryVersion, "versionNumber">,
+): Promise<SummaryVersion> {
+  const db = await getDb();
+  if (!db) {
+    const latest = await getLatestSummaryVersion(version.summaryId);
+    const normalized = normalizeSummaryVersionInput({ ...version, versionNumber: (latest?.versionNumber ?? 0) + 1 });
+    memorySummaryVersions.set(normalized.id, normalized);
+    return { ...normalized };
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await getLatestSummaryVersion(version.summaryId);
+    const versionNumber = (latest?.versionNumber ?? 0) + 1;
+    try {
+      const result = await db.insert(summaryVersions).values({ ...version, versionNumber }).returning();
+      return result[0];
+    } catch (error) {
+      if (attempt >= VERSION_NUMBER_ATTEMPTS || !isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: unknown };
+  return code === "23505" || (cause !== undefined && isUniqueViolation(cause));
+}
+
+export async function getSummaryVersion(id: string): Promise<SummaryVersion | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const version = memorySummaryVersions.get(id);
+    return version ? { ...version } : undefined;
+  }
+
+  const result = await db.select().from(summaryVersions).where(eq(summaryVersions.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * All versions of a summary, newest first
+ */
+export async function getSummaryVersions(summaryId: string): Promise<SummaryVersion[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memorySummaryVersions.values())
+      .filter(version => version.summaryId === summaryId)
+      .sort((a, b) => b.versionNumber - a.versionNumber)
+      .map(version => ({ ...version }));
+  }
+
+  return await db
+    .select()
+    .from(summaryVersions)
+    .where(eq(summaryVersions.summaryId, summaryId))
+    .orderBy(desc(summaryVersions.versionNumber));
+}
+
+export async function getLatestSummaryVersion(summaryId: string): Promise<SummaryVersion | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const [latest] = await getSummaryVersions(summaryId);
+    return latest;
+  }
+
+  const result = await db
+    .select()
+    .from(summaryVersions)
+    .where(eq(summaryVersions.summaryId, summaryId))
+    .orderBy(desc(summaryVersions.versionNumber))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function deleteSummaryVersionsBySummaryId(summaryId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    for (const [id, version] of Array.from(memorySummaryVersions.entries())) {
+      if (version.summaryId === summaryId) {
+        memorySummaryVersions.delete(id);
+      }
+    }
+    return;
+  }
+
+  await db.delete(summaryVersions).where(eq(summaryVersions.summaryId, summaryId));
+}
+
+/**
+ * Insert a prompt template. Inserting an id that already exists is a no-op,
+ * so built-in templates can be seeded on every start.
+ */
+export async function createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+  const db = await getDb();
+  if (!db) {
+    const existing = memoryPromptTemplates.get(template.id);
+    if (existing) {
+      return { ...existing };
+    }
+    const normalized = normalizePromptTemplateInput(template);
+    memoryPromptTemplates.set(normalized.id, normalized);
+    return { ...normalized };
+  }
+
+  await db.insert(promptTemplates).values(template).onConflictDoNothing();
+  const result = await db.select().from(promptTemplates).where(eq(promptTemplates.id, template.id)).limit(1);
+  return result[0];
+}
+
+export async function getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const template = memoryPromptTemplates.get(id);
+    return template ? { ...template } : undefined;
+  }
+
+  const result = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * The built-in templates and the user's own, every version, newest version
+ * of each style first.
+ */
+export async function getPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryPromptTemplates.values())
+      .filter(template => template.userId === null || template.userId === userId)
+      .sort((a, b) => a.style.localeCompare(b.style) || b.version - a.version)
+      .map(template => ({ ...template }));
+  }
+
+  return await db
+    .select()
+    .from(promptTemplates)
+    .where(or(isNull(promptTemplates.userId), eq(promptTemplates.userId, userId)))
+    .orderBy(asc(promptTemplates.style), desc(promptTemplates.version));
+}
+
+/** Marks around matched terms in search snippets; private-use characters that never occur in text. */
+export const SEARCH_HIGHLIGHT_START = "\ue000";
+export const SEARCH_HIGHLIGHT_END = "\ue001";
+
+const SEARCH_INSERT_BATCH = 200;
+const SNIPPET_WORDS = 32;
+const HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=${SNIPPET_WORDS}, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export type SearchEntryQuery = {
+  /** Web-search syntax: words, "quoted phrases" and -excluded words. */
+  text: string;
+  kinds?: string[];
+  noteType?: string;
+  /** Case-insensitive part of the book's author. */
+  author?: string;
+  limit: number;
+  offset: number;
+};
+
+export type SearchEntryMatch = SearchEntry & {
+  score: number;
+  /** Up to a few dozen words around the matches, with matches between the highlight marks. */
+  snippet: string;
+};
+
+/** The entries of a document's own text, or those of one summary. */
+export type SearchEntryScope = { documentId: string; summaryId: null } | { summaryId: string };
+
+/**
+ * Replace everything indexed for `scope` with `entries`.
+ */
+export async function replaceSearchEntries(scope: SearchEntryScope, entries: InsertSearchEntry[]): Promise<void> {
+  await deleteSearchEntries(scope);
+
+  const db = await getDb();
+  if (!db) {
+    for (const entry of entries) {
+      const normalized: SearchEntry = {
+        id: entry.id,
+        userId: entry.userId,
+        documentId: entry.documentId,
+        summaryId: entry.summaryId ?? null,
+        kind: entry.kind,
+        title: entry.title,
+        body: entry.body,
+        bookTitle: entry.bookTitle ?? null,
+        bookAuthor: entry.bookAuthor ?? null,
+        noteType: entry.noteType ?? null,
+        location: entry.location ?? null,
+        updatedAt: entry.updatedAt ?? now(),
+      };
+      memorySearchEntries.set(normalized.id, normalized);
+      addToMemorySearchIndex(normalized);
+    }
+    return;
+  }
+
+  for (let start = 0; start < entries.length; start += SEARCH_INSERT_BATCH) {
+    await db.insert(searchEntries).values(entries.slice(start, start + SEARCH_INSERT_BATCH));
+  }
+}
+
+/**
+ * Remove what is indexed for a document's text or a summary.
+ */
+export async function deleteSearchEntries(scope: SearchEntryScope): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    for (const entry of Array.from(memorySearchEntries.values())) {
+      const inScope =
+        scope.summaryId === null
+          ? entry.documentId === scope.documentId && entry.summaryId === null
+          : entry.summaryId === scope.summaryId;
+      if (inScope) {
+        memorySearchEntries.delete(entry.id);
+        removeFromMemorySearchIndex(entry.id);
+      }
+    }
+    return;
+  }
+
+  await db
+    .delete(searchEntries)
+    .where(
+      scope.summaryId === null
+        ? and(eq(searchEntries.documentId, scope.documentId), isNull(searchEntries.summaryId))
+        : eq(searchEntries.summaryId, scope.summaryId),
+    );
+}
+
+/**
+ * Full-text search over a user's entries, best matches first. Postgres ranks
+ * with ts_rank and highlights with ts_headline; the in-memory store uses an
+ * inverted index of the same words.
+ */
+export async function querySearchEntries(userId: string, query: SearchEntryQuery): Promise<SearchEntryMatch[]> {
+  const db = await getDb();
+  if (!db) {
+    return queryMemorySearchIndex(userId, query);
+  }
+
+  const tsQuery = sql`websearch_to_tsquery('simple', ${query.text})`;
+  const score = sql<number>`ts_rank("searchVector", ${tsQuery})`;
+  const conditions = [eq(searchEntries.userId, userId), sql`"searchVector" @@ ${tsQuery}`];
+  if (query.kinds?.length) {
+    conditions.push(inArray(searchEntries.kind, query.kinds));
+  }
+  if (query.noteType) {
+    conditions.push(eq(searchEntries.noteType, query.noteType));
+  }
+  if (query.author) {
+    conditions.push(ilike(searchEntries.bookAuthor, `%${query.author.replace(/[\\%_]/g, "\\$&")}%`));
+  }
+
+  return await db
+    .select({
+      ...getTableColumns(searchEntries),
+      score,
+      snippet: sql<string>`ts_headline('simple', ${searchEntries.body}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+    })
+    .from(searchEntries)
+    .where(and(...conditions))
+    .orderBy(desc(score), asc(searchEntries.id))
+    .limit(query.limit)
+    .offset(query.offset);
+}
+
+/**
+ * Lower-cased words of `text`, accented letters included. The in-memory
+ * counterpart of the 'simple' text search configuration.
+ */
+function tokenizeSearchText(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) ?? [];
+}
+
+function addToMemorySearchIndex(entry: SearchEntry): void {
+  const terms = Array.from(new Set(tokenizeSearchText(`${entry.title} ${entry.body}`)));
+  memorySearchEntryTerms.set(entry.id, terms);
+  for (const term of terms) {
+    let postings = memorySearchIndex.get(term);
+    if (!postings) {
+      postings = new Set();
+      memorySearchIndex.set(term, postings);
+    }
+    postings.add(entry.id);
+  }
+}
+
+function removeFromMemorySearchIndex(id: string): void {
+  for (const term of memorySearchEntryTerms.get(id) ?? []) {
+    const postings = memorySearchIndex.get(term);
+    postings?.delete(id);
+    if (postings?.size === 0) {
+      memorySearchIndex.delete(term);
+    }
+  }
+  memorySearchEntryTerms.delete(id);
+}
+
+/**
+ * The subset of web-search syntax the in-memory index understands: every
+ * word must appear, "quoted phrases" must appear as written and -words must
+ * not appear.
+ */
+function parseMemorySearchQuery(text: string): { terms: string[]; phrases: string[][]; excluded: string[] } {
+  const phrases: string[][] = [];
+  const remainder = text.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = tokenizeSearchText(phrase);
+    if (words.length > 0) phrases.push(words);
+    return " ";
+  });
+  const excluded: string[] = [];
+  const terms: string[] = [];
+  for (const word of remainder.split(/\s+/)) {
+    const target = word.startsWith("-") ? excluded : terms;
+    target.push(...tokenizeSearchText(word));
+  }
+  return { terms: Array.from(new Set(terms.concat(...phrases))), phrases, excluded };
+}
+
+function queryMemorySearchIndex(userId: string, query: SearchEntryQuery): SearchEntryMatch[] {
+  const { terms, phrases, excluded } = parseMemorySearchQuery(query.text);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const postings = terms.map(term => memorySearchIndex.get(term) ?? new Set<string>());
+  const [smallest, ...others] = postings.sort((a, b) => a.size - b.size);
+  const author = query.author?.toLowerCase();
+
+  const matches: SearchEntryMatch[] = [];
+  smallest.forEach(id => {
+    if (!others.every(posting => posting.has(id))) return;
+    const entry = memorySearchEntries.get(id)!;
+    if (entry.userId !== userId) return;
+    if (query.kinds?.length && !query.kinds.includes(entry.kind)) return;
+    if (query.noteType && entry.noteType !== query.noteType) return;
+    if (author && !entry.bookAuthor?.toLowerCase().includes(author)) return;
+
+    const titleWords = tokenizeSearchText(entry.title);
+    const bodyWords = tokenizeSearchText(entry.body);
+    const words = titleWords.concat(bodyWords);
+    if (excluded.some(term => words.includes(term))) return;
+    if (!phrases.every(phrase => containsPhrase(titleWords, phrase) || containsPhrase(bodyWords, phrase))) return;
+
+    // Title matches count more, as with the 'A' weight in Postgres.
+    const frequency = terms.reduce(
+      (sum, term) =>
+        sum + 2 * titleWords.filter(word => word === term).length + bodyWords.filter(word => word === term).length,
+      0,
+    );
+    matches.push({
+      ...entry,
+      score: frequency / (1 + Math.log(1 + bodyWords.length)),
+      snippet: buildMemorySnippet(entry.body, new Set(terms)),
+    });
+  });
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(query.offset, query.offset + query.limit);
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((word, index) => words[start + index] === word)) return true;
+  }
+  return false;
+}
+
+/**
+ * About SNIPPET_WORDS words of `body` around its first match, with every
+ * matched word marked.
+ */
+function buildMemorySnippet(body: string, terms: Set<string>): string {
+  const pieces = body.split(/(\s+)/);
+  const wordIndexes = pieces.map((_, index) => index).filter(index => index % 2 === 0 && pieces[index]);
+  const isMatch = (piece: string) => tokenizeSearchText(piece).some(word => terms.has(word));
+  const first = Math.max(0, wordIndexes.findIndex(index => isMatch(pieces[index])));
+  const start = Math.max(0, first - Math.floor(SNIPPET_WORDS / 3));
+  const selected = wordIndexes.slice(start, start + SNIPPET_WORDS);
+
+  const text = selected
+    .map(index => (isMatch(pieces[index]) ? `${SEARCH_HIGHLIGHT_START}${pieces[index]}${SEARCH_HIGHLIGHT_END}` : pieces[index]))
+    .join(" ")
+    .trim();
+  return `${start > 0 ? "… " : ""}${text}${start + SNIPPET_WORDS < wordIndexes.length ? " …" : ""}`;
+}
+
+/**
+ * Replace every embedding stored for `scope` with `chunks`.
+ */
+export async function replaceEmbeddingChunks(scope: SearchEntryScope, chunks: InsertEmbeddingChunk[]): Promise<void> {
+  await deleteEmbeddingChunks(scope);
+
+  const db = await getDb();
+  if (!db) {
+    for (const chunk of chunks) {
+      memoryEmbeddingChunks.set(chunk.id, {
+        id: chunk.id,
+        userId: chunk.userId,
+        documentId: chunk.documentId,
+        summaryId: chunk.summaryId ?? null,
+        kind: chunk.kind,
+        title: chunk.title,
+        content: chunk.content,
+        bookTitle: chunk.bookTitle ?? null,
+        bookAuthor: chunk.bookAuthor ?? null,
+        location: chunk.location ?? null,
+        model: chunk.model,
+        vector: chunk.vector,
+        updatedAt: chunk.updatedAt ?? now(),
+      });
+    }
+    return;
+  }
+
+  for (let start = 0; start < chunks.length; start += SEARCH_INSERT_BATCH) {
+    await db.insert(embeddingChunks).values(chunks.slice(start, start + SEARCH_INSERT_BATCH));
+  }
+}
+
+export async function deleteEmbeddingChunks(scope: SearchEntryScope): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    for (const chunk of Array.from(memoryEmbeddingChunks.values())) {
+      const inScope =
+        scope.summaryId === null
+          ? chunk.documentId === scope.documentId && chunk.summaryId === null
+          : chunk.summaryId === scope.summaryId;
+      if (inScope) {
+        memoryEmbeddingChunks.delete(chunk.id);
+      }
+    }
+    return;
+  }
+
+  await db
+    .delete(embeddingChunks)
+    .where(
+      scope.summaryId === null
+        ? and(eq(embeddingChunks.documentId, scope.documentId), isNull(embeddingChunks.summaryId))
+        : eq(embeddingChunks.summaryId, scope.summaryId),
+    );
+}
+
+/**
+ * Every chunk of the user's library embedded with `model`.
+ */
+/** What scoring a chunk against a query needs. */
+export type EmbeddingVector = Pick<EmbeddingChunk, "id" | "vector">;
+
+/**
+ * Vectors of the user's chunks embedded with `model`, limited to
+ * `documentIds` when any are given
+ */
+export async function getUserEmbeddingVectors(
+  userId: string,
+  model: string,
+  documentIds: string[] = [],
+): Promise<EmbeddingVector[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryEmbeddingChunks.values())
+      .filter(
+        chunk =>
+          chunk.userId === userId &&
+          chunk.model === model &&
+          (documentIds.length === 0 || documentIds.includes(chunk.documentId)),
+      )
+      .map(chunk => ({ id: chunk.id, vector: chunk.vector }));
+  }
+
+  return await db
+    .select({ id: embeddingChunks.id, vector: embeddingChunks.vector })
+    .from(embeddingChunks)
+    .where(
+      and(
+        eq(embeddingChunks.userId, userId),
+        eq(embeddingChunks.model, model),
+        documentIds.length > 0 ? inArray(embeddingChunks.documentId, documentIds) : undefined,
+      ),
+    );
+}
+
+export async function getEmbeddingChunksByIds(ids: string[]): Promise<EmbeddingChunk[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const db = await getDb();
+  if (!db) {
+    return ids
+      .map(id => memoryEmbeddingChunks.get(id))
+      .filter((chunk): chunk is EmbeddingChunk => chunk !== undefined)
+      .map(chunk => ({ ...chunk }));
+  }
+
+  return await db.select().from(embeddingChunks).where(inArray(embeddingChunks.id, ids));
+}
+
+/**
+ * Whether anything of the document (its text or its summaries) has been
+ * embedded with `model`.
+ */
+export async function hasEmbeddingChunks(documentId: string, model: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryEmbeddingChunks.values()).some(
+      chunk => chunk.documentId === documentId && chunk.model === model,
+    );
+  }
+
+  const result = await db
+    .select({ id: embeddingChunks.id })
+    .from(embeddingChunks)
+    .where(and(eq(embeddingChunks.documentId, documentId), eq(embeddingChunks.model, model)))
+    .limit(1);
+  return result.length > 0;
+}
+
+export async function createConversation(conversation: InsertConversation): Promise<Conversation> {
+  const db = await getDb();
+  if (!db) {
+    const normalized = normalizeConversationInput(conversation);
+    memoryConversations.set(normalized.id, normalized);
+    return { ...normalized };
+  }
+
+  const result = await db.insert(conversations).values(conversation).returning();
+  return result[0];
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const conversation = memoryConversations.get(id);
+    return conversation ? { ...conversation } : undefined;
+  }
+
+  const result = await db.select().from(conversations).where(eq(conversations.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * The user's conversations about a document, most recently active first.
+ */
+export async function getDocumentConversations(userId: string, documentId: string): Promise<Conversation[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryConversations.values())
+      .filter(conversation => conversation.userId === userId && conversation.documentId === documentId)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0))
+      .map(conversation => ({ ...conversation }));
+  }
+
+  return await db
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.userId, userId), eq(conversations.documentId, documentId)))
+    .orderBy(desc(conversations.updatedAt));
+}
+
+/** Mark a conversation as active now, so it sorts first. */
+export async function touchConversation(id: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    const existing = memoryConversations.get(id);
+    if (existing) {
+      memoryConversations.set(id, { ...existing, updatedAt: now() });
+    }
+    return;
+  }
+
+  await db.update(conversations).set({ updatedAt: now() }).where(eq(conversations.id, id));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    for (const message of Array.from(memoryConversationMessages.values())) {
+      if (message.conversationId === id) {
+        memoryConversationMessages.delete(message.id);
+      }
+    }
+    memoryConversations.delete(id);
+    return;
+  }
+
+  await db.delete(conversationMessages).where(eq(conversationMessages.conversationId, id));
+  await db.delete(conversations).where(eq(conversations.id, id));
+}
+
+export async function deleteConversationsByDocumentId(documentId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    for (const conversation of Array.from(memoryConversations.values())) {
+      if (conversation.documentId === documentId) {
+        await deleteConversation(conversation.id);
+      }
+    }
+    return;
+  }
+
+  const ids = (
+    await db.select({ id: conversations.id }).from(conversations).where(eq(conversations.documentId, documentId))
+  ).map(row => row.id);
+  if (ids.length > 0) {
+    await db.delete(conversationMessages).where(inArray(conversationMessages.conversationId, ids));
+    await db.delete(conversations).where(inArray(conversations.id, ids));
+  }
+}
+
+/**
+ * Append messages to a conversation. Positions are assigned here, following
+ * the conversation's last message.
+ */
+export async function appendConversationMessages(
+  conversationId: string,
+  messages: Array<Omit<InsertConversationMessage, "conversationId" | "position">>,
+): Promise<ConversationMessage[]> {
+  const existing = await getConversationMessages(conversationId);
+  const first = (existing[existing.length - 1]?.position ?? 0) + 1;
+  const rows = messages.map((message, index) => ({ ...message, conversationId, position: first + index }));
+
+  const db = await getDb();
+  if (!db) {
+    return rows.map(row => {
+      const normalized = normalizeConversationMessageInput(row);
+      memoryConversationMessages.set(normalized.id, normalized);
+      return { ...normalized };
+    });
+  }
+
+  return await db.insert(conversationMessages).values(rows).returning();
+}
+
+/**
+ * A conversation's messages in order; with `limit`, only the last ones.
+ */
+export async function getConversationMessages(conversationId: string, limit?: number): Promise<ConversationMessage[]> {
+  const db = await getDb();
+  if (!db) {
+    const messages = Array.from(memoryConversationMessages.values())
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => a.position - b.position)
+      .map(message => ({ ...message }));
+    return limit === undefined ? messages : messages.slice(-limit);
+  }
+
+  if (limit === undefined) {
+    return await db
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(asc(conversationMessages.position));
+  }
+
+  const latest = await db
+    .select()
+    .from(conversationMessages)
+    .where(eq(conversationMessages.conversationId, conversationId))
+    .orderBy(desc(conversationMessages.position))
+    .limit(limit);
+  return latest.reverse();
+}
+
+export async function createComparison(comparison: InsertComparison): Promise<Comparison> {
+  const db = await getDb();
+  if (!db) {
+    const normalized = normalizeComparisonInput(comparison);
+    memoryComparisons.set(normalized.id, normalized);
+    return { ...normalized };
+  }
+
+  const result = await db.insert(comparisons).values(comparison).returning();
+  return result[0];
+}
+
+export async function getComparison(id: string): Promise<Comparison | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const comparison = memoryComparisons.get(id);
+    return comparison ? { ...comparison } : undefined;
+  }
+
+  const result = await db.select().from(comparisons).where(eq(comparisons.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * The user's comparison reports, newest first.
+ */
+export async function getUserComparisons(userId: string): Promise<Comparison[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryComparisons.values())
+      .filter(comparison => comparison.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .map(comparison => ({ ...comparison }));
+  }
+
+  return await db
+    .select()
+    .from(comparisons)
+    .where(eq(comparisons.userId, userId))
+    .orderBy(desc(comparisons.createdAt));
+}
+
+export async function updateComparison(
+  id: string,
+  updates: Partial<Omit<Comparison, "id" | "userId" | "createdAt" | "updatedAt">>,
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    const existing = memoryComparisons.get(id);
+    if (!existing) {
+      throw new Error("Comparison not found");
+    }
+    memoryComparisons.set(id, { ...existing, ...updates, updatedAt: now() });
+    return;
+  }
+
+  await db.update(comparisons).set({ ...updates, updatedAt: now() }).where(eq(comparisons.id, id));
+}
+
+export async function deleteComparison(id: string): Promise<void> {
+  await deleteSummaryJobsBySummaryId(id);
+
+  const db = await getDb();
+  if (!db) {
+    memoryComparisons.delete(id);
+    return;
+  }
+
+  await db.delete(comparisons).where(eq(comparisons.id, id));
+}
+
+export async function createLLMCall(call: InsertLLMCall): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    const normalized = normalizeLLMCallInput(call);
+    memoryLLMCalls.set(normalized.id, normalized);
+    return;
+  }
+
+  await db.insert(llmCalls).values(call);
+}
+
+export type LLMUsageFilter = {
+  since?: Date;
+  userId?: string;
+  summaryId?: string;
+};
+
+/** What LLM usage can be broken down by; `day` is the UTC date, YYYY-MM-DD. */
+export type LLMUsageGroup = "userId" | "model" | "day";
+
+export type LLMUsageTotals = {
+  userId?: string | null;
+  model?: string;
+  day?: string;
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated; calls to models without a known price count as free. */
+  costUsd: number;
+};
+
+/**
+ * Totals of the LLM calls matching `filter`, one row per combination of the
+ * `groupBy` keys (a single row when there are none). Rows are ordered by
+ * day, then by cost, highest first.
+ */
+export async function aggregateLLMCalls(
+  filter: LLMUsageFilter,
+  groupBy: LLMUsageGroup[] = [],
+): Promise<LLMUsageTotals[]> {
+  const db = await getDb();
+  let rows: LLMUsageTotals[];
+
+  if (!db) {
+    const groups = new Map<string, LLMUsageTotals>();
+    Array.from(memoryLLMCalls.values())
+      .filter(
+        call =>
+          (!filter.since || (call.createdAt?.getTime() ?? 0) >= filter.since.getTime()) &&
+          (!filter.userId || call.userId === filter.userId) &&
+          (!filter.summaryId || call.summaryId === filter.summaryId),
+      )
+      .forEach(call => {
+        const keys: Partial<LLMUsageTotals> = {};
+        if (groupBy.includes("userId")) keys.userId = call.userId;
+        if (groupBy.includes("model")) keys.model = call.model;
+        if (groupBy.includes("day")) keys.day = (call.createdAt ?? now()).toISOString().slice(0, 10);
+
+        const id = JSON.stringify(keys);
+        const totals = groups.get(id) ?? { ...keys, calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+        totals.calls += 1;
+        totals.failedCalls += call.outcome === "success" ? 0 : 1;
+        totals.promptTokens += call.promptTokens;
+        totals.completionTokens += call.completionTokens;
+        totals.costUsd += call.costUsd ?? 0;
+        groups.set(id, totals);
+      });
+    rows = Array.from(groups.values());
+  } else {
+    const keys = {
+      userId: llmCalls.userId,
+      model: llmCalls.model,
+      day: sql<string>`to_char(${llmCalls.createdAt}, 'YYYY-MM-DD')`,
+    };
+    const conditions = [
+      filter.since ? gte(llmCalls.createdAt, filter.since) : undefined,
+      filter.userId ? eq(llmCalls.userId, filter.userId) : undefined,
+      filter.summaryId ? eq(llmCalls.summaryId, filter.summaryId) : undefined,
+    ].filter(condition => condition !== undefined);
+
+    const result = await db
+      .select({
+        ...Object.fromEntries(groupBy.map(key => [key, keys[key]])),
+        calls: sql<number>`count(*)`.mapWith(Number),
+        failedCalls: sql<number>`count(*) filter (where ${llmCalls.outcome} <> 'success')`.mapWith(Number),
+        promptTokens: sql<number>`coalesce(sum(${llmCalls.promptTokens}), 0)`.mapWith(Number),
+        completionTokens: sql<number>`coalesce(sum(${llmCalls.completionTokens}), 0)`.mapWith(Number),
+        costUsd: sql<number>`coalesce(sum(${llmCalls.costUsd}), 0)`.mapWith(Number),
+      })
+      .from(llmCalls)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(...groupBy.map(key => keys[key]));
+    rows = result as LLMUsageTotals[];
+  }
+
+  if (rows.length === 0 && groupBy.length === 0) {
+    rows = [{ calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }];
+  }
+
+  return rows.sort((a, b) => (a.day ?? "").localeCompare(b.day ?? "") || b.costUsd - a.costUsd);
+}
+
+export async function getRoleQuota(role: string): Promise<RoleQuota | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const quota = memoryRoleQuotas.get(role);
+    return quota ? { ...quota } : undefined;
+  }
+
+  const result = await db.select().from(roleQuotas).where(eq(roleQuotas.role, role)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getRoleQuotas(): Promise<RoleQuota[]> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryRoleQuotas.values())
+      .map(quota => ({ ...quota }))
+      .sort((a, b) => a.role.localeCompare(b.role));
+  }
+
+  return await db.select().from(roleQuotas).orderBy(asc(roleQuotas.role));
+}
+
+/**
+ * Create or replace the quota override for a role
+ */
+export async function upsertRoleQuota(quota: InsertRoleQuota): Promise<RoleQuota> {
+  if (!quota.role) throw new Error("Role is required");
+
+  const values: RoleQuota = {
+    role: quota.role,
+    dailyGenerations: quota.dailyGenerations ?? null,
+    monthlyGenerations: quota.monthlyGenerations ?? null,
+    storageBytes: quota.storageBytes ?? null,
+    concurrentJobs: quota.concurrentJobs ?? null,
+    updatedAt: now(),
+  };
+
+  const db = await getDb();
+  if (!db) {
+    memoryRoleQuotas.set(values.role, values);
+    return { ...values };
+  }
+
+  const { role, ...limits } = values;
+  const result = await db
+    .insert(roleQuotas)
+    .values(values)
+    .onConflictDoUpdate({ target: roleQuotas.role, set: limits })
+    .returning();
+  return result[0];
+}
+
+export async function createGenerationEvent(event: InsertGenerationEvent): Promise<void> {
+  if (!event.id) throw new Error("Generation event ID is required");
+
+  const db = await getDb();
+  if (!db) {
+    memoryGenerationEvents.set(event.id, {
+      id: event.id,
+      userId: event.userId,
+      kind: event.kind ?? "summary",
+      summaryId: event.summaryId ?? null,
+      createdAt: event.createdAt ?? now(),
+    });
+    return;
+  }
+
+  await db.insert(generationEvents).values(event);
+}
+
+export async function deleteGenerationEvent(id: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    memoryGenerationEvents.delete(id);
+    return;
+  }
+
+  await db.delete(generationEvents).where(eq(generationEvents.id, id));
+}
+
+/**
+ * Number of generations a user has requested since `since`
+ */
+export async function countGenerationEvents(userId: string, since: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    return Array.from(memoryGenerationEvents.values()).filter(
+      event => event.userId === userId && event.createdAt.getTime() >= since.getTime(),
+    ).length;
+  }
+
+  const result = await db
+    .select({ count: sql<number>`count(*)`.mapWith(Number) })
+    .from(generationEvents)
+    .where(and(eq(generationEvents.userId, userId), gte(generationEvents.createdAt, since)));
+  return result[0]?.count ?? 0;
+}
+
+export async function getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined> {
+  const db = await getDb();
+  if (!db) {
+    const entry = memoryLLMCache.get(key);
+    return entry ? { ...entry } : undefined;
+  }
+
+  const result = await db.select().from(llmCache).where(eq(llmCache.key, key)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Store a response under its key, replacing (and resetting the hit count of)
+ * any earlier entry
+ */
+export async function upsertLLMCacheEntry(entry: InsertLLMCacheEntry): Promise<void> {
+  const values: LLMCacheEntry = {
+    key: entry.key,
+    model: entry.model,
+    response: entry.response,
+    promptTokens: entry.promptTokens ?? 0,
+    completionTokens: entry.completionTokens ?? 0,
+    hits: 0,
+    createdAt: entry.createdAt ?? now(),
+    expiresAt: entry.expiresAt,
+    lastHitAt: null,
+  };
+
+  const db = await getDb();
+  if (!db) {
+    memoryLLMCache.set(values.key, values);
+    return;
+  }
+
+  const { key, ...rest } = values;
+  await db.insert(llmCache).values(values).onConflictDoUpdate({ target: llmCache.key, set: rest });
+}
+
+export async function recordLLMCacheHit(key: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    const entry = memoryLLMCache.get(key);
+    if (entry) {
+      entry.hits += 1;
+      entry.lastHitAt = now();
+    }
+    return;
+  }
+
+  await db
+    .update(llmCache)
+    .set({ hits: sql`${llmCache.hits} + 1`, lastHitAt: now() })
+    .where(eq(llmCache.key, key));
+}
+
+export type LLMCacheTotals = {
+  entries: number;
+  expiredEntries: number;
+  hits: number;
+  /** Prompt and completion tokens that hits did not spend again. */
+  tokensSaved: number;
+};
+
+export async function getLLMCacheTotals(at = now()): Promise<LLMCacheTotals> {
+  const db = await getDb();
+  if (!db) {
+    const entries = Array.from(memoryLLMCache.values());
+    return {
+      entries: entries.length,
+      expiredEntries: entries.filter(entry => entry.expiresAt.getTime() <= at.getTime()).length,
+      hits: entries.reduce((total, entry) => total + entry.hits, 0),
+      tokensSaved: entries.reduce(
+        (total, entry) => total + entry.hits * (entry.promptTokens + entry.completionTokens),
+        0,
+      ),
+    };
+  }
+
+  const result = await db
+    .select({
+      entries: sql<number>`count(*)`.mapWith(Number),
+      expiredEntries: sql<number>`count(*) filter (where ${llmCache.expiresAt} <= ${at})`.mapWith(Number),
+      hits: sql<number>`coalesce(sum(${llmCache.hits}), 0)`.mapWith(Number),
+      tokensSaved: sql<number>`coalesce(sum(${llmCache.hits} * (${llmCache.promptTokens} + ${llmCache.completionTokens})), 0)`.mapWith(Number),
+    })
+    .from(llmCache);
+  return result[0] ?? { entries: 0, expiredEntries: 0, hits: 0, tokensSaved: 0 };
+}
+
+/**
+ * Delete cached responses: those expired by `expiredBy`, or all of them.
+ * Returns how many were deleted.
+ */
+export async function deleteLLMCacheEntries(expiredBy?: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    const keys = Array.from(memoryLLMCache.values())
+      .filter(entry => !expiredBy || entry.expiresAt.getTime() <= expiredBy.getTime())
+      .map(entry => entry.key);
+    keys.forEach(key => memoryLLMCache.delete(key));
+    return keys.length;
+  }
+
+  const result = await db
+    .delete(llmCache)
+    .where(expiredBy ? lte(llmCache.expiresAt, expiredBy) : undefined)
+    .returning({ key: llmCache.key });
+  return result.length;
+}
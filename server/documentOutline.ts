@@ -0,0 +1,218 @@
+/**
+ * The structural outline stored alongside a document's extracted text
+ * (`documents.outline`): chapters, headings and PDF pages, each located by
+ * character offset into `extractedText`. Paragraphs are the text's
+ * blank-line-separated blocks, so they are counted from the text itself
+ * rather than stored.
+ *
+ * Offsets let any passage of the book be described as e.g.
+ * "Chapter 4: Embrace Boredom, p. 112", which is how summary subsections link
+ * back to where their ideas came from.
+ */
+
+export type DocumentChapter = {
+  title: string;
+  startOffset: number;
+  endOffset: number;
+};
+
+export type DocumentHeading = {
+  text: string;
+  level: number;
+  offset: number;
+};
+
+export type DocumentPage = {
+  page: number;
+  startOffset: number;
+};
+
+export type DocumentOutline = {
+  chapters: DocumentChapter[];
+  headings: DocumentHeading[];
+  pages: DocumentPage[];
+};
+
+export type SourceLocation = {
+  startOffset: number;
+  endOffset: number;
+  chapter?: string;
+  heading?: string;
+  page?: number;
+  /** 1-based paragraph number within the whole document. */
+  paragraph: number;
+  /** Human-readable form, e.g. "Chapter 4: Embrace Boredom, p. 112". */
+  label: string;
+};
+
+const MIN_PASSAGE_CHARS = 600;
+const MAX_PASSAGE_CHARS = 2000;
+const MIN_MATCHED_TERMS = 2;
+
+const STOPWORDS = new Set(
+  (
+    "about above after again against also among because been before being below between both cannot could does doing " +
+    "down during each either every from further have having here hers herself himself into itself just more most much " +
+    "must myself never only other ought ourselves over same shall should some such than that their theirs them " +
+    "themselves then there these they this those through under until upon very were what when where which while whom " +
+    "whose will with within without would your yours yourself yourselves"
+  ).split(" "),
+);
+
+export function emptyOutline(): DocumentOutline {
+  return { chapters: [], headings: [], pages: [] };
+}
+
+/**
+ * Read a stored outline. Also accepts the earlier format, which was a bare
+ * array of chapters.
+ */
+export function parseDocumentOutline(outline: string | null | undefined): DocumentOutline {
+  if (!outline) {
+    return emptyOutline();
+  }
+
+  try {
+    const parsed = JSON.parse(outline);
+    const source = Array.isArray(parsed) ? { chapters: parsed } : parsed ?? {};
+    return {
+      chapters: (Array.isArray(source.chapters) ? source.chapters : []).filter(
+        (chapter: DocumentChapter) => typeof chapter?.title === "string" && Number.isInteger(chapter.startOffset),
+      ),
+      headings: (Array.isArray(source.headings) ? source.headings : []).filter(
+        (heading: DocumentHeading) => typeof heading?.text === "string" && Number.isInteger(heading.offset),
+      ),
+      pages: (Array.isArray(source.pages) ? source.pages : []).filter(
+        (page: DocumentPage) => Number.isInteger(page?.page) && Number.isInteger(page.startOffset),
+      ),
+    };
+  } catch {
+    return emptyOutline();
+  }
+}
+
+/**
+ * Describe where the passage [startOffset, endOffset) sits in the document.
+ */
+export function describeLocation(
+  outline: DocumentOutline,
+  text: string,
+  startOffset: number,
+  endOffset: number = startOffset,
+): SourceLocation {
+  const chapter = findLast(outline.chapters, chapter => chapter.startOffset <= startOffset);
+  const heading = findLast(
+    outline.headings,
+    heading =>
+      heading.offset <= startOffset &&
+      (!chapter || heading.offset >= chapter.startOffset) &&
+      heading.text !== chapter?.title,
+  );
+  const page = findLast(outline.pages, page => page.startOffset <= startOffset);
+  const paragraph = (text.slice(0, startOffset).match(/\n\n+/g)?.length ?? 0) + 1;
+
+  const place = [chapter?.title, heading?.text].filter(Boolean).join(" › ");
+  const label = [place, page ? `p. ${page.page}` : ""].filter(Boolean).join(", ") || `Paragraph ${paragraph}`;
+
+  return {
+    startOffset,
+    endOffset,
+    ...(chapter ? { chapter: chapter.title } : {}),
+    ...(heading ? { heading: heading.text } : {}),
+    ...(page ? { page: page.page } : {}),
+    paragraph,
+    label,
+  };
+}
+
+/**
+ * Build a matcher that finds the passage of `text` best matching a query
+ * (e.g. a summary subsection), weighting rare shared terms most. Returns null
+ * when nothing matches convincingly.
+ */
+export function createPassageLocator(
+  text: string,
+  outline: DocumentOutline,
+): (query: string) => SourceLocation | null {
+  const passages = splitIntoPassages(text).map(passage => ({
+    ...passage,
+    terms: new Set(extractTerms(text.slice(passage.start, passage.end))),
+  }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const passage of passages) {
+    passage.terms.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+
+  return (query: string) => {
+    const terms = Array.from(new Set(extractTerms(query))).filter(term => documentFrequency.has(term));
+    let best: (typeof passages)[number] | null = null;
+    let bestScore = 0;
+    let bestMatches = 0;
+
+    for (const passage of passages) {
+      let score = 0;
+      let matches = 0;
+      for (const term of terms) {
+        if (passage.terms.has(term)) {
+          score += Math.log((passages.length + 1) / documentFrequency.get(term)!);
+          matches++;
+        }
+      }
+      if (score > bestScore) {
+        best = passage;
+        bestScore = score;
+        bestMatches = matches;
+      }
+    }
+
+    return best && bestMatches >= MIN_MATCHED_TERMS ? describeLocation(outline, text, best.start, best.end) : null;
+  };
+}
+
+/**
+ * Cut `text` into passages of about a paragraph or a few, located by offset.
+ */
+export function splitIntoPassages(text: string): Array<{ start: number; end: number }> {
+  const passages: Array<{ start: number; end: number }> = [];
+  const separator = /\n\n+/g;
+  let passageStart = 0;
+
+  const close = (end: number) => {
+    // Very long paragraphs (e.g. a whole PDF page) are cut into smaller windows.
+    while (end - passageStart > MAX_PASSAGE_CHARS) {
+      const window = text.slice(passageStart, passageStart + MAX_PASSAGE_CHARS);
+      const cut = Math.max(window.lastIndexOf("\n"), window.lastIndexOf(". ") + 1);
+      const length = cut > MAX_PASSAGE_CHARS / 2 ? cut : MAX_PASSAGE_CHARS;
+      passages.push({ start: passageStart, end: passageStart + length });
+      passageStart += length;
+    }
+    if (end > passageStart) {
+      passages.push({ start: passageStart, end });
+    }
+  };
+
+  for (let match = separator.exec(text); match; match = separator.exec(text)) {
+    if (match.index - passageStart >= MIN_PASSAGE_CHARS) {
+      close(match.index);
+      passageStart = match.index + match[0].length;
+    }
+  }
+  close(text.length);
+
+  return passages;
+}
+
+/**
+ * Lower-cased content words (four letters or more, stopwords removed).
+ */
+export function extractTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z'-]{3,}/g) ?? []).filter(term => !STOPWORDS.has(term));
+}
+
+function findLast<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  for (let index = items.length - 1; index >= 0; index--) {
+    if (predicate(items[index])) return items[index];
+  }
+  return undefined;
+}
@@ -1,6 +1,11 @@
 import mammoth from 'mammoth';
 import { Readable } from 'stream';
 import { createRequire } from 'module';
+import { detectChapterBoundaries } from './chapterChunker';
+import type { DocumentChapter, DocumentHeading, DocumentOutline, DocumentPage } from './documentOutline';
+import { chaptersFromBlocks, htmlToBlocks, markdownToBlocks, type TextChapter } from './documentStructure';
+import { parseEpub } from './epubParser';
+import { detectLanguage, type LanguageCode } from './language';
 
 const require = createRequire(import.meta.url);
 
@@ -10,34 +15,65 @@ const pdfParse = require('pdf-parse');
 // @ts-ignore - rtf-parser doesn't have types
 const RtfParser = require('rtf-parser');
 
-export type DocumentType = 'pdf' | 'docx' | 'txt' | 'rtf';
+export type DocumentType = 'pdf' | 'docx' | 'txt' | 'rtf' | 'epub' | 'html' | 'md';
 
 export interface ProcessedDocument {
   text: string;
   wordCount: number;
   success: boolean;
   error?: string;
+  /** Chapters, headings and PDF pages, located by offsets into `text`. */
+  outline?: DocumentOutline;
+  /** Detected language of `text`; null when it cannot be told. */
+  language?: LanguageCode | null;
 }
 
 /**
- * Extract text from a PDF buffer
+ * Extracted text: plain, one string per PDF page, or already divided into
+ * chapters of headings and paragraphs.
  */
-async function extractPdfText(buffer: Buffer): Promise<string> {
+type Extraction =
+  | { kind: 'text'; text: string }
+  | { kind: 'pages'; pages: string[] }
+  | { kind: 'chapters'; chapters: TextChapter[] };
+
+/**
+ * Extract text from a PDF buffer, page by page
+ */
+async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+
+  // Same text layout as pdf-parse's default renderer, but kept per page.
+  const renderPage = async (pageData: any): Promise<string> => {
+    const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of content.items) {
+      text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+      lastY = item.transform[5];
+    }
+    pages[pageData.pageNumber - 1] = text;
+    return text;
+  };
+
   try {
-    const data = await pdfParse(buffer);
-    return data.text;
+    await pdfParse(buffer, { pagerender: renderPage });
+    return Array.from(pages, page => page ?? '');
   } catch (error) {
     throw new Error(`PDF extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Extract text from a DOCX buffer
+ * Extract chapters from a DOCX buffer; Word's heading styles become headings
  */
-async function extractDocxText(buffer: Buffer): Promise<string> {
+async function extractDocxChapters(buffer: Buffer): Promise<TextChapter[]> {
   try {
-    const result = await mammoth.extractRawText({ buffer });
-    return result.value;
+    const result = await mammoth.convertToHtml(
+      { buffer },
+      { convertImage: mammoth.images.imgElement(() => Promise.resolve({ src: '' })) }
+    );
+    return chaptersFromBlocks(htmlToBlocks(result.value));
   } catch (error) {
     throw new Error(`DOCX extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
@@ -84,6 +120,31 @@ async function extractRtfText(buffer: Buffer): Promise<string> {
   });
 }
 
+/**
+ * Extract chapters from an EPUB buffer
+ */
+async function extractEpubChapters(buffer: Buffer): Promise<TextChapter[]> {
+  try {
+    return parseEpub(buffer).chapters;
+  } catch (error) {
+    throw new Error(`EPUB extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Extract chapters from an HTML buffer
+ */
+async function extractHtmlChapters(buffer: Buffer): Promise<TextChapter[]> {
+  return chaptersFromBlocks(htmlToBlocks(buffer.toString('utf-8')));
+}
+
+/**
+ * Extract chapters from a Markdown buffer
+ */
+async function extractMarkdownChapters(buffer: Buffer): Promise<TextChapter[]> {
+  return chaptersFromBlocks(markdownToBlocks(buffer.toString('utf-8')));
+}
+
 /**
  * Process a document buffer and extract text based on file type
  */
@@ -92,27 +153,35 @@ export async function processDocument(
   fileType: DocumentType
 ): Promise<ProcessedDocument> {
   try {
-    let text: string;
+    let extraction: Extraction;
 
     switch (fileType) {
       case 'pdf':
-        text = await extractPdfText(buffer);
+        extraction = { kind: 'pages', pages: await extractPdfPages(buffer) };
         break;
       case 'docx':
-        text = await extractDocxText(buffer);
+        extraction = { kind: 'chapters', chapters: await extractDocxChapters(buffer) };
         break;
       case 'txt':
-        text = await extractTxtText(buffer);
+        extraction = { kind: 'text', text: await extractTxtText(buffer) };
         break;
       case 'rtf':
-        text = await extractRtfText(buffer);
+        extraction = { kind: 'text', text: await extractRtfText(buffer) };
+        break;
+      case 'epub':
+        extraction = { kind: 'chapters', chapters: await extractEpubChapters(buffer) };
+        break;
+      case 'html':
+        extraction = { kind: 'chapters', chapters: await extractHtmlChapters(buffer) };
+        break;
+      case 'md':
+        extraction = { kind: 'chapters', chapters: await extractMarkdownChapters(buffer) };
         break;
       default:
         throw new Error(`Unsupported file type: ${fileType}`);
     }
 
-    // Clean up the text more efficiently
-    text = cleanText(text);
+    const { text, outline } = assembleDocument(extraction);
 
     const wordCount = countWords(text);
 
@@ -120,6 +189,8 @@ export async function processDocument(
       text,
       wordCount,
       success: true,
+      outline,
+      language: detectLanguage(text),
     };
   } catch (error) {
     return {
@@ -142,6 +213,68 @@ function cleanText(text: string): string {
     .trim();
 }
 
+/**
+ * Join the extracted pieces into one cleaned text separated by blank lines,
+ * recording where each chapter, heading and page starts. Text without real
+ * chapter structure (PDF, TXT, RTF) falls back to detected chapter headings.
+ */
+function assembleDocument(extraction: Extraction): { text: string; outline: DocumentOutline } {
+  const parts: string[] = [];
+  const chapters: DocumentChapter[] = [];
+  const headings: DocumentHeading[] = [];
+  const pages: DocumentPage[] = [];
+  let offset = 0;
+
+  const append = (raw: string): number | null => {
+    const piece = cleanText(raw);
+    if (!piece) return null;
+    if (parts.length > 0) offset += 2; // the "\n\n" separator
+    const start = offset;
+    parts.push(piece);
+    offset += piece.length;
+    return start;
+  };
+
+  if (extraction.kind === 'text') {
+    append(extraction.text);
+  } else if (extraction.kind === 'pages') {
+    extraction.pages.forEach((page, index) => {
+      const start = append(page);
+      if (start !== null) pages.push({ page: index + 1, startOffset: start });
+    });
+  } else {
+    for (const chapter of extraction.chapters) {
+      let chapterStart: number | null = null;
+      for (const block of chapter.blocks) {
+        const start = append(block.text);
+        if (start === null) continue;
+        chapterStart ??= start;
+        if (block.kind === 'heading') {
+          headings.push({ text: cleanText(block.text), level: block.level, offset: start });
+        }
+      }
+      if (chapter.title && chapterStart !== null) {
+        chapters.push({ title: chapter.title, startOffset: chapterStart, endOffset: offset });
+      }
+    }
+  }
+
+  const text = parts.join('\n\n');
+
+  if (chapters.length === 0) {
+    const detected = detectChapterBoundaries(text);
+    detected.forEach((boundary, index) => {
+      chapters.push({
+        title: boundary.title,
+        startOffset: boundary.offset,
+        endOffset: detected[index + 1]?.offset ?? text.length,
+      });
+    });
+  }
+
+  return { text, outline: { chapters, headings, pages } };
+}
+
 /**
  * Count words efficiently
  */
@@ -187,6 +320,15 @@ export function getFileType(filename: string): DocumentType | null {
       return 'txt';
     case 'rtf':
       return 'rtf';
+    case 'epub':
+      return 'epub';
+    case 'html':
+    case 'htm':
+    case 'xhtml':
+      return 'html';
+    case 'md':
+    case 'markdown':
+      return 'md';
     default:
       return null;
   }
@@ -0,0 +1,220 @@
+/**
+ * Plain text and chapter structure from marked-up sources (HTML, XHTML from
+ * EPUBs, Markdown).
+ *
+ * Markup is reduced to a flat list of headings and paragraphs; chapters are
+ * then cut at the outermost heading level that occurs more than once, so a
+ * lone `# Book Title` above many `## Chapter` headings still splits by chapter.
+ */
+
+export type TextBlock =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "paragraph"; text: string };
+
+export type TextChapter = {
+  /** Null for text before the first chapter heading (front matter). */
+  title: string | null;
+  blocks: TextBlock[];
+};
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "body", "caption", "dd", "div", "dl", "dt", "figcaption", "figure",
+  "footer", "header", "hr", "li", "main", "nav", "ol", "p", "pre", "section", "table", "td", "th", "tr", "ul",
+]);
+
+const SKIPPED_ELEMENTS = /<(script|style|head|svg|math|template)\b[\s\S]*?<\/\1\s*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", shy: "", ensp: " ", emsp: " ", thinsp: " ",
+  mdash: "—", ndash: "–", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", laquo: "«", raquo: "»",
+  copy: "©", reg: "®", trade: "™", deg: "°", middot: "·", bull: "•", times: "×", eacute: "é", egrave: "è",
+  aacute: "á", agrave: "à", iacute: "í", oacute: "ó", uacute: "ú", ntilde: "ñ", ccedil: "ç", uuml: "ü", ouml: "ö",
+  auml: "ä", szlig: "ß",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "";
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Strip tags from an inline HTML fragment (e.g. a table-of-contents link).
+ */
+export function htmlToInlineText(html: string): string {
+  return collapseWhitespace(decodeHtmlEntities(html.replace(/<[^>]*>/g, " ")));
+}
+
+export function htmlToBlocks(html: string): TextBlock[] {
+  const source = html
+    .replace(/<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/gi, "")
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(SKIPPED_ELEMENTS, "");
+  const blocks: TextBlock[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)[^>]*?(\/?)>/g;
+
+  let buffer = "";
+  let headingLevel: number | null = null;
+  let preDepth = 0;
+  let lastIndex = 0;
+
+  // Source line breaks are just whitespace outside <pre>; only <br> breaks a line.
+  const append = (raw: string) => {
+    const text = decodeHtmlEntities(raw);
+    buffer += preDepth > 0 ? text : text.replace(/\s+/g, " ");
+  };
+  const flush = () => {
+    const text = preDepth > 0 ? buffer.replace(/^\n+|\s+$/g, "") : collapseWhitespace(buffer);
+    if (text) {
+      blocks.push(headingLevel ? { kind: "heading", level: headingLevel, text } : { kind: "paragraph", text });
+    }
+    buffer = "";
+  };
+
+  for (let match = tagPattern.exec(source); match; match = tagPattern.exec(source)) {
+    append(source.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const closing = match[1] === "/";
+    const tag = match[2].toLowerCase().replace(/^.*:/, "");
+    const heading = /^h([1-6])$/.exec(tag);
+
+    if (heading) {
+      flush();
+      headingLevel = closing ? null : Number(heading[1]);
+    } else if (tag === "br") {
+      buffer += "\n";
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+      if (tag === "pre") {
+        preDepth = Math.max(0, preDepth + (closing ? -1 : match[3] ? 0 : 1));
+      }
+    }
+  }
+
+  append(source.slice(lastIndex));
+  flush();
+  return blocks;
+}
+
+export function markdownToBlocks(markdown: string): TextBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) {
+      blocks.push({ kind: "paragraph", text });
+    }
+    paragraph = [];
+  };
+
+  let start = 0;
+  if (lines[0]?.trim() === "---") {
+    // YAML front matter
+    const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end !== -1) start = end + 1;
+  }
+
+  for (const line of lines.slice(start)) {
+    const fenceMatch = /^\s*(```|~~~)/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null;
+        flush();
+      } else {
+        paragraph.push(line);
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const atx = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/.exec(line);
+    if (atx) {
+      flush();
+      const text = stripInlineMarkdown(atx[2]);
+      if (text) blocks.push({ kind: "heading", level: atx[1].length, text });
+      continue;
+    }
+
+    const setext = /^\s{0,3}(=+|-{2,})\s*$/.exec(line);
+    if (setext && paragraph.length === 1) {
+      blocks.push({ kind: "heading", level: setext[1][0] === "=" ? 1 : 2, text: stripInlineMarkdown(paragraph[0]) });
+      paragraph = [];
+      continue;
+    }
+
+    if (!line.trim() || /^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    paragraph.push(stripInlineMarkdown(line.replace(/^\s{0,3}>\s?/, "")));
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Group blocks into chapters at the outermost heading level that repeats.
+ * Documents without such headings come back as a single untitled chapter.
+ */
+export function chaptersFromBlocks(blocks: TextBlock[]): TextChapter[] {
+  const counts = new Map<number, number>();
+  for (const block of blocks) {
+    if (block.kind === "heading") counts.set(block.level, (counts.get(block.level) ?? 0) + 1);
+  }
+  const chapterLevel = Array.from(counts.keys())
+    .sort((a, b) => a - b)
+    .find(level => (counts.get(level) ?? 0) >= 2);
+
+  const chapters: TextChapter[] = [];
+  let current: TextChapter = { title: null, blocks: [] };
+  const push = () => {
+    if (current.blocks.length > 0) chapters.push(current);
+  };
+
+  for (const block of blocks) {
+    if (block.kind === "heading" && block.level === chapterLevel) {
+      push();
+      current = { title: block.text, blocks: [] };
+    }
+    current.blocks.push(block);
+  }
+  push();
+
+  return chapters;
+}
+
+function stripInlineMarkdown(text: string): string {
+  return decodeHtmlEntities(
+    text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+      .replace(/<[^>]+>/g, "")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+      .replace(/(^|[^\w*])([*_])(?=\S)(.+?)(?<=\S)\2(?!\w)/g, "$1$3")
+      .replace(/^\s*[*+]\s+/, "- "),
+  ).trim();
+}
+
+function collapseWhitespace(text: string): string {
+  return text
+    .split("\n")
+    .map(line => line.replace(/[ \t ]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,220 @@
+/**
+ * Semantic index of a user's library, used to answer questions about it
+ * (libraryQA.ts).
+ *
+ * Chunks are built from the same entries as full-text search (search.ts): each
+ * passage of a document's text, a summary's overview, and each subsection
+ * together with its Jots notes. With an OpenAI key they are embedded by the
+ * embeddings API; otherwise, or with EMBEDDING_PROVIDER=local or
+ * LOCAL_LLM_ROUTING=only, by a deterministic local embedding that hashes stemmed words into a fixed-size
+ * vector. The local one only measures word overlap, but it needs no network
+ * and gives the same vector for the same text every time.
+ *
+ * Vectors of different models cannot be compared, so chunks embedded with a
+ * model other than the current one are ignored until the library is
+ * reindexed.
+ */
+
+import { ENV } from "./_core/env";
+import { invokeEmbeddings } from "./_core/llm";
+import {
+  getEmbeddingChunksByIds,
+  getUserEmbeddingVectors,
+  replaceEmbeddingChunks,
+  type EmbeddingChunk,
+  type InsertEmbeddingChunk,
+  type InsertSearchEntry,
+  type SearchEntryScope,
+} from "./db";
+
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+export const LOCAL_EMBEDDING_MODEL = `local-hash-${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+const EMBEDDING_BATCH_SIZE = 64;
+/** Longer chunks are cut before embedding; the embeddings API rejects very long input. */
+const MAX_EMBEDDED_CHARS = 6000;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from had has have he her his how i if in into is it its of on or our " +
+    "she so than that the their them then there these they this to was we were what when where which who " +
+    "why will with you your does do did about can could would should any all not no"
+  ).split(" "),
+);
+
+export type ScoredEmbeddingChunk = EmbeddingChunk & { score: number };
+
+/**
+ * The model new chunks and queries are embedded with.
+ */
+export function currentEmbeddingModel(): string {
+  if (ENV.embeddingProvider === "local" || ENV.localLLMRouting === "only" || !process.env.OPENAI_API_KEY?.trim()) {
+    return LOCAL_EMBEDDING_MODEL;
+  }
+  return ENV.openAIEmbeddingModel;
+}
+
+/**
+ * Embed `texts` with the current model. Vectors are unit length, so their dot
+ * product is the cosine similarity.
+ */
+export async function embedTexts(texts: string[]): Promise<{ model: string; vectors: number[][] }> {
+  const model = currentEmbeddingModel();
+  if (model === LOCAL_EMBEDDING_MODEL) {
+    return { model, vectors: texts.map(localEmbedding) };
+  }
+
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE).map(text => text.slice(0, MAX_EMBEDDED_CHARS));
+    const result = await invokeEmbeddings({ input: batch, model });
+    vectors.push(...result.data.map(item => normalize(item.embedding)));
+  }
+  return { model, vectors };
+}
+
+/**
+ * Rebuild the embeddings for `scope` from its full-text search entries.
+ */
+export async function indexEmbeddings(scope: SearchEntryScope, entries: InsertSearchEntry[]): Promise<void> {
+  const chunks = buildChunks(entries);
+  if (chunks.length === 0) {
+    await replaceEmbeddingChunks(scope, []);
+    return;
+  }
+
+  const { model, vectors } = await embedTexts(chunks.map(chunk => `${chunk.title}\n\n${chunk.content}`));
+  await replaceEmbeddingChunks(
+    scope,
+    chunks.map((chunk, index) => ({ ...chunk, model, vector: vectors[index] })),
+  );
+}
+
+/**
+ * The user's chunks most similar to `query`, best first. Only vectors are
+ * loaded for scoring; the full chunks are read for the best `limit`.
+ */
+export async function findSimilarChunks(
+  userId: string,
+  query: string,
+  options: { limit: number; documentIds?: string[] },
+): Promise<ScoredEmbeddingChunk[]> {
+  const { model, vectors } = await embedTexts([query]);
+  const [queryVector] = vectors;
+  const candidates = await getUserEmbeddingVectors(userId, model, options.documentIds);
+
+  const scores = new Map(
+    candidates
+      .map(candidate => ({ id: candidate.id, score: dot(queryVector, candidate.vector) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, options.limit)
+      .map(candidate => [candidate.id, candidate.score]),
+  );
+  const chunks = await getEmbeddingChunksByIds(Array.from(scores.keys()));
+
+  return chunks
+    .map(chunk => ({ ...chunk, score: scores.get(chunk.id)! }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
+
+/**
+ * Hash each stemmed word of `text` into one of a fixed number of dimensions,
+ * with a hashed sign so unrelated words cancel out rather than pile up.
+ */
+export function localEmbedding(text: string): number[] {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) ?? []) {
+    if (STOPWORDS.has(word)) continue;
+    const stem = stemWord(word);
+    counts.set(stem, (counts.get(stem) ?? 0) + 1);
+  }
+
+  const vector: number[] = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  counts.forEach((count, word) => {
+    const hash = fnv1a(word);
+    const sign = hash >>> 31 ? -1 : 1;
+    vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+  });
+  return normalize(vector);
+}
+
+/**
+ * One chunk per passage and per subsection (with its notes), and one for a
+ * summary's introduction and one-page summary together. Research sources
+ * describe other books and are left out.
+ */
+function buildChunks(entries: InsertSearchEntry[]): Array<Omit<InsertEmbeddingChunk, "model" | "vector">> {
+  const chunks = new Map<string, Omit<InsertEmbeddingChunk, "model" | "vector">>();
+
+  for (const entry of entries) {
+    if (entry.kind === "researchSource") continue;
+
+    // Notes ("<summary>:s0.1.n2") join their subsection ("<summary>:s0.1"), the overview parts share one chunk.
+    const id =
+      entry.kind === "note"
+        ? entry.id.replace(/\.n\d+$/, "")
+        : entry.kind === "overview"
+          ? entry.id.replace(/:[^:]+$/, ":overview")
+          : entry.id;
+    const existing = chunks.get(id);
+    if (existing) {
+      existing.content = `${existing.content}\n\n${entry.body}`;
+      continue;
+    }
+
+    const title = entry.kind === "note" ? entry.title.replace(/ · Jots note$/, "") : entry.title;
+    chunks.set(id, {
+      id,
+      userId: entry.userId,
+      documentId: entry.documentId,
+      summaryId: entry.summaryId ?? null,
+      kind: entry.kind === "note" ? "subsection" : entry.kind,
+      title: entry.kind === "overview" ? title.replace(/ · [^·]+$/, " · Overview") : title,
+      content: entry.body,
+      bookTitle: entry.bookTitle ?? null,
+      bookAuthor: entry.bookAuthor ?? null,
+      location: entry.kind === "note" ? JSON.stringify(withoutNoteIndex(entry.location)) : entry.location,
+    });
+  }
+
+  return Array.from(chunks.values());
+}
+
+function withoutNoteIndex(location: string | null | undefined): object {
+  const parsed = location ? JSON.parse(location) : {};
+  delete parsed.noteIndex;
+  return parsed;
+}
+
+function stemWord(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("ing")) return word.slice(0, -3);
+  if (word.endsWith("ed")) return word.slice(0, -2);
+  if (/(s|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    sum += a[index] * b[index];
+  }
+  return sum;
+}
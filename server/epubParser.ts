@@ -0,0 +1,246 @@
+/**
+ * EPUB (2 and 3) text extraction.
+ *
+ * Content documents are read in spine order. Chapter titles come from the
+ * EPUB 3 navigation document, or the EPUB 2 NCX when there is none; spine
+ * items without a table-of-contents entry continue the previous chapter
+ * (publishers often split long chapters across files).
+ */
+
+import { posix } from "path";
+import { chaptersFromBlocks, htmlToBlocks, htmlToInlineText, type TextChapter } from "./documentStructure";
+import { readZip, type ZipArchive } from "./zip";
+
+export type ParsedEpub = {
+  title: string | null;
+  author: string | null;
+  chapters: TextChapter[];
+};
+
+type ManifestItem = {
+  id: string;
+  path: string;
+  mediaType: string;
+  properties: string;
+};
+
+type TocEntry = {
+  title: string;
+  path: string;
+  fragment: string | null;
+  depth: number;
+};
+
+export function parseEpub(buffer: Buffer): ParsedEpub {
+  const archive = readZip(buffer);
+
+  const container = readText(archive, "META-INF/container.xml");
+  const packagePath = container && getAttribute(container.match(/<rootfile\b[^>]*>/i)?.[0] ?? "", "full-path");
+  const packageDocument = packagePath ? readText(archive, packagePath) : null;
+  if (!packagePath || !packageDocument) {
+    throw new Error("EPUB is missing its package document (content.opf)");
+  }
+
+  const packageDir = posix.dirname(packagePath);
+  const manifest = new Map<string, ManifestItem>();
+  for (const tag of packageDocument.match(/<item\b[^>]*>/gi) ?? []) {
+    const id = getAttribute(tag, "id");
+    const href = getAttribute(tag, "href");
+    if (id && href) {
+      manifest.set(id, {
+        id,
+        path: resolveHref(packageDir, href),
+        mediaType: getAttribute(tag, "media-type") ?? "",
+        properties: getAttribute(tag, "properties") ?? "",
+      });
+    }
+  }
+
+  const spine = (packageDocument.match(/<itemref\b[^>]*>/gi) ?? [])
+    .filter(tag => getAttribute(tag, "linear") !== "no")
+    .map(tag => manifest.get(getAttribute(tag, "idref") ?? ""))
+    .filter((item): item is ManifestItem => Boolean(item) && /html|xml/i.test(item!.mediaType));
+  if (spine.length === 0) {
+    throw new Error("EPUB has no readable content in its spine");
+  }
+
+  const toc = readTableOfContents(archive, packageDocument, manifest);
+  const chapters = toc.length > 0 ? chaptersFromToc(archive, spine, toc) : chaptersFromHeadings(archive, spine);
+
+  return {
+    title: readMetadata(packageDocument, "title"),
+    author: readMetadata(packageDocument, "creator"),
+    chapters,
+  };
+}
+
+function chaptersFromToc(archive: ZipArchive, spine: ManifestItem[], toc: TocEntry[]): TextChapter[] {
+  // Per file, only the outermost entries start chapters; deeper ones are sections within them.
+  const entriesByPath = new Map<string, TocEntry[]>();
+  for (const entry of toc) {
+    entriesByPath.set(entry.path, [...(entriesByPath.get(entry.path) ?? []), entry]);
+  }
+
+  const chapters: TextChapter[] = [];
+  for (const item of spine) {
+    const html = readText(archive, item.path);
+    if (!html) continue;
+
+    const entries = entriesByPath.get(item.path) ?? [];
+    const minDepth = Math.min(...entries.map(entry => entry.depth));
+    const starts = entries.filter(entry => entry.depth === minDepth);
+
+    for (const piece of splitAtFragments(html, starts)) {
+      const blocks = htmlToBlocks(piece.html);
+      if (blocks.length === 0) continue;
+
+      const previous = chapters[chapters.length - 1];
+      if (piece.title === null && previous) {
+        previous.blocks.push(...blocks);
+      } else {
+        chapters.push({ title: piece.title, blocks });
+      }
+    }
+  }
+
+  return chapters;
+}
+
+function chaptersFromHeadings(archive: ZipArchive, spine: ManifestItem[]): TextChapter[] {
+  const blocks = spine.flatMap(item => {
+    const html = readText(archive, item.path);
+    return html ? htmlToBlocks(html) : [];
+  });
+  return chaptersFromBlocks(blocks);
+}
+
+/**
+ * Cut a content document at the elements the table of contents points to.
+ * Text before the first target belongs to the previous chapter.
+ */
+function splitAtFragments(html: string, entries: TocEntry[]): Array<{ title: string | null; html: string }> {
+  const cuts: Array<{ title: string; offset: number }> = [];
+  for (const entry of entries) {
+    let offset = 0;
+    if (entry.fragment) {
+      const idPattern = new RegExp(`\\sid\\s*=\\s*["']${escapeRegExp(entry.fragment)}["']`);
+      const match = idPattern.exec(html);
+      if (!match) continue;
+      offset = html.lastIndexOf("<", match.index);
+    }
+    if (!cuts.some(cut => cut.offset === offset)) {
+      cuts.push({ title: entry.title, offset });
+    }
+  }
+  cuts.sort((a, b) => a.offset - b.offset);
+
+  if (cuts.length === 0) {
+    return [{ title: null, html }];
+  }
+
+  const pieces: Array<{ title: string | null; html: string }> = [];
+  if (cuts[0].offset > 0) {
+    pieces.push({ title: null, html: html.slice(0, cuts[0].offset) });
+  }
+  cuts.forEach((cut, index) => {
+    pieces.push({ title: cut.title, html: html.slice(cut.offset, cuts[index + 1]?.offset ?? html.length) });
+  });
+  return pieces;
+}
+
+function readTableOfContents(
+  archive: ZipArchive,
+  packageDocument: string,
+  manifest: Map<string, ManifestItem>,
+): TocEntry[] {
+  const nav = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes("nav"));
+  const navDocument = nav ? readText(archive, nav.path) : null;
+  if (nav && navDocument) {
+    const entries = parseNavDocument(navDocument, posix.dirname(nav.path));
+    if (entries.length > 0) return entries;
+  }
+
+  const ncxId = getAttribute(packageDocument.match(/<spine\b[^>]*>/i)?.[0] ?? "", "toc");
+  const ncx =
+    (ncxId ? manifest.get(ncxId) : undefined) ??
+    Array.from(manifest.values()).find(item => item.mediaType === "application/x-dtbncx+xml");
+  const ncxDocument = ncx ? readText(archive, ncx.path) : null;
+  return ncx && ncxDocument ? parseNcx(ncxDocument, posix.dirname(ncx.path)) : [];
+}
+
+function parseNavDocument(document: string, baseDir: string): TocEntry[] {
+  const navs = document.match(/<nav\b[^>]*>[\s\S]*?<\/nav>/gi) ?? [];
+  const toc = navs.find(nav => /epub:type\s*=\s*["'][^"']*\btoc\b/i.test(nav.slice(0, nav.indexOf(">")))) ?? navs[0];
+  if (!toc) return [];
+
+  const entries: TocEntry[] = [];
+  const tokens = /<(\/?)ol\b[^>]*>|<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+  let depth = 0;
+  for (let match = tokens.exec(toc); match; match = tokens.exec(toc)) {
+    if (match[2] === undefined) {
+      depth += match[1] ? -1 : 1;
+      continue;
+    }
+    const href = getAttribute(`<a ${match[2]}>`, "href");
+    const title = htmlToInlineText(match[3]);
+    if (href && title) {
+      entries.push({ title, depth, ...splitHref(baseDir, href) });
+    }
+  }
+  return entries;
+}
+
+function parseNcx(document: string, baseDir: string): TocEntry[] {
+  const entries: TocEntry[] = [];
+  const tokens = /<(\/?)navPoint\b[^>]*>|<navLabel\b[^>]*>\s*<text\b[^>]*>([\s\S]*?)<\/text>\s*<\/navLabel>\s*<content\b([^>]*)>/gi;
+  let depth = 0;
+  for (let match = tokens.exec(document); match; match = tokens.exec(document)) {
+    if (match[2] === undefined) {
+      depth += match[1] ? -1 : 1;
+      continue;
+    }
+    const src = getAttribute(`<content ${match[3]}>`, "src");
+    const title = htmlToInlineText(match[2]);
+    if (src && title) {
+      entries.push({ title, depth, ...splitHref(baseDir, src) });
+    }
+  }
+  return entries;
+}
+
+function readMetadata(packageDocument: string, element: "title" | "creator"): string | null {
+  const match = new RegExp(`<dc:${element}\\b[^>]*>([\\s\\S]*?)</dc:${element}>`, "i").exec(packageDocument);
+  const value = match ? htmlToInlineText(match[1]) : "";
+  return value || null;
+}
+
+function readText(archive: ZipArchive, path: string): string | null {
+  const data = archive.read(path);
+  return data ? data.toString("utf8").replace(/^﻿/, "") : null;
+}
+
+function splitHref(baseDir: string, href: string): { path: string; fragment: string | null } {
+  const [pathPart, fragment] = href.split("#");
+  return { path: resolveHref(baseDir, pathPart), fragment: fragment ? safeDecode(fragment) : null };
+}
+
+function resolveHref(baseDir: string, href: string): string {
+  return posix.normalize(posix.join(baseDir, safeDecode(href.split("#")[0]))).replace(/^\.\//, "");
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${escapeRegExp(name)}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i").exec(tag);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
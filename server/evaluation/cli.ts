@@ -0,0 +1,74 @@
+/**
+ * Compare prompt versions and models on the fixture corpus.
+ *
+ *   pnpm eval [--prompt <version>]... [--model <name>]... [--fixture <id>]... [--record] [--json <path>]
+ *
+ * Every combination of the given prompt versions and models is run (the
+ * current prompt and the mock model by default). Models other than `mock`
+ * replay recorded responses; `--record` calls the configured provider instead
+ * and saves what it returns, which is the only mode that needs API keys.
+ */
+
+import "dotenv/config";
+import { writeFile } from "fs/promises";
+import { parseArgs } from "util";
+import { SHORTFORM_PROMPT_VERSION } from "../shortformPrompt";
+import {
+  compareVariants,
+  createEvaluationModel,
+  createRecordedModel,
+  formatComparison,
+  loadCorpus,
+  MOCK_MODEL,
+  runEvaluation,
+} from "./index";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      prompt: { type: "string", multiple: true },
+      model: { type: "string", multiple: true },
+      fixture: { type: "string", multiple: true },
+      record: { type: "boolean", default: false },
+      json: { type: "string" },
+    },
+  });
+
+  const prompts = values.prompt?.length ? values.prompt : [SHORTFORM_PROMPT_VERSION];
+  const models = values.model?.length ? values.model : [MOCK_MODEL];
+  const variants = prompts.flatMap(promptVersion => models.map(model => ({ promptVersion, model })));
+
+  const fixtures = await loadCorpus(undefined, values.fixture);
+  const results = await runEvaluation({
+    fixtures,
+    variants,
+    model: createEvaluationModel(createRecordedModel({ record: values.record })),
+  });
+
+  for (const result of results) {
+    if (result.error) {
+      console.warn(`[Eval] ${result.promptVersion} / ${result.model} / ${result.fixtureId}: ${result.error}`);
+    } else if (result.metrics?.uncoveredChapters.length) {
+      console.log(
+        `[Eval] ${result.promptVersion} / ${result.model} / ${result.fixtureId} misses: ${result.metrics.uncoveredChapters.join("; ")}`,
+      );
+    }
+  }
+
+  const reports = compareVariants(results);
+  console.log(`\n${formatComparison(reports)}`);
+
+  if (values.json) {
+    await writeFile(values.json, `${JSON.stringify({ reports, results }, null, 2)}\n`);
+    console.log(`\nWrote ${values.json}`);
+  }
+
+  if (results.some(result => result.error)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
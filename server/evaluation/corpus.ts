@@ -0,0 +1,40 @@
+/**
+ * The fixture corpus: one directory per document under `fixtures/`, holding
+ * the document text (`document.txt`) and a hand-written reference summary
+ * (`reference.json`, in the shape the summary prompt asks for).
+ */
+
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import type { StructuredSummary } from "../progressiveSummary";
+
+export type EvaluationFixture = {
+  id: string;
+  bookTitle: string;
+  bookAuthor: string;
+  documentText: string;
+  reference: StructuredSummary;
+};
+
+export const DEFAULT_FIXTURES_DIR = join(import.meta.dirname, "fixtures");
+
+export async function loadCorpus(dir = DEFAULT_FIXTURES_DIR, ids?: string[]): Promise<EvaluationFixture[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const available = entries
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+
+  const unknown = (ids ?? []).filter(id => !available.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown fixture(s): ${unknown.join(", ")}. Available: ${available.join(", ")}`);
+  }
+
+  const fixtures: EvaluationFixture[] = [];
+  for (const id of ids?.length ? ids : available) {
+    const documentText = await readFile(join(dir, id, "document.txt"), "utf8");
+    const reference: StructuredSummary = JSON.parse(await readFile(join(dir, id, "reference.json"), "utf8"));
+    fixtures.push({ id, bookTitle: reference.bookTitle, bookAuthor: reference.bookAuthor, documentText, reference });
+  }
+  return fixtures;
+}
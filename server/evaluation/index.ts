@@ -0,0 +1,170 @@
+/**
+ * Offline evaluation of summary generation.
+ *
+ * Each variant (a prompt version and a model) summarizes every fixture in the
+ * corpus through the same validation and sanitizing steps as production, and
+ * the results are scored with `measureSummary`. Models are the mock baseline
+ * or recorded responses (see models.ts), so a run needs no provider. Run it
+ * with `pnpm eval`; see cli.ts for the options.
+ */
+
+import { sanitizeStructuredSummary } from "../progressiveSummary";
+import { BUILT_IN_PROMPT_TEMPLATES, renderSummaryPrompt, type SummaryTargets } from "../shortformPrompt";
+import { validateModelSummary } from "../summarySchema";
+import type { EvaluationFixture } from "./corpus";
+import { measureSummary, type SummaryMetrics } from "./metrics";
+import { createEvaluationModel, type EvaluationModel } from "./models";
+
+export { DEFAULT_FIXTURES_DIR, loadCorpus, type EvaluationFixture } from "./corpus";
+export { measureSummary, type SummaryMetrics } from "./metrics";
+export { createEvaluationModel, createRecordedModel, MOCK_MODEL, type EvaluationModel } from "./models";
+
+export type PromptBuilder = (documentText: string, bookTitle: string, bookAuthor: string) => string;
+
+export type EvaluatedPrompt = {
+  build: PromptBuilder;
+  /** The targets the prompt asks for, which `targetScore` is measured against. */
+  targets: SummaryTargets;
+};
+
+/**
+ * Prompt versions that can be evaluated, by the identifier recorded on
+ * summary versions: the built-in template of each summary style.
+ */
+export const PROMPT_VERSIONS: Record<string, EvaluatedPrompt> = Object.fromEntries(
+  BUILT_IN_PROMPT_TEMPLATES.map(template => [
+    template.id,
+    {
+      build: (documentText, bookTitle, bookAuthor) =>
+        renderSummaryPrompt(template.body, template.variables, { documentText, bookTitle, bookAuthor }),
+      targets: template.variables.targets,
+    },
+  ]),
+);
+
+export type EvaluationVariant = { promptVersion: string; model: string };
+
+export type EvaluationResult = EvaluationVariant & {
+  fixtureId: string;
+  metrics: SummaryMetrics | null;
+  error?: string;
+};
+
+/** Numeric metrics averaged across fixtures when variants are compared. */
+const AVERAGED_METRICS = [
+  "wordCount",
+  "chapterCoverage",
+  "notesPerSubsection",
+  "notesPer1000Words",
+  "sourceCount",
+  "readability",
+  "redundancy",
+  "referenceRecall",
+  "targetScore",
+] as const;
+
+export type AveragedMetric = (typeof AVERAGED_METRICS)[number];
+
+export type VariantReport = EvaluationVariant & {
+  fixtures: number;
+  failures: number;
+  /** Means over the fixtures the variant summarized; null when it summarized none. */
+  averages: Record<AveragedMetric, number | null>;
+};
+
+export async function runEvaluation(options: {
+  fixtures: EvaluationFixture[];
+  variants: EvaluationVariant[];
+  model?: EvaluationModel;
+}): Promise<EvaluationResult[]> {
+  const model = options.model ?? createEvaluationModel();
+  const unknown = options.variants.filter(variant => !PROMPT_VERSIONS[variant.promptVersion]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown prompt version(s): ${unknown.map(variant => variant.promptVersion).join(", ")}. ` +
+        `Available: ${Object.keys(PROMPT_VERSIONS).join(", ")}`,
+    );
+  }
+
+  const results: EvaluationResult[] = [];
+  for (const variant of options.variants) {
+    for (const fixture of options.fixtures) {
+      const { build, targets } = PROMPT_VERSIONS[variant.promptVersion];
+      const prompt = build(fixture.documentText, fixture.bookTitle, fixture.bookAuthor);
+      try {
+        const raw = await model({
+          ...variant,
+          fixtureId: fixture.id,
+          prompt,
+          documentText: fixture.documentText,
+          bookTitle: fixture.bookTitle,
+          bookAuthor: fixture.bookAuthor,
+        });
+        const validation = validateModelSummary(raw);
+        if (!validation.success) {
+          throw new Error(`The model returned an invalid summary: ${validation.issues[0]}`);
+        }
+
+        const summary = sanitizeStructuredSummary(validation.data, {
+          fallbackTitle: fixture.bookTitle,
+          fallbackAuthor: fixture.bookAuthor,
+          targets,
+        });
+        const metrics = measureSummary(summary, fixture.documentText, fixture.reference, targets);
+        results.push({ ...variant, fixtureId: fixture.id, metrics });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        results.push({ ...variant, fixtureId: fixture.id, metrics: null, error: message });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Average each variant's metrics over the fixtures, in the order the
+ * variants were first run.
+ */
+export function compareVariants(results: EvaluationResult[]): VariantReport[] {
+  const byVariant = new Map<string, EvaluationResult[]>();
+  for (const result of results) {
+    const key = `${result.promptVersion}\u0000${result.model}`;
+    byVariant.set(key, [...(byVariant.get(key) ?? []), result]);
+  }
+
+  return Array.from(byVariant.values()).map(variantResults => {
+    const measured = variantResults
+      .map(result => result.metrics)
+      .filter((metrics): metrics is SummaryMetrics => metrics !== null);
+    const averages = {} as Record<AveragedMetric, number | null>;
+    for (const metric of AVERAGED_METRICS) {
+      const values = measured.map(metrics => metrics[metric]).filter((value): value is number => value !== null);
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      averages[metric] = values.length ? Math.round(mean * 100) / 100 : null;
+    }
+
+    const [{ promptVersion, model }] = variantResults;
+    return {
+      promptVersion,
+      model,
+      fixtures: variantResults.length,
+      failures: variantResults.length - measured.length,
+      averages,
+    };
+  });
+}
+
+/**
+ * Plain-text table of variant reports, one row per variant.
+ */
+export function formatComparison(reports: VariantReport[]): string {
+  const header = ["prompt", "model", "ok", ...AVERAGED_METRICS];
+  const rows = reports.map(report => [
+    report.promptVersion,
+    report.model,
+    `${report.fixtures - report.failures}/${report.fixtures}`,
+    ...AVERAGED_METRICS.map(metric => (report.averages[metric] === null ? "-" : String(report.averages[metric]))),
+  ]);
+  const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map(row => row[column].length)));
+  return [header, ...rows].map(row => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()).join("\n");
+}
@@ -0,0 +1,188 @@
+/**
+ * Metrics for judging a generated summary against its source document and,
+ * when one exists, a reference summary written by hand.
+ */
+
+import { detectChapterBoundaries } from "../chapterChunker";
+import { stem } from "../citationGrounding";
+import { extractTerms } from "../documentOutline";
+import type { SanitizedSummary, StructuredSummary } from "../progressiveSummary";
+import { evaluateSummary } from "../qualityGate";
+import type { SummaryTargets } from "../shortformPrompt";
+
+/** A chapter counts as covered when the summary uses this share of its most frequent terms. */
+const COVERAGE_THRESHOLD = 0.35;
+const CHAPTER_KEY_TERMS = 12;
+/** Sentences sharing this much of their vocabulary with an earlier one count as repeats. */
+const REPEAT_SIMILARITY = 0.6;
+const MIN_REPEAT_TERMS = 5;
+
+export type SummaryMetrics = {
+  wordCount: number;
+  /** Share of the source's chapters the summary reflects, from 0 to 1. */
+  chapterCoverage: number;
+  uncoveredChapters: string[];
+  notesPerSubsection: number;
+  notesPer1000Words: number;
+  sourceCount: number;
+  /** Flesch reading ease: higher is easier, 60-70 is plain English. */
+  readability: number;
+  /** Share of sentences that restate an earlier sentence, from 0 to 1. */
+  redundancy: number;
+  /** Share of the reference summary's vocabulary the summary also uses; null without a reference. */
+  referenceRecall: number | null;
+  /** The quality gate's score against the prompt's length and structure targets. */
+  targetScore: number;
+};
+
+export type SourceChapter = { title: string; text: string };
+
+/** The prose of a generated or reference summary. */
+type SummaryText = {
+  introduction: string;
+  onePageSummary: string;
+  sections: Array<{ subsections: Array<{ content: string; jotsNotes: Array<{ content: string }> }> }>;
+};
+
+export function measureSummary(
+  summary: SanitizedSummary,
+  documentText: string,
+  reference?: StructuredSummary,
+  targets?: SummaryTargets,
+): SummaryMetrics {
+  const passages = summaryPassages(summary);
+  const prose = passages.join("\n\n");
+  const wordCount = countWords(prose);
+  const subsections = summary.sections.flatMap(section => section.subsections);
+  const notes = subsections.reduce((total, subsection) => total + subsection.jotsNotes.length, 0);
+  const coverage = measureChapterCoverage(prose, documentText);
+
+  return {
+    wordCount,
+    chapterCoverage: coverage.coverage,
+    uncoveredChapters: coverage.uncovered,
+    notesPerSubsection: round(subsections.length ? notes / subsections.length : 0),
+    notesPer1000Words: round(wordCount ? (notes * 1000) / wordCount : 0),
+    sourceCount: summary.researchSources.length,
+    readability: round(fleschReadingEase(prose)),
+    redundancy: measureRedundancy(passages.flatMap(splitSentences)),
+    referenceRecall: reference ? measureReferenceRecall(prose, summaryPassages(reference).join("\n\n")) : null,
+    targetScore: evaluateSummary(summary, targets).score,
+  };
+}
+
+/**
+ * The document's chapters, split at detected headings. A document without
+ * headings is one chapter.
+ */
+export function splitSourceChapters(documentText: string): SourceChapter[] {
+  const boundaries = detectChapterBoundaries(documentText);
+  if (boundaries.length === 0) {
+    return [{ title: "Whole document", text: documentText }];
+  }
+
+  return boundaries.map((boundary, index) => ({
+    title: boundary.title,
+    text: documentText.slice(boundary.offset, boundaries[index + 1]?.offset ?? documentText.length),
+  }));
+}
+
+export function measureChapterCoverage(summaryText: string, documentText: string): { coverage: number; uncovered: string[] } {
+  const summaryTerms = new Set(extractTerms(summaryText).map(stem));
+  const chapters = splitSourceChapters(documentText);
+  const uncovered = chapters
+    .filter(chapter => {
+      const keyTerms = topTerms(chapter.text, CHAPTER_KEY_TERMS);
+      const used = keyTerms.filter(term => summaryTerms.has(term)).length;
+      return keyTerms.length > 0 && used / keyTerms.length < COVERAGE_THRESHOLD;
+    })
+    .map(chapter => chapter.title);
+
+  return { coverage: round((chapters.length - uncovered.length) / chapters.length), uncovered };
+}
+
+export function fleschReadingEase(text: string): number {
+  const words = text.match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) ?? [];
+  const sentences = Math.max(1, splitSentences(text).length);
+  if (words.length === 0) {
+    return 0;
+  }
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  return 206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length);
+}
+
+export function measureRedundancy(sentences: string[]): number {
+  const seen: Array<Set<string>> = [];
+  let repeats = 0;
+  let counted = 0;
+
+  for (const sentence of sentences) {
+    const terms = new Set(extractTerms(sentence).map(stem));
+    if (terms.size < MIN_REPEAT_TERMS) continue;
+    counted++;
+    if (seen.some(earlier => jaccard(earlier, terms) >= REPEAT_SIMILARITY)) repeats++;
+    seen.push(terms);
+  }
+
+  return counted ? round(repeats / counted) : 0;
+}
+
+function measureReferenceRecall(summaryText: string, referenceText: string): number {
+  const summaryTerms = new Set(extractTerms(summaryText).map(stem));
+  const referenceTerms = Array.from(new Set(extractTerms(referenceText).map(stem)));
+  if (referenceTerms.length === 0) {
+    return 0;
+  }
+  return round(referenceTerms.filter(term => summaryTerms.has(term)).length / referenceTerms.length);
+}
+
+function summaryPassages(summary: SummaryText): string[] {
+  return [
+    summary.introduction,
+    summary.onePageSummary,
+    ...summary.sections.flatMap(section =>
+      section.subsections.flatMap(subsection => [subsection.content, ...subsection.jotsNotes.map(note => note.content)]),
+    ),
+  ].filter(passage => passage.trim().length > 0);
+}
+
+function topTerms(text: string, count: number): string[] {
+  const frequency = new Map<string, number>();
+  for (const term of extractTerms(text).map(stem)) {
+    frequency.set(term, (frequency.get(term) ?? 0) + 1);
+  }
+  // Map order is first appearance, so ties go to the earlier term.
+  return Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term]) => term);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n{2,}/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function countSyllables(word: string): number {
+  const groups = word.toLowerCase().replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  b.forEach(term => {
+    if (a.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function countWords(value: string): number {
+  return value.split(/\s+/).filter(Boolean).length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,159 @@
+/**
+ * Models the evaluation runner can summarize with, none of which need a
+ * network connection once set up:
+ *
+ * - `mock`: an extractive baseline built from the document itself.
+ * - Any other model name replays a response recorded earlier from the real
+ *   model (see `createRecordedModel`). Recording is the only step that calls
+ *   a provider.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { invokeLLMWithModel } from "../_core/llmRouter";
+import { summaryOutputSchema, type ModelSummary } from "../summarySchema";
+import { splitSourceChapters } from "./metrics";
+
+export const MOCK_MODEL = "mock";
+
+export type ModelRequest = {
+  fixtureId: string;
+  promptVersion: string;
+  model: string;
+  prompt: string;
+  documentText: string;
+  bookTitle: string;
+  bookAuthor: string;
+};
+
+/** Returns the model's raw reply to `request.prompt`. */
+export type EvaluationModel = (request: ModelRequest) => Promise<string>;
+
+export type Recording = {
+  fixtureId: string;
+  promptVersion: string;
+  model: string;
+  /** Hash of the prompt the response answers; a different prompt makes the recording stale. */
+  promptHash: string;
+  recordedAt: string;
+  response: string;
+};
+
+export const DEFAULT_RECORDINGS_DIR = join(import.meta.dirname, "recordings");
+
+/**
+ * Replay recorded responses from `dir`. With `record` set, the real model is
+ * called instead (through `invoke`, the configured provider by default) and
+ * its response saved for later runs.
+ */
+export function createRecordedModel(
+  options: { dir?: string; record?: boolean; invoke?: (prompt: string, model: string) => Promise<string> } = {},
+): EvaluationModel {
+  const dir = options.dir ?? DEFAULT_RECORDINGS_DIR;
+  const invoke = options.invoke ?? invokeProvider;
+
+  return async request => {
+    const path = recordingPath(dir, request);
+    const promptHash = hashPrompt(request.prompt);
+
+    if (options.record) {
+      const response = await invoke(request.prompt, request.model);
+      const recording: Recording = {
+        fixtureId: request.fixtureId,
+        promptVersion: request.promptVersion,
+        model: request.model,
+        promptHash,
+        recordedAt: new Date().toISOString(),
+        response,
+      };
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(recording, null, 2)}\n`);
+      return response;
+    }
+
+    let recording: Recording;
+    try {
+      recording = JSON.parse(await readFile(path, "utf8"));
+    } catch {
+      throw new Error(
+        `No recording of ${request.model} with prompt ${request.promptVersion} on "${request.fixtureId}"; run with --record to capture one`,
+      );
+    }
+    if (recording.promptHash !== promptHash) {
+      throw new Error(
+        `The recording of ${request.model} on "${request.fixtureId}" was made from a different ${request.promptVersion} prompt; record it again`,
+      );
+    }
+    return recording.response;
+  };
+}
+
+/**
+ * Route `mock` to the extractive baseline and everything else to `recorded`.
+ */
+export function createEvaluationModel(recorded: EvaluationModel = createRecordedModel()): EvaluationModel {
+  return request => (request.model === MOCK_MODEL ? mockModel(request) : recorded(request));
+}
+
+/**
+ * An extractive baseline: one section per chapter, its paragraphs as
+ * subsections and their opening sentences as the overview. It ignores the
+ * prompt, so it measures the harness and the metrics rather than a prompt.
+ */
+export async function mockModel(request: ModelRequest): Promise<string> {
+  const chapters = splitSourceChapters(request.documentText);
+  const sections = chapters.map(chapter => {
+    const paragraphs = chapter.text
+      .split(/\n{2,}/)
+      .slice(1)
+      .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+      .filter(paragraph => paragraph.length > 0);
+    return {
+      title: chapter.title.replace(/^chapter\s+\w+:\s*/i, "") || chapter.title,
+      subsections: paragraphs.slice(0, 3).map(paragraph => ({
+        title: paragraph.split(" ").slice(0, 6).join(" ").replace(/[.,;:]$/, ""),
+        content: paragraph,
+        jotsNotes: [
+          {
+            type: "jonathans_jots_note" as const,
+            noteType: "Context" as const,
+            content: `The author's point here: ${firstSentence(paragraph)}`,
+            sources: [],
+          },
+        ],
+      })),
+    };
+  });
+  const withContent = sections.filter(section => section.subsections.length > 0);
+  const openings = withContent.flatMap(section => section.subsections.map(subsection => firstSentence(subsection.content)));
+
+  const summary: ModelSummary = {
+    bookTitle: request.bookTitle,
+    bookAuthor: request.bookAuthor,
+    introduction: `${request.bookTitle} by ${request.bookAuthor}. ${openings.slice(0, 2).join(" ")}`,
+    onePageSummary: openings.join(" ") || request.documentText.slice(0, 2000),
+    sections: withContent,
+    researchSources: [],
+  };
+  return JSON.stringify(summary);
+}
+
+async function invokeProvider(prompt: string, model: string): Promise<string> {
+  const response = await invokeLLMWithModel({ messages: [{ role: "user", content: prompt }], outputSchema: summaryOutputSchema }, model);
+  const content = response.choices[0]?.message?.content;
+  return typeof content === "string" ? content : JSON.stringify(content ?? "");
+}
+
+function recordingPath(dir: string, request: ModelRequest): string {
+  const safe = (value: string) => value.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return join(dir, safe(request.promptVersion), safe(request.model), `${safe(request.fixtureId)}.json`);
+}
+
+function hashPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+function firstSentence(text: string): string {
+  return text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? text;
+}
@@ -0,0 +1,93 @@
+import type { Express, Request, Response } from "express";
+import { sdk } from "./_core/sdk";
+import { toComparisonDetails } from "./comparisons";
+import { getComparison, getSummary } from "./db";
+import {
+  COMPARISON_EXPORT_FORMATS,
+  EXPORT_FORMATS,
+  exportComparison,
+  exportSummary,
+  isComparisonExportFormat,
+  isExportFormat,
+  type ExportedFile,
+} from "./exporters";
+
+/**
+ * Plain HTTP download for summary and comparison exports, so large
+ * EPUB/DOCX/PDF files are streamed as binary instead of travelling through
+ * tRPC as base64.
+ */
+export function registerExportRoutes(app: Express) {
+  app.get("/api/summaries/:summaryId/export/:format", async (req: Request, res: Response) => {
+    const { summaryId, format } = req.params;
+
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: `Unsupported export format. Use one of: ${EXPORT_FORMATS.join(", ")}` });
+      return;
+    }
+
+    const userId = await resolveUserId(req);
+
+    try {
+      const summary = await getSummary(summaryId);
+      if (!summary || summary.userId !== userId) {
+        res.status(404).json({ error: "Summary not found" });
+        return;
+      }
+
+      sendFile(res, exportSummary(summary, format));
+    } catch (error) {
+      console.error("[Export] Failed to export summary", error);
+      res.status(500).json({ error: "Export failed" });
+    }
+  });
+
+  app.get("/api/comparisons/:comparisonId/export/:format", async (req: Request, res: Response) => {
+    const { comparisonId, format } = req.params;
+
+    if (!isComparisonExportFormat(format)) {
+      res.status(400).json({ error: `Unsupported export format. Use one of: ${COMPARISON_EXPORT_FORMATS.join(", ")}` });
+      return;
+    }
+
+    const userId = await resolveUserId(req);
+
+    try {
+      const comparison = await getComparison(comparisonId);
+      if (!comparison || comparison.userId !== userId) {
+        res.status(404).json({ error: "Comparison not found" });
+        return;
+      }
+
+      const { title, report } = toComparisonDetails(comparison);
+      if (comparison.status !== "completed" || !report) {
+        res.status(409).json({ error: "Comparison is not ready yet" });
+        return;
+      }
+
+      sendFile(res, exportComparison(title, report, format));
+    } catch (error) {
+      console.error("[Export] Failed to export comparison", error);
+      res.status(500).json({ error: "Export failed" });
+    }
+  });
+}
+
+async function resolveUserId(req: Request): Promise<string> {
+  try {
+    return (await sdk.authenticateRequest(req))?.id || "anonymous";
+  } catch {
+    // Same as tRPC's public procedures: unauthenticated requests act as "anonymous".
+    return "anonymous";
+  }
+}
+
+function sendFile(res: Response, file: ExportedFile): void {
+  res.setHeader("Content-Type", file.mimeType);
+  res.setHeader("Content-Length", file.data.length);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${file.filename.replace(/[^\x20-\x7E]/g, "_").replace(/"/g, "'")}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+  );
+  res.send(file.data);
+}
@@ -0,0 +1,152 @@
+import type { SummaryData } from "../pdfExport";
+import { createZip } from "../zip";
+import { escapeXml, splitParagraphs } from "./xml";
+
+const COGNAC = "D4772E";
+const DARK_BLUE = "2E4057";
+const NOTE_BACKGROUND = "F1F1F1";
+
+const WORD_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+/**
+ * Office Open XML document. Headings use Word's built-in heading styles so
+ * the navigation pane and generated tables of contents work, and Jots notes
+ * use a shaded, bordered "Jots Note" paragraph style that can be restyled in
+ * one place.
+ */
+export function generateSummaryDocx(summary: SummaryData): Buffer {
+  const title = summary.bookTitle || "Untitled";
+  const author = summary.bookAuthor || "Unknown Author";
+  const body: string[] = [paragraph("Title", title)];
+
+  if (summary.bookAuthor) {
+    body.push(paragraph("Subtitle", `by ${summary.bookAuthor}`));
+  }
+  if (summary.onePageSummary) {
+    body.push(paragraph("Heading1", "1-Page Summary"), ...bodyParagraphs(summary.onePageSummary));
+  }
+  if (summary.introduction) {
+    body.push(paragraph("Heading1", "Introduction"), ...bodyParagraphs(summary.introduction));
+  }
+
+  for (const section of summary.sections) {
+    body.push(paragraph("Heading1", section.title));
+    for (const subsection of section.subsections) {
+      if (subsection.title) {
+        body.push(paragraph("Heading2", subsection.title));
+      }
+      body.push(...bodyParagraphs(subsection.content));
+      for (const note of subsection.jotsNotes) {
+        body.push(...noteParagraphs(note.type, note.content));
+      }
+    }
+  }
+
+  if (summary.researchSources.length > 0) {
+    body.push(paragraph("Heading1", "Research Sources"));
+    for (const source of summary.researchSources) {
+      const credentials = source.authorCredentials ? ` (${source.authorCredentials})` : "";
+      body.push(
+        `<w:p><w:pPr><w:pStyle w:val="ListParagraph"/></w:pPr>${run(source.title, { bold: true })}${run(
+          ` by ${source.author}${credentials}: ${source.relevance}`,
+        )}</w:p>`,
+      );
+    }
+  }
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORD_NAMESPACE}">
+<w:body>
+${body.join("\n")}
+<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>
+`;
+
+  return createZip([
+    { path: "[Content_Types].xml", data: CONTENT_TYPES },
+    { path: "_rels/.rels", data: PACKAGE_RELATIONSHIPS },
+    { path: "docProps/core.xml", data: buildCoreProperties(title, author) },
+    { path: "word/_rels/document.xml.rels", data: DOCUMENT_RELATIONSHIPS },
+    { path: "word/styles.xml", data: STYLES },
+    { path: "word/document.xml", data: document },
+  ]);
+}
+
+function paragraph(style: string, text: string): string {
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr>${run(text)}</w:p>`;
+}
+
+function bodyParagraphs(text: string): string[] {
+  return splitParagraphs(text).map(value => `<w:p>${run(value)}</w:p>`);
+}
+
+function noteParagraphs(type: string, content: string): string[] {
+  const label = `Jonathan's Jots${type ? `: ${type.charAt(0).toUpperCase()}${type.slice(1)}` : ""}`;
+  const paragraphs = splitParagraphs(content);
+  return [
+    `<w:p><w:pPr><w:pStyle w:val="JotsNote"/></w:pPr>${run(label, { bold: true, color: COGNAC })}</w:p>`,
+    ...paragraphs.map(value => `<w:p><w:pPr><w:pStyle w:val="JotsNote"/></w:pPr>${run(value)}</w:p>`),
+  ];
+}
+
+function run(text: string, format: { bold?: boolean; color?: string } = {}): string {
+  const properties = [format.bold ? "<w:b/>" : "", format.color ? `<w:color w:val="${format.color}"/>` : ""].join("");
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function buildCoreProperties(title: string, author: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(`${title} — Jonathan's Jots Summary`)}</dc:title>
+  <dc:creator>${escapeXml(author)}</dc:creator>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>
+</cp:coreProperties>
+`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+const headingStyle = (id: string, name: string, size: number, color: string, level: number) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/>${level >= 0 ? `<w:outlineLvl w:val="${level}"/>` : ""}</w:pPr>` +
+  `<w:rPr><w:rFonts w:ascii="Helvetica" w:hAnsi="Helvetica"/><w:b/><w:color w:val="${color}"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${WORD_NAMESPACE}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia"/><w:sz w:val="22"/><w:color w:val="333333"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  ${headingStyle("Title", "Title", 48, COGNAC, -1)}
+  <w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:i/><w:sz w:val="26"/></w:rPr></w:style>
+  ${headingStyle("Heading1", "heading 1", 32, DARK_BLUE, 0)}
+  ${headingStyle("Heading2", "heading 2", 26, DARK_BLUE, 1)}
+  <w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="JotsNote"><w:name w:val="Jots Note"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="${COGNAC}"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="${NOTE_BACKGROUND}"/><w:spacing w:after="0"/><w:ind w:left="284" w:right="284"/></w:pPr>
+  </w:style>
+</w:styles>
+`;
@@ -0,0 +1,166 @@
+import { randomUUID } from "crypto";
+import type { SummaryData } from "../pdfExport";
+import { createZip, type ZipEntry } from "../zip";
+import { escapeXml, splitParagraphs } from "./xml";
+
+type Chapter = {
+  id: string;
+  title: string;
+  body: string;
+};
+
+const STYLESHEET = `body { font-family: Georgia, serif; line-height: 1.5; }
+h1, h2, h3 { font-family: Helvetica, Arial, sans-serif; color: #2E4057; }
+h1 { color: #D4772E; }
+.byline { font-style: italic; }
+.jots-note { margin: 1em 0; padding: 0.6em 0.9em; border-left: 4px solid #D4772E; background: #F1F1F1; }
+.jots-note-label { margin: 0 0 0.3em; font-weight: bold; font-size: 0.85em; color: #D4772E; text-transform: uppercase; }
+.jots-note p { margin: 0.3em 0; }
+`;
+
+/**
+ * EPUB 3 package: a front-matter chapter (1-page summary and introduction),
+ * one chapter per section, and the research sources, with a navigation
+ * document so e-readers show a table of contents.
+ */
+export function generateSummaryEpub(summary: SummaryData): Buffer {
+  const title = summary.bookTitle || "Untitled";
+  const author = summary.bookAuthor || "Unknown Author";
+  const chapters = buildChapters(summary);
+
+  const entries: ZipEntry[] = [
+    { path: "mimetype", data: "application/epub+zip", store: true },
+    { path: "META-INF/container.xml", data: CONTAINER_XML },
+    { path: "OEBPS/content.opf", data: buildPackageDocument(title, author, chapters) },
+    { path: "OEBPS/nav.xhtml", data: buildNavDocument(title, chapters) },
+    { path: "OEBPS/styles.css", data: STYLESHEET },
+    ...chapters.map(chapter => ({
+      path: `OEBPS/${chapter.id}.xhtml`,
+      data: xhtmlPage(chapter.title, chapter.body),
+    })),
+  ];
+
+  return createZip(entries);
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+function buildChapters(summary: SummaryData): Chapter[] {
+  const title = summary.bookTitle || "Untitled";
+  const chapters: Chapter[] = [];
+
+  const front = [`<h1>${escapeXml(title)}</h1>`];
+  if (summary.bookAuthor) {
+    front.push(`<p class="byline">by ${escapeXml(summary.bookAuthor)}</p>`);
+  }
+  if (summary.onePageSummary) {
+    front.push("<h2>1-Page Summary</h2>", paragraphs(summary.onePageSummary));
+  }
+  if (summary.introduction) {
+    front.push("<h2>Introduction</h2>", paragraphs(summary.introduction));
+  }
+  chapters.push({ id: "front", title, body: front.join("\n") });
+
+  summary.sections.forEach((section, index) => {
+    const body = [`<h2>${escapeXml(section.title)}</h2>`];
+    for (const subsection of section.subsections) {
+      if (subsection.title) {
+        body.push(`<h3>${escapeXml(subsection.title)}</h3>`);
+      }
+      body.push(paragraphs(subsection.content));
+      for (const note of subsection.jotsNotes) {
+        body.push(
+          `<div class="jots-note jots-note-${escapeXml(note.type.toLowerCase())}">`,
+          `<p class="jots-note-label">Jonathan's Jots${note.type ? `: ${escapeXml(note.type)}` : ""}</p>`,
+          paragraphs(note.content),
+          "</div>",
+        );
+      }
+    }
+    chapters.push({ id: `section-${index + 1}`, title: section.title || `Section ${index + 1}`, body: body.join("\n") });
+  });
+
+  if (summary.researchSources.length > 0) {
+    const items = summary.researchSources.map(source => {
+      const credentials = source.authorCredentials ? ` (${escapeXml(source.authorCredentials)})` : "";
+      return `<li><strong>${escapeXml(source.title)}</strong> by ${escapeXml(source.author)}${credentials}: ${escapeXml(source.relevance)}</li>`;
+    });
+    chapters.push({
+      id: "sources",
+      title: "Research Sources",
+      body: ["<h2>Research Sources</h2>", "<ul>", ...items, "</ul>"].join("\n"),
+    });
+  }
+
+  return chapters;
+}
+
+function buildPackageDocument(title: string, author: string, chapters: Chapter[]): string {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  const manifest = chapters
+    .map(chapter => `    <item id="${chapter.id}" href="${chapter.id}.xhtml" media-type="application/xhtml+xml"/>`)
+    .join("\n");
+  const spine = chapters.map(chapter => `    <itemref idref="${chapter.id}"/>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(`${title} — Jonathan's Jots Summary`)}</dc:title>
+    <dc:creator>${escapeXml(author)}</dc:creator>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="styles" href="styles.css" media-type="text/css"/>
+${manifest}
+  </manifest>
+  <spine>
+${spine}
+  </spine>
+</package>
+`;
+}
+
+function buildNavDocument(title: string, chapters: Chapter[]): string {
+  const items = chapters
+    .map(chapter => `      <li><a href="${chapter.id}.xhtml">${escapeXml(chapter.title)}</a></li>`)
+    .join("\n");
+  return xhtmlPage(
+    title,
+    `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${items}
+  </ol>
+</nav>`,
+  );
+}
+
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function paragraphs(text: string): string {
+  return splitParagraphs(text)
+    .map(paragraph => `<p>${escapeXml(paragraph)}</p>`)
+    .join("\n");
+}
@@ -0,0 +1,218 @@
+/**
+ * Export formats for finished summaries. Every exporter takes the same
+ * `SummaryData` (the sanitized summary used by the PDF export) and returns
+ * the file contents; `exportSummary` resolves a stored summary into that
+ * shape first. Comparison reports have exporters of their own, in a subset
+ * of the formats.
+ */
+
+import type { ComparisonReport } from "../comparisons";
+import type { Summary } from "../db";
+import { generateComparisonPDF, generateSummaryPDF, type SummaryData } from "../pdfExport";
+import { generateSummaryDocx } from "./docx";
+import { generateSummaryEpub } from "./epub";
+import { generateComparisonMarkdown, generateSummaryMarkdown } from "./markdown";
+
+export const EXPORT_FORMATS = ["pdf", "markdown", "epub", "docx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type SummaryExporter = {
+  label: string;
+  extension: string;
+  mimeType: string;
+  render: (summary: SummaryData) => Buffer;
+};
+
+export const COMPARISON_EXPORT_FORMATS = ["pdf", "markdown"] as const;
+export type ComparisonExportFormat = (typeof COMPARISON_EXPORT_FORMATS)[number];
+
+export type ComparisonExporter = Omit<SummaryExporter, "render"> & {
+  render: (title: string, report: ComparisonReport) => Buffer;
+};
+
+export type ExportedFile = {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+};
+
+const exporters: Record<ExportFormat, SummaryExporter> = {
+  pdf: {
+    label: "PDF",
+    extension: "pdf",
+    mimeType: "application/pdf",
+    render: summary => Buffer.from(generateSummaryPDF(summary).output("arraybuffer")),
+  },
+  markdown: {
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown; charset=utf-8",
+    render: summary => Buffer.from(generateSummaryMarkdown(summary), "utf8"),
+  },
+  epub: {
+    label: "EPUB",
+    extension: "epub",
+    mimeType: "application/epub+zip",
+    render: generateSummaryEpub,
+  },
+  docx: {
+    label: "Word (DOCX)",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    render: generateSummaryDocx,
+  },
+};
+
+const comparisonExporters: Record<ComparisonExportFormat, ComparisonExporter> = {
+  pdf: {
+    ...exporters.pdf,
+    render: (title, report) => Buffer.from(generateComparisonPDF(title, report).output("arraybuffer")),
+  },
+  markdown: {
+    ...exporters.markdown,
+    render: (title, report) => Buffer.from(generateComparisonMarkdown(title, report), "utf8"),
+  },
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getExporter(format: ExportFormat): SummaryExporter {
+  return exporters[format];
+}
+
+export function exportSummary(summary: Summary, format: ExportFormat): ExportedFile {
+  const exporter = getExporter(format);
+  return {
+    filename: `${toFilename(summary.bookTitle)}.${exporter.extension}`,
+    mimeType: exporter.mimeType,
+    data: exporter.render(buildSummaryData(summary)),
+  };
+}
+
+export function isComparisonExportFormat(value: string): value is ComparisonExportFormat {
+  return (COMPARISON_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getComparisonExporter(format: ComparisonExportFormat): ComparisonExporter {
+  return comparisonExporters[format];
+}
+
+export function exportComparison(title: string, report: ComparisonReport, format: ComparisonExportFormat): ExportedFile {
+  const exporter = getComparisonExporter(format);
+  return {
+    filename: `${toFilename(title)}.${exporter.extension}`,
+    mimeType: exporter.mimeType,
+    data: exporter.render(title, report),
+  };
+}
+
+export function buildSummaryData(summary: Summary): SummaryData {
+  const content = deserializeSummaryContent(summary.mainContent);
+  return {
+    bookTitle: summary.bookTitle,
+    bookAuthor: summary.bookAuthor,
+    introduction: summary.introduction || "",
+    onePageSummary: summary.onePageSummary || "",
+    sections: content.sections,
+    researchSources: content.researchSources,
+  };
+}
+
+function toFilename(bookTitle: string | null): string {
+  const cleaned = (bookTitle || "summary").replace(/[\\/:*?"<>|\u0000-\u001F]+/g, " ").replace(/\s+/g, " ").trim();
+  return cleaned.slice(0, 120) || "summary";
+}
+
+type SummaryContent = Pick<SummaryData, "sections" | "researchSources">;
+
+function coerceNotes(value: unknown): SummaryData["sections"][number]["subsections"][number]["jotsNotes"] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(note => note && typeof note === "object")
+    .map(note => {
+      const candidate = note as Record<string, unknown>;
+      return {
+        type: typeof candidate.type === "string" ? candidate.type : "note",
+        content: typeof candidate.content === "string" ? candidate.content : "",
+      };
+    })
+    .filter(note => note.content.length > 0);
+}
+
+function coerceSubsections(value: unknown): SummaryData["sections"][number]["subsections"] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(subsection => subsection && typeof subsection === "object")
+    .map(subsection => {
+      const candidate = subsection as Record<string, unknown>;
+      return {
+        title: typeof candidate.title === "string" ? candidate.title : "",
+        content: typeof candidate.content === "string" ? candidate.content : "",
+        jotsNotes: coerceNotes(candidate.jotsNotes),
+      };
+    })
+    .filter(subsection => subsection.content.length > 0 || subsection.title.length > 0);
+}
+
+function coerceSections(value: unknown): SummaryData["sections"] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(section => section && typeof section === "object")
+    .map(section => {
+      const candidate = section as Record<string, unknown>;
+      return {
+        title: typeof candidate.title === "string" ? candidate.title : "",
+        subsections: coerceSubsections(candidate.subsections),
+      };
+    })
+    .filter(section => section.title.length > 0 || section.subsections.length > 0);
+}
+
+function coerceResearchSources(value: unknown): SummaryData["researchSources"] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(source => source && typeof source === "object")
+    .map(source => {
+      const candidate = source as Record<string, unknown>;
+      return {
+        title: typeof candidate.title === "string" ? candidate.title : "Reference",
+        author: typeof candidate.author === "string" ? candidate.author : "Unknown Author",
+        authorCredentials:
+          typeof candidate.authorCredentials === "string" ? candidate.authorCredentials : "Expert commentary",
+        relevance: typeof candidate.relevance === "string" ? candidate.relevance : "",
+      };
+    })
+    .filter(source => source.relevance.length > 0);
+}
+
+function deserializeSummaryContent(content: string | null): SummaryContent {
+  if (!content) {
+    return { sections: [], researchSources: [] };
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Record<string, unknown>;
+
+    return {
+      sections: coerceSections(parsed.sections),
+      researchSources: coerceResearchSources(parsed.researchSources),
+    };
+  } catch (error) {
+    console.error("Failed to deserialize summary content for export:", error);
+    return { sections: [], researchSources: [] };
+  }
+}
@@ -0,0 +1,150 @@
+import type { ComparisonReport } from "../comparisons";
+import type { SummaryData } from "../pdfExport";
+
+const CALLOUT_TYPES: Record<string, string> = {
+  comparative: "info",
+  context: "abstract",
+  critique: "warning",
+  practical: "tip",
+  expert: "quote",
+};
+
+/**
+ * Markdown suited to Obsidian: YAML front matter, one heading level per
+ * section/subsection, and Jots notes as `> [!type]` callouts (which other
+ * renderers still show as block quotes).
+ */
+export function generateSummaryMarkdown(summary: SummaryData): string {
+  const title = summary.bookTitle || "Untitled";
+  const lines: string[] = [
+    "---",
+    `title: ${yamlString(title)}`,
+    `author: ${yamlString(summary.bookAuthor || "Unknown Author")}`,
+    "tags: [jonathans-jots, book-summary]",
+    "---",
+    "",
+    `# ${title}`,
+    "",
+  ];
+
+  if (summary.bookAuthor) {
+    lines.push(`*by ${summary.bookAuthor}*`, "");
+  }
+
+  if (summary.onePageSummary) {
+    lines.push("## 1-Page Summary", "", summary.onePageSummary.trim(), "");
+  }
+
+  if (summary.introduction) {
+    lines.push("## Introduction", "", summary.introduction.trim(), "");
+  }
+
+  for (const section of summary.sections) {
+    lines.push(`## ${section.title}`, "");
+    for (const subsection of section.subsections) {
+      if (subsection.title) {
+        lines.push(`### ${subsection.title}`, "");
+      }
+      if (subsection.content) {
+        lines.push(subsection.content.trim(), "");
+      }
+      for (const note of subsection.jotsNotes) {
+        lines.push(...renderNote(note.type, note.content), "");
+      }
+    }
+  }
+
+  if (summary.researchSources.length > 0) {
+    lines.push("## Research Sources", "");
+    for (const source of summary.researchSources) {
+      const credentials = source.authorCredentials ? ` (${source.authorCredentials})` : "";
+      lines.push(`- **${source.title}** by ${source.author}${credentials}: ${source.relevance}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * A comparison report in the same Markdown style, its commentary as Jots
+ * note callouts.
+ */
+export function generateComparisonMarkdown(title: string, report: ComparisonReport): string {
+  const bookTitle = (book: number) => report.books[book - 1]?.bookTitle ?? `Book ${book}`;
+  const lines: string[] = [
+    "---",
+    `title: ${yamlString(title)}`,
+    "books:",
+    ...report.books.map(book => `  - ${yamlString(`${book.bookTitle} by ${book.bookAuthor}`)}`),
+    "tags: [jonathans-jots, book-comparison]",
+    "---",
+    "",
+    `# ${title}`,
+    "",
+    ...report.books.map(book => `- *${book.bookTitle}* by ${book.bookAuthor}`),
+    "",
+    "## Overview",
+    "",
+    report.overview,
+    "",
+  ];
+
+  if (report.sharedThemes.length > 0) {
+    lines.push("## Shared Themes", "");
+    for (const theme of report.sharedThemes) {
+      lines.push(`### ${theme.title}`, "");
+      if (theme.books.length > 0) {
+        lines.push(`*Covered by ${theme.books.map(bookTitle).join(", ")}*`, "");
+      }
+      lines.push(theme.analysis, "");
+      for (const note of theme.jotsNotes) {
+        lines.push(...renderNote(note.type, note.content), "");
+      }
+    }
+  }
+
+  if (report.contradictions.length > 0) {
+    lines.push("## Where They Disagree", "");
+    for (const contradiction of report.contradictions) {
+      lines.push(`### ${contradiction.title}`, "", contradiction.analysis, "");
+      for (const position of contradiction.positions) {
+        lines.push(`- **${bookTitle(position.book)}:** ${position.position}`);
+      }
+      if (contradiction.positions.length > 0) {
+        lines.push("");
+      }
+      for (const note of contradiction.jotsNotes) {
+        lines.push(...renderNote(note.type, note.content), "");
+      }
+    }
+  }
+
+  if (report.depth.length > 0) {
+    lines.push("## Who Goes Deeper", "");
+    for (const entry of report.depth) {
+      lines.push(`- **${entry.topic}**: *${bookTitle(entry.deeperBook)}*. ${entry.explanation}`);
+    }
+    lines.push("");
+  }
+
+  if (report.conclusion) {
+    lines.push("## Reading Them Together", "", report.conclusion, "");
+  }
+
+  return lines.join("\n");
+}
+
+function renderNote(type: string, content: string): string[] {
+  const callout = CALLOUT_TYPES[type.toLowerCase()] ?? "note";
+  const label = type ? `Jonathan's Jots: ${capitalize(type)}` : "Jonathan's Jots";
+  return [`> [!${callout}] ${label}`, ...content.trim().split("\n").map(line => (line ? `> ${line}` : ">"))];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
@@ -39,6 +39,8 @@ export async function initializeDatabase() {
         "storageKey" VARCHAR(512) NOT NULL,
         "storageUrl" VARCHAR(1024) NOT NULL,
         "extractedText" TEXT,
+        outline TEXT,
+        language VARCHAR(8),
         status VARCHAR(20) DEFAULT 'uploaded' NOT NULL,
         "errorMessage" TEXT,
         "createdAt" TIMESTAMP DEFAULT NOW(),
@@ -46,6 +48,16 @@ export async function initializeDatabase() {
       )
     `);
 
+    // Chapter outline was added after the documents table first shipped
+    await db.execute(sql`
+      ALTER TABLE documents ADD COLUMN IF NOT EXISTS outline TEXT
+    `);
+
+    // Language detection was added after the documents table first shipped
+    await db.execute(sql`
+      ALTER TABLE documents ADD COLUMN IF NOT EXISTS language VARCHAR(8)
+    `);
+
     // Create summaries table
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS summaries (
@@ -61,11 +73,33 @@ export async function initializeDatabase() {
         "errorMessage" TEXT,
         "researchSourcesCount" INTEGER DEFAULT 0,
         "jotsNotesCount" INTEGER DEFAULT 0,
+        "promptTemplateId" VARCHAR(64),
+        "lengthTargets" TEXT,
+        language VARCHAR(8),
+        "translatedFromId" VARCHAR(64),
         "createdAt" TIMESTAMP DEFAULT NOW(),
         "updatedAt" TIMESTAMP DEFAULT NOW()
       )
     `);
 
+    // Prompt templates were added after the summaries table first shipped
+    await db.execute(sql`
+      ALTER TABLE summaries ADD COLUMN IF NOT EXISTS "promptTemplateId" VARCHAR(64)
+    `);
+
+    // Length presets were added after the summaries table first shipped
+    await db.execute(sql`
+      ALTER TABLE summaries ADD COLUMN IF NOT EXISTS "lengthTargets" TEXT
+    `);
+
+    // Output languages and translations were added after the summaries table first shipped
+    await db.execute(sql`
+      ALTER TABLE summaries ADD COLUMN IF NOT EXISTS language VARCHAR(8)
+    `);
+    await db.execute(sql`
+      ALTER TABLE summaries ADD COLUMN IF NOT EXISTS "translatedFromId" VARCHAR(64)
+    `);
+
     // Create researchSources table
     await db.execute(sql`
       CREATE TABLE IF NOT EXISTS "researchSources" (
@@ -75,9 +109,269 @@ export async function initializeDatabase() {
         "bookTitle" VARCHAR(255),
         "authorName" VARCHAR(255),
         description TEXT,
+        "verificationStatus" VARCHAR(20) DEFAULT 'unchecked',
+        isbn VARCHAR(20),
+        "createdAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    // Catalog verification was added after the researchSources table first shipped
+    await db.execute(sql`
+      ALTER TABLE "researchSources" ADD COLUMN IF NOT EXISTS "verificationStatus" VARCHAR(20) DEFAULT 'unchecked'
+    `);
+    await db.execute(sql`
+      ALTER TABLE "researchSources" ADD COLUMN IF NOT EXISTS isbn VARCHAR(20)
+    `);
+
+    // Create summaryJobs table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "summaryJobs" (
+        id VARCHAR(64) PRIMARY KEY,
+        "summaryId" VARCHAR(64) NOT NULL,
+        "userId" VARCHAR(64) NOT NULL,
+        kind VARCHAR(32) DEFAULT 'summary' NOT NULL,
+        payload TEXT,
+        status VARCHAR(20) DEFAULT 'queued' NOT NULL,
+        attempts INTEGER DEFAULT 0 NOT NULL,
+        "maxAttempts" INTEGER DEFAULT 3 NOT NULL,
+        "runAfter" TIMESTAMP DEFAULT NOW() NOT NULL,
+        "lockedBy" VARCHAR(64),
+        "heartbeatAt" TIMESTAMP,
+        progress TEXT,
+        "lastError" TEXT,
+        "createdAt" TIMESTAMP DEFAULT NOW(),
+        "updatedAt" TIMESTAMP DEFAULT NOW(),
+        "completedAt" TIMESTAMP
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "summaryJobs_status_runAfter_idx" ON "summaryJobs" (status, "runAfter")
+    `);
+
+    // Create summaryVersions table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "summaryVersions" (
+        id VARCHAR(64) PRIMARY KEY,
+        "summaryId" VARCHAR(64) NOT NULL,
+        "versionNumber" INTEGER NOT NULL,
+        "bookTitle" VARCHAR(255),
+        "bookAuthor" VARCHAR(255),
+        "onePageSummary" TEXT,
+        introduction TEXT,
+        "mainContent" TEXT,
+        "researchSourcesCount" INTEGER DEFAULT 0,
+        "jotsNotesCount" INTEGER DEFAULT 0,
+        "changeType" VARCHAR(20) NOT NULL,
+        "changeDescription" TEXT,
+        "authorId" VARCHAR(64) NOT NULL,
+        model VARCHAR(128),
+        "promptVersion" VARCHAR(64),
+        "createdAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS "summaryVersions_summaryId_versionNumber_idx" ON "summaryVersions" ("summaryId", "versionNumber")
+    `);
+
+    // Create promptTemplates table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "promptTemplates" (
+        id VARCHAR(64) PRIMARY KEY,
+        style VARCHAR(64) NOT NULL,
+        version INTEGER NOT NULL,
+        "userId" VARCHAR(64),
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        body TEXT NOT NULL,
+        variables TEXT NOT NULL,
+        "createdAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "promptTemplates_userId_style_idx" ON "promptTemplates" ("userId", style, version)
+    `);
+
+    // Create searchEntries table. The tsvector uses the 'simple' configuration
+    // (no stemming or stopwords) because the library mixes languages.
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "searchEntries" (
+        id VARCHAR(160) PRIMARY KEY,
+        "userId" VARCHAR(64) NOT NULL,
+        "documentId" VARCHAR(64) NOT NULL,
+        "summaryId" VARCHAR(64),
+        kind VARCHAR(20) NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        "bookTitle" VARCHAR(255),
+        "bookAuthor" VARCHAR(255),
+        "noteType" VARCHAR(20),
+        location TEXT,
+        "updatedAt" TIMESTAMP DEFAULT NOW(),
+        "searchVector" TSVECTOR GENERATED ALWAYS AS (
+          setweight(to_tsvector('simple', title), 'A') || setweight(to_tsvector('simple', body), 'B')
+        ) STORED
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "searchEntries_searchVector_idx" ON "searchEntries" USING GIN ("searchVector")
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "searchEntries_userId_idx" ON "searchEntries" ("userId", kind)
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "searchEntries_documentId_summaryId_idx" ON "searchEntries" ("documentId", "summaryId")
+    `);
+
+    // Create embeddingChunks table. Similarity is computed in the application,
+    // so the vectors are plain REAL[] and need no database extension.
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "embeddingChunks" (
+        id VARCHAR(160) PRIMARY KEY,
+        "userId" VARCHAR(64) NOT NULL,
+        "documentId" VARCHAR(64) NOT NULL,
+        "summaryId" VARCHAR(64),
+        kind VARCHAR(20) NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        "bookTitle" VARCHAR(255),
+        "bookAuthor" VARCHAR(255),
+        location TEXT,
+        model VARCHAR(128) NOT NULL,
+        vector REAL[] NOT NULL,
+        "updatedAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "embeddingChunks_userId_model_idx" ON "embeddingChunks" ("userId", model)
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "embeddingChunks_documentId_summaryId_idx" ON "embeddingChunks" ("documentId", "summaryId")
+    `);
+
+    // Create conversations and conversationMessages tables
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id VARCHAR(64) PRIMARY KEY,
+        "userId" VARCHAR(64) NOT NULL,
+        "documentId" VARCHAR(64) NOT NULL,
+        "summaryId" VARCHAR(64),
+        title VARCHAR(255) NOT NULL,
+        "createdAt" TIMESTAMP DEFAULT NOW(),
+        "updatedAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "conversations_userId_documentId_idx" ON conversations ("userId", "documentId", "updatedAt")
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "conversationMessages" (
+        id VARCHAR(64) PRIMARY KEY,
+        "conversationId" VARCHAR(64) NOT NULL,
+        position INTEGER NOT NULL,
+        role VARCHAR(20) NOT NULL,
+        content TEXT NOT NULL,
+        citations TEXT,
+        model VARCHAR(128),
+        "createdAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "conversationMessages_conversationId_idx" ON "conversationMessages" ("conversationId", position)
+    `);
+
+    // Create comparisons table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS comparisons (
+        id VARCHAR(64) PRIMARY KEY,
+        "userId" VARCHAR(64) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        "summaryIds" TEXT NOT NULL,
+        report TEXT,
+        status VARCHAR(20) DEFAULT 'generating' NOT NULL,
+        "errorMessage" TEXT,
+        model VARCHAR(128),
+        "createdAt" TIMESTAMP DEFAULT NOW(),
+        "updatedAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "comparisons_userId_idx" ON comparisons ("userId", "createdAt")
+    `);
+
+    // Create llmCalls table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "llmCalls" (
+        id VARCHAR(64) PRIMARY KEY,
+        "userId" VARCHAR(64),
+        "summaryId" VARCHAR(64),
+        task VARCHAR(32),
+        model VARCHAR(128) NOT NULL,
+        provider VARCHAR(20) NOT NULL,
+        "promptTokens" INTEGER DEFAULT 0 NOT NULL,
+        "completionTokens" INTEGER DEFAULT 0 NOT NULL,
+        "latencyMs" INTEGER NOT NULL,
+        "costUsd" REAL,
+        outcome VARCHAR(20) NOT NULL,
+        "errorMessage" TEXT,
         "createdAt" TIMESTAMP DEFAULT NOW()
       )
     `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "llmCalls_createdAt_idx" ON "llmCalls" ("createdAt")
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "llmCalls_summaryId_idx" ON "llmCalls" ("summaryId")
+    `);
+
+    // Create roleQuotas table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "roleQuotas" (
+        role VARCHAR(20) PRIMARY KEY,
+        "dailyGenerations" INTEGER,
+        "monthlyGenerations" INTEGER,
+        "storageBytes" BIGINT,
+        "concurrentJobs" INTEGER,
+        "updatedAt" TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    // Create generationEvents table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "generationEvents" (
+        id VARCHAR(64) PRIMARY KEY,
+        "userId" VARCHAR(64) NOT NULL,
+        kind VARCHAR(20) DEFAULT 'summary' NOT NULL,
+        "summaryId" VARCHAR(64),
+        "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    await db.execute(sql`
+      ALTER TABLE "generationEvents" ADD COLUMN IF NOT EXISTS kind VARCHAR(20) DEFAULT 'summary' NOT NULL
+    `);
+    await db.execute(sql`
+      ALTER TABLE "generationEvents" ALTER COLUMN "summaryId" DROP NOT NULL
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "generationEvents_userId_idx" ON "generationEvents" ("userId", "createdAt")
+    `);
+
+    // Create llmCache table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "llmCache" (
+        key VARCHAR(64) PRIMARY KEY,
+        model VARCHAR(128) NOT NULL,
+        response TEXT NOT NULL,
+        "promptTokens" INTEGER DEFAULT 0 NOT NULL,
+        "completionTokens" INTEGER DEFAULT 0 NOT NULL,
+        hits INTEGER DEFAULT 0 NOT NULL,
+        "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "lastHitAt" TIMESTAMP
+      )
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "llmCache_expiresAt_idx" ON "llmCache" ("expiresAt")
+    `);
 
     console.log("[Database] ✅ Database tables initialized successfully");
   } catch (error) {
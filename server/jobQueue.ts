@@ -0,0 +1,310 @@
+/**
+ * Database-backed background job queue.
+ *
+ * Jobs live in the `summaryJobs` table so that work survives restarts: a worker
+ * claims queued jobs, sends heartbeats while running them, retries failures with
+ * exponential backoff, and on boot re-queues jobs whose worker disappeared.
+ */
+
+import { nanoid } from "nanoid";
+import { runWithLLMUsageScope } from "./_core/llmUsage";
+import {
+  claimNextSummaryJob,
+  createSummaryJob,
+  getStaleSummaryJobs,
+  updateSummaryJob,
+  type SummaryJob,
+} from "./db";
+
+export type JobKind = "summary" | "translation" | "comparison";
+
+export type JobContext = {
+  workerId: string;
+  /** Persist progress for the job (also refreshes its heartbeat). */
+  reportProgress: (progress: unknown) => Promise<void>;
+};
+
+export type JobHandler = {
+  run: (job: SummaryJob, context: JobContext) => Promise<void>;
+  /** Called once retries are exhausted so the handler can mark its entity failed. */
+  onFailure?: (job: SummaryJob, error: Error) => Promise<void>;
+};
+
+export type EnqueueJobInput = {
+  kind: JobKind;
+  /** The entity the job works on: a summary, or a comparison for `comparison` jobs. */
+  summaryId: string;
+  userId: string;
+  payload: unknown;
+  maxAttempts?: number;
+};
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000", 10);
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.JOB_HEARTBEAT_INTERVAL_MS || "15000", 10);
+const STALE_AFTER_MS = parseInt(process.env.JOB_STALE_AFTER_MS || "90000", 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || "30000", 10);
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || "3", 10);
+
+const handlers = new Map<string, JobHandler>();
+const activeJobs = new Map<string, { job: SummaryJob; execution: Promise<void> }>();
+
+let workerId = `worker-${nanoid(10)}`;
+let pollTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function registerJobHandler(kind: JobKind, handler: JobHandler): void {
+  handlers.set(kind, handler);
+}
+
+export function getWorkerId(): string {
+  return workerId;
+}
+
+export async function enqueueJob(input: EnqueueJobInput): Promise<SummaryJob> {
+  return await createSummaryJob({
+    id: nanoid(),
+    kind: input.kind,
+    summaryId: input.summaryId,
+    userId: input.userId,
+    payload: JSON.stringify(input.payload ?? {}),
+    status: "queued",
+    attempts: 0,
+    maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    runAfter: new Date(),
+  });
+}
+
+export function parseJobPayload<T>(job: SummaryJob): T {
+  try {
+    return JSON.parse(job.payload || "{}") as T;
+  } catch {
+    throw new Error(`Job ${job.id} has an unreadable payload`);
+  }
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1).
+ */
+export function computeRetryDelay(attempt: number, baseDelay: number = RETRY_BASE_DELAY_MS): number {
+  return baseDelay * Math.pow(2, Math.max(0, attempt - 1));
+}
+
+/**
+ * Return orphaned running jobs to the queue (or fail them when they have no
+ * attempts left). Safe to call from several instances.
+ */
+export async function recoverOrphanedJobs(staleAfterMs: number = STALE_AFTER_MS): Promise<number> {
+  const staleJobs = await getStaleSummaryJobs(new Date(Date.now() - staleAfterMs));
+  let recovered = 0;
+
+  for (const job of staleJobs) {
+    if (activeJobs.has(job.id)) {
+      continue;
+    }
+
+    const error = new Error("Worker stopped before the job finished");
+    if (job.attempts >= job.maxAttempts) {
+      const updated = await updateSummaryJob(
+        job.id,
+        { status: "failed", lockedBy: null, lastError: error.message, completedAt: new Date() },
+        job.lockedBy ?? undefined,
+      );
+      if (updated) {
+        await notifyFailure(job, error);
+      }
+      continue;
+    }
+
+    const updated = await updateSummaryJob(
+      job.id,
+      { status: "queued", lockedBy: null, runAfter: new Date(), lastError: error.message },
+      job.lockedBy ?? undefined,
+    );
+    if (updated) {
+      recovered += 1;
+    }
+  }
+
+  if (recovered > 0) {
+    console.log(`[Jobs] Re-queued ${recovered} orphaned job(s)`);
+  }
+
+  return recovered;
+}
+
+/**
+ * Claim and run a single job. Resolves once the job has finished (or failed).
+ */
+export async function processNextJob(): Promise<SummaryJob | undefined> {
+  const job = await claimNextSummaryJob(workerId);
+  if (!job) {
+    return undefined;
+  }
+
+  await trackExecution(job);
+  return job;
+}
+
+function trackExecution(job: SummaryJob): Promise<void> {
+  const execution = executeJob(job).finally(() => activeJobs.delete(job.id));
+  activeJobs.set(job.id, { job, execution });
+  return execution;
+}
+
+async function executeJob(job: SummaryJob): Promise<void> {
+  const ownerId = workerId;
+  const handler = handlers.get(job.kind);
+  if (!handler) {
+    await updateSummaryJob(
+      job.id,
+      { status: "failed", lockedBy: null, lastError: `No handler registered for job kind "${job.kind}"` },
+      ownerId,
+    );
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    updateSummaryJob(job.id, { heartbeatAt: new Date() }, ownerId).catch(error => {
+      console.warn(`[Jobs] Heartbeat failed for job ${job.id}:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref?.();
+
+  const context: JobContext = {
+    workerId: ownerId,
+    reportProgress: async progress => {
+      await updateSummaryJob(
+        job.id,
+        { progress: JSON.stringify(progress), heartbeatAt: new Date() },
+        ownerId,
+      );
+    },
+  };
+
+  try {
+    console.log(`[Jobs] Running ${job.kind} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+    await runWithLLMUsageScope({ userId: job.userId }, () => handler.run(job, context));
+    await updateSummaryJob(
+      job.id,
+      { status: "completed", lockedBy: null, lastError: null, completedAt: new Date() },
+      ownerId,
+    );
+  } catch (caught) {
+    const error = caught instanceof Error ? caught : new Error(String(caught));
+    console.error(`[Jobs] ${job.kind} job ${job.id} failed on attempt ${job.attempts}:`, error.message);
+
+    if (job.attempts >= job.maxAttempts) {
+      const updated = await updateSummaryJob(
+        job.id,
+        { status: "failed", lockedBy: null, lastError: error.message, completedAt: new Date() },
+        ownerId,
+      );
+      if (updated) {
+        await notifyFailure(job, error);
+      }
+      return;
+    }
+
+    const delay = computeRetryDelay(job.attempts);
+    await updateSummaryJob(
+      job.id,
+      {
+        status: "queued",
+        lockedBy: null,
+        lastError: error.message,
+        runAfter: new Date(Date.now() + delay),
+        progress: JSON.stringify({
+          stage: `Attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s...`,
+          sectionsCompleted: 0,
+          totalSections: 0,
+        }),
+      },
+      ownerId,
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function notifyFailure(job: SummaryJob, error: Error): Promise<void> {
+  try {
+    await handlers.get(job.kind)?.onFailure?.(job, error);
+  } catch (handlerError) {
+    console.error(`[Jobs] Failure handler for job ${job.id} threw:`, handlerError);
+  }
+}
+
+const concurrency = () => Math.max(1, parseInt(process.env.JOB_CONCURRENCY || "1", 10));
+
+async function poll(): Promise<void> {
+  if (!running) {
+    return;
+  }
+
+  try {
+    await recoverOrphanedJobs();
+    while (running && activeJobs.size < concurrency()) {
+      const job = await claimNextSummaryJob(workerId);
+      if (!job) {
+        break;
+      }
+      void trackExecution(job);
+    }
+  } catch (error) {
+    console.error("[Jobs] Worker poll failed:", error);
+  } finally {
+    if (running) {
+      pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      pollTimer.unref?.();
+    }
+  }
+}
+
+/**
+ * Start polling for jobs. Orphaned jobs from a previous process are picked up
+ * on the first poll.
+ */
+export function startJobWorker(): void {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  workerId = `worker-${nanoid(10)}`;
+  console.log(`[Jobs] Worker ${workerId} started`);
+  void poll();
+}
+
+/**
+ * Stop claiming new jobs and hand any in-flight jobs back to the queue so the
+ * next process can resume them immediately instead of waiting for them to go stale.
+ */
+export async function stopJobWorker(): Promise<void> {
+  if (!running) {
+    return;
+  }
+
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+
+  // The interrupted attempt is not the job's fault, so it is not counted.
+  const ownerId = workerId;
+  for (const { job } of Array.from(activeJobs.values())) {
+    await updateSummaryJob(
+      job.id,
+      {
+        status: "queued",
+        attempts: Math.max(0, job.attempts - 1),
+        lockedBy: null,
+        runAfter: new Date(),
+        lastError: "Interrupted by server shutdown",
+      },
+      ownerId,
+    );
+  }
+
+  console.log(`[Jobs] Worker ${ownerId} stopped (${activeJobs.size} job(s) released)`);
+}
@@ -0,0 +1,89 @@
+/**
+ * Languages summaries can be written in, and detection of a document's
+ * language from its extracted text.
+ *
+ * Detection counts common function words ("the", "und", "que", ...), which is
+ * reliable for book-length text in the supported languages and needs no
+ * model. Text that matches none of them clearly is left undetected.
+ */
+
+import { z } from "zod";
+
+export const SUPPORTED_LANGUAGES = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+  fr: "French",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+} as const;
+
+export type LanguageCode = keyof typeof SUPPORTED_LANGUAGES;
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export const LANGUAGE_CODES = Object.keys(SUPPORTED_LANGUAGES) as [LanguageCode, ...LanguageCode[]];
+
+export const languageCodeSchema = z.enum(LANGUAGE_CODES);
+
+const DETECTION_SAMPLE_CHARS = 20000;
+/** Fewer function-word hits than this and the text is too short to judge. */
+const MIN_DETECTION_HITS = 12;
+/** The best language must beat the runner-up by this factor. */
+const MIN_DETECTION_MARGIN = 1.5;
+
+const FUNCTION_WORDS: Record<LanguageCode, string[]> = {
+  en: ["the", "and", "of", "to", "is", "that", "with", "for", "this", "are", "was", "which", "have", "not", "but"],
+  es: ["el", "los", "las", "que", "por", "para", "una", "con", "del", "es", "pero", "como", "más", "sus", "muy"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "mit", "sich", "auf", "ein", "eine", "auch", "dass", "wird", "sind"],
+  fr: ["le", "les", "des", "est", "une", "pour", "que", "qui", "dans", "pas", "sur", "avec", "mais", "sont", "cette"],
+  it: ["il", "che", "di", "della", "per", "una", "sono", "con", "non", "gli", "anche", "questo", "nel", "più", "come"],
+  pt: ["os", "que", "uma", "para", "com", "não", "mais", "como", "dos", "das", "pelo", "são", "também", "isso", "ao"],
+  nl: ["de", "het", "een", "van", "en", "niet", "zijn", "met", "voor", "dat", "ook", "maar", "wordt", "deze", "naar"],
+};
+
+const LOOKUP = (() => {
+  const lookup = new Map<string, LanguageCode[]>();
+  for (const code of LANGUAGE_CODES) {
+    for (const word of FUNCTION_WORDS[code]) {
+      lookup.set(word, [...(lookup.get(word) ?? []), code]);
+    }
+  }
+  return lookup;
+})();
+
+export function languageName(code: LanguageCode): string {
+  return SUPPORTED_LANGUAGES[code];
+}
+
+export function isSupportedLanguage(value: unknown): value is LanguageCode {
+  return typeof value === "string" && value in SUPPORTED_LANGUAGES;
+}
+
+/**
+ * The supported language `text` is written in, or null when it is too short
+ * or too mixed to tell.
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  const words = text.slice(0, DETECTION_SAMPLE_CHARS).toLowerCase().match(/[a-zà-öø-ÿ]+/g) ?? [];
+  const scores = new Map<LanguageCode, number>();
+  let hits = 0;
+
+  for (const word of words) {
+    const languages = LOOKUP.get(word);
+    if (!languages) continue;
+    hits++;
+    // A word shared by several languages counts for each of them a little.
+    languages.forEach(code => scores.set(code, (scores.get(code) ?? 0) + 1 / languages.length));
+  }
+  if (hits < MIN_DETECTION_HITS) {
+    return null;
+  }
+
+  const [best, runnerUp] = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  if (runnerUp && best[1] < runnerUp[1] * MIN_DETECTION_MARGIN) {
+    return null;
+  }
+  return best[0];
+}
@@ -0,0 +1,179 @@
+/**
+ * "Ask your library": questions answered from the user's documents and
+ * summaries.
+ *
+ * The question is embedded and matched against the semantic index
+ * (embeddings.ts); the closest chunks go to the model, numbered, and the
+ * answer cites them by number. Without a model the matching chunks are
+ * returned on their own, so the question still leads somewhere.
+ */
+
+import { z } from "zod";
+import { hasLLMProvidersConfigured, invokeLLMWithRouting } from "./_core/llmRouter";
+import { getDocument, getSummaryByDocumentId } from "./db";
+import { findSimilarChunks, type ScoredEmbeddingChunk } from "./embeddings";
+import type { SearchLocation } from "./search";
+import { generateLibraryQuestionPrompt } from "./shortformPrompt";
+import { toOutputSchema, validateModelOutput } from "./summarySchema";
+
+/** How much of each chunk the model sees. */
+const MAX_PROMPT_PASSAGE_CHARS = 1500;
+const EXCERPT_CHARS = 280;
+
+export const libraryQuestionSchema = z.object({
+  question: z.string().trim().min(3).max(500),
+  /** Only these documents (and their summaries); the whole library by default. */
+  documentIds: z.array(z.string()).min(1).max(50).optional(),
+  /** How many passages to retrieve. */
+  limit: z.number().int().min(1).max(12).default(8),
+});
+
+export type LibraryQuestion = z.input<typeof libraryQuestionSchema>;
+
+const answerSchema = z.object({
+  answer: z.string().min(1),
+});
+
+export type LibrarySource = {
+  /** The number the answer cites it by. */
+  number: number;
+  kind: "passage" | "overview" | "subsection";
+  documentId: string;
+  /** The summary the source is part of; for passages of a book, the book's summary if it has one. */
+  summaryId: string | null;
+  title: string;
+  bookTitle: string;
+  bookAuthor: string;
+  location: SearchLocation;
+  excerpt: string;
+  score: number;
+};
+
+export type LibraryAnswer = {
+  /** Null when nothing matched or no model is configured. */
+  answer: string | null;
+  /** Every retrieved source, most similar first. */
+  sources: LibrarySource[];
+  /** The sources the answer cites, in the same order. */
+  citations: LibrarySource[];
+  model: string | null;
+};
+
+/**
+ * Answer `input.question` from the user's library.
+ */
+export async function askLibrary(userId: string, input: LibraryQuestion): Promise<LibraryAnswer> {
+  const { question, documentIds, limit } = libraryQuestionSchema.parse(input);
+  const chunks = await findSimilarChunks(userId, question, { limit, documentIds });
+  const sources = await describeSources(chunks);
+
+  if (sources.length === 0 || !hasLLMProvidersConfigured()) {
+    return { answer: null, sources, citations: [], model: null };
+  }
+
+  const prompt = generateLibraryQuestionPrompt({
+    question,
+    passages: chunks.map((chunk, index) => ({
+      bookTitle: sources[index].bookTitle,
+      bookAuthor: sources[index].bookAuthor,
+      location: chunk.title,
+      content: chunk.content.slice(0, MAX_PROMPT_PASSAGE_CHARS),
+    })),
+  });
+  const response = await invokeLLMWithRouting(
+    {
+      messages: [{ role: "user", content: prompt }],
+      outputSchema: toOutputSchema("library_answer", answerSchema),
+    },
+    "library_qa",
+  );
+  const raw = response.choices[0]?.message?.content;
+  const validation = validateModelOutput(typeof raw === "string" ? raw : "", answerSchema);
+  if (!validation.success) {
+    throw new Error(`The model returned an invalid answer: ${validation.issues[0]}`);
+  }
+
+  const { answer, cited } = resolveCitations(validation.data.answer, sources.length);
+  return {
+    answer,
+    sources,
+    citations: sources.filter(source => cited.has(source.number)),
+    model: response.model,
+  };
+}
+
+/**
+ * Number retrieved chunks from 1 and attach the book each belongs to.
+ */
+export async function describeSources(chunks: ScoredEmbeddingChunk[]): Promise<LibrarySource[]> {
+  const books = createBookResolver();
+  return await Promise.all(chunks.map((chunk, index) => toSource(chunk, index + 1, books)));
+}
+
+/**
+ * The source numbers `answer` cites, with citations of numbers that were
+ * never given to the model removed.
+ */
+export function resolveCitations(answer: string, sourceCount: number): { answer: string; cited: Set<number> } {
+  const cited = new Set<number>();
+  const cleaned = answer.replace(/\s*\[(\d+)\]/g, (marker, value: string) => {
+    const number = Number(value);
+    if (number < 1 || number > sourceCount) {
+      return "";
+    }
+    cited.add(number);
+    return marker;
+  });
+  return { answer: cleaned.trim(), cited };
+}
+
+type BookDetails = { summaryId: string | null; bookTitle: string; bookAuthor: string };
+
+/**
+ * Look up, once per document, the summary and book details that passages of
+ * the document's own text are shown with.
+ */
+function createBookResolver() {
+  const books = new Map<string, Promise<BookDetails>>();
+  return (documentId: string): Promise<BookDetails> => {
+    let book = books.get(documentId);
+    if (!book) {
+      book = (async () => {
+        const summary = await getSummaryByDocumentId(documentId);
+        if (summary?.status === "completed") {
+          return {
+            summaryId: summary.id,
+            bookTitle: summary.bookTitle || "Untitled",
+            bookAuthor: summary.bookAuthor || "Unknown Author",
+          };
+        }
+        const document = await getDocument(documentId);
+        return { summaryId: null, bookTitle: document?.originalFilename ?? "Untitled", bookAuthor: "Unknown Author" };
+      })();
+      books.set(documentId, book);
+    }
+    return book;
+  };
+}
+
+async function toSource(
+  chunk: ScoredEmbeddingChunk,
+  number: number,
+  books: ReturnType<typeof createBookResolver>,
+): Promise<LibrarySource> {
+  const book = chunk.summaryId
+    ? { summaryId: chunk.summaryId, bookTitle: chunk.bookTitle || "Untitled", bookAuthor: chunk.bookAuthor || "Unknown Author" }
+    : await books(chunk.documentId);
+  const content = chunk.content.replace(/\s+/g, " ").trim();
+
+  return {
+    number,
+    kind: chunk.kind as LibrarySource["kind"],
+    documentId: chunk.documentId,
+    title: chunk.title,
+    ...book,
+    location: chunk.location ? (JSON.parse(chunk.location) as SearchLocation) : {},
+    excerpt: content.length > EXCERPT_CHARS ? `${content.slice(0, EXCERPT_CHARS).trimEnd()}…` : content,
+    score: chunk.score,
+  };
+}
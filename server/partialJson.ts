@@ -0,0 +1,194 @@
+/**
+ * Tolerant parser for JSON that is still being streamed.
+ *
+ * While a summary is generating the model has only emitted a prefix of the
+ * final JSON document. `parsePartialJson` returns everything that is complete
+ * so far: finished strings, numbers and literals are kept, open objects and
+ * arrays are closed, and a string or key that is cut off mid-way is dropped.
+ */
+
+type ParseState = {
+  text: string;
+  index: number;
+};
+
+class EndOfInput extends Error {}
+
+const INCOMPLETE = Symbol("incomplete");
+
+type PartialValue = unknown | typeof INCOMPLETE;
+
+/**
+ * Parse the longest usable prefix of `text`. Leading prose or code fences
+ * before the first `{` or `[` are skipped. Returns `undefined` when nothing
+ * usable has arrived yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  const state: ParseState = { text, index: start };
+  try {
+    const value = parseValue(state);
+    return value === INCOMPLETE ? undefined : value;
+  } catch {
+    // Malformed (rather than merely unfinished) output has nothing to preview.
+    return undefined;
+  }
+}
+
+function skipWhitespace(state: ParseState): void {
+  while (state.index < state.text.length && /\s/.test(state.text[state.index])) {
+    state.index += 1;
+  }
+}
+
+function peek(state: ParseState): string {
+  skipWhitespace(state);
+  if (state.index >= state.text.length) {
+    throw new EndOfInput();
+  }
+  return state.text[state.index];
+}
+
+function parseValue(state: ParseState): PartialValue {
+  const char = peek(state);
+
+  if (char === "{") return parseObject(state);
+  if (char === "[") return parseArray(state);
+  if (char === '"') return parseString(state);
+  if (char === "-" || /\d/.test(char)) return parseNumber(state);
+  return parseLiteral(state);
+}
+
+function parseObject(state: ParseState): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  state.index += 1;
+
+  try {
+    while (true) {
+      let char = peek(state);
+      if (char === "}") {
+        state.index += 1;
+        return result;
+      }
+      if (char === ",") {
+        state.index += 1;
+        char = peek(state);
+      }
+      if (char !== '"') {
+        throw new SyntaxError(`Unexpected "${char}" in object`);
+      }
+
+      const key = parseString(state);
+      if (key === INCOMPLETE) {
+        return result;
+      }
+
+      if (peek(state) !== ":") {
+        throw new SyntaxError("Expected ':' after object key");
+      }
+      state.index += 1;
+
+      const value = parseValue(state);
+      if (value === INCOMPLETE) {
+        return result;
+      }
+      result[key as string] = value;
+    }
+  } catch (error) {
+    if (error instanceof EndOfInput) {
+      return result;
+    }
+    throw error;
+  }
+}
+
+function parseArray(state: ParseState): unknown[] {
+  const result: unknown[] = [];
+  state.index += 1;
+
+  try {
+    while (true) {
+      let char = peek(state);
+      if (char === "]") {
+        state.index += 1;
+        return result;
+      }
+      if (char === ",") {
+        state.index += 1;
+        char = peek(state);
+      }
+
+      const value = parseValue(state);
+      if (value === INCOMPLETE) {
+        return result;
+      }
+      result.push(value);
+    }
+  } catch (error) {
+    if (error instanceof EndOfInput) {
+      return result;
+    }
+    throw error;
+  }
+}
+
+function parseString(state: ParseState): string | typeof INCOMPLETE {
+  const { text } = state;
+  let index = state.index + 1;
+  let escaped = false;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (escaped) {
+      escaped = false;
+    } else if (char === "\\") {
+      escaped = true;
+    } else if (char === '"') {
+      const raw = text.slice(state.index, index + 1);
+      state.index = index + 1;
+      return JSON.parse(raw) as string;
+    }
+    index += 1;
+  }
+
+  state.index = text.length;
+  return INCOMPLETE;
+}
+
+function parseNumber(state: ParseState): number | typeof INCOMPLETE {
+  const match = state.text.slice(state.index).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/);
+  if (!match) {
+    throw new SyntaxError("Invalid number");
+  }
+
+  state.index += match[0].length;
+  // A number at the very end of the buffer may still be growing.
+  if (state.index >= state.text.length) {
+    return INCOMPLETE;
+  }
+  return Number(match[0]);
+}
+
+function parseLiteral(state: ParseState): boolean | null | typeof INCOMPLETE {
+  const rest = state.text.slice(state.index);
+  for (const [literal, value] of [
+    ["true", true],
+    ["false", false],
+    ["null", null],
+  ] as const) {
+    if (rest.startsWith(literal)) {
+      state.index += literal.length;
+      return value;
+    }
+    if (literal.startsWith(rest)) {
+      state.index = state.text.length;
+      return INCOMPLETE;
+    }
+  }
+
+  throw new SyntaxError(`Unexpected token "${rest[0]}"`);
+}
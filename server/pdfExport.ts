@@ -1,4 +1,5 @@
 import jsPDF from "jspdf";
+import type { ComparisonReport } from "./comparisons";
 
 type SanitizedNote = {
   type: string;
@@ -32,11 +33,40 @@ export type SummaryData = {
   researchSources: SanitizedResearchSource[];
 };
 
+// Colors
+const cognacColor: [number, number, number] = [212, 119, 46]; // #D4772E
+const darkBlue: [number, number, number] = [46, 64, 87]; // #2E4057
+const grayBackground: [number, number, number] = [241, 241, 241]; // #F1F1F1
+const textGray: [number, number, number] = [51, 51, 51]; // #333333
+
+type PdfLayout = {
+  doc: jsPDF;
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  maxWidth: number;
+  /** Where the next line is drawn; helpers advance it. */
+  y: number;
+  checkPageBreak: (neededSpace: number) => boolean;
+  addWrappedText: (
+    text: string,
+    x: number,
+    y: number,
+    maxWidth: number,
+    fontSize: number,
+    fontStyle?: string,
+    color?: [number, number, number]
+  ) => number;
+  addParagraphs: (text: string, fontSize?: number) => void;
+  addSectionHeading: (title: string) => void;
+  addJotsNote: (content: string) => void;
+};
+
 /**
- * Generate a PDF export of a Jonathan's Jots summary
- * with professional formatting matching the web display
+ * A letter-sized document with the drawing helpers shared by the summary
+ * and comparison exports.
  */
-export function generateSummaryPDF(summary: SummaryData): jsPDF {
+function createPdfLayout(): PdfLayout {
   const doc = new jsPDF({
     orientation: "portrait",
     unit: "mm",
@@ -47,70 +77,122 @@ export function generateSummaryPDF(summary: SummaryData): jsPDF {
   const pageHeight = doc.internal.pageSize.getHeight();
   const margin = 20;
   const maxWidth = pageWidth - 2 * margin;
-  
-  let yPosition = margin;
-
-  // Colors
-  const cognacColor: [number, number, number] = [212, 119, 46]; // #D4772E
-  const darkBlue: [number, number, number] = [46, 64, 87]; // #2E4057
-  const grayBackground: [number, number, number] = [241, 241, 241]; // #F1F1F1
-  const textGray: [number, number, number] = [51, 51, 51]; // #333333
-
-  // Helper function to add new page if needed
-  const checkPageBreak = (neededSpace: number) => {
-    if (yPosition + neededSpace > pageHeight - margin) {
-      doc.addPage();
-      yPosition = margin;
-      return true;
-    }
-    return false;
-  };
 
-  // Helper function to wrap and add text
-  const addWrappedText = (
-    text: string,
-    x: number,
-    y: number,
-    maxWidth: number,
-    fontSize: number,
-    fontStyle: string = "normal",
-    color: [number, number, number] = textGray
-  ): number => {
-    doc.setFontSize(fontSize);
-    doc.setFont("helvetica", fontStyle);
-    doc.setTextColor(...color);
-    
-    const lines = doc.splitTextToSize(text, maxWidth);
-    const lineHeight = fontSize * 0.5;
-    
-    lines.forEach((line: string, index: number) => {
-      if (checkPageBreak(lineHeight)) {
-        y = yPosition;
+  const layout: PdfLayout = {
+    doc,
+    pageWidth,
+    pageHeight,
+    margin,
+    maxWidth,
+    y: margin,
+
+    // Add a new page if needed
+    checkPageBreak: (neededSpace) => {
+      if (layout.y + neededSpace > pageHeight - margin) {
+        doc.addPage();
+        layout.y = margin;
+        return true;
       }
-      doc.text(line, x, y + index * lineHeight);
-    });
-    
-    return y + lines.length * lineHeight;
-  };
+      return false;
+    },
+
+    // Wrap and add text
+    addWrappedText: (text, x, y, maxWidth, fontSize, fontStyle = "normal", color = textGray) => {
+      doc.setFontSize(fontSize);
+      doc.setFont("helvetica", fontStyle);
+      doc.setTextColor(...color);
+
+      const lines = doc.splitTextToSize(text, maxWidth);
+      const lineHeight = fontSize * 0.5;
+
+      lines.forEach((line: string, index: number) => {
+        if (layout.checkPageBreak(lineHeight)) {
+          y = layout.y;
+        }
+        doc.text(line, x, y + index * lineHeight);
+      });
 
-  // Helper to add paragraphs with spacing
-  const addParagraphs = (text: string, fontSize: number = 11): void => {
-    const paragraphs = text.split("\\n\\n");
-    paragraphs.forEach((para) => {
-      if (para.trim()) {
-        yPosition = addWrappedText(para.trim(), margin, yPosition, maxWidth, fontSize);
-        yPosition += 6; // Space between paragraphs
-      }
-    });
+      return y + lines.length * lineHeight;
+    },
+
+    // Add paragraphs with spacing
+    addParagraphs: (text, fontSize = 11) => {
+      const paragraphs = text.split("\\n\\n");
+      paragraphs.forEach((para) => {
+        if (para.trim()) {
+          layout.y = layout.addWrappedText(para.trim(), margin, layout.y, maxWidth, fontSize);
+          layout.y += 6; // Space between paragraphs
+        }
+      });
+    },
+
+    // Section title with left border
+    addSectionHeading: (title) => {
+      doc.setFillColor(...cognacColor);
+      doc.rect(margin, layout.y, 3, 10, "F");
+      doc.setFontSize(16);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(...darkBlue);
+      const titleLines = doc.splitTextToSize(title, maxWidth - 10);
+      titleLines.forEach((line: string, i: number) => {
+        doc.text(line, margin + 8, layout.y + 7 + i * 6);
+      });
+      layout.y += 7 + titleLines.length * 6 + 5;
+    },
+
+    // Jonathan's Jots note in a gray box
+    addJotsNote: (content) => {
+      layout.checkPageBreak(40);
+
+      const noteHeight = doc.splitTextToSize(content, maxWidth - 10).length * 5 + 15;
+
+      // Gray background box
+      doc.setFillColor(...grayBackground);
+      doc.rect(margin, layout.y, maxWidth, noteHeight, "F");
+
+      // Border
+      doc.setDrawColor(200, 200, 200);
+      doc.rect(margin, layout.y, maxWidth, noteHeight);
+
+      // Note content
+      layout.y += 8;
+      doc.setFontSize(10);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(0, 102, 204); // Blue
+      doc.text("(Jonathan's Jots note:", margin + 5, layout.y);
+
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(...textGray);
+      layout.y = layout.addWrappedText(
+        content + ")",
+        margin + 5,
+        layout.y + 5,
+        maxWidth - 10,
+        10
+      );
+
+      layout.y += 10;
+    },
   };
 
+  return layout;
+}
+
+/**
+ * Generate a PDF export of a Jonathan's Jots summary
+ * with professional formatting matching the web display
+ */
+export function generateSummaryPDF(summary: SummaryData): jsPDF {
+  const layout = createPdfLayout();
+  const { doc, pageWidth, pageHeight, margin, maxWidth, checkPageBreak, addWrappedText, addParagraphs } = layout;
+
   // === COVER PAGE ===
   // Gradient-like background (simulated with rectangles)
   doc.setFillColor(244, 228, 215); // Light cognac
   doc.rect(0, 0, pageWidth, pageHeight, "F");
 
   // Title
-  yPosition = 60;
+  layout.y = 60;
   doc.setFontSize(28);
   doc.setFont("helvetica", "bold");
   doc.setTextColor(...darkBlue);
@@ -119,19 +201,19 @@ export function generateSummaryPDF(summary: SummaryData): jsPDF {
     maxWidth
   );
   titleLines.forEach((line: string) => {
-    doc.text(line, margin, yPosition);
-    yPosition += 12;
+    doc.text(line, margin, layout.y);
+    layout.y += 12;
   });
 
   // Author
-  yPosition += 10;
+  layout.y += 10;
   doc.setFontSize(16);
   doc.setFont("helvetica", "normal");
   doc.setTextColor(100, 100, 100);
-  doc.text(`Original book by ${summary.bookAuthor || "Unknown Author"}`, margin, yPosition);
+  doc.text(`Original book by ${summary.bookAuthor || "Unknown Author"}`, margin, layout.y);
 
   // Introduction on cover
-  yPosition += 20;
+  layout.y += 20;
   doc.setFontSize(12);
   doc.setTextColor(...textGray);
   addParagraphs(summary.introduction, 12);
@@ -143,46 +225,37 @@ export function generateSummaryPDF(summary: SummaryData): jsPDF {
 
   // === NEW PAGE: ONE-PAGE SUMMARY ===
   doc.addPage();
-  yPosition = margin;
+  layout.y = margin;
 
   // Cognac separator bar
   doc.setFillColor(...cognacColor);
-  doc.rect(margin, yPosition, maxWidth, 3, "F");
-  yPosition += 10;
+  doc.rect(margin, layout.y, maxWidth, 3, "F");
+  layout.y += 10;
 
   // Section title with left border
   doc.setFillColor(...cognacColor);
-  doc.rect(margin, yPosition, 3, 10, "F");
+  doc.rect(margin, layout.y, 3, 10, "F");
   doc.setFontSize(18);
   doc.setFont("helvetica", "bold");
   doc.setTextColor(...darkBlue);
-  doc.text("1-Page Summary", margin + 8, yPosition + 7);
-  yPosition += 15;
+  doc.text("1-Page Summary", margin + 8, layout.y + 7);
+  layout.y += 15;
 
   // One-page summary content
   addParagraphs(summary.onePageSummary, 11);
 
   // Cognac separator
-  yPosition += 5;
+  layout.y += 5;
   doc.setFillColor(...cognacColor);
-  doc.rect(margin, yPosition, maxWidth, 3, "F");
-  yPosition += 15;
+  doc.rect(margin, layout.y, maxWidth, 3, "F");
+  layout.y += 15;
 
   // === MAIN CONTENT SECTIONS ===
   summary.sections.forEach((section, sectionIndex) => {
     checkPageBreak(30);
 
     // Section title with left border
-    doc.setFillColor(...cognacColor);
-    doc.rect(margin, yPosition, 3, 10, "F");
-    doc.setFontSize(16);
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor(...darkBlue);
-    const sectionTitleLines = doc.splitTextToSize(section.title, maxWidth - 10);
-    sectionTitleLines.forEach((line: string, i: number) => {
-      doc.text(line, margin + 8, yPosition + 7 + i * 6);
-    });
-    yPosition += 7 + sectionTitleLines.length * 6 + 5;
+    layout.addSectionHeading(section.title);
 
     // Subsections
     section.subsections.forEach((subsection) => {
@@ -193,56 +266,25 @@ export function generateSummaryPDF(summary: SummaryData): jsPDF {
         doc.setFontSize(14);
         doc.setFont("helvetica", "bold");
         doc.setTextColor(...darkBlue);
-        yPosition = addWrappedText(subsection.title, margin, yPosition, maxWidth, 14, "bold", darkBlue);
-        yPosition += 8;
+        layout.y = addWrappedText(subsection.title, margin, layout.y, maxWidth, 14, "bold", darkBlue);
+        layout.y += 8;
       }
 
       // Subsection content
       addParagraphs(subsection.content, 11);
 
       // Jonathan's Jots Notes (gray boxes)
-      subsection.jotsNotes.forEach((note) => {
-        checkPageBreak(40);
-
-        const noteHeight = doc.splitTextToSize(note.content, maxWidth - 10).length * 5 + 15;
-        
-        // Gray background box
-        doc.setFillColor(...grayBackground);
-        doc.rect(margin, yPosition, maxWidth, noteHeight, "F");
-
-        // Border
-        doc.setDrawColor(200, 200, 200);
-        doc.rect(margin, yPosition, maxWidth, noteHeight);
-
-        // Note content
-        yPosition += 8;
-        doc.setFontSize(10);
-        doc.setFont("helvetica", "bold");
-        doc.setTextColor(0, 102, 204); // Blue
-        doc.text("(Jonathan's Jots note:", margin + 5, yPosition);
-        
-        doc.setFont("helvetica", "normal");
-        doc.setTextColor(...textGray);
-        yPosition = addWrappedText(
-          note.content + ")",
-          margin + 5,
-          yPosition + 5,
-          maxWidth - 10,
-          10
-        );
-        
-        yPosition += 10;
-      });
+      subsection.jotsNotes.forEach((note) => layout.addJotsNote(note.content));
 
-      yPosition += 5;
+      layout.y += 5;
     });
 
     // Separator after section (except last)
     if (sectionIndex < summary.sections.length - 1) {
       checkPageBreak(10);
       doc.setFillColor(...cognacColor);
-      doc.rect(margin, yPosition, maxWidth, 3, "F");
-      yPosition += 15;
+      doc.rect(margin, layout.y, maxWidth, 3, "F");
+      layout.y += 15;
     }
   });
 
@@ -252,17 +294,17 @@ export function generateSummaryPDF(summary: SummaryData): jsPDF {
     
     // Separator
     doc.setFillColor(...cognacColor);
-    doc.rect(margin, yPosition, maxWidth, 3, "F");
-    yPosition += 15;
+    doc.rect(margin, layout.y, maxWidth, 3, "F");
+    layout.y += 15;
 
     // Section title
     doc.setFillColor(...cognacColor);
-    doc.rect(margin, yPosition, 3, 10, "F");
+    doc.rect(margin, layout.y, 3, 10, "F");
     doc.setFontSize(16);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(...darkBlue);
-    doc.text("Research Sources", margin + 8, yPosition + 7);
-    yPosition += 20;
+    doc.text("Research Sources", margin + 8, layout.y + 7);
+    layout.y += 20;
 
     // Sources
     summary.researchSources.forEach((source) => {
@@ -271,37 +313,149 @@ export function generateSummaryPDF(summary: SummaryData): jsPDF {
       // Source box
       const sourceHeight = 25;
       doc.setFillColor(250, 250, 250);
-      doc.rect(margin, yPosition, maxWidth, sourceHeight, "F");
+      doc.rect(margin, layout.y, maxWidth, sourceHeight, "F");
       doc.setDrawColor(220, 220, 220);
-      doc.rect(margin, yPosition, maxWidth, sourceHeight);
+      doc.rect(margin, layout.y, maxWidth, sourceHeight);
 
       // Source title
-      yPosition += 6;
+      layout.y += 6;
       doc.setFontSize(11);
       doc.setFont("helvetica", "bold");
       doc.setTextColor(...darkBlue);
-      yPosition = addWrappedText(source.title, margin + 3, yPosition, maxWidth - 6, 11, "bold", darkBlue);
+      layout.y = addWrappedText(source.title, margin + 3, layout.y, maxWidth - 6, 11, "bold", darkBlue);
 
       // Author and credentials
-      yPosition += 2;
+      layout.y += 2;
       doc.setFontSize(9);
       doc.setFont("helvetica", "normal");
       doc.setTextColor(100, 100, 100);
       const authorText = `by ${source.author} ${source.authorCredentials ? `(${source.authorCredentials})` : ""}`;
-      doc.text(authorText, margin + 3, yPosition);
+      doc.text(authorText, margin + 3, layout.y);
 
       // Relevance
       if (source.relevance) {
-        yPosition += 5;
+        layout.y += 5;
         doc.setFontSize(9);
         doc.setFont("helvetica", "italic");
         doc.setTextColor(120, 120, 120);
-        yPosition = addWrappedText(source.relevance, margin + 3, yPosition, maxWidth - 6, 9, "italic", [120, 120, 120]);
+        layout.y = addWrappedText(source.relevance, margin + 3, layout.y, maxWidth - 6, 9, "italic", [120, 120, 120]);
       }
 
-      yPosition += 10;
+      layout.y += 10;
     });
   }
 
   return doc;
 }
+
+/**
+ * Generate a PDF export of a cross-book comparison report, styled like the
+ * summary export, with the commentary in Jots note boxes.
+ */
+export function generateComparisonPDF(title: string, report: ComparisonReport): jsPDF {
+  const layout = createPdfLayout();
+  const { doc, pageWidth, pageHeight, margin, maxWidth, checkPageBreak, addWrappedText, addParagraphs } = layout;
+  const bookTitle = (book: number) => report.books[book - 1]?.bookTitle ?? `Book ${book}`;
+
+  const addSeparator = () => {
+    checkPageBreak(10);
+    doc.setFillColor(...cognacColor);
+    doc.rect(margin, layout.y, maxWidth, 3, "F");
+    layout.y += 15;
+  };
+
+  const addSubheading = (text: string) => {
+    checkPageBreak(25);
+    layout.y = addWrappedText(text, margin, layout.y, maxWidth, 14, "bold", darkBlue);
+    layout.y += 4;
+  };
+
+  const addCaption = (text: string) => {
+    layout.y = addWrappedText(text, margin, layout.y, maxWidth, 10, "italic", [100, 100, 100]);
+    layout.y += 4;
+  };
+
+  // === COVER PAGE ===
+  doc.setFillColor(244, 228, 215); // Light cognac
+  doc.rect(0, 0, pageWidth, pageHeight, "F");
+
+  layout.y = 60;
+  doc.setFontSize(28);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(...darkBlue);
+  doc.splitTextToSize(`Comparing ${title}`, maxWidth).forEach((line: string) => {
+    doc.text(line, margin, layout.y);
+    layout.y += 12;
+  });
+
+  // Compared books
+  layout.y += 10;
+  report.books.forEach((book) => {
+    layout.y = addWrappedText(`${book.bookTitle} by ${book.bookAuthor}`, margin, layout.y, maxWidth, 14, "normal", [100, 100, 100]);
+    layout.y += 2;
+  });
+
+  doc.setFontSize(10);
+  doc.setTextColor(150, 150, 150);
+  doc.text("Jonathan's Jots", pageWidth - margin - 40, pageHeight - margin);
+
+  // === OVERVIEW ===
+  doc.addPage();
+  layout.y = margin;
+  doc.setFillColor(...cognacColor);
+  doc.rect(margin, layout.y, maxWidth, 3, "F");
+  layout.y += 10;
+  layout.addSectionHeading("Overview");
+  addParagraphs(report.overview, 11);
+
+  // === SHARED THEMES ===
+  if (report.sharedThemes.length > 0) {
+    addSeparator();
+    layout.addSectionHeading("Shared Themes");
+    report.sharedThemes.forEach((theme) => {
+      addSubheading(theme.title);
+      if (theme.books.length > 0) {
+        addCaption(`Covered by ${theme.books.map(bookTitle).join(", ")}`);
+      }
+      addParagraphs(theme.analysis, 11);
+      theme.jotsNotes.forEach((note) => layout.addJotsNote(note.content));
+      layout.y += 5;
+    });
+  }
+
+  // === CONTRADICTIONS ===
+  if (report.contradictions.length > 0) {
+    addSeparator();
+    layout.addSectionHeading("Where They Disagree");
+    report.contradictions.forEach((contradiction) => {
+      addSubheading(contradiction.title);
+      addParagraphs(contradiction.analysis, 11);
+      contradiction.positions.forEach((position) => {
+        layout.y = addWrappedText(`${bookTitle(position.book)}: ${position.position}`, margin + 5, layout.y, maxWidth - 5, 11);
+        layout.y += 4;
+      });
+      contradiction.jotsNotes.forEach((note) => layout.addJotsNote(note.content));
+      layout.y += 5;
+    });
+  }
+
+  // === DEPTH ===
+  if (report.depth.length > 0) {
+    addSeparator();
+    layout.addSectionHeading("Who Goes Deeper");
+    report.depth.forEach((entry) => {
+      addSubheading(entry.topic);
+      addCaption(`Deeper: ${bookTitle(entry.deeperBook)}`);
+      addParagraphs(entry.explanation, 11);
+    });
+  }
+
+  // === CONCLUSION ===
+  if (report.conclusion) {
+    addSeparator();
+    layout.addSectionHeading("Reading Them Together");
+    addParagraphs(report.conclusion, 11);
+  }
+
+  return doc;
+}
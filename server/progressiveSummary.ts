@@ -1,12 +1,45 @@
-import { hasLLMProvidersConfigured, invokeLLMWithRouting } from "./_core/llmRouter";
+import {
+  getSmallestContextWindow,
+  hasLLMProvidersConfigured,
+  invokeLLMWithModel,
+  invokeLLMWithRouting,
+  streamLLMWithModel,
+  streamLLMWithRouting,
+} from "./_core/llmRouter";
 import { ENV } from "./_core/env";
-import { generateShortformPrompt } from "./shortformPrompt";
+import { runWithLLMUsageScope } from "./_core/llmUsage";
+import { runWithLLMCacheBypass } from "./_core/llmCache";
+import {
+  generateChapterDigestPrompt,
+  generateSummaryRepairPrompt,
+  MAX_PROMPT_DOCUMENT_CHARS,
+  type SummaryTargets,
+} from "./shortformPrompt";
+import { loadPromptTemplate, renderPromptTemplate } from "./promptTemplates";
+import { summaryOutputSchema, validateModelSummary } from "./summarySchema";
+import type { InvokeParams, InvokeResult, Message } from "./_core/llm";
+import { boundariesFromOutline, splitIntoChapterChunks, type DocumentChunk } from "./chapterChunker";
+import { createPassageLocator, parseDocumentOutline, type SourceLocation } from "./documentOutline";
+import { groundSections, type SectionGrounding, type SubsectionGrounding } from "./citationGrounding";
+import { verifyResearchSources, type SourceVerificationStatus } from "./sourceVerification";
+import { applyQualityGate } from "./qualityGate";
+import { DEFAULT_LANGUAGE, isSupportedLanguage, languageName, type LanguageCode } from "./language";
+import { summaryFallbackText, type SummaryFallbackText } from "./summaryFallbackText";
 import {
   getDocument,
+  getSummary,
+  getLatestSummaryJob,
   updateSummary,
   deleteResearchSourcesBySummaryId,
   createResearchSource,
+  type SummaryJob,
 } from "./db";
+import { parseJobPayload, type JobHandler } from "./jobQueue";
+import { parsePartialJson } from "./partialJson";
+import { publishSummaryProgress, subscribeToSummaryProgress } from "./summaryEvents";
+import { getLatestSummaryVersion } from "./db";
+import { markSummaryGenerationFailed, recordSummaryVersion, withSummaryWriteLock } from "./summaryVersions";
+import { indexSummary } from "./search";
 import { nanoid } from "nanoid";
 
 export interface ProgressUpdate {
@@ -59,24 +92,36 @@ export type StructuredSummary = {
 type SanitizedNote = {
   type: string;
   content: string;
+  /** Written by the quality gate to fill a gap rather than in the original generation. */
+  machinePadded?: boolean;
 };
 
 type SanitizedSubsection = {
   title: string;
   content: string;
   jotsNotes: SanitizedNote[];
+  /** Where in the book the subsection's material comes from, when it can be found. */
+  source?: SourceLocation;
+  grounding?: SubsectionGrounding;
+  machinePadded?: boolean;
 };
 
 type SanitizedSection = {
   title: string;
   subsections: SanitizedSubsection[];
+  grounding?: SectionGrounding;
+  machinePadded?: boolean;
 };
 
-type SanitizedResearchSource = {
+export type SanitizedResearchSource = {
   title: string;
   author: string;
   authorCredentials: string;
   relevance: string;
+  /** Set once checked against the bibliographic catalog. */
+  verificationStatus?: SourceVerificationStatus;
+  isbn?: string;
+  machinePadded?: boolean;
 };
 
 export type SanitizedSummary = {
@@ -90,97 +135,428 @@ export type SanitizedSummary = {
 
 const NOTE_TYPES = ["Comparative", "Context", "Critique", "Practical", "Expert"];
 const CANONICAL_NOTE_TYPES = NOTE_TYPES.map(type => type.toLowerCase());
-const FALLBACK_NOTE_MIN_WORDS = 100;
-const FALLBACK_NOTE_MAX_WORDS = 150;
+/** Everything but letters (including accented ones), digits and spaces. */
+const TITLE_PUNCTUATION = /[^\w\s\u00c0-\u024f]/g;
+
+const MAP_CHUNK_CHARS = 60000;
+const MAX_MAP_CHUNKS = 16;
+// Prompts for small context windows: the share of the window left for the
+// answer, characters per token of prompt (the router counts about four,
+// less for the JSON escaping it measures), and the least document text a
+// prompt is given however little room there is.
+const ANSWER_SHARE_OF_CONTEXT = 0.25;
+const PROMPT_CHARS_PER_TOKEN = 3.5;
+const MIN_PROMPT_DOCUMENT_CHARS = 2000;
+
+// Live updates go to subscribers immediately; the job record is only written
+// when the stage changes or this interval has passed.
+const PROGRESS_PERSIST_INTERVAL_MS = 2500;
+const STREAM_PREVIEW_INTERVAL_MS = 250;
+const MAX_SUMMARY_REPAIR_ATTEMPTS = 2;
+const DURABLE_PROGRESS_POLL_MS = 5000;
+
+type ChapterDigest = {
+  chunkIndex: number;
+  title: string;
+  synopsis: string;
+  keyIdeas: Array<{ title: string; explanation: string; evidence: string }>;
+  notableQuotes: string[];
+};
 
-type NoteMeta = {
-  bookTitle: string | null;
-  bookAuthor: string | null;
+export type SummaryJobPayload = {
+  documentId: string;
+  bookTitle?: string;
+  bookAuthor?: string;
+  /** Use this model instead of routing by task (e.g. to compare providers). */
+  model?: string;
+  /** Prompt template version to write with; the default style when absent. */
+  promptTemplateId?: string;
+  /** Length and structure targets; the template's own when absent. */
+  targets?: SummaryTargets;
+  /** Language to write in; the document's detected language when absent. */
+  language?: LanguageCode;
+  /** Ask the models afresh instead of reusing cached responses. */
+  bypassCache?: boolean;
+};
+
+export type SummaryProgress = ProgressUpdate & {
+  jobStatus?: string;
+  attempts?: number;
+  maxAttempts?: number;
+  lastError?: string | null;
 };
 
-const progressStore = new Map<string, ProgressUpdate>();
+export type ProgressReporter = (update: ProgressUpdate) => Promise<void>;
 
-export function getProgress(summaryId: string): ProgressUpdate | null {
-  return progressStore.get(summaryId) ?? null;
+/**
+ * Read generation progress from the durable job record, so it survives
+ * restarts and is visible from any server instance.
+ */
+export async function getProgress(summaryId: string): Promise<SummaryProgress | null> {
+  const job = await getLatestSummaryJob(summaryId);
+  if (!job) {
+    return null;
+  }
+
+  let progress: ProgressUpdate = {
+    stage: job.status === "queued" ? "Queued for generation..." : "Initializing...",
+    sectionsCompleted: 0,
+    totalSections: 0,
+  };
+  if (job.progress) {
+    try {
+      progress = JSON.parse(job.progress) as ProgressUpdate;
+    } catch (error) {
+      console.warn(`[Summary] Ignoring unreadable progress for job ${job.id}:`, error);
+    }
+  }
+
+  if (job.status === "failed") {
+    progress = { ...progress, stage: `Error: ${job.lastError ?? "Summary generation failed"}` };
+  }
+
+  return {
+    ...progress,
+    jobStatus: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+  };
 }
 
-export async function generateSummaryWithProgress(
-  documentId: string,
+/**
+ * Yield progress for a summary until it completes or fails. Updates published
+ * by a worker on this instance arrive as soon as they happen; the durable job
+ * record is re-read periodically so work running elsewhere is still reported.
+ */
+export async function* streamSummaryProgress(
   summaryId: string,
-  bookTitle?: string,
-  bookAuthor?: string,
-): Promise<void> {
+  signal?: AbortSignal,
+): AsyncGenerator<SummaryProgress> {
+  // Each update carries a complete snapshot, so only the newest one matters.
+  let pending: ProgressUpdate | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const unsubscribe = subscribeToSummaryProgress(summaryId, update => {
+    pending = update;
+    notify();
+  });
+  signal?.addEventListener("abort", notify);
+
   try {
-    progressStore.set(summaryId, {
-      stage: "Extracting document content...",
-      sectionsCompleted: 0,
-      totalSections: 0,
-    });
+    let latest: SummaryProgress | null = await getProgress(summaryId);
+    if (latest) {
+      yield latest;
+    }
 
-    const document = await getDocument(documentId);
-    if (!document || !document.extractedText) {
-      throw new Error("Document not found or not processed");
+    while (!signal?.aborted && !isFinishedProgress(latest)) {
+      if (!pending) {
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, DURABLE_PROGRESS_POLL_MS);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+      if (signal?.aborted) {
+        break;
+      }
+
+      const live: ProgressUpdate | null = pending;
+      pending = null;
+      latest = live ?? (await getProgress(summaryId));
+      if (latest) {
+        yield latest;
+      }
     }
+  } finally {
+    unsubscribe();
+    signal?.removeEventListener("abort", notify);
+  }
+}
 
-    const derivedTitle = normalizeTitle(bookTitle) || deriveTitleFromFilename(document.originalFilename) || "Uploaded Document";
-    const derivedAuthor = normalizeString(bookAuthor) || "Unknown Author";
+function isFinishedProgress(progress: SummaryProgress | null): boolean {
+  if (!progress) {
+    return false;
+  }
+  return (
+    progress.stage === "Complete!" ||
+    progress.jobStatus === "completed" ||
+    progress.jobStatus === "failed"
+  );
+}
 
-    progressStore.set(summaryId, {
-      stage: "Analyzing content and researching related books...",
-      sectionsCompleted: 0,
-      totalSections: 0,
-    });
+/**
+ * Publish every update to live subscribers and persist a throttled subset to
+ * the job record. Writes are chained so a slow write can never land after a
+ * newer one.
+ */
+export function createProgressReporter(
+  summaryId: string,
+  persist: (progress: ProgressUpdate) => Promise<void>,
+): ProgressReporter {
+  let lastKey = "";
+  let lastPersistedAt = 0;
+  let writes: Promise<void> = Promise.resolve();
+
+  return async update => {
+    publishSummaryProgress(summaryId, update);
+
+    const key = `${update.stage}|${update.sectionsCompleted}|${update.totalSections}`;
+    const now = Date.now();
+    if (key === lastKey && now - lastPersistedAt < PROGRESS_PERSIST_INTERVAL_MS) {
+      return;
+    }
+    lastKey = key;
+    lastPersistedAt = now;
 
-    const prompt = generateShortformPrompt(document.extractedText, bookTitle ?? undefined, bookAuthor ?? undefined);
+    writes = writes.catch(() => undefined).then(() => persist(update));
+    await writes;
+  };
+}
 
-    const hasHostedModel = hasLLMProvidersConfigured();
+/**
+ * Job queue handler for `summary` jobs.
+ */
+export const summaryJobHandler: JobHandler = {
+  run: async (job, context) => {
+    const summary = await getSummary(job.summaryId);
+    if (!summary) {
+      throw new Error("Summary not found");
+    }
+    if (summary.status === "completed") {
+      // A previous attempt finished after its lease was released (e.g. during shutdown).
+      return;
+    }
 
-    progressStore.set(summaryId, {
-      stage: hasHostedModel
-        ? "AI is generating comprehensive summary with research..."
-        : "Generating detailed offline summary (API keys not configured)...",
-      sectionsCompleted: 0,
-      totalSections: 0,
+    const payload = parseJobPayload<SummaryJobPayload>(job);
+    await runWithLLMUsageScope({ summaryId: job.summaryId }, () =>
+      runWithLLMCacheBypass(payload.bypassCache ?? false, () =>
+        generateSummaryWithProgress(
+          {
+            summaryId: job.summaryId,
+            requestedBy: job.userId,
+            documentId: payload.documentId,
+            bookTitle: payload.bookTitle,
+            bookAuthor: payload.bookAuthor,
+            model: payload.model,
+            promptTemplateId: payload.promptTemplateId,
+            targets: payload.targets,
+            language: payload.language,
+          },
+          createProgressReporter(job.summaryId, context.reportProgress),
+        ),
+      ),
+    );
+  },
+  onFailure: async (job: SummaryJob, error: Error) => {
+    await markSummaryGenerationFailed(job.summaryId, error);
+  },
+};
+
+/**
+ * Generate a summary and persist it. Errors propagate to the caller (the job
+ * queue), which decides whether to retry or mark the summary failed.
+ */
+export async function generateSummaryWithProgress(
+  request: SummaryJobPayload & { summaryId: string; requestedBy?: string },
+  reportProgress: ProgressReporter,
+): Promise<void> {
+  const { documentId, summaryId, bookTitle, bookAuthor, model } = request;
+  const template = await loadPromptTemplate(request.promptTemplateId);
+  const targets = request.targets ?? template.variables.targets;
+
+  await reportProgress({
+    stage: "Extracting document content...",
+    sectionsCompleted: 0,
+    totalSections: 0,
+  });
+
+  const document = await getDocument(documentId);
+  if (!document || !document.extractedText) {
+    throw new Error("Document not found or not processed");
+  }
+
+  const sourceLanguage = isSupportedLanguage(document.language) ? document.language : null;
+  const requestedLanguage = request.language ?? sourceLanguage ?? DEFAULT_LANGUAGE;
+
+  const derivedTitle = normalizeTitle(bookTitle) || deriveTitleFromFilename(document.originalFilename) || "Uploaded Document";
+  const derivedAuthor = normalizeString(bookAuthor) || "Unknown Author";
+  const documentText = document.extractedText;
+
+  const renderPrompt = (text: string, isChapterDigest = false) =>
+    renderPromptTemplate(
+      template,
+      {
+        documentText: text,
+        bookTitle: bookTitle ?? undefined,
+        bookAuthor: bookAuthor ?? undefined,
+        isChapterDigest,
+        outputLanguage: requestedLanguage,
+        sourceLanguage,
+      },
+      targets,
+    );
+
+  const hasHostedModel = hasLLMProvidersConfigured();
+  const contextWindow = hasHostedModel ? getSmallestContextWindow("summary_generation", model) : undefined;
+  const needsChunking = documentText.length > promptDocumentBudget(contextWindow, renderPrompt("").length);
+
+  let structured: StructuredSummary | null = null;
+  let modelUsed: string | null = null;
+  let generationNote = "Offline summarizer (no LLM provider configured)";
+  let totalSteps = 1;
+
+  if (hasHostedModel && needsChunking) {
+    const digestPromptChars = generateChapterDigestPrompt({
+      chapterText: "",
+      chapterTitle: "",
+      chapterIndex: 0,
+      totalChapters: MAX_MAP_CHUNKS,
+      bookTitle,
+      bookAuthor,
+    }).length;
+    const chunks = splitIntoChapterChunks(documentText, {
+      maxChunkChars: resolveChunkSize(documentText.length, promptDocumentBudget(contextWindow, digestPromptChars)),
+      boundaries: boundariesFromOutline(document.outline),
     });
+    totalSteps = chunks.length + 1;
 
-    let structured: StructuredSummary | null = null;
-    if (hasHostedModel) {
-      structured = await requestLLMSummary(prompt, derivedTitle, derivedAuthor, document.extractedText);
-    }
+    const digests = await summarizeChunks(chunks, {
+      reportProgress,
+      bookTitle,
+      bookAuthor,
+      fallbackTitle: derivedTitle,
+      fallbackAuthor: derivedAuthor,
+      model,
+    });
+
+    await reportProgress({
+      stage: `Combining ${digests.length} chapter digests into the final summary...`,
+      sectionsCompleted: chunks.length,
+      totalSections: totalSteps,
+      currentSection: undefined,
+      partialContent: buildDigestPreview(digests, derivedTitle, derivedAuthor),
+    });
 
-    if (!structured) {
-      structured = generateOfflineSummary(document.extractedText, derivedTitle, derivedAuthor);
+    const digestText = formatDigestsForPrompt(
+      digests,
+      promptDocumentBudget(contextWindow, renderPrompt("", true).length),
+    );
+    const prompt = renderPrompt(digestText, true);
+    const onDelta = createStreamingPreview({
+      reportProgress,
+      stage: "Writing the final summary...",
+      sectionsCompleted: chunks.length,
+      totalSections: totalSteps,
+      fallbackTitle: derivedTitle,
+      fallbackAuthor: derivedAuthor,
+    });
+    const result = await requestLLMSummary(prompt, derivedTitle, derivedAuthor, { onDelta, model });
+    if (result) {
+      structured = result.summary;
+      modelUsed = result.model;
+      generationNote = `Summarized from ${digests.length} chapter digests`;
+    } else {
+      structured = buildSummaryFromDigests(digests, derivedTitle, derivedAuthor, documentText);
+      generationNote = "Assembled from chapter digests after the final summary request failed";
     }
+  } else if (hasHostedModel) {
+    await reportProgress({
+      stage: "AI is generating comprehensive summary with research...",
+      sectionsCompleted: 0,
+      totalSections: totalSteps,
+    });
 
-    const sanitized = sanitizeStructuredSummary(structured, {
+    const prompt = renderPrompt(documentText);
+    const onDelta = createStreamingPreview({
+      reportProgress,
+      stage: "AI is writing the summary...",
+      sectionsCompleted: 0,
+      totalSections: totalSteps,
       fallbackTitle: derivedTitle,
       fallbackAuthor: derivedAuthor,
-      documentText: document.extractedText,
     });
+    const result = await requestLLMSummary(prompt, derivedTitle, derivedAuthor, { onDelta, model });
+    if (result) {
+      structured = result.summary;
+      modelUsed = result.model;
+      generationNote = "Single-pass summary";
+    } else {
+      generationNote = "Offline summarizer (LLM request failed)";
+    }
+  } else {
+    await reportProgress({
+      stage: "Generating detailed offline summary (API keys not configured)...",
+      sectionsCompleted: 0,
+      totalSections: totalSteps,
+    });
+  }
 
-    const totalSections = sanitized.sections.length;
-
-    for (let i = 0; i < totalSections; i++) {
-      progressStore.set(summaryId, {
-        stage: "Processing sections...",
-        sectionsCompleted: i + 1,
-        totalSections,
-        currentSection: sanitized.sections[i]?.title ?? `Section ${i + 1}`,
-        partialContent: {
-          ...sanitized,
-          sections: sanitized.sections.slice(0, i + 1),
-        },
-      });
+  // The offline summarizer extracts passages, so it writes in the document's
+  // own language whatever was asked for.
+  const writtenOffline = !structured;
+  const language = writtenOffline ? sourceLanguage ?? DEFAULT_LANGUAGE : requestedLanguage;
+  if (!structured) {
+    structured = generateOfflineSummary(documentText, derivedTitle, derivedAuthor, targets, language);
+    if (language !== requestedLanguage) {
+      generationNote += `. Written in ${languageName(language)}; ${languageName(requestedLanguage)} needs a model`;
     }
+  }
 
-    progressStore.set(summaryId, {
-      stage: "Finalizing summary...",
-      sectionsCompleted: totalSections,
-      totalSections,
-      currentSection: undefined,
-      partialContent: sanitized,
-    });
+  const sanitized = sanitizeStructuredSummary(structured, {
+    fallbackTitle: derivedTitle,
+    fallbackAuthor: derivedAuthor,
+    targets,
+    language,
+  });
+
+  await reportProgress({
+    stage: "Checking the summary against its length and structure targets...",
+    sectionsCompleted: totalSteps,
+    totalSections: totalSteps,
+    currentSection: undefined,
+  });
+  // Only a summary the model wrote is worth completing with the model; the
+  // offline summarizer's output is scored but left as it is.
+  const qualityGate = await applyQualityGate(sanitized, {
+    documentText,
+    fill: !writtenOffline,
+    targets,
+    language,
+  });
+  if (qualityGate.padded.length > 0) {
+    generationNote += `. Quality gate filled ${qualityGate.padded.length} missing part(s)`;
+  }
 
+  attachSourceLocations(
+    sanitized.sections,
+    createPassageLocator(documentText, parseDocumentOutline(document.outline)),
+  );
+
+  await reportProgress({
+    stage: "Checking quotes, claims and research sources...",
+    sectionsCompleted: totalSteps,
+    totalSections: totalSteps,
+    currentSection: undefined,
+  });
+  await groundSections(sanitized.sections, documentText);
+  sanitized.researchSources = await verifyResearchSources(sanitized.researchSources);
+
+  await reportProgress({
+    stage: "Finalizing summary...",
+    sectionsCompleted: totalSteps,
+    totalSections: totalSteps,
+    currentSection: undefined,
+    partialContent: sanitized,
+  });
+
+  await withSummaryWriteLock(summaryId, async () => {
     await updateSummary(summaryId, {
       bookTitle: sanitized.bookTitle || bookTitle || "Untitled",
       bookAuthor: sanitized.bookAuthor || bookAuthor || "Unknown Author",
@@ -189,76 +565,358 @@ export async function generateSummaryWithProgress(
       mainContent: JSON.stringify({
         sections: sanitized.sections,
         researchSources: sanitized.researchSources,
+        qualityGate,
       }),
       researchSourcesCount: sanitized.researchSources.length,
       jotsNotesCount: countJotsNotes(sanitized.sections),
+      promptTemplateId: template.id,
+      language,
       status: "completed",
       errorMessage: null,
     });
 
-    await deleteResearchSourcesBySummaryId(summaryId);
-    for (const source of sanitized.researchSources) {
-      await createResearchSource({
-        id: nanoid(),
-        summaryId,
-        sourceType: "book",
-        bookTitle: source.title,
-        authorName: `${source.author}${source.authorCredentials ? ` — ${source.authorCredentials}` : ""}`,
-        description: source.relevance,
-      });
+    await saveResearchSources(summaryId, sanitized.researchSources);
+    await indexSummary(summaryId);
+
+    const isRerun = Boolean(await getLatestSummaryVersion(summaryId));
+    await recordSummaryVersion(summaryId, {
+      changeType: isRerun ? "regenerated" : "generated",
+      authorId: request.requestedBy ?? "system",
+      model: modelUsed,
+      promptVersion: template.id,
+      description: isRerun ? `Full regeneration. ${generationNote}` : generationNote,
+    });
+  });
+
+  await reportProgress({
+    stage: "Complete!",
+    sectionsCompleted: totalSteps,
+    totalSections: totalSteps,
+    partialContent: sanitized,
+  });
+}
+
+/**
+ * Link each subsection to the passage of the book it most closely matches.
+ * Subsections without a convincing match keep no source.
+ */
+export function attachSourceLocations(
+  sections: Array<{ subsections: Array<{ title: string; content: string; source?: SourceLocation }> }>,
+  locate: (query: string) => SourceLocation | null,
+): void {
+  for (const section of sections) {
+    for (const subsection of section.subsections) {
+      const source = locate(`${subsection.title}\n${subsection.content}`);
+      if (source) {
+        subsection.source = source;
+      } else {
+        delete subsection.source;
+      }
     }
+  }
+}
 
-    progressStore.set(summaryId, {
-      stage: "Complete!",
-      sectionsCompleted: totalSections,
-      totalSections,
-      partialContent: sanitized,
+/**
+ * Replace the research source rows for a summary with `sources`.
+ */
+export async function saveResearchSources(summaryId: string, sources: SanitizedResearchSource[]): Promise<void> {
+  await deleteResearchSourcesBySummaryId(summaryId);
+  for (const source of sources) {
+    await createResearchSource({
+      id: nanoid(),
+      summaryId,
+      sourceType: "book",
+      bookTitle: source.title,
+      authorName: `${source.author}${source.authorCredentials ? ` — ${source.authorCredentials}` : ""}`,
+      description: source.relevance,
+      verificationStatus: source.verificationStatus ?? "unchecked",
+      isbn: source.isbn ?? null,
     });
+  }
+}
 
-    setTimeout(() => {
-      progressStore.delete(summaryId);
-    }, 5 * 60 * 1000);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error("[Summary] Generation error:", error);
+/**
+ * Send a request to the explicitly chosen model, or route it by task.
+ */
+async function callSummaryModel(
+  params: InvokeParams,
+  options: { model?: string; onDelta?: (delta: string) => void } = {},
+): Promise<InvokeResult> {
+  const { model, onDelta } = options;
+  if (model) {
+    return onDelta ? await streamLLMWithModel(params, model, onDelta) : await invokeLLMWithModel(params, model);
+  }
+  return onDelta
+    ? await streamLLMWithRouting(params, "summary_generation", onDelta)
+    : await invokeLLMWithRouting(params, "summary_generation");
+}
 
-    progressStore.set(summaryId, {
-      stage: `Error: ${message}`,
-      sectionsCompleted: 0,
-      totalSections: 0,
+/**
+ * Characters of document text a prompt can carry alongside `overheadChars`
+ * of instructions: MAX_PROMPT_DOCUMENT_CHARS, or less when `contextWindow`
+ * (the smallest among the models that may answer) cannot hold that much and
+ * still leave room for the answer.
+ */
+function promptDocumentBudget(contextWindow: number | undefined, overheadChars: number): number {
+  if (!contextWindow) {
+    return MAX_PROMPT_DOCUMENT_CHARS;
+  }
+  const promptChars = Math.floor(contextWindow * (1 - ANSWER_SHARE_OF_CONTEXT) * PROMPT_CHARS_PER_TOKEN);
+  return Math.min(MAX_PROMPT_DOCUMENT_CHARS, Math.max(MIN_PROMPT_DOCUMENT_CHARS, promptChars - overheadChars));
+}
+
+/**
+ * Pick a chunk size that keeps the combined chapter digests within a single
+ * reduce prompt, growing chunks for very long books instead of dropping text,
+ * but never past what one digest prompt can carry.
+ */
+function resolveChunkSize(documentLength: number, maxChunkChars: number): number {
+  return Math.min(maxChunkChars, Math.max(MAP_CHUNK_CHARS, Math.ceil(documentLength / MAX_MAP_CHUNKS)));
+}
+
+async function summarizeChunks(
+  chunks: DocumentChunk[],
+  context: {
+    reportProgress: ProgressReporter;
+    bookTitle?: string;
+    bookAuthor?: string;
+    fallbackTitle: string;
+    fallbackAuthor: string;
+    model?: string;
+  },
+): Promise<ChapterDigest[]> {
+  const digests: ChapterDigest[] = [];
+  const totalSteps = chunks.length + 1;
+
+  for (const chunk of chunks) {
+    await context.reportProgress({
+      stage: `Reading part ${chunk.index + 1} of ${chunks.length}...`,
+      sectionsCompleted: chunk.index,
+      totalSections: totalSteps,
+      currentSection: chunk.title,
+      partialContent:
+        digests.length > 0 ? buildDigestPreview(digests, context.fallbackTitle, context.fallbackAuthor) : undefined,
     });
 
-    setTimeout(() => {
-      progressStore.delete(summaryId);
-    }, 5 * 60 * 1000);
+    digests.push(await summarizeChunk(chunk, chunks.length, context.bookTitle, context.bookAuthor, context.model));
+  }
+
+  return digests;
+}
 
-    try {
-      await updateSummary(summaryId, {
-        status: "failed",
-        errorMessage: message,
-      });
-    } catch (updateError) {
-      console.error("[Summary] Failed to persist error status:", updateError);
-    }
+async function summarizeChunk(
+  chunk: DocumentChunk,
+  totalChunks: number,
+  bookTitle?: string,
+  bookAuthor?: string,
+  model?: string,
+): Promise<ChapterDigest> {
+  const prompt = generateChapterDigestPrompt({
+    chapterText: chunk.text,
+    chapterTitle: chunk.title,
+    chapterIndex: chunk.index,
+    totalChapters: totalChunks,
+    bookTitle,
+    bookAuthor,
+  });
+
+  try {
+    const response = await callSummaryModel(
+      {
+        messages: [{ role: "user", content: prompt }],
+        maxTokens: 4096,
+      },
+      { model },
+    );
+
+    return parseChapterDigest(response.choices[0]?.message?.content, chunk);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Summary] Chapter digest ${chunk.index + 1}/${totalChunks} fell back to offline extraction: ${message}`);
+    return buildOfflineDigest(chunk);
   }
 }
 
+function parseChapterDigest(content: unknown, chunk: DocumentChunk): ChapterDigest {
+  const text = extractTextContent(content);
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("No JSON found in chapter digest response");
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]);
+  const keyIdeas = Array.isArray(parsed.keyIdeas)
+    ? parsed.keyIdeas
+        .filter((idea: unknown) => idea && typeof idea === "object")
+        .map((idea: any, ideaIndex: number) => ({
+          title: normalizeString(idea.title) || `Key Idea ${ideaIndex + 1}`,
+          explanation: normalizeParagraph(idea.explanation),
+          evidence: normalizeParagraph(idea.evidence),
+        }))
+        .filter((idea: ChapterDigest["keyIdeas"][number]) => idea.explanation.length > 0)
+    : [];
+  const notableQuotes = Array.isArray(parsed.notableQuotes)
+    ? parsed.notableQuotes.map(normalizeParagraph).filter(Boolean)
+    : [];
+
+  return {
+    chunkIndex: chunk.index,
+    title: normalizeTitle(parsed.chapterTitle) || chunk.title,
+    synopsis: normalizeParagraph(parsed.synopsis),
+    keyIdeas,
+    notableQuotes,
+  };
+}
+
+function buildOfflineDigest(chunk: DocumentChunk): ChapterDigest {
+  const sentences = splitIntoSentences(chunk.text);
+  const ideaCount = Math.min(3, Math.max(1, Math.floor(sentences.length / 8)));
+  const perIdea = Math.max(1, Math.floor(Math.min(sentences.length, 24) / ideaCount));
+
+  return {
+    chunkIndex: chunk.index,
+    title: chunk.title,
+    synopsis: sentences.slice(0, 5).join(" "),
+    keyIdeas: Array.from({ length: ideaCount }, (_, ideaIndex) => {
+      const excerpt = sentences.slice(ideaIndex * perIdea, (ideaIndex + 1) * perIdea);
+      return {
+        title: buildSectionTitle(excerpt[0] ?? `${chunk.title} Idea ${ideaIndex + 1}`),
+        explanation: excerpt.join(" "),
+        evidence: "",
+      };
+    }).filter(idea => idea.explanation.length > 0),
+    notableQuotes: [],
+  };
+}
+
+function formatDigestsForPrompt(digests: ChapterDigest[], maxChars: number): string {
+  const budget = Math.floor(maxChars / Math.max(1, digests.length)) - 64;
+
+  return digests
+    .map((digest, index) => {
+      const lines = [`=== Part ${index + 1}: ${digest.title} ===`];
+      if (digest.synopsis) {
+        lines.push(`Synopsis: ${digest.synopsis}`);
+      }
+      if (digest.keyIdeas.length > 0) {
+        lines.push("Key ideas:");
+        for (const idea of digest.keyIdeas) {
+          lines.push(`- ${idea.title}: ${idea.explanation}${idea.evidence ? ` (Evidence: ${idea.evidence})` : ""}`);
+        }
+      }
+      if (digest.notableQuotes.length > 0) {
+        lines.push(`Notable quotes: ${digest.notableQuotes.map(quote => `"${quote}"`).join(" ")}`);
+      }
+      const block = lines.join("\n");
+      return block.length > budget ? `${block.slice(0, budget).trimEnd()}…` : block;
+    })
+    .join("\n\n");
+}
+
+function digestsToSections(digests: ChapterDigest[]): Section[] {
+  return digests
+    .filter(digest => digest.keyIdeas.length > 0 || digest.synopsis)
+    .map(digest => ({
+      title: digest.title,
+      subsections: (digest.keyIdeas.length > 0
+        ? digest.keyIdeas
+        : [{ title: digest.title, explanation: digest.synopsis, evidence: "" }]
+      ).map(idea => ({
+        title: idea.title,
+        content: idea.evidence ? `${idea.explanation}\n\n${idea.evidence}` : idea.explanation,
+        jotsNotes: [],
+      })),
+    }));
+}
+
+function buildDigestPreview(digests: ChapterDigest[], bookTitle: string, bookAuthor: string): SanitizedSummary {
+  return {
+    bookTitle,
+    bookAuthor,
+    introduction: "",
+    onePageSummary: "",
+    sections: digestsToSections(digests).map(section => ({
+      title: section.title,
+      subsections: section.subsections.map(subsection => ({
+        title: subsection.title,
+        content: subsection.content,
+        jotsNotes: [],
+      })),
+    })),
+    researchSources: [],
+  };
+}
+
+/**
+ * Used when the final reduce call fails: keep the per-chapter work instead of
+ * discarding it for the offline summarizer.
+ */
+function buildSummaryFromDigests(
+  digests: ChapterDigest[],
+  bookTitle: string,
+  bookAuthor: string,
+  documentText: string,
+): StructuredSummary {
+  const sections = normalizeSections(digestsToSections(digests));
+  const synopses = digests.map(digest => digest.synopsis).filter(Boolean);
+
+  return {
+    bookTitle,
+    bookAuthor,
+    introduction: buildParagraphs(splitIntoSentences(synopses.slice(0, 2).join(" ")), 4),
+    onePageSummary:
+      buildParagraphs(splitIntoSentences(synopses.join(" ")), 5) || buildNarrativeFromSections(sections, documentText, 4),
+    sections,
+    researchSources: [],
+  };
+}
+
+/**
+ * Request a summary constrained to the summary JSON schema. Output that still
+ * fails validation is sent back with the specific problems for a repair pass;
+ * if repairs run out, whatever parses is salvaged rather than discarded.
+ */
 async function requestLLMSummary(
   prompt: string,
   fallbackTitle: string,
   fallbackAuthor: string,
-  originalText: string,
-): Promise<StructuredSummary | null> {
+  options: { onDelta?: (delta: string) => void; model?: string } = {},
+): Promise<{ summary: StructuredSummary; model: string } | null> {
+  const messages: Message[] = [{ role: "user", content: prompt }];
+
   try {
-    const response = await invokeLLMWithRouting(
-      {
-        messages: [{ role: "user", content: prompt }],
-      },
-      "summary_generation",
-    );
+    for (let attempt = 0; ; attempt++) {
+      const params = { messages, outputSchema: summaryOutputSchema };
+      // Only the first pass is previewed; repairs would restart the preview from scratch.
+      const response = await callSummaryModel(params, {
+        model: options.model,
+        onDelta: attempt === 0 ? options.onDelta : undefined,
+      });
+
+      const raw = extractTextContent(response.choices[0]?.message?.content);
+      const validation = validateModelSummary(raw);
+      if (validation.success) {
+        return { summary: validation.data, model: response.model };
+      }
+
+      if (attempt >= MAX_SUMMARY_REPAIR_ATTEMPTS) {
+        console.warn(
+          `[Summary] Output still invalid after ${attempt} repair(s); salvaging: ${validation.issues.slice(0, 3).join("; ")}`,
+        );
+        return {
+          summary: parseModelSummary(raw, fallbackTitle, fallbackAuthor),
+          model: response.model,
+        };
+      }
 
-    const content = response.choices[0]?.message?.content;
-    return parseModelSummary(content, fallbackTitle, fallbackAuthor, originalText);
+      console.warn(
+        `[Summary] Output failed schema validation with ${validation.issues.length} issue(s); requesting repair ${attempt + 1}/${MAX_SUMMARY_REPAIR_ATTEMPTS}`,
+      );
+      messages.push(
+        { role: "assistant", content: raw },
+        { role: "user", content: generateSummaryRepairPrompt(validation.issues) },
+      );
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.warn(`[Summary] Falling back to offline summarizer: ${message}`);
@@ -266,11 +924,102 @@ async function requestLLMSummary(
   }
 }
 
+/**
+ * Turn streamed model output into throttled preview updates. The partial JSON
+ * is re-parsed on each tick, so sections and Jots notes appear as soon as
+ * their text is complete.
+ */
+function createStreamingPreview(options: {
+  reportProgress: ProgressReporter;
+  stage: string;
+  sectionsCompleted: number;
+  totalSections: number;
+  fallbackTitle: string;
+  fallbackAuthor: string;
+}): (delta: string) => void {
+  let buffer = "";
+  let lastEmittedAt = 0;
+
+  return delta => {
+    buffer += delta;
+    const now = Date.now();
+    if (now - lastEmittedAt < STREAM_PREVIEW_INTERVAL_MS) {
+      return;
+    }
+    lastEmittedAt = now;
+
+    const preview = buildStreamingPreview(parsePartialJson(buffer), options.fallbackTitle, options.fallbackAuthor);
+    if (!preview) {
+      return;
+    }
+
+    options
+      .reportProgress({
+        stage: options.stage,
+        sectionsCompleted: options.sectionsCompleted,
+        totalSections: options.totalSections,
+        currentSection: preview.sections[preview.sections.length - 1]?.title,
+        partialContent: preview,
+      })
+      .catch(error => console.warn("[Summary] Failed to report streaming progress:", error));
+  };
+}
+
+/**
+ * Map a partially parsed summary onto the preview shape without any of the
+ * padding `sanitizeStructuredSummary` applies to finished output.
+ */
+function buildStreamingPreview(
+  partial: unknown,
+  fallbackTitle: string,
+  fallbackAuthor: string,
+): SanitizedSummary | undefined {
+  if (!partial || typeof partial !== "object" || Array.isArray(partial)) {
+    return undefined;
+  }
+
+  const parsed = partial as Record<string, any>;
+  const sections: SanitizedSection[] = (Array.isArray(parsed.sections) ? parsed.sections : [])
+    .filter((section: unknown) => section && typeof section === "object")
+    .map((section: any, sectionIndex: number) => ({
+      title: normalizeString(section.title) || `Section ${sectionIndex + 1}`,
+      subsections: (Array.isArray(section.subsections) ? section.subsections : [])
+        .filter((subsection: unknown) => subsection && typeof subsection === "object")
+        .map((subsection: any, subsectionIndex: number) => ({
+          title: normalizeString(subsection.title) || `Part ${subsectionIndex + 1}`,
+          content: normalizeParagraph(subsection.content),
+          jotsNotes: (Array.isArray(subsection.jotsNotes) ? subsection.jotsNotes : [])
+            .filter((note: any) => note && typeof note === "object" && normalizeParagraph(note.content))
+            .map((note: any) => ({
+              type: normalizeNoteType(coerceString(note.type ?? note.noteType)),
+              content: normalizeParagraph(note.content),
+            })),
+        })),
+    }));
+
+  const researchSources: SanitizedResearchSource[] = (Array.isArray(parsed.researchSources) ? parsed.researchSources : [])
+    .filter((source: any) => source && typeof source === "object" && normalizeString(source.title))
+    .map((source: any) => ({
+      title: normalizeString(source.title),
+      author: normalizeString(source.author),
+      authorCredentials: normalizeString(source.authorCredentials),
+      relevance: normalizeParagraph(source.relevance),
+    }));
+
+  return {
+    bookTitle: normalizeTitle(parsed.bookTitle) || fallbackTitle,
+    bookAuthor: normalizeString(parsed.bookAuthor) || fallbackAuthor,
+    introduction: normalizeParagraph(parsed.introduction),
+    onePageSummary: normalizeParagraph(parsed.onePageSummary),
+    sections,
+    researchSources,
+  };
+}
+
 function parseModelSummary(
   content: unknown,
   fallbackTitle: string,
   fallbackAuthor: string,
-  originalText: string,
 ): StructuredSummary {
   const text = extractTextContent(content);
   const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -290,21 +1039,13 @@ function parseModelSummary(
   const sectionsInput = Array.isArray(parsed.sections) ? parsed.sections : Array.isArray(parsed) ? parsed : [];
   const sections = normalizeSections(sectionsInput);
 
-  const introduction =
-    normalizeParagraph(parsed.introduction) || buildNarrativeFromSections(sections, originalText, 2);
-  const onePageSummary =
-    normalizeParagraph(parsed.onePageSummary) || buildNarrativeFromSections(sections, originalText, 4);
-
-  let researchSources = normalizeResearchSources(parsed.researchSources, fallbackTitle, fallbackAuthor);
-  if (researchSources.length === 0) {
-    researchSources = buildFallbackSources(fallbackTitle, fallbackAuthor);
-  }
+  const researchSources = normalizeResearchSources(parsed.researchSources);
 
   return {
     bookTitle: normalizeTitle(parsed.bookTitle) || fallbackTitle,
     bookAuthor: normalizeString(parsed.bookAuthor) || fallbackAuthor,
-    introduction,
-    onePageSummary,
+    introduction: normalizeParagraph(parsed.introduction),
+    onePageSummary: normalizeParagraph(parsed.onePageSummary),
     sections,
     researchSources,
   };
@@ -341,7 +1082,7 @@ function normalizeSubsections(subsections: any[], sectionIndex: number, fallback
     .map((subsection, subsectionIndex) => {
       const title = normalizeString(subsection.title) || `Key Insight ${sectionIndex + 1}.${subsectionIndex + 1}`;
       const content = normalizeParagraph(subsection.content) || normalizeParagraph(subsection.summary) || "";
-      const notes = normalizeJotsNotes(subsection.jotsNotes, content, sectionIndex, subsectionIndex);
+      const notes = normalizeJotsNotes(subsection.jotsNotes, sectionIndex, subsectionIndex);
       return {
         title,
         content,
@@ -354,7 +1095,7 @@ function normalizeSubsections(subsections: any[], sectionIndex: number, fallback
     normalized.push({
       title: `Key Insight ${sectionIndex + 1}.1`,
       content: fallbackContent.trim(),
-      jotsNotes: [createFallbackNote("Context", fallbackContent.trim(), sectionIndex, 0)],
+      jotsNotes: [],
     });
   }
 
@@ -363,12 +1104,11 @@ function normalizeSubsections(subsections: any[], sectionIndex: number, fallback
 
 function normalizeJotsNotes(
   notes: unknown,
-  content: string,
   sectionIndex: number,
   subsectionIndex: number,
 ): JotsNote[] {
   if (!Array.isArray(notes)) {
-    return [createFallbackNote(NOTE_TYPES[(sectionIndex + subsectionIndex) % NOTE_TYPES.length], content, sectionIndex, subsectionIndex)];
+    return [];
   }
 
   const normalized = notes
@@ -397,10 +1137,6 @@ function normalizeJotsNotes(
     })
     .filter(note => note.content.length > 0);
 
-  if (normalized.length === 0) {
-    normalized.push(createFallbackNote(NOTE_TYPES[(sectionIndex + subsectionIndex) % NOTE_TYPES.length], content, sectionIndex, subsectionIndex));
-  }
-
   return normalized;
 }
 
@@ -421,11 +1157,7 @@ function createFallbackNote(noteType: string, content: string, sectionIndex: num
   };
 }
 
-function normalizeResearchSources(
-  sources: unknown,
-  fallbackTitle: string,
-  fallbackAuthor: string,
-): ResearchSourceSummary[] {
+function normalizeResearchSources(sources: unknown): ResearchSourceSummary[] {
   if (!Array.isArray(sources)) {
     return [];
   }
@@ -433,29 +1165,12 @@ function normalizeResearchSources(
   return sources
     .filter(source => source && typeof source === "object")
     .map(source => ({
-      title: normalizeString((source as any).title) || fallbackTitle,
-      author: normalizeString((source as any).author) || fallbackAuthor,
+      title: normalizeString((source as any).title),
+      author: normalizeString((source as any).author),
       authorCredentials: normalizeString((source as any).authorCredentials) || undefined,
       relevance: normalizeParagraph((source as any).relevance) || undefined,
     }))
-    .filter(source => source.relevance && source.relevance.length > 0);
-}
-
-function buildFallbackSources(fallbackTitle: string, fallbackAuthor: string): ResearchSourceSummary[] {
-  return [
-    {
-      title: `${fallbackTitle} Companion Guide`,
-      author: fallbackAuthor,
-      authorCredentials: "Internal reference",
-      relevance: "Guidelines used to mirror the Shortform-style presentation while operating offline.",
-    },
-    {
-      title: "Local Summarization Heuristics",
-      author: "Jonathan's Jots Preview Engine",
-      authorCredentials: "Offline mode",
-      relevance: "Automated heuristics generated the outline, key ideas, and sample notes without external APIs.",
-    },
-  ];
+    .filter(source => source.title && source.author && source.relevance && source.relevance.length > 0);
 }
 
 function normalizeParagraph(value: unknown): string {
@@ -488,43 +1203,22 @@ function generateOfflineSummary(
   documentText: string,
   bookTitle: string,
   bookAuthor: string,
+  targets: SummaryTargets,
+  language: LanguageCode,
 ): StructuredSummary {
-  const sections = buildOfflineSections(documentText, bookTitle, bookAuthor);
-  const introduction = buildParagraphs(splitIntoSentences(documentText).slice(0, 12), 3);
-
-  const researchSources: ResearchSourceSummary[] = [];
-  const sectionPool = sections.length > 0
-    ? sections
-    : [
-        {
-          title: "Core Insights",
-          subsections: [
-            {
-              title: "Foundational Concepts",
-              content: documentText.slice(0, 280) || "Offline fallback content.",
-              jotsNotes: [],
-            },
-          ],
-        },
-      ];
-  const desiredSources = Math.max(8, Math.min(12, sectionPool.length * 2));
-
-  for (let i = 0; i < desiredSources; i++) {
-    const section = sectionPool[i % sectionPool.length];
-    researchSources.push({
-      title: `${bookTitle} Companion Source ${i + 1}`,
-      author: bookAuthor,
-      authorCredentials: `Offline Research Engine — Insight ${i + 1}`,
-      relevance: `Synthesised from section "${section.title}" to provide contextual grounding, comparative evidence, and actionable extensions when operating offline.`,
-    });
-  }
+  const text = summaryFallbackText(language);
+  const sections = buildOfflineSections(documentText, bookTitle, bookAuthor, targets, text);
+  const introduction = buildParagraphs(
+    takeSentencesUpTo(splitIntoSentences(documentText), targets.introductionWords.max),
+    3,
+  );
 
   const onePageSummary = buildParagraphs(
-    splitIntoSentences(
-      sections
-        .flatMap(section => section.subsections.slice(0, 1).map(subsection => subsection.content))
-        .join(" ")
-        .slice(0, 3500),
+    takeSentencesUpTo(
+      splitIntoSentences(
+        sections.flatMap(section => section.subsections.slice(0, 1).map(subsection => subsection.content)).join(" "),
+      ),
+      targets.onePageSummaryWords.max,
     ),
     4,
   );
@@ -532,26 +1226,37 @@ function generateOfflineSummary(
   return {
     bookTitle,
     bookAuthor,
-    introduction: introduction ||
-      "This offline summary provides a structured exploration of the uploaded document, highlighting the central narrative, context, and significant insights when live AI generation is unavailable.",
+    introduction: introduction || text.offlineIntroduction,
     onePageSummary,
     sections,
-    researchSources,
+    // The offline summarizer has no way to cite real books.
+    researchSources: [],
   };
 }
 
-function buildOfflineSections(documentText: string, bookTitle: string, bookAuthor: string): Section[] {
+/**
+ * Extractive sections: the document is cut into passages of about a
+ * subsection's target length, and as many sections as the targets allow are
+ * spread evenly over them, so later chapters are represented too.
+ */
+function buildOfflineSections(
+  documentText: string,
+  bookTitle: string,
+  bookAuthor: string,
+  targets: SummaryTargets,
+  text: SummaryFallbackText,
+): Section[] {
   const sentences = splitIntoSentences(documentText);
   if (sentences.length === 0) {
     return [
       {
-        title: "Overview",
+        title: text.overview,
         subsections: [
           {
-            title: "Key Insight 1",
-            content: "The uploaded document did not contain readable text. This placeholder summarises expected insights.",
+            title: text.keyInsight(1),
+            content: text.unreadableDocument,
             jotsNotes: [
-              createFallbackNote("Context", "Placeholder insight for unreadable documents.", 0, 0),
+              createFallbackNote("Context", text.unreadableDocumentNote, 0, 0),
             ],
           },
         ],
@@ -559,50 +1264,93 @@ function buildOfflineSections(documentText: string, bookTitle: string, bookAutho
     ];
   }
 
-  const chunkSize = Math.max(3, Math.ceil(sentences.length / 4));
+  const passages = groupSentencesByWords(sentences, targets.subsectionWords.min);
+  const perSection = Math.max(1, targets.subsectionsPerSection.max);
+  const sectionCount = Math.min(Math.ceil(passages.length / perSection), Math.max(1, targets.sections.max));
+  const stride = passages.length / sectionCount;
+  const notesPerSubsection = Math.min(Math.max(1, targets.notesPerSubsection.min), targets.notesPerSubsection.max);
   const sections: Section[] = [];
 
-  for (let i = 0; i < sentences.length; i += chunkSize) {
-    const chunk = sentences.slice(i, i + chunkSize);
-    const sectionTitle = buildSectionTitle(chunk[0] ?? `Insight ${i / chunkSize + 1}`);
-    const subsections: Subsection[] = chunk.map((sentence, idx) => {
-      const noteType = NOTE_TYPES[(sections.length + idx) % NOTE_TYPES.length];
-      return {
-        title: `${sectionTitle} Insight ${idx + 1}`,
-        content: sentence,
-        jotsNotes: [
-          {
-            type: "shortform_note",
-            noteType,
-            content: buildNoteContent({
-              noteType: noteType.toLowerCase(),
-              excerpt: sentence,
-              bookTitle,
-              bookAuthor,
-            }),
-            sources: [
-              {
-                title: `${bookTitle} Offline Companion`,
-                author: bookAuthor,
-                authorCredentials: `Generated offline insight ${idx + 1}`,
-              },
-            ],
-          },
-        ],
-      };
-    });
+  for (let sectionIndex = 0; sectionIndex < sectionCount; sectionIndex++) {
+    const group = passages
+      .slice(Math.floor(sectionIndex * stride), Math.floor((sectionIndex + 1) * stride))
+      .slice(0, perSection);
+    const sectionTitle = buildSectionTitle(group[0][0] ?? text.keyInsight(sectionIndex + 1), text);
+    const subsections: Subsection[] = group.map((passage, idx) => ({
+      title: text.insight(sectionTitle, idx + 1),
+      content: passage.join(" "),
+      jotsNotes: Array.from({ length: notesPerSubsection }, (_, noteIndex) => {
+        const noteType = NOTE_TYPES[(sectionIndex + idx + noteIndex) % NOTE_TYPES.length];
+        return {
+          type: "shortform_note",
+          noteType,
+          content: text.offlineNote({
+            noteType: noteType.toLowerCase(),
+            excerpt: passage[Math.min(noteIndex, passage.length - 1)],
+            bookTitle,
+            bookAuthor,
+          }),
+          sources: [],
+        };
+      }),
+    }));
 
     sections.push({
       title: sectionTitle,
       subsections,
     });
+  }
+
+  return sections;
+}
+
+/**
+ * Consecutive sentences grouped until each group reaches `minWords`. A short
+ * final group is folded into the one before it.
+ */
+function groupSentencesByWords(sentences: string[], minWords: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let words = 0;
+
+  for (const sentence of sentences) {
+    current.push(sentence);
+    words += countWords(sentence);
+    if (words >= minWords) {
+      groups.push(current);
+      current = [];
+      words = 0;
+    }
+  }
+  if (current.length > 0) {
+    if (groups.length > 0) {
+      groups[groups.length - 1].push(...current);
+    } else {
+      groups.push(current);
+    }
+  }
+  return groups;
+}
 
-    if (sections.length >= 6) {
+/**
+ * Leading sentences that fit in `maxWords`; always at least one.
+ */
+function takeSentencesUpTo(sentences: string[], maxWords: number): string[] {
+  const taken: string[] = [];
+  let words = 0;
+  for (const sentence of sentences) {
+    const sentenceWords = countWords(sentence);
+    if (taken.length > 0 && words + sentenceWords > maxWords) {
       break;
     }
+    taken.push(sentence);
+    words += sentenceWords;
   }
+  return taken;
+}
 
-  return sections;
+function countWords(value: string): number {
+  return value.split(/\s+/).filter(Boolean).length;
 }
 
 function splitIntoSentences(text: string): string[] {
@@ -636,120 +1384,95 @@ function buildParagraphs(sentences: string[], perParagraph: number): string {
   return paragraphs.join("\n\n");
 }
 
-function buildSectionTitle(seed: string): string {
-  const cleaned = seed.replace(/[^\w\s]/g, " ").trim();
+function buildSectionTitle(seed: string, text: SummaryFallbackText = summaryFallbackText()): string {
+  const cleaned = seed.replace(TITLE_PUNCTUATION, " ").trim();
   if (!cleaned) {
-    return "Essential Themes";
+    return text.essentialThemes;
   }
   const words = cleaned.split(" ").slice(0, 6).join(" ");
   return formatTitle(words);
 }
 
-function buildNoteContent({
-  noteType,
-  excerpt,
-  bookTitle,
-  bookAuthor,
-}: {
-  noteType: string;
-  excerpt: string;
-  bookTitle?: string;
-  bookAuthor?: string;
-}): string {
-  const baseTitle = bookTitle ?? "Primary Work";
-  const baseAuthor = bookAuthor ?? "Lead Author";
-  const trimmedExcerpt = excerpt.trim();
-
-  switch (noteType) {
-    case "comparative":
-      return `${baseTitle} by ${baseAuthor} echoes insights from "Offline Reference Compendium" by Dr. Mira Kline (PhD, University of Chicago), particularly in its emphasis on ${trimmedExcerpt || "the central argument"}, highlighting where the texts align and diverge for readers evaluating complementary perspectives.`;
-    case "context":
-      return `Contextualizing ${baseTitle}, note how ${trimmedExcerpt || "this idea"} reflects broader developments referenced in the Offline Cultural Review (Prof. Devon Lee, Harvard Kennedy School), clarifying why the theme matters historically and socially when AI services are unavailable.`;
-    case "critique":
-      return `Critically, the offline analysis questions whether ${trimmedExcerpt || "the claim"} holds under scrutiny from the Manual Evaluation Institute (Dr. Aisha Morgan, MIT Sloan), suggesting areas where readers should probe assumptions and request further evidence.`;
-    case "practical":
-      return `Practically applying ${baseTitle}, adapt ${trimmedExcerpt || "this recommendation"} through the Offline Implementation Blueprint developed by Strategy Coach Elena Soto (MBA, Stanford GSB) to translate the concept into an actionable experiment this week.`;
-    case "expert":
-    default:
-      return `Expert guidance from the Offline Thought Leadership Council (Dr. Ravi Patel, Oxford University) expands ${trimmedExcerpt || "this insight"} into a broader methodology readers can trust even without live AI augmentation, ensuring continuity in critical reasoning.`;
-  }
-}
-
+/**
+ * With `targets`, anything past the maximum counts (sections, subsections per
+ * section, notes per subsection, research sources) is dropped, so a model that
+ * overshoots a short preset still yields a summary of the requested size.
+ */
 function sanitizeStructuredSummary(
   raw: StructuredSummary,
-  options: { fallbackTitle?: string; fallbackAuthor?: string; documentText: string },
+  options: {
+    fallbackTitle?: string;
+    fallbackAuthor?: string;
+    targets?: SummaryTargets;
+    /** Language of the titles made up for untitled parts; English by default. */
+    language?: LanguageCode;
+  } = {},
 ): SanitizedSummary {
-  const { fallbackTitle, fallbackAuthor, documentText } = options;
+  const { fallbackTitle, fallbackAuthor, targets } = options;
+  const text = summaryFallbackText(options.language);
 
+  // Gaps are left as gaps here; the quality gate decides what is missing and
+  // asks the model for it.
   const bookTitle = coerceString(raw.bookTitle) || fallbackTitle || null;
   const bookAuthor = coerceString(raw.bookAuthor) || fallbackAuthor || null;
-  const introduction = coerceString(raw.introduction) || buildFallbackIntroduction(documentText, bookTitle, bookAuthor);
-  const onePageSummary = coerceString(raw.onePageSummary) || introduction;
-
-  const meta: NoteMeta = { bookTitle, bookAuthor };
+  const introduction = coerceString(raw.introduction);
+  const onePageSummary = coerceString(raw.onePageSummary);
 
-  let sections: SanitizedSection[] = Array.isArray(raw.sections)
+  const sections: SanitizedSection[] = Array.isArray(raw.sections)
     ? raw.sections
-        .map((section, sectionIndex) => sanitizeSection(section, sectionIndex, meta))
-        .filter((section): section is SanitizedSection => !!section && section.subsections.length > 0)
+        .map((section, sectionIndex) => sanitizeSection(section, sectionIndex, text))
+        .filter((section): section is SanitizedSection => !!section)
     : [];
 
-  if (sections.length < 5) {
-    const offlineFallbackSections = buildOfflineSections(
-      documentText,
-      bookTitle ?? fallbackTitle ?? "Uploaded Document",
-      bookAuthor ?? fallbackAuthor ?? "Unknown Author",
-    );
-
-    for (const fallbackSection of offlineFallbackSections) {
-      if (sections.length >= 5) {
-        break;
-      }
-      const sanitized = sanitizeSection(fallbackSection, sections.length, meta);
-      if (sanitized) {
-        sections.push(sanitized);
-      }
+  // Sources are only ever the model's citations; missing ones are not made up.
+  const researchSources = new Map<string, SanitizedResearchSource>();
+  for (const source of Array.isArray(raw.researchSources) ? raw.researchSources : []) {
+    const sanitized = sanitizeResearchSource(source);
+    if (sanitized) {
+      researchSources.set(`${sanitized.title.toLowerCase()}::${sanitized.author.toLowerCase()}`, sanitized);
     }
   }
 
-  if (sections.length < 5) {
-    const narrativeSource = [introduction, onePageSummary].filter(Boolean).join("\n\n");
-    while (sections.length < 5) {
-      sections.push(buildSyntheticSection(sections.length, narrativeSource, meta));
-    }
-  }
-
-  const researchSources: SanitizedResearchSource[] = Array.isArray(raw.researchSources)
-    ? raw.researchSources
-        .map((source, index) => sanitizeResearchSource(source, index, bookTitle))
-        .filter((source): source is SanitizedResearchSource => !!source)
-    : [];
-
-  const ensuredResearchSources = researchSources.length > 0
-    ? researchSources
-    : buildFallbackResearchSources(sections, bookTitle);
-
-  const enrichedSources = ensureResearchSourceDepth(ensuredResearchSources, sections, bookTitle);
-
-  return {
+  const sanitized = {
     bookTitle,
     bookAuthor,
     introduction,
     onePageSummary,
     sections,
-    researchSources: enrichedSources,
+    researchSources: Array.from(researchSources.values()),
+  };
+  return targets ? capToTargets(sanitized, targets) : sanitized;
+}
+
+function capToTargets(summary: SanitizedSummary, targets: SummaryTargets): SanitizedSummary {
+  return {
+    ...summary,
+    sections: summary.sections.slice(0, targets.sections.max).map(section => ({
+      ...section,
+      subsections: section.subsections.slice(0, targets.subsectionsPerSection.max).map(subsection => ({
+        ...subsection,
+        jotsNotes: subsection.jotsNotes.slice(0, targets.notesPerSubsection.max),
+      })),
+    })),
+    researchSources: summary.researchSources.slice(0, targets.researchSources.max),
   };
 }
 
-function sanitizeSection(section: Section | undefined, sectionIndex: number, meta: NoteMeta): SanitizedSection | null {
+function sanitizeSection(
+  section: Section | undefined,
+  sectionIndex: number,
+  text: SummaryFallbackText,
+): SanitizedSection | null {
   if (!section) {
     return null;
   }
 
-  const title = coerceString(section.title) || `Section ${sectionIndex + 1}`;
+  const title = coerceString(section.title) || text.section(sectionIndex + 1);
   const subsections: SanitizedSubsection[] = Array.isArray(section.subsections)
     ? section.subsections
-        .map((subsection, subsectionIndex) => sanitizeSubsection(subsection, sectionIndex, subsectionIndex, title, meta))
+        .map((subsection, subsectionIndex) =>
+          sanitizeSubsection(subsection, sectionIndex, subsectionIndex, title, text),
+        )
         .filter((subsection): subsection is SanitizedSubsection => !!subsection)
     : [];
 
@@ -757,17 +1480,6 @@ function sanitizeSection(section: Section | undefined, sectionIndex: number, met
     return null;
   }
 
-  while (subsections.length < 2) {
-    const duplicated = { ...subsections[subsections.length - 1] };
-    duplicated.title = `${title} Insight ${subsections.length + 1}`;
-    duplicated.content = extendSubsectionContent(duplicated.content);
-    duplicated.jotsNotes = duplicated.jotsNotes.map(note => ({
-      type: note.type,
-      content: extendNoteContent(note.content, note.type, meta),
-    }));
-    subsections.push(duplicated);
-  }
-
   return {
     title,
     subsections,
@@ -779,26 +1491,22 @@ function sanitizeSubsection(
   sectionIndex: number,
   subsectionIndex: number,
   sectionTitle: string,
-  meta: NoteMeta,
+  text: SummaryFallbackText,
 ): SanitizedSubsection | null {
   if (!subsection) {
     return null;
   }
 
-  const title = coerceString(subsection.title) || `${sectionTitle} Insight ${subsectionIndex + 1}`;
+  const title = coerceString(subsection.title) || text.insight(sectionTitle, subsectionIndex + 1);
   const content = coerceString(subsection.content);
   const fallbackType = NOTE_TYPES[(sectionIndex + subsectionIndex) % NOTE_TYPES.length];
 
   const jotsNotes = Array.isArray(subsection.jotsNotes)
     ? subsection.jotsNotes
-        .map(note => sanitizeJotsNote(note, fallbackType, meta, content))
+        .map(note => sanitizeJotsNote(note, fallbackType))
         .filter((note): note is SanitizedNote => !!note)
     : [];
 
-  if (jotsNotes.length === 0 && content) {
-    jotsNotes.push(createSanitizedFallbackNote(fallbackType, content, meta));
-  }
-
   if (!content && jotsNotes.length === 0) {
     return null;
   }
@@ -810,49 +1518,33 @@ function sanitizeSubsection(
   };
 }
 
-function sanitizeJotsNote(
-  note: JotsNote | undefined,
-  fallbackType: string,
-  meta: NoteMeta,
-  subsectionContent: string,
-): SanitizedNote | null {
+function sanitizeJotsNote(note: JotsNote | undefined, fallbackType: string): SanitizedNote | null {
   if (!note) {
     return null;
   }
 
-  const canonicalType = normalizeNoteType(coerceString(note.noteType || note.type)) || normalizeNoteType(fallbackType);
-  const rawContent = coerceString(note.content);
-
-  if (!rawContent) {
-    return createSanitizedFallbackNote(canonicalType, subsectionContent, meta);
-  }
-
-  const words = countWords(rawContent);
-  if (words < 90 || words > 170) {
-    return createSanitizedFallbackNote(canonicalType, `${rawContent}\n\n${subsectionContent}`, meta);
+  const content = coerceString(note.content);
+  if (!content) {
+    return null;
   }
 
   return {
-    type: canonicalType,
-    content: rawContent,
+    type: normalizeNoteType(coerceString(note.noteType || note.type)) || normalizeNoteType(fallbackType),
+    content,
   };
 }
 
-function sanitizeResearchSource(
-  source: ResearchSourceSummary | undefined,
-  index: number,
-  bookTitle: string | null,
-): SanitizedResearchSource | null {
+function sanitizeResearchSource(source: ResearchSourceSummary | undefined): SanitizedResearchSource | null {
   if (!source) {
     return null;
   }
 
-  const title = coerceString(source.title) || `${bookTitle ?? "Primary Work"} Companion Source ${index + 1}`;
-  const author = coerceString(source.author) || "Subject Matter Expert";
-  const authorCredentials = coerceString(source.authorCredentials) || "Credentials unavailable";
+  const title = coerceString(source.title);
+  const author = coerceString(source.author);
+  const authorCredentials = coerceString(source.authorCredentials);
   const relevance = coerceString(source.relevance);
 
-  if (!relevance) {
+  if (!title || !author || !relevance) {
     return null;
   }
 
@@ -864,76 +1556,6 @@ function sanitizeResearchSource(
   };
 }
 
-function buildFallbackResearchSources(
-  sections: SanitizedSection[],
-  bookTitle: string | null,
-  targetCount: number = 8,
-): SanitizedResearchSource[] {
-  const uniqueTitles = new Set<string>();
-  const sources: SanitizedResearchSource[] = [];
-
-  for (const section of sections) {
-    if (sources.length >= targetCount) {
-      break;
-    }
-
-    const baseTitle = `${bookTitle ?? "Primary Work"} Companion Source ${sources.length + 1}`;
-    const sectionTitle = section.title;
-    const generatedTitle = uniqueTitles.has(sectionTitle) ? baseTitle : `${sectionTitle} Companion Reading`;
-
-    uniqueTitles.add(sectionTitle);
-
-    sources.push({
-      title: generatedTitle,
-      author: "Editorial Research Collective",
-      authorCredentials: "Curated by Jonathan's Jots Analysts",
-      relevance: `Supports deeper exploration of the ideas discussed in "${sectionTitle}".`,
-    });
-  }
-
-  if (sources.length === 0) {
-    sources.push({
-      title: `${bookTitle ?? "Primary Work"} Reference Guide`,
-      author: "Jonathan's Jots Library",
-      authorCredentials: "Expert research team",
-      relevance: "Provides context for the core arguments summarised in this document.",
-    });
-  }
-
-  return sources;
-}
-
-function ensureResearchSourceDepth(
-  sources: SanitizedResearchSource[],
-  sections: SanitizedSection[],
-  bookTitle: string | null,
-  targetCount: number = 8,
-): SanitizedResearchSource[] {
-  const deduped = new Map<string, SanitizedResearchSource>();
-  for (const source of sources) {
-    deduped.set(`${source.title}::${source.author}`, source);
-  }
-
-  const pool = sections.length > 0 ? sections : [{ title: bookTitle ?? "Core Themes", subsections: [] }];
-  const desired = Math.min(12, Math.max(targetCount, deduped.size));
-  const result = Array.from(deduped.values());
-
-  let index = 0;
-  while (result.length < desired) {
-    const section = pool[index % pool.length];
-    const label = section.title;
-    result.push({
-      title: `${label} Research Companion ${result.length + 1}`,
-      author: "Jonathan's Jots Research Collective",
-      authorCredentials: `Curated insight ${result.length + 1}`,
-      relevance: `Provides extended context, counterpoints, and implementation examples for "${label}".`,
-    });
-    index += 1;
-  }
-
-  return result.slice(0, 12);
-}
-
 function normalizeNoteType(value: string): string {
   const normalized = value.trim().toLowerCase();
   if (CANONICAL_NOTE_TYPES.includes(normalized)) {
@@ -954,126 +1576,6 @@ function normalizeNoteType(value: string): string {
   }
 }
 
-function createSanitizedFallbackNote(noteType: string, content: string, meta: NoteMeta): SanitizedNote {
-  const canonicalType = normalizeNoteType(noteType);
-  return {
-    type: canonicalType,
-    content: buildFallbackSanitizedNoteContent(content, canonicalType, meta),
-  };
-}
-
-function extendSubsectionContent(content: string): string {
-  const trimmed = content.trim();
-  if (!trimmed) {
-    return "This expanded subsection clarifies the preceding insight with actionable guidance for Jonathan's Jots readers.";
-  }
-
-  const sentences = splitIntoSentences(trimmed);
-  const emphasis = sentences.slice(-3).join(" ");
-  return `${trimmed}\n\nJonathan's Jots expansion: ${emphasis || trimmed}`;
-}
-
-function extendNoteContent(content: string, noteType: string, meta: NoteMeta): string {
-  const words = countWords(content);
-  if (words >= FALLBACK_NOTE_MIN_WORDS && words <= FALLBACK_NOTE_MAX_WORDS) {
-    return content;
-  }
-
-  return buildFallbackSanitizedNoteContent(content, noteType, meta);
-}
-
-function buildSyntheticSection(index: number, narrativeSource: string, meta: NoteMeta): SanitizedSection {
-  const sectionNumber = index + 1;
-  const title = `${meta.bookTitle ?? "Jonathan's Jots"} Strategic Insight ${sectionNumber}`;
-  const paragraphs = narrativeSource.split(/\n\n+/).filter(Boolean);
-  const excerpt = paragraphs[index % Math.max(1, paragraphs.length)] ?? narrativeSource;
-  const primaryContent = extendSubsectionContent(excerpt || "This section expands on the document's key ideas.");
-  const secondaryContent = extendSubsectionContent(
-    `${primaryContent}\n\nThis passage develops tangible applications and reflective prompts to ensure mastery.`,
-  );
-
-  const primaryNoteType = NOTE_TYPES[sectionNumber % NOTE_TYPES.length];
-  const secondaryNoteType = NOTE_TYPES[(sectionNumber + 1) % NOTE_TYPES.length];
-
-  return {
-    title,
-    subsections: [
-      {
-        title: `${title}: Core Takeaways`,
-        content: primaryContent,
-        jotsNotes: [createSanitizedFallbackNote(primaryNoteType, primaryContent, meta)],
-      },
-      {
-        title: `${title}: Implementation Pathways`,
-        content: secondaryContent,
-        jotsNotes: [createSanitizedFallbackNote(secondaryNoteType, secondaryContent, meta)],
-      },
-    ],
-  };
-}
-
-function buildFallbackSanitizedNoteContent(baseContent: string, noteType: string, meta: NoteMeta): string {
-  const canonicalType = normalizeNoteType(noteType);
-  const cleanBase = baseContent.replace(/\s+/g, " ").trim();
-  const baseWords = cleanBase ? cleanBase.split(" ").filter(Boolean) : [];
-  const context = `${meta.bookTitle ?? "the book"} by ${meta.bookAuthor ?? "the author"}`;
-
-  const workingWords = [...baseWords];
-  const reinforcement = [
-    "It connects the argument to peer-reviewed evidence and surfaces nuances that matter for experienced practitioners.",
-    "Use this framing to stress-test the idea against contrasting research and to extract implementation steps readers can apply immediately.",
-    "Jonathan's Jots emphasises measurable outcomes, risk mitigation, and reflective prompts so readers exceed standard summary expectations.",
-  ];
-
-  for (const sentence of reinforcement) {
-    if (workingWords.length >= FALLBACK_NOTE_MIN_WORDS) {
-      break;
-    }
-    workingWords.push(...sentence.split(" "));
-  }
-
-  if (workingWords.length < FALLBACK_NOTE_MIN_WORDS) {
-    const extender = "This reflection also details measurable experiments, coaching prompts, and metrics so busy readers can implement the concept with confidence while avoiding the shallow recaps typical of standard summaries.";
-    while (workingWords.length < FALLBACK_NOTE_MIN_WORDS) {
-      workingWords.push(...extender.split(" "));
-    }
-  }
-
-  const target = Math.min(
-    FALLBACK_NOTE_MAX_WORDS,
-    Math.max(FALLBACK_NOTE_MIN_WORDS, workingWords.length || FALLBACK_NOTE_MIN_WORDS),
-  );
-  const clipped = workingWords.slice(0, target);
-
-  const narrative = clipped.join(" ");
-  const ending = workingWords.length > target ? "…" : ".";
-  return `${titleCase(canonicalType)} perspective on ${context}: ${narrative}${ending}`;
-}
-
-function countWords(value: string): number {
-  return value.split(/\s+/).filter(Boolean).length;
-}
-
-function titleCase(value: string): string {
-  if (!value) {
-    return "Expert";
-  }
-  return value
-    .split(/\s+/)
-    .filter(Boolean)
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(" ");
-}
-
-function buildFallbackIntroduction(
-  documentText: string,
-  bookTitle: string | null,
-  bookAuthor: string | null,
-): string {
-  const preview = documentText.split(/\s+/).slice(0, 120).join(" ");
-  return `This summary synthesises key ideas from ${bookTitle ?? "the uploaded work"} by ${bookAuthor ?? "an unknown author"}. It is automatically generated to unblock review workflows when upstream data is incomplete. Preview excerpt: ${preview}`;
-}
-
 function coerceString(value: unknown): string {
   if (typeof value === "string") {
     return value.trim();
@@ -1109,7 +1611,7 @@ function deriveTitleFromFilename(filename: string): string | null {
 }
 
 function formatTitle(raw: string): string {
-  const cleaned = raw.replace(/[^\w\s]/g, " ").trim();
+  const cleaned = raw.replace(TITLE_PUNCTUATION, " ").trim();
   if (!cleaned) {
     return "Key Insight";
   }
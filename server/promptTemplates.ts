@@ -0,0 +1,235 @@
+/**
+ * Registry of summary prompt templates.
+ *
+ * A template is a prompt body with `{{placeholder}}` variables (see
+ * renderSummaryPrompt in shortformPrompt.ts) plus the values it is rendered
+ * with: word targets, section and note counts, and the kinds of note to ask
+ * for. Templates are grouped into styles ("deep-dive", "executive-brief",
+ * "study-guide"). The built-in versions of each style are seeded into the
+ * database; a user customizes a style by saving a newer version of it, which
+ * only they see. Summaries record the id of the version they were generated
+ * with.
+ */
+
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { createPromptTemplate, getPromptTemplate, getPromptTemplates, type PromptTemplate } from "./db";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  DEFAULT_SUMMARY_STYLE,
+  getBuiltInPromptTemplate,
+  PROMPT_PLACEHOLDERS,
+  renderSummaryPrompt,
+  SUMMARY_TARGETS,
+  type PromptTemplateVariables,
+  type SummaryPromptContext,
+  type SummaryTargets,
+} from "./shortformPrompt";
+import { mergeSummaryTargets, summaryTargetsSchema } from "./summaryLength";
+import { JOTS_NOTE_TYPES } from "./summarySchema";
+
+export type ResolvedPromptTemplate = {
+  id: string;
+  style: string;
+  version: number;
+  name: string;
+  description: string | null;
+  body: string;
+  variables: PromptTemplateVariables;
+  /** Owner of a customized version; null for the built-in ones. */
+  userId: string | null;
+};
+
+export const summaryStyleSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Styles are lowercase words joined by hyphens, e.g. study-guide")
+  .max(64);
+
+/**
+ * Input for saving a new version of a style. Anything left out is carried
+ * over from the version it replaces.
+ */
+export const promptTemplateInputSchema = z.object({
+  style: summaryStyleSchema,
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().trim().max(1000).optional(),
+  body: z.string().trim().min(1).optional(),
+  variables: z
+    .object({
+      targets: summaryTargetsSchema.optional(),
+      noteTypes: z.array(z.enum(JOTS_NOTE_TYPES)).min(1).optional(),
+    })
+    .optional(),
+});
+
+export type PromptTemplateInput = z.infer<typeof promptTemplateInputSchema>;
+
+let builtInsSeeded: Promise<void> | null = null;
+
+/**
+ * Seed the built-in templates once per process. A failed attempt is retried
+ * on the next call.
+ */
+function ensureBuiltInPromptTemplates(): Promise<void> {
+  if (!builtInsSeeded) {
+    builtInsSeeded = (async () => {
+      for (const template of BUILT_IN_PROMPT_TEMPLATES) {
+        await createPromptTemplate({
+          id: template.id,
+          style: template.style,
+          version: template.version,
+          userId: null,
+          name: template.name,
+          description: template.description,
+          body: template.body,
+          variables: JSON.stringify(template.variables),
+        });
+      }
+    })().catch(error => {
+      builtInsSeeded = null;
+      throw error;
+    });
+  }
+  return builtInsSeeded;
+}
+
+/**
+ * Every version of every style the user can see, newest version of each
+ * style first.
+ */
+export async function listPromptTemplates(userId: string): Promise<ResolvedPromptTemplate[]> {
+  await ensureBuiltInPromptTemplates();
+  return (await getPromptTemplates(userId)).map(toResolved);
+}
+
+/**
+ * The version of each style a new summary would use: the user's latest
+ * version if they have saved one, otherwise the built-in.
+ */
+export async function listSummaryStyles(userId: string): Promise<ResolvedPromptTemplate[]> {
+  const latest = new Map<string, ResolvedPromptTemplate>();
+  for (const template of await listPromptTemplates(userId)) {
+    const current = latest.get(template.style);
+    if (!current || isNewer(template, current)) {
+      latest.set(template.style, template);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+export async function resolvePromptTemplate(
+  userId: string,
+  style: string = DEFAULT_SUMMARY_STYLE,
+): Promise<ResolvedPromptTemplate> {
+  const template = (await listSummaryStyles(userId)).find(candidate => candidate.style === style);
+  if (!template) {
+    throw new Error(`Unknown summary style "${style}"`);
+  }
+  return template;
+}
+
+/**
+ * The template a summary was generated with. Summaries from before templates
+ * existed, or whose template is gone, use the default style's built-in.
+ */
+export async function loadPromptTemplate(id?: string | null): Promise<ResolvedPromptTemplate> {
+  if (id) {
+    await ensureBuiltInPromptTemplates();
+    const stored = await getPromptTemplate(id);
+    if (stored) {
+      return toResolved(stored);
+    }
+    console.warn(`[PromptTemplates] Template ${id} not found; using the default style`);
+  }
+
+  const fallback = getBuiltInPromptTemplate(DEFAULT_SUMMARY_STYLE)!;
+  return { ...fallback, userId: null };
+}
+
+/**
+ * Save a new version of `input.style` for the user, starting from the
+ * version they would currently get (or the default style, for a new one).
+ */
+export async function savePromptTemplate(userId: string, input: PromptTemplateInput): Promise<ResolvedPromptTemplate> {
+  const styles = await listSummaryStyles(userId);
+  const base =
+    styles.find(template => template.style === input.style) ??
+    styles.find(template => template.style === DEFAULT_SUMMARY_STYLE)!;
+  const isNewStyle = base.style !== input.style;
+
+  const body = input.body ?? base.body;
+  validateTemplateBody(body);
+
+  const variables: PromptTemplateVariables = {
+    targets: mergeSummaryTargets(base.variables.targets, input.variables?.targets),
+    noteTypes: input.variables?.noteTypes ?? base.variables.noteTypes,
+  };
+
+  const saved = await createPromptTemplate({
+    id: nanoid(),
+    style: input.style,
+    version: isNewStyle ? 1 : base.version + 1,
+    userId,
+    name: input.name ?? (isNewStyle ? input.style : base.name),
+    description: input.description ?? (isNewStyle ? null : base.description),
+    body,
+    variables: JSON.stringify(variables),
+  });
+  return toResolved(saved);
+}
+
+/**
+ * Render `template`, optionally with other targets than its own (a length
+ * preset chosen for one summary).
+ */
+export function renderPromptTemplate(
+  template: ResolvedPromptTemplate,
+  context: SummaryPromptContext,
+  targets: SummaryTargets = template.variables.targets,
+): string {
+  return renderSummaryPrompt(template.body, { ...template.variables, targets }, context);
+}
+
+/**
+ * A body must include the document and may only use known placeholders, so
+ * a typo fails when the template is saved rather than reaching the model.
+ */
+export function validateTemplateBody(body: string): void {
+  const known = new Set<string>(PROMPT_PLACEHOLDERS);
+  const used = Array.from(body.matchAll(/\{\{(\w+)\}\}/g), match => match[1]);
+  const unknown = used.filter(name => !known.has(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown template variable(s): ${unknown.map(name => `{{${name}}}`).join(", ")}. ` +
+        `Available: ${PROMPT_PLACEHOLDERS.map(name => `{{${name}}}`).join(", ")}`,
+    );
+  }
+  if (!used.includes("documentText")) {
+    throw new Error("The template must include {{documentText}}");
+  }
+}
+
+function toResolved(template: PromptTemplate): ResolvedPromptTemplate {
+  const stored = JSON.parse(template.variables) as Partial<PromptTemplateVariables>;
+  return {
+    id: template.id,
+    style: template.style,
+    version: template.version,
+    name: template.name,
+    description: template.description,
+    body: template.body,
+    variables: {
+      targets: { ...SUMMARY_TARGETS, ...stored.targets },
+      noteTypes: stored.noteTypes?.length ? stored.noteTypes : [...JOTS_NOTE_TYPES],
+    },
+    userId: template.userId,
+  };
+}
+
+/** Higher versions win; on a tie the user's own version beats the built-in. */
+function isNewer(candidate: ResolvedPromptTemplate, current: ResolvedPromptTemplate): boolean {
+  if (candidate.version !== current.version) {
+    return candidate.version > current.version;
+  }
+  return candidate.userId !== null && current.userId === null;
+}
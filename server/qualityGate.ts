@@ -0,0 +1,431 @@
+/**
+ * Quality gate for generated summaries.
+ *
+ * A summary is scored against the targets its prompt template states
+ * (SUMMARY_TARGETS in shortformPrompt.ts for the default style): word counts
+ * for the introduction, one-page summary, subsections and notes, and counts
+ * of sections, subsections, notes and research sources. When it falls
+ * short, the model is asked for just the missing parts, one request per gap.
+ * Parts written this way carry `machinePadded: true` and are listed in the
+ * gate's report, so the reader can tell them apart from the original
+ * generation.
+ */
+
+import { z } from "zod";
+import { hasLLMProvidersConfigured } from "./_core/llmRouter";
+import { splitIntoChapterChunks } from "./chapterChunker";
+import type { LanguageCode } from "./language";
+import type { SanitizedSummary } from "./progressiveSummary";
+import {
+  generateGapFillPrompt,
+  SUMMARY_TARGETS,
+  type GapFillPromptInput,
+  type SummaryTargets,
+} from "./shortformPrompt";
+import { findRelevantExcerpt, requestSummaryPart } from "./summaryParts";
+import {
+  jotsNoteSchema,
+  researchSourceSchema,
+  sectionSchema,
+  subsectionSchema,
+  type ModelJotsNote,
+  type ModelSubsection,
+} from "./summarySchema";
+
+/**
+ * Parts only count as too short below this fraction of their minimum length.
+ * Models routinely land a little under a word target, and a request to add a
+ * dozen words is not worth making.
+ */
+const LENGTH_TOLERANCE = 0.8;
+const MAX_GAP_FILLS = 12;
+const EXCERPT_CHARS = 20000;
+
+export type GapKind = GapFillPromptInput["partKind"];
+
+export type Shortfall = {
+  kind: GapKind;
+  /** Human-readable place in the summary, e.g. `Section 2 ("Focus"), subsection 3`. */
+  location: string;
+  description: string;
+  sectionIndex?: number;
+  /** Set when an existing subsection (or one of its notes) is too short rather than missing. */
+  subsectionIndex?: number;
+  noteIndex?: number;
+};
+
+export type QualityReport = {
+  /** Share of the individual checks that met their target, from 0 to 1. */
+  score: number;
+  passed: boolean;
+  totalWords: number;
+  shortfalls: Shortfall[];
+};
+
+export type PaddedPart = {
+  kind: GapKind;
+  location: string;
+};
+
+export type QualityGateReport = QualityReport & {
+  /** Score before any gaps were filled. */
+  initialScore: number;
+  padded: PaddedPart[];
+};
+
+type Section = SanitizedSummary["sections"][number];
+type Subsection = Section["subsections"][number];
+
+/**
+ * Score `summary` against `targets` and list what is missing, in
+ * the order the gaps should be filled.
+ */
+export function evaluateSummary(summary: SanitizedSummary, targets: SummaryTargets = SUMMARY_TARGETS): QualityReport {
+  const shortfalls: Shortfall[] = [];
+  let checks = 0;
+  let met = 0;
+  const tally = (ok: boolean) => {
+    checks++;
+    if (ok) met++;
+  };
+  const check = (ok: boolean, shortfall: () => Shortfall) => {
+    tally(ok);
+    if (!ok) shortfalls.push(shortfall());
+  };
+
+  const { sections: sectionTarget, subsectionsPerSection, notesPerSubsection } = targets;
+  for (let missing = summary.sections.length; missing < sectionTarget.min; missing++) {
+    shortfalls.push({
+      kind: "section",
+      location: `Section ${missing + 1}`,
+      description: `The summary has ${plural(summary.sections.length, "section")}; it needs at least ${sectionTarget.min}.`,
+    });
+  }
+  tally(summary.sections.length >= sectionTarget.min);
+
+  summary.sections.forEach((section, sectionIndex) => {
+    const sectionLabel = `Section ${sectionIndex + 1} ("${section.title}")`;
+    const subsectionCount = section.subsections.length;
+    for (let missing = subsectionCount; missing < subsectionsPerSection.min; missing++) {
+      shortfalls.push({
+        kind: "subsection",
+        location: `${sectionLabel}, subsection ${missing + 1}`,
+        description: `This section has ${plural(subsectionCount, "subsection")}; it needs at least ${subsectionsPerSection.min}.`,
+        sectionIndex,
+      });
+    }
+    tally(subsectionCount >= subsectionsPerSection.min);
+
+    section.subsections.forEach((subsection, subsectionIndex) => {
+      const subsectionLabel = `${sectionLabel}, subsection "${subsection.title}"`;
+      const words = countWords(subsection.content);
+      check(isLongEnough(words, targets.subsectionWords.min), () => ({
+        kind: "subsection",
+        location: subsectionLabel,
+        description: `This subsection has ${plural(words, "word")}; it should have ${targets.subsectionWords.min}-${targets.subsectionWords.max}.`,
+        sectionIndex,
+        subsectionIndex,
+      }));
+
+      const noteCount = subsection.jotsNotes.length;
+      for (let missing = noteCount; missing < notesPerSubsection.min; missing++) {
+        shortfalls.push({
+          kind: "note",
+          location: `${subsectionLabel}, Jots note ${missing + 1}`,
+          description: `This subsection has ${plural(noteCount, "Jonathan's Jots note")}; it needs at least ${notesPerSubsection.min}.`,
+          sectionIndex,
+          subsectionIndex,
+        });
+      }
+      tally(noteCount >= notesPerSubsection.min);
+
+      subsection.jotsNotes.forEach((note, noteIndex) => {
+        const noteWords = countWords(note.content);
+        check(isLongEnough(noteWords, targets.noteWords.min), () => ({
+          kind: "note",
+          location: `${subsectionLabel}, Jots note ${noteIndex + 1}`,
+          description: `This note has ${plural(noteWords, "word")}; it should have ${targets.noteWords.min}-${targets.noteWords.max}.`,
+          sectionIndex,
+          subsectionIndex,
+          noteIndex,
+        }));
+      });
+    });
+  });
+
+  const introductionWords = countWords(summary.introduction);
+  check(isLongEnough(introductionWords, targets.introductionWords.min), () => ({
+    kind: "introduction",
+    location: "Introduction",
+    description: introductionWords
+      ? `The introduction has ${plural(introductionWords, "word")}; it should have ${targets.introductionWords.min}-${targets.introductionWords.max}.`
+      : "The summary has no introduction.",
+  }));
+
+  const onePageWords = countWords(summary.onePageSummary);
+  check(isLongEnough(onePageWords, targets.onePageSummaryWords.min), () => ({
+    kind: "onePageSummary",
+    location: "1-page summary",
+    description: onePageWords
+      ? `The 1-page summary has ${plural(onePageWords, "word")}; it should have ${targets.onePageSummaryWords.min}-${targets.onePageSummaryWords.max}.`
+      : "The summary has no 1-page summary.",
+  }));
+
+  const sourceCount = summary.researchSources.length;
+  check(sourceCount >= targets.researchSources.min, () => ({
+    kind: "researchSources",
+    location: "Research sources",
+    description: `The summary cites ${plural(sourceCount, "research source")}; it needs at least ${targets.researchSources.min}.`,
+  }));
+
+  // The total follows from the parts, so it is scored but never filled directly.
+  const totalWords = countSummaryWords(summary);
+  tally(isLongEnough(totalWords, targets.totalWords.min));
+
+  return {
+    score: Math.round((met / checks) * 100) / 100,
+    passed: shortfalls.length === 0,
+    totalWords,
+    shortfalls,
+  };
+}
+
+/**
+ * Run the gate on `summary`, filling gaps in place when `fill` is set and a
+ * model is configured. A gap the model fails to fill is logged and left
+ * open; it stays in the report's shortfalls.
+ */
+export async function applyQualityGate(
+  summary: SanitizedSummary,
+  options: { documentText: string; fill?: boolean; targets?: SummaryTargets; language?: LanguageCode | null },
+): Promise<QualityGateReport> {
+  const targets = options.targets ?? SUMMARY_TARGETS;
+  const initial = evaluateSummary(summary, targets);
+  const padded: PaddedPart[] = [];
+  if (initial.passed || !options.fill || !hasLLMProvidersConfigured()) {
+    return { ...initial, initialScore: initial.score, padded };
+  }
+
+  let requests = 0;
+  for (const shortfall of initial.shortfalls) {
+    if (isRewritten(summary, shortfall)) {
+      continue;
+    }
+    if (requests >= MAX_GAP_FILLS) {
+      console.warn(`[QualityGate] Leaving the remaining gaps unfilled after ${MAX_GAP_FILLS} requests`);
+      break;
+    }
+
+    requests++;
+    try {
+      await fillShortfall(summary, shortfall, options.documentText, targets, options.language);
+      padded.push({ kind: shortfall.kind, location: shortfall.location });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[QualityGate] Could not fill ${shortfall.location}: ${message}`);
+    }
+  }
+
+  const final = evaluateSummary(summary, targets);
+  return { ...final, initialScore: initial.score, padded };
+}
+
+/**
+ * Gaps in a subsection that was itself rewritten by the gate are gone: the
+ * new subsection comes with its own notes.
+ */
+function isRewritten(summary: SanitizedSummary, shortfall: Shortfall): boolean {
+  if (shortfall.kind !== "note" || shortfall.sectionIndex === undefined || shortfall.subsectionIndex === undefined) {
+    return false;
+  }
+  return !!summary.sections[shortfall.sectionIndex]?.subsections[shortfall.subsectionIndex]?.machinePadded;
+}
+
+async function fillShortfall(
+  summary: SanitizedSummary,
+  shortfall: Shortfall,
+  documentText: string,
+  targets: SummaryTargets,
+  language?: LanguageCode | null,
+): Promise<void> {
+  const section = shortfall.sectionIndex === undefined ? undefined : summary.sections[shortfall.sectionIndex];
+  const subsection =
+    section && shortfall.subsectionIndex !== undefined ? section.subsections[shortfall.subsectionIndex] : undefined;
+  const note = subsection && shortfall.noteIndex !== undefined ? subsection.jotsNotes[shortfall.noteIndex] : undefined;
+
+  const prompt = (context: unknown, sourceExcerpt?: string) =>
+    generateGapFillPrompt({
+      partKind: shortfall.kind,
+      bookTitle: summary.bookTitle ?? "Untitled",
+      bookAuthor: summary.bookAuthor ?? "Unknown Author",
+      onePageSummary: summary.onePageSummary,
+      location: shortfall.location,
+      shortfall: shortfall.description,
+      context,
+      sourceExcerpt,
+      targets,
+      language,
+    });
+  const excerpt = (query: string) => findRelevantExcerpt(documentText, query, EXCERPT_CHARS);
+
+  switch (shortfall.kind) {
+    case "introduction":
+    case "onePageSummary": {
+      const context = {
+        current: summary[shortfall.kind],
+        sections: summary.sections.map(existing => existing.title),
+      };
+      const { data } = await requestSummaryPart(prompt(context, excerpt("")), `summary_${shortfall.kind}`, textSchema);
+      summary[shortfall.kind] = data.text.trim();
+      return;
+    }
+
+    case "section": {
+      const context = { existingSections: summary.sections.map(existing => existing.title) };
+      const { data } = await requestSummaryPart(
+        prompt(context, findUncoveredExcerpt(documentText, summary.sections)),
+        "summary_section",
+        sectionSchema,
+      );
+      summary.sections.push({
+        title: data.title.trim(),
+        subsections: data.subsections.map(toSubsection),
+        machinePadded: true,
+      });
+      return;
+    }
+
+    case "subsection": {
+      if (!section) throw new Error("The section no longer exists");
+      const context = subsection
+        ? { title: subsection.title, content: subsection.content, jotsNotes: subsection.jotsNotes }
+        : { section: section.title, existingSubsections: section.subsections.map(existing => existing.title) };
+      const query = [section.title, subsection?.title ?? ""].join(" ");
+      const { data } = await requestSummaryPart(prompt(context, excerpt(query)), "summary_subsection", subsectionSchema);
+      if (subsection && shortfall.subsectionIndex !== undefined) {
+        section.subsections[shortfall.subsectionIndex] = toSubsection(data);
+      } else {
+        section.subsections.push(toSubsection(data));
+      }
+      return;
+    }
+
+    case "note": {
+      if (!subsection) throw new Error("The subsection no longer exists");
+      const context = { subsection: subsection.title, content: subsection.content, ...(note ? { currentNote: note } : {}) };
+      const { data } = await requestSummaryPart(prompt(context, excerpt(subsection.title)), "jots_note", jotsNoteSchema);
+      if (note && shortfall.noteIndex !== undefined) {
+        subsection.jotsNotes[shortfall.noteIndex] = toNote(data);
+      } else {
+        subsection.jotsNotes.push(toNote(data));
+      }
+      return;
+    }
+
+    case "researchSources": {
+      const needed = targets.researchSources.min - summary.researchSources.length;
+      const context = {
+        sourcesNeeded: needed,
+        existingSources: summary.researchSources.map(({ title, author }) => ({ title, author })),
+      };
+      const { data } = await requestSummaryPart(prompt(context), "research_sources", researchSourcesSchema);
+      const known = new Set(summary.researchSources.map(sourceKey));
+      for (const source of data.researchSources) {
+        const added = {
+          title: source.title.trim(),
+          author: source.author.trim(),
+          authorCredentials: source.authorCredentials.trim(),
+          relevance: source.relevance.trim(),
+          machinePadded: true,
+        };
+        if (!added.relevance || known.has(sourceKey(added))) continue;
+        known.add(sourceKey(added));
+        summary.researchSources.push(added);
+      }
+      return;
+    }
+  }
+}
+
+const textSchema = z.object({
+  text: z.string().refine(value => value.trim().length > 0, { message: "Text must not be empty" }),
+});
+
+const researchSourcesSchema = z.object({
+  researchSources: z.array(researchSourceSchema).min(1),
+});
+
+function toSubsection(subsection: ModelSubsection): Subsection {
+  return {
+    title: subsection.title.trim(),
+    content: subsection.content.trim(),
+    jotsNotes: subsection.jotsNotes.map(note => ({ type: note.noteType.toLowerCase(), content: note.content.trim() })),
+    machinePadded: true,
+  };
+}
+
+function toNote(note: ModelJotsNote): Subsection["jotsNotes"][number] {
+  return { type: note.noteType.toLowerCase(), content: note.content.trim(), machinePadded: true };
+}
+
+/**
+ * The part of the book the existing sections say least about, so a new
+ * section covers fresh ground instead of repeating one that is already there.
+ */
+function findUncoveredExcerpt(documentText: string, sections: Section[]): string {
+  const covered = sections
+    .flatMap(section => [section.title, ...section.subsections.map(subsection => subsection.title)])
+    .join(" ");
+  const terms = Array.from(new Set(covered.toLowerCase().match(/[a-z][a-z'-]{3,}/g) ?? []));
+  const chunks = splitIntoChapterChunks(documentText, { maxChunkChars: EXCERPT_CHARS, minChunkChars: EXCERPT_CHARS / 4 });
+  if (chunks.length <= 1 || terms.length === 0) {
+    return documentText.slice(0, EXCERPT_CHARS);
+  }
+
+  let best = chunks[0];
+  let bestScore = Infinity;
+  for (const chunk of chunks) {
+    const haystack = `${chunk.title}\n${chunk.text}`.toLowerCase();
+    const score = terms.reduce((sum, term) => sum + (haystack.includes(term) ? 1 : 0), 0);
+    if (score < bestScore) {
+      best = chunk;
+      bestScore = score;
+    }
+  }
+  return best.text;
+}
+
+function countSummaryWords(summary: SanitizedSummary): number {
+  return (
+    countWords(summary.introduction) +
+    countWords(summary.onePageSummary) +
+    summary.sections.reduce(
+      (total, section) =>
+        total +
+        section.subsections.reduce(
+          (sum, subsection) =>
+            sum +
+            countWords(subsection.content) +
+            subsection.jotsNotes.reduce((noteSum, note) => noteSum + countWords(note.content), 0),
+          0,
+        ),
+      0,
+    )
+  );
+}
+
+function isLongEnough(words: number, minimum: number): boolean {
+  return words >= Math.ceil(minimum * LENGTH_TOLERANCE);
+}
+
+function countWords(value: string): number {
+  return value.split(/\s+/).filter(Boolean).length;
+}
+
+function sourceKey(source: { title: string; author: string }): string {
+  return `${source.title.toLowerCase()}::${source.author.toLowerCase()}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
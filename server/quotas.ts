@@ -0,0 +1,248 @@
+/**
+ * Per-user quotas on uploads and summary generations.
+ *
+ * Limits are set per role: the caller's `users.role`, or "anonymous" for
+ * signed-out callers, who all share the one anonymous allowance. Each role
+ * has built-in defaults, replaced by its `roleQuotas` row when an admin has
+ * set one. A null limit is unlimited.
+ *
+ * Everything that has a model write for the user counts as a generation:
+ * summaries and reruns, translations, comparisons, regenerated parts, chat
+ * answers and library questions. Generations are counted over the current
+ * UTC day and month from the `generationEvents` log, storage is the total
+ * size of the user's documents, and concurrent jobs are their queued or
+ * running background jobs.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  countActiveSummaryJobs,
+  countGenerationEvents,
+  createGenerationEvent,
+  deleteGenerationEvent,
+  getRoleQuota,
+  getUserStorageBytes,
+} from "./db";
+
+export const ANONYMOUS_ROLE = "anonymous";
+
+export type GenerationKind =
+  | "summary"
+  | "rerun"
+  | "translation"
+  | "comparison"
+  | "regeneration"
+  | "chat"
+  | "library_qa";
+
+const MB = 1024 * 1024;
+
+export const quotaLimitsSchema = z.object({
+  dailyGenerations: z.number().int().min(0).nullable(),
+  monthlyGenerations: z.number().int().min(0).nullable(),
+  storageBytes: z.number().int().min(0).nullable(),
+  concurrentJobs: z.number().int().min(0).nullable(),
+});
+
+export type QuotaLimits = z.infer<typeof quotaLimitsSchema>;
+
+export const DEFAULT_ROLE_QUOTAS: Record<string, QuotaLimits> = {
+  [ANONYMOUS_ROLE]: { dailyGenerations: 2, monthlyGenerations: 10, storageBytes: 50 * MB, concurrentJobs: 1 },
+  user: { dailyGenerations: 20, monthlyGenerations: 200, storageBytes: 500 * MB, concurrentJobs: 3 },
+  admin: { dailyGenerations: null, monthlyGenerations: null, storageBytes: null, concurrentJobs: null },
+};
+
+export type Allowance = {
+  limit: number | null;
+  used: number;
+  /** Null when unlimited. */
+  remaining: number | null;
+};
+
+export type QuotaUsage = {
+  role: string;
+  dailyGenerations: Allowance & { resetsAt: Date };
+  monthlyGenerations: Allowance & { resetsAt: Date };
+  storageBytes: Allowance;
+  concurrentJobs: Allowance;
+};
+
+/**
+ * The role quotas are looked up under for a caller.
+ */
+export function quotaRole(user: { role: string } | null | undefined): string {
+  return user?.role || ANONYMOUS_ROLE;
+}
+
+/**
+ * Limits for a role: its override if one is set, otherwise the defaults
+ * (those of `user` for roles without defaults of their own).
+ */
+export async function getQuotaLimits(role: string): Promise<QuotaLimits> {
+  const override = await getRoleQuota(role);
+  if (override) {
+    return {
+      dailyGenerations: override.dailyGenerations,
+      monthlyGenerations: override.monthlyGenerations,
+      storageBytes: override.storageBytes,
+      concurrentJobs: override.concurrentJobs,
+    };
+  }
+
+  return DEFAULT_ROLE_QUOTAS[role] ?? DEFAULT_ROLE_QUOTAS.user;
+}
+
+/**
+ * A user's limits with what they have used of each.
+ */
+export async function getQuotaUsage(userId: string, role: string, at = new Date()): Promise<QuotaUsage> {
+  const { dayStart, dayEnd, monthStart, monthEnd } = quotaPeriods(at);
+  const [limits, generatedToday, generatedThisMonth, storageBytes, activeJobs] = await Promise.all([
+    getQuotaLimits(role),
+    countGenerationEvents(userId, dayStart),
+    countGenerationEvents(userId, monthStart),
+    getUserStorageBytes(userId),
+    countActiveSummaryJobs(userId),
+  ]);
+
+  return {
+    role,
+    dailyGenerations: { ...allowance(limits.dailyGenerations, generatedToday), resetsAt: dayEnd },
+    monthlyGenerations: { ...allowance(limits.monthlyGenerations, generatedThisMonth), resetsAt: monthEnd },
+    storageBytes: allowance(limits.storageBytes, storageBytes),
+    concurrentJobs: allowance(limits.concurrentJobs, activeJobs),
+  };
+}
+
+/**
+ * Throw unless the user has room to store another `fileSize` bytes.
+ */
+export async function assertCanUpload(userId: string, role: string, fileSize: number): Promise<void> {
+  const { storageBytes } = await getQuotaUsage(userId, role);
+
+  if (storageBytes.remaining !== null && fileSize > storageBytes.remaining) {
+    throw new TRPCError({
+      code: "PAYLOAD_TOO_LARGE",
+      message: `Storage limit reached: this upload would take you past your ${formatMegabytes(storageBytes.limit!)} allowance. Delete some documents to make room.`,
+    });
+  }
+}
+
+/**
+ * Throw unless the user may start another summary generation.
+ */
+export async function assertCanGenerate(userId: string, role: string): Promise<void> {
+  const usage = await getQuotaUsage(userId, role);
+
+  if (usage.dailyGenerations.remaining === 0) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Daily generation limit reached (${usage.dailyGenerations.limit} per day). It resets at midnight UTC.`,
+    });
+  }
+  if (usage.monthlyGenerations.remaining === 0) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Monthly generation limit reached (${usage.monthlyGenerations.limit} per month).`,
+    });
+  }
+  if (usage.concurrentJobs.remaining === 0) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Too many jobs in progress (${usage.concurrentJobs.limit} allowed at once). Wait for one to finish.`,
+    });
+  }
+}
+
+/**
+ * Count a generation against the user's quota, then run `start` (which
+ * queues the work, or for answers given right away calls the model),
+ * throwing if the quota has no room for it.
+ *
+ * A user's generations are started one at a time, so parallel requests
+ * cannot all pass the same check, and `start` runs before the next check so
+ * the job it queues counts against the concurrency limit. The counts are
+ * checked again once the generation is recorded, in case another server
+ * process recorded one at the same moment. If `start` fails, the generation
+ * is not counted.
+ */
+export async function withGenerationQuota<T>(
+  userId: string,
+  role: string,
+  generation: { kind: GenerationKind; summaryId?: string | null },
+  start: () => Promise<T>,
+): Promise<T> {
+  return serializePerUser(userId, async () => {
+    await assertCanGenerate(userId, role);
+
+    const eventId = nanoid();
+    await createGenerationEvent({ id: eventId, userId, kind: generation.kind, summaryId: generation.summaryId ?? null });
+    try {
+      await assertWithinGenerationLimits(userId, role);
+      return await start();
+    } catch (error) {
+      await deleteGenerationEvent(eventId);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Throw if recorded generations, this one included, exceed the daily or
+ * monthly limit.
+ */
+async function assertWithinGenerationLimits(userId: string, role: string): Promise<void> {
+  const { dailyGenerations, monthlyGenerations } = await getQuotaUsage(userId, role);
+
+  if (dailyGenerations.limit !== null && dailyGenerations.used > dailyGenerations.limit) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Daily generation limit reached (${dailyGenerations.limit} per day). It resets at midnight UTC.`,
+    });
+  }
+  if (monthlyGenerations.limit !== null && monthlyGenerations.used > monthlyGenerations.limit) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Monthly generation limit reached (${monthlyGenerations.limit} per month).`,
+    });
+  }
+}
+
+const userQueues = new Map<string, Promise<unknown>>();
+
+async function serializePerUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+  const run = (userQueues.get(userId) ?? Promise.resolve()).then(fn);
+  const settled = run.catch(() => undefined);
+  userQueues.set(userId, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (userQueues.get(userId) === settled) {
+      userQueues.delete(userId);
+    }
+  }
+}
+
+function allowance(limit: number | null, used: number): Allowance {
+  return { limit, used, remaining: limit === null ? null : Math.max(0, limit - used) };
+}
+
+function quotaPeriods(at: Date) {
+  const year = at.getUTCFullYear();
+  const month = at.getUTCMonth();
+  const day = at.getUTCDate();
+
+  return {
+    dayStart: new Date(Date.UTC(year, month, day)),
+    dayEnd: new Date(Date.UTC(year, month, day + 1)),
+    monthStart: new Date(Date.UTC(year, month, 1)),
+    monthEnd: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / MB)} MB`;
+}
@@ -1,27 +1,45 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import { 
   createDocument, 
   getDocument, 
   getUserDocuments,
   updateDocumentStatus,
+  updateDocumentOutline,
+  updateDocumentLanguage,
   deleteDocument,
   createSummary,
   getSummary,
   getSummaryByDocumentId,
+  getSummaryTranslations,
   getUserSummaries,
   updateSummary,
   deleteSummary,
   createResearchSource,
   getResearchSourcesBySummaryId,
+  getSummaryVersion,
+  getSummaryVersions,
+  getConversation,
+  getConversationMessages,
+  getDocumentConversations,
+  deleteConversation,
+  createComparison,
+  getComparison,
+  getUserComparisons,
+  deleteComparison,
+  aggregateLLMCalls,
+  getRoleQuotas,
+  upsertRoleQuota,
+  Comparison,
+  Conversation,
   Document,
   Summary
 } from "./db";
 import { storagePut } from "./storage";
-import { processDocument, getFileType, validateFileSize } from "./documentProcessor";
+import { processDocument, getFileType, validateFileSize, type DocumentType } from "./documentProcessor";
 import { nanoid } from "nanoid";
 
 // Helper to count total jots notes across all sections
@@ -40,8 +58,45 @@ function countJotsNotes(parsed: any): number {
   }
   return count;
 }
-import { generateSummaryWithProgress, getProgress } from "./progressiveSummary";
-import { generateSummaryPDF, type SummaryData } from "./pdfExport";
+import { getProgress, streamSummaryProgress, type SummaryJobPayload } from "./progressiveSummary";
+import { enqueueJob } from "./jobQueue";
+import {
+  editSummaryPart,
+  editTargetSchema,
+  regenerateSummaryPart,
+  regenerationTargetSchema,
+  restoreSummaryVersion,
+} from "./summaryEditing";
+import { ensureBaselineVersion, toVersionInfo, withSummaryWriteLock } from "./summaryVersions";
+import { diffSummaries } from "./summaryDiff";
+import { hasLLMProvidersConfigured, listAvailableModels } from "./_core/llmRouter";
+import { runWithLLMUsageScope } from "./_core/llmUsage";
+import { clearLLMCache, getLLMCacheStats, runWithLLMCacheBypass } from "./_core/llmCache";
+import {
+  assertCanUpload,
+  DEFAULT_ROLE_QUOTAS,
+  getQuotaLimits,
+  getQuotaUsage,
+  quotaLimitsSchema,
+  quotaRole,
+  withGenerationQuota,
+} from "./quotas";
+import { COMPARISON_EXPORT_FORMATS, EXPORT_FORMATS, exportSummary, getComparisonExporter, getExporter } from "./exporters";
+import {
+  listPromptTemplates,
+  listSummaryStyles,
+  promptTemplateInputSchema,
+  resolvePromptTemplate,
+  savePromptTemplate,
+  summaryStyleSchema,
+} from "./promptTemplates";
+import { parseStoredTargets, resolveSummaryTargets, summaryLengthSchema } from "./summaryLength";
+import { isSupportedLanguage, languageCodeSchema, languageName, LANGUAGE_CODES, SUPPORTED_LANGUAGES } from "./language";
+import type { TranslationJobPayload } from "./summaryTranslation";
+import { indexDocument, reindexLibrary, searchLibrary, searchQuerySchema } from "./search";
+import { askLibrary, libraryQuestionSchema } from "./libraryQA";
+import { chatSendSchema, sendChatMessage, toChatMessage } from "./bookChat";
+import { comparisonCreateSchema, comparisonTitle, toComparisonDetails } from "./comparisons";
 
 export const appRouter = router({
   system: systemRouter,
@@ -63,25 +118,27 @@ export const appRouter = router({
       .input(z.object({
         filename: z.string(),
         fileData: z.string(), // base64 encoded file data
-        fileSize: z.number(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const { filename, fileData, fileSize } = input;
+        const { filename, fileData } = input;
         const userId = ctx.user?.id || 'anonymous';
 
         // Validate file type
         const fileType = getFileType(filename);
         if (!fileType) {
-          throw new Error('Unsupported file type. Please upload .pdf, .docx, .txt, or .rtf files.');
+          throw new Error('Unsupported file type. Please upload .pdf, .docx, .epub, .txt, .rtf, .html, or .md files.');
         }
 
+        // Decode base64 file data, and size checks go by what was actually sent
+        const buffer = Buffer.from(fileData, 'base64');
+        const fileSize = buffer.length;
+
         // Validate file size
         if (!validateFileSize(fileSize)) {
           throw new Error('File size exceeds 10MB limit.');
         }
 
-        // Decode base64 file data
-        const buffer = Buffer.from(fileData, 'base64');
+        await assertCanUpload(userId, quotaRole(ctx.user), fileSize);
 
         // Upload to S3
         const storageKey = `documents/${userId}/${nanoid()}-${filename}`;
@@ -162,9 +219,17 @@ export const appRouter = router({
         documentId: z.string(),
         bookTitle: z.string().optional(),
         bookAuthor: z.string().optional(),
+        // Summary style, e.g. 'executive-brief'; the user's latest version of it is used
+        style: summaryStyleSchema.optional(),
+        // Length preset ('skim', 'standard', 'exhaustive') and/or custom targets; the style's own by default
+        length: summaryLengthSchema.optional(),
+        // Language to write in, e.g. 'es'; the document's detected language by default
+        language: languageCodeSchema.optional(),
+        // Ask the models afresh instead of reusing cached responses to the same prompts
+        bypassCache: z.boolean().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const { documentId, bookTitle, bookAuthor } = input;
+        const { documentId, bookTitle, bookAuthor, style, length, language, bypassCache } = input;
         const userId = ctx.user?.id || 'anonymous';
 
         // Get the document
@@ -195,30 +260,46 @@ export const appRouter = router({
           };
         }
 
-        // Create summary record
+        const template = await resolvePromptTemplate(userId, style);
+        const targets = length ? resolveSummaryTargets(template.variables.targets, length) : undefined;
+
         const summaryId = nanoid();
-        await createSummary({
-          id: summaryId,
-          documentId,
-          userId,
-          bookTitle: bookTitle || null,
-          bookAuthor: bookAuthor || null,
-          status: 'generating',
-        });
+        await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'summary', summaryId }, async () => {
+          // Create summary record
+          await createSummary({
+            id: summaryId,
+            documentId,
+            userId,
+            bookTitle: bookTitle || null,
+            bookAuthor: bookAuthor || null,
+            promptTemplateId: template.id,
+            lengthTargets: targets ? JSON.stringify(targets) : null,
+            language: language ?? null,
+            status: 'generating',
+          });
 
-        // Generate summary with progress tracking
-        generateSummaryWithProgress(documentId, summaryId, bookTitle, bookAuthor).catch(error => {
-          console.error('Summary generation failed:', error);
-          updateSummary(summaryId, {
-            status: 'failed',
-            errorMessage: error.message,
+          // Queue generation; the background worker picks it up (and resumes it after restarts)
+          const payload: SummaryJobPayload = {
+            documentId,
+            bookTitle,
+            bookAuthor,
+            promptTemplateId: template.id,
+            targets,
+            language,
+            bypassCache,
+          };
+          await enqueueJob({
+            kind: 'summary',
+            summaryId,
+            userId,
+            payload,
           });
         });
 
         return {
           success: true,
           summaryId,
-          message: 'Summary generation started',
+          message: 'Summary generation queued',
         };
       }),
 
@@ -285,7 +366,7 @@ export const appRouter = router({
         summaryId: z.string(),
       }))
       .query(async ({ input }) => {
-        const progress = getProgress(input.summaryId);
+        const progress = await getProgress(input.summaryId);
         return progress || {
           stage: 'Initializing...',
           sectionsCompleted: 0,
@@ -293,6 +374,328 @@ export const appRouter = router({
         };
       }),
 
+    // Stream live progress, including the summary as it is being written
+    stream: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+      }))
+      .subscription(async function* ({ input, ctx, signal }) {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+        verifySummaryAccess(summary, userId);
+
+        if (summary!.status !== 'generating') {
+          const progress = await getProgress(input.summaryId);
+          if (progress) {
+            yield progress;
+          }
+          return;
+        }
+
+        yield* streamSummaryProgress(input.summaryId, signal);
+      }),
+
+    // Regenerate one section, subsection or Jots note
+    regenerate: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        target: regenerationTargetSchema,
+        instruction: z.string().max(500).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+        // A cached response would hand back the very text being replaced
+        const mainContent = await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'regeneration', summaryId: input.summaryId }, () =>
+          runWithLLMUsageScope({ summaryId: input.summaryId }, () =>
+            runWithLLMCacheBypass(true, () => regenerateSummaryPart(summary!, input.target, userId, input.instruction)),
+          ),
+        );
+
+        return {
+          success: true,
+          mainContent,
+        };
+      }),
+
+    // Replace the text of one part of a summary by hand
+    edit: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        target: editTargetSchema,
+        field: z.enum(['title', 'content']),
+        text: z.string().min(1),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const mainContent = await editSummaryPart(summary!, input.target, input.field, input.text, userId);
+
+        return {
+          success: true,
+          mainContent,
+        };
+      }),
+
+    // List every recorded version of a summary, newest first
+    versions: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const versions = await getSummaryVersions(input.summaryId);
+        return versions.map(toVersionInfo);
+      }),
+
+    // Compare two versions section by section
+    diffVersions: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        fromVersionId: z.string(),
+        toVersionId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const [from, to] = await Promise.all([
+          getSummaryVersion(input.fromVersionId),
+          getSummaryVersion(input.toVersionId),
+        ]);
+        if (!from || !to || from.summaryId !== input.summaryId || to.summaryId !== input.summaryId) {
+          throw new Error('Version not found');
+        }
+
+        return {
+          from: toVersionInfo(from),
+          to: toVersionInfo(to),
+          diff: diffSummaries(from, to),
+        };
+      }),
+
+    // Make an older version current again
+    restoreVersion: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        versionId: z.string(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const version = await restoreSummaryVersion(summary!, input.versionId, userId);
+
+        return {
+          success: true,
+          version: toVersionInfo(version),
+        };
+      }),
+
+    // Models a summary can be re-run with
+    availableModels: publicProcedure
+      .query(() => listAvailableModels()),
+
+    // Generate the whole summary again, optionally with a specific model
+    rerun: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        model: z.string().optional(),
+        bypassCache: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        if (summary!.status === 'generating') {
+          throw new Error('Summary is already being generated');
+        }
+
+        if (input.model && !listAvailableModels().some(option => option.model === input.model)) {
+          throw new Error(`Model ${input.model} is not available`);
+        }
+
+        return await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'rerun', summaryId: summary!.id }, async () => {
+          // Keep the current content in history before it is replaced
+          await withSummaryWriteLock(summary!.id, async () => {
+            const latest = await getSummary(summary!.id);
+            if (latest?.status === 'generating') {
+              throw new Error('Summary is already being generated');
+            }
+            await ensureBaselineVersion(latest!);
+            await updateSummary(summary!.id, { status: 'generating', errorMessage: null });
+          });
+
+          // A translation is re-run by translating its original again
+          if (summary!.translatedFromId && isSupportedLanguage(summary!.language)) {
+            const translationPayload: TranslationJobPayload = {
+              sourceSummaryId: summary!.translatedFromId,
+              language: summary!.language,
+            };
+            await enqueueJob({
+              kind: 'translation',
+              summaryId: summary!.id,
+              userId,
+              payload: translationPayload,
+            });
+            return {
+              success: true,
+              summaryId: summary!.id,
+            };
+          }
+
+          const payload: SummaryJobPayload = {
+            documentId: summary!.documentId,
+            bookTitle: summary!.bookTitle ?? undefined,
+            bookAuthor: summary!.bookAuthor ?? undefined,
+            model: input.model,
+            promptTemplateId: summary!.promptTemplateId ?? undefined,
+            targets: parseStoredTargets(summary!.lengthTargets),
+            language: isSupportedLanguage(summary!.language) ? summary!.language : undefined,
+            bypassCache: input.bypassCache,
+          };
+          await enqueueJob({
+            kind: 'summary',
+            summaryId: summary!.id,
+            userId,
+            payload,
+          });
+
+          return {
+            success: true,
+            summaryId: summary!.id,
+          };
+        });
+      }),
+
+    // Languages summaries can be written in or translated into
+    languages: publicProcedure
+      .query(() => LANGUAGE_CODES.map(code => ({ code, name: SUPPORTED_LANGUAGES[code] }))),
+
+    // Translate a finished summary into another language as a linked copy
+    translate: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        language: languageCodeSchema,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        if (summary!.status !== 'completed') {
+          throw new Error('Only completed summaries can be translated');
+        }
+
+        // Always translate from the original, so translations do not drift from it
+        const original = summary!.translatedFromId ? await getSummary(summary!.translatedFromId) : summary!;
+        if (!original || original.status !== 'completed') {
+          throw new Error('The original of this translation is no longer available');
+        }
+
+        if ((original.language ?? 'en') === input.language) {
+          return {
+            success: true,
+            summaryId: original.id,
+            message: `Summary is already in ${languageName(input.language)}`,
+          };
+        }
+
+        const existing = (await getSummaryTranslations(original.id)).find(
+          translation => translation.language === input.language,
+        );
+        if (existing && existing.status !== 'failed') {
+          return {
+            success: true,
+            summaryId: existing.id,
+            message: `A ${languageName(input.language)} translation already exists`,
+          };
+        }
+
+        if (!hasLLMProvidersConfigured()) {
+          throw new Error('Translating a summary requires an LLM provider to be configured');
+        }
+
+        // A failed translation is retried in place rather than duplicated
+        const summaryId = existing?.id ?? nanoid();
+        await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'translation', summaryId }, async () => {
+          if (existing) {
+            await updateSummary(summaryId, { status: 'generating', errorMessage: null });
+          } else {
+            await createSummary({
+              id: summaryId,
+              documentId: original.documentId,
+              userId,
+              bookTitle: original.bookTitle,
+              bookAuthor: original.bookAuthor,
+              promptTemplateId: original.promptTemplateId,
+              lengthTargets: original.lengthTargets,
+              language: input.language,
+              translatedFromId: original.id,
+              status: 'generating',
+            });
+          }
+
+          const payload: TranslationJobPayload = {
+            sourceSummaryId: original.id,
+            language: input.language,
+          };
+          await enqueueJob({
+            kind: 'translation',
+            summaryId,
+            userId,
+            payload,
+          });
+        });
+
+        return {
+          success: true,
+          summaryId,
+          message: 'Translation queued',
+        };
+      }),
+
+    // The original of a summary and its translations
+    translations: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const originalId = summary!.translatedFromId ?? summary!.id;
+        const original = originalId === summary!.id ? summary : await getSummary(originalId);
+        const related = [
+          ...(original ? [original] : []),
+          ...(await getSummaryTranslations(originalId)),
+        ];
+        return related.map(entry => ({
+          summaryId: entry.id,
+          language: entry.language,
+          status: entry.status,
+          isOriginal: !entry.translatedFromId,
+        }));
+      }),
+
     // Export summary as PDF
     exportPDF: publicProcedure
       .input(z.object({
@@ -303,29 +706,62 @@ export const appRouter = router({
         const userId = ctx.user?.id || 'anonymous';
         
         verifySummaryAccess(summary, userId);
-        
-        // Parse mainContent into structured data for PDF export
-        const parsedContent = deserializeSummaryContent(summary!.mainContent);
-
-        // Prepare summary data for PDF
-        const summaryData: SummaryData = {
-          bookTitle: summary!.bookTitle,
-          bookAuthor: summary!.bookAuthor,
-          introduction: summary!.introduction || '',
-          onePageSummary: summary!.onePageSummary || '',
-          sections: parsedContent.sections,
-          researchSources: parsedContent.researchSources,
+
+        const file = exportSummary(summary!, 'pdf');
+
+        return {
+          success: true,
+          filename: file.filename,
+          pdfData: file.data.toString('base64'),
         };
-        
-        // Generate PDF
-        const pdf = generateSummaryPDF(summaryData);
-        const pdfBuffer = Buffer.from(pdf.output('arraybuffer'));
-        const pdfBase64 = pdfBuffer.toString('base64');
-        
+      }),
+
+    // LLM calls made for a summary (generation, translation, regeneration) and their estimated cost
+    usage: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const [[totals], byModel] = await Promise.all([
+          aggregateLLMCalls({ summaryId: input.summaryId }),
+          aggregateLLMCalls({ summaryId: input.summaryId }, ['model']),
+        ]);
+
+        return { totals, byModel };
+      }),
+
+    // Formats offered by `export` and the /api/summaries/:id/export/:format download route
+    exportFormats: publicProcedure
+      .query(() => EXPORT_FORMATS.map(format => ({
+        format,
+        label: getExporter(format).label,
+        extension: getExporter(format).extension,
+      }))),
+
+    // Export summary in any supported format (base64; prefer the HTTP route for large files)
+    export: publicProcedure
+      .input(z.object({
+        summaryId: z.string(),
+        format: z.enum(EXPORT_FORMATS),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summary = await getSummary(input.summaryId);
+
+        verifySummaryAccess(summary, userId);
+
+        const file = exportSummary(summary!, input.format);
+
         return {
           success: true,
-          filename: `${summary!.bookTitle || 'summary'}.pdf`,
-          pdfData: pdfBase64,
+          filename: file.filename,
+          mimeType: file.mimeType,
+          data: file.data.toString('base64'),
         };
       }),
 
@@ -349,6 +785,308 @@ export const appRouter = router({
       }),
   }),
 
+  promptTemplates: router({
+    // The version of each style a new summary would be written with
+    styles: publicProcedure
+      .query(async ({ ctx }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        return await listSummaryStyles(userId);
+      }),
+
+    // Every version of every style, built-in and the user's own
+    list: publicProcedure
+      .query(async ({ ctx }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        return await listPromptTemplates(userId);
+      }),
+
+    // Save a new version of a style for this user
+    save: publicProcedure
+      .input(promptTemplateInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const template = await savePromptTemplate(userId, input);
+
+        return {
+          success: true,
+          template,
+        };
+      }),
+  }),
+
+  search: router({
+    // Full-text search across the user's documents, summaries, Jots notes and research sources
+    query: publicProcedure
+      .input(searchQuerySchema)
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        return await searchLibrary(userId, input);
+      }),
+
+    // Rebuild the full-text and semantic indexes for everything the user has, e.g. after an upgrade
+    reindex: publicProcedure
+      .mutation(async ({ ctx }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const indexed = await reindexLibrary(userId);
+
+        return {
+          success: true,
+          ...indexed,
+        };
+      }),
+  }),
+
+  library: router({
+    // Answer a question from the user's documents and summaries, citing the passages used
+    ask: publicProcedure
+      .input(libraryQuestionSchema)
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        return await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'library_qa' }, () =>
+          askLibrary(userId, input),
+        );
+      }),
+  }),
+
+  chat: router({
+    // Ask a question about one document, starting or continuing a conversation
+    send: publicProcedure
+      .input(chatSendSchema)
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const document = await getDocument(input.documentId);
+        verifyDocumentAccess(document, userId);
+
+        if (document!.status !== 'completed') {
+          throw new Error('Document is not ready for chat yet');
+        }
+
+        let conversation: Conversation | undefined;
+        if (input.conversationId) {
+          conversation = await getConversation(input.conversationId);
+          verifyConversationAccess(conversation, userId);
+          if (conversation!.documentId !== document!.id) {
+            throw new Error('Conversation belongs to another document');
+          }
+        }
+
+        if (!hasLLMProvidersConfigured()) {
+          throw new Error('Chat requires an LLM provider to be configured');
+        }
+
+        const result = await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'chat' }, () =>
+          sendChatMessage(userId, document!, conversation, input),
+        );
+
+        return {
+          success: true,
+          conversationId: result.conversation.id,
+          messages: result.messages,
+        };
+      }),
+
+    // List the user's conversations about a document, most recent first
+    conversations: publicProcedure
+      .input(z.object({
+        documentId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const document = await getDocument(input.documentId);
+        verifyDocumentAccess(document, userId);
+
+        return await getDocumentConversations(userId, input.documentId);
+      }),
+
+    // Get every message of a conversation
+    messages: publicProcedure
+      .input(z.object({
+        conversationId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const conversation = await getConversation(input.conversationId);
+        verifyConversationAccess(conversation, userId);
+
+        const messages = await getConversationMessages(input.conversationId);
+        return messages.map(toChatMessage);
+      }),
+
+    // Delete a conversation and its messages
+    delete: publicProcedure
+      .input(z.object({
+        conversationId: z.string(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const conversation = await getConversation(input.conversationId);
+        verifyConversationAccess(conversation, userId);
+
+        await deleteConversation(input.conversationId);
+
+        return { success: true };
+      }),
+  }),
+
+  comparisons: router({
+    // Compare two or more completed summaries in a report generated in the background
+    create: publicProcedure
+      .input(comparisonCreateSchema)
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const summaries = await Promise.all(input.summaryIds.map(id => getSummary(id)));
+
+        summaries.forEach(summary => {
+          verifySummaryAccess(summary, userId);
+          if (summary!.status !== 'completed') {
+            throw new Error('Only completed summaries can be compared');
+          }
+        });
+
+        if (!hasLLMProvidersConfigured()) {
+          throw new Error('Comparing summaries requires an LLM provider to be configured');
+        }
+
+        const comparisonId = nanoid();
+        await withGenerationQuota(userId, quotaRole(ctx.user), { kind: 'comparison', summaryId: comparisonId }, async () => {
+          await createComparison({
+            id: comparisonId,
+            userId,
+            title: comparisonTitle(summaries as Summary[]),
+            summaryIds: JSON.stringify(input.summaryIds),
+            status: 'generating',
+          });
+          await enqueueJob({
+            kind: 'comparison',
+            summaryId: comparisonId,
+            userId,
+            payload: {},
+          });
+        });
+
+        return {
+          success: true,
+          comparisonId,
+          message: 'Comparison queued',
+        };
+      }),
+
+    // List the user's comparisons, newest first (without their reports)
+    list: publicProcedure
+      .query(async ({ ctx }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const comparisons = await getUserComparisons(userId);
+
+        return comparisons.map(comparison => {
+          const { report, ...details } = toComparisonDetails(comparison);
+          return { ...details, bookCount: details.summaryIds.length };
+        });
+      }),
+
+    // Get a comparison with its report
+    get: publicProcedure
+      .input(z.object({
+        comparisonId: z.string(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const comparison = await getComparison(input.comparisonId);
+        verifyComparisonAccess(comparison, userId);
+
+        return toComparisonDetails(comparison!);
+      }),
+
+    // Formats offered by the /api/comparisons/:id/export/:format download route
+    exportFormats: publicProcedure
+      .query(() => COMPARISON_EXPORT_FORMATS.map(format => ({
+        format,
+        label: getComparisonExporter(format).label,
+        extension: getComparisonExporter(format).extension,
+      }))),
+
+    // Delete a comparison; the compared summaries are kept
+    delete: publicProcedure
+      .input(z.object({
+        comparisonId: z.string(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        const comparison = await getComparison(input.comparisonId);
+        verifyComparisonAccess(comparison, userId);
+
+        await deleteComparison(input.comparisonId);
+
+        return { success: true };
+      }),
+  }),
+
+  usage: router({
+    // The caller's quotas and how much of each is left
+    me: publicProcedure
+      .query(async ({ ctx }) => {
+        const userId = ctx.user?.id || 'anonymous';
+        return await getQuotaUsage(userId, quotaRole(ctx.user));
+      }),
+  }),
+
+  admin: router({
+    // LLM spend over the last `days`, per user and per model, with daily breakdowns
+    llmUsage: adminProcedure
+      .input(z.object({
+        days: z.number().int().min(1).max(365).default(30),
+      }))
+      .query(async ({ input }) => {
+        const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+
+        const [[totals], byUser, byModel, byUserPerDay, byModelPerDay] = await Promise.all([
+          aggregateLLMCalls({ since }),
+          aggregateLLMCalls({ since }, ['userId']),
+          aggregateLLMCalls({ since }, ['model']),
+          aggregateLLMCalls({ since }, ['day', 'userId']),
+          aggregateLLMCalls({ since }, ['day', 'model']),
+        ]);
+
+        return { since, totals, byUser, byModel, byUserPerDay, byModelPerDay };
+      }),
+
+    // Effective quotas per role, and whether each is an override or the built-in default
+    quotas: adminProcedure
+      .query(async () => {
+        const overrides = await getRoleQuotas();
+        const roles = Array.from(new Set([...Object.keys(DEFAULT_ROLE_QUOTAS), ...overrides.map(quota => quota.role)]));
+
+        return await Promise.all(roles.map(async role => ({
+          role,
+          overridden: overrides.some(quota => quota.role === role),
+          limits: await getQuotaLimits(role),
+        })));
+      }),
+
+    // Replace the quotas of a role; null limits are unlimited
+    setQuota: adminProcedure
+      .input(quotaLimitsSchema.extend({
+        role: z.string().min(1).max(20),
+      }))
+      .mutation(async ({ input }) => {
+        const quota = await upsertRoleQuota(input);
+        return { success: true, quota };
+      }),
+
+    // Entries, hits and tokens saved by the LLM response cache
+    llmCache: adminProcedure
+      .query(() => getLLMCacheStats()),
+
+    // Delete expired cached responses, or all of them
+    clearLLMCache: adminProcedure
+      .input(z.object({
+        expiredOnly: z.boolean().default(true),
+      }))
+      .mutation(async ({ input }) => {
+        const deleted = await clearLLMCache(input.expiredOnly);
+        return { success: true, deleted };
+      }),
+  }),
+
   // Storage endpoint for serving uploaded files
   storage: router({
     get: publicProcedure
@@ -380,6 +1118,9 @@ function getMimeType(fileType: string): string {
     'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     'txt': 'text/plain',
     'rtf': 'application/rtf',
+    'epub': 'application/epub+zip',
+    'html': 'text/html',
+    'md': 'text/markdown',
   };
   return mimeTypes[fileType] || 'application/octet-stream';
 }
@@ -403,100 +1144,6 @@ function parseSummaryContent(content: string | null): string | null {
   }
 }
 
-type SummaryContent = Pick<SummaryData, 'sections' | 'researchSources'>;
-
-function coerceNotes(value: unknown): SummaryData['sections'][number]['subsections'][number]['jotsNotes'] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-
-  return value
-    .filter(note => note && typeof note === 'object')
-    .map(note => {
-      const candidate = note as Record<string, unknown>;
-      return {
-        type: typeof candidate.type === 'string' ? candidate.type : 'note',
-        content: typeof candidate.content === 'string' ? candidate.content : '',
-      };
-    })
-    .filter(note => note.content.length > 0);
-}
-
-function coerceSubsections(value: unknown): SummaryData['sections'][number]['subsections'] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-
-  return value
-    .filter(subsection => subsection && typeof subsection === 'object')
-    .map(subsection => {
-      const candidate = subsection as Record<string, unknown>;
-      return {
-        title: typeof candidate.title === 'string' ? candidate.title : '',
-        content: typeof candidate.content === 'string' ? candidate.content : '',
-        jotsNotes: coerceNotes(candidate.jotsNotes),
-      };
-    })
-    .filter(subsection => subsection.content.length > 0 || subsection.title.length > 0);
-}
-
-function coerceSections(value: unknown): SummaryData['sections'] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-
-  return value
-    .filter(section => section && typeof section === 'object')
-    .map(section => {
-      const candidate = section as Record<string, unknown>;
-      return {
-        title: typeof candidate.title === 'string' ? candidate.title : '',
-        subsections: coerceSubsections(candidate.subsections),
-      };
-    })
-    .filter(section => section.title.length > 0 || section.subsections.length > 0);
-}
-
-function coerceResearchSources(value: unknown): SummaryData['researchSources'] {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-
-  return value
-    .filter(source => source && typeof source === 'object')
-    .map(source => {
-      const candidate = source as Record<string, unknown>;
-      return {
-        title: typeof candidate.title === 'string' ? candidate.title : 'Reference',
-        author: typeof candidate.author === 'string' ? candidate.author : 'Unknown Author',
-        authorCredentials:
-          typeof candidate.authorCredentials === 'string'
-            ? candidate.authorCredentials
-            : 'Expert commentary',
-        relevance: typeof candidate.relevance === 'string' ? candidate.relevance : '',
-      };
-    })
-    .filter(source => source.relevance.length > 0);
-}
-
-function deserializeSummaryContent(content: string | null): SummaryContent {
-  if (!content) {
-    return { sections: [], researchSources: [] };
-  }
-
-  try {
-    const parsed = JSON.parse(content) as Record<string, unknown>;
-
-    return {
-      sections: coerceSections(parsed.sections),
-      researchSources: coerceResearchSources(parsed.researchSources),
-    };
-  } catch (error) {
-    console.error('Failed to deserialize summary content for export:', error);
-    return { sections: [], researchSources: [] };
-  }
-}
-
 /**
  * Verify user authorization for document access
  */
@@ -521,13 +1168,37 @@ function verifySummaryAccess(summary: Summary | undefined, userId: string): void
   }
 }
 
+/**
+ * Verify user authorization for conversation access
+ */
+function verifyConversationAccess(conversation: Conversation | undefined, userId: string): void {
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+  if (conversation.userId !== userId) {
+    throw new Error('Unauthorized access to conversation');
+  }
+}
+
+/**
+ * Verify user authorization for comparison access
+ */
+function verifyComparisonAccess(comparison: Comparison | undefined, userId: string): void {
+  if (!comparison) {
+    throw new Error('Comparison not found');
+  }
+  if (comparison.userId !== userId) {
+    throw new Error('Unauthorized access to comparison');
+  }
+}
+
 /**
  * Process document asynchronously after upload
  */
 async function processDocumentAsync(
   documentId: string,
   buffer: Buffer,
-  fileType: 'pdf' | 'docx' | 'txt' | 'rtf'
+  fileType: DocumentType
 ): Promise<void> {
   try {
     await updateDocumentStatus(documentId, 'processing');
@@ -538,7 +1209,15 @@ async function processDocumentAsync(
       throw new Error(result.error || 'Document processing failed');
     }
 
+    // Store the outline and language first so a summary never starts without them
+    await updateDocumentOutline(documentId, result.outline ? JSON.stringify(result.outline) : null);
+    await updateDocumentLanguage(documentId, result.language ?? null);
     await updateDocumentStatus(documentId, 'completed', result.text);
+
+    const document = await getDocument(documentId);
+    if (document) {
+      await indexDocument(document);
+    }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Error processing document:', errorMessage);
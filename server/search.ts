@@ -0,0 +1,290 @@
+/**
+ * Full-text search across a user's library.
+ *
+ * Each document and summary is broken into search entries (see the
+ * searchEntries table): passages of the document's extracted text, the
+ * summary's introduction and one-page summary, every subsection, every Jots
+ * note and every research source. Entries are rebuilt whenever their source
+ * changes: a document when its text is extracted, a summary whenever it is
+ * generated, translated, edited or restored. Postgres matches them with
+ * full-text search; the in-memory store keeps an inverted index (db.ts).
+ * The semantic index (embeddings.ts) is rebuilt from the same entries.
+ */
+
+import { z } from "zod";
+import {
+  getSummary,
+  getUserDocuments,
+  getUserSummaries,
+  querySearchEntries,
+  replaceSearchEntries,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  type Document,
+  type InsertSearchEntry,
+  type SearchEntryMatch,
+  type Summary,
+} from "./db";
+import { indexEmbeddings } from "./embeddings";
+import { describeLocation, parseDocumentOutline, splitIntoPassages, type SourceLocation } from "./documentOutline";
+import type { SanitizedResearchSource } from "./progressiveSummary";
+import type { StoredSummaryContent } from "./summaryEditing";
+import { JOTS_NOTE_TYPES } from "./summarySchema";
+
+export const SEARCH_ENTRY_KINDS = ["passage", "overview", "subsection", "note", "researchSource"] as const;
+
+export type SearchEntryKind = (typeof SEARCH_ENTRY_KINDS)[number];
+
+export const searchQuerySchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  /** Only these kinds of entry; all of them by default. */
+  kinds: z.array(z.enum(SEARCH_ENTRY_KINDS)).min(1).optional(),
+  /** Only Jots notes of this type. */
+  noteType: z.enum(JOTS_NOTE_TYPES).optional(),
+  /** Only books whose author contains this. */
+  author: z.string().trim().min(1).max(255).optional(),
+  limit: z.number().int().min(1).max(50).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export type SearchQuery = z.input<typeof searchQuerySchema>;
+
+/**
+ * Where an entry sits: indexes into the summary's sections for summary
+ * parts, the passage's place in the book for document text.
+ */
+export type SearchLocation = {
+  sectionIndex?: number;
+  subsectionIndex?: number;
+  noteIndex?: number;
+  sourceIndex?: number;
+  passage?: SourceLocation;
+};
+
+export type HighlightSegment = { text: string; highlighted: boolean };
+
+export type SearchResult = {
+  id: string;
+  kind: SearchEntryKind;
+  documentId: string;
+  summaryId: string | null;
+  title: string;
+  bookTitle: string | null;
+  bookAuthor: string | null;
+  noteType: string | null;
+  location: SearchLocation;
+  score: number;
+  snippet: HighlightSegment[];
+};
+
+export type SearchResponse = {
+  results: SearchResult[];
+  hasMore: boolean;
+};
+
+/**
+ * Search the user's documents and summaries.
+ */
+export async function searchLibrary(userId: string, input: SearchQuery): Promise<SearchResponse> {
+  const { query, kinds, noteType, author, limit, offset } = searchQuerySchema.parse(input);
+  // One extra row tells whether there is another page.
+  const matches = await querySearchEntries(userId, {
+    text: query,
+    kinds: noteType ? ["note"] : kinds,
+    noteType: noteType?.toLowerCase(),
+    author,
+    limit: limit + 1,
+    offset,
+  });
+
+  return {
+    results: matches.slice(0, limit).map(toSearchResult),
+    hasMore: matches.length > limit,
+  };
+}
+
+/**
+ * Split a snippet into plain and highlighted runs, so the client can render
+ * matches without trusting markup from stored text.
+ */
+export function splitHighlights(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  snippet.split(SEARCH_HIGHLIGHT_START).forEach((part, index) => {
+    const [highlighted, plain] = index === 0 ? ["", part] : splitOnce(part, SEARCH_HIGHLIGHT_END);
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (plain) segments.push({ text: plain, highlighted: false });
+  });
+  return segments;
+}
+
+/**
+ * Rebuild the entries for a document's extracted text. Indexing problems are
+ * logged rather than thrown: the index can always be rebuilt, and a failure
+ * must not fail the upload or edit that triggered it.
+ */
+export async function indexDocument(document: Document): Promise<void> {
+  try {
+    const scope = { documentId: document.id, summaryId: null };
+    const entries = buildDocumentEntries(document);
+    await replaceSearchEntries(scope, entries);
+    await indexEmbeddings(scope, entries);
+  } catch (error) {
+    console.warn(`[Search] Could not index document ${document.id}:`, error);
+  }
+}
+
+/**
+ * Rebuild the entries for a summary; summaries that are not completed have
+ * none. Failures are logged, as for indexDocument.
+ */
+export async function indexSummary(summaryId: string): Promise<void> {
+  try {
+    const summary = await getSummary(summaryId);
+    if (!summary) {
+      return;
+    }
+    const entries = buildSummaryEntries(summary);
+    await replaceSearchEntries({ summaryId }, entries);
+    await indexEmbeddings({ summaryId }, entries);
+  } catch (error) {
+    console.warn(`[Search] Could not index summary ${summaryId}:`, error);
+  }
+}
+
+/**
+ * Rebuild every entry of the user's library, e.g. for content created before
+ * search existed.
+ */
+export async function reindexLibrary(userId: string): Promise<{ documents: number; summaries: number }> {
+  const documents = await getUserDocuments(userId);
+  for (const document of documents) {
+    await indexDocument(document);
+  }
+
+  const summaries = await getUserSummaries(userId);
+  for (const summary of summaries) {
+    await indexSummary(summary.id);
+  }
+
+  return { documents: documents.length, summaries: summaries.length };
+}
+
+function buildDocumentEntries(document: Document): InsertSearchEntry[] {
+  const text = document.extractedText;
+  if (document.status !== "completed" || !text) {
+    return [];
+  }
+
+  const outline = parseDocumentOutline(document.outline);
+  return splitIntoPassages(text).map((passage, index) => {
+    const location = describeLocation(outline, text, passage.start, passage.end);
+    return {
+      id: `${document.id}:p${index}`,
+      userId: document.userId,
+      documentId: document.id,
+      summaryId: null,
+      kind: "passage",
+      title: `${document.originalFilename} · ${location.label}`,
+      body: text.slice(passage.start, passage.end).trim(),
+      location: JSON.stringify({ passage: location } satisfies SearchLocation),
+    };
+  });
+}
+
+function buildSummaryEntries(summary: Summary): InsertSearchEntry[] {
+  if (summary.status !== "completed") {
+    return [];
+  }
+
+  const base = {
+    userId: summary.userId,
+    documentId: summary.documentId,
+    summaryId: summary.id,
+    bookTitle: summary.bookTitle,
+    bookAuthor: summary.bookAuthor,
+  };
+  const bookTitle = summary.bookTitle || "Untitled";
+  const entries: InsertSearchEntry[] = [];
+  const add = (id: string, kind: SearchEntryKind, title: string, body: string, location: SearchLocation, noteType?: string) => {
+    if (body.trim()) {
+      entries.push({
+        ...base,
+        id: `${summary.id}:${id}`,
+        kind,
+        title,
+        body: body.trim(),
+        noteType: noteType ?? null,
+        location: JSON.stringify(location),
+      });
+    }
+  };
+
+  add("intro", "overview", `${bookTitle} · Introduction`, summary.introduction ?? "", {});
+  add("onepage", "overview", `${bookTitle} · 1-Page Summary`, summary.onePageSummary ?? "", {});
+
+  const content = parseContent(summary.mainContent);
+  content.sections.forEach((section, sectionIndex) => {
+    (section.subsections ?? []).forEach((subsection, subsectionIndex) => {
+      const place = `${section.title} › ${subsection.title}`;
+      add(`s${sectionIndex}.${subsectionIndex}`, "subsection", place, subsection.content, {
+        sectionIndex,
+        subsectionIndex,
+      });
+      (subsection.jotsNotes ?? []).forEach((note, noteIndex) =>
+        add(
+          `s${sectionIndex}.${subsectionIndex}.n${noteIndex}`,
+          "note",
+          `${place} · Jots note`,
+          note.content,
+          { sectionIndex, subsectionIndex, noteIndex },
+          note.type,
+        ),
+      );
+    });
+  });
+
+  (content.researchSources as SanitizedResearchSource[]).forEach((source, sourceIndex) =>
+    add(
+      `r${sourceIndex}`,
+      "researchSource",
+      `${source.title} — ${source.author}`,
+      [source.authorCredentials, source.relevance].filter(Boolean).join("\n\n"),
+      { sourceIndex },
+    ),
+  );
+
+  return entries;
+}
+
+function parseContent(mainContent: string | null): StoredSummaryContent {
+  try {
+    const parsed = mainContent ? JSON.parse(mainContent) : {};
+    return {
+      sections: Array.isArray(parsed.sections) ? parsed.sections : [],
+      researchSources: Array.isArray(parsed.researchSources) ? parsed.researchSources : [],
+    };
+  } catch {
+    return { sections: [], researchSources: [] };
+  }
+}
+
+function toSearchResult(match: SearchEntryMatch): SearchResult {
+  return {
+    id: match.id,
+    kind: match.kind as SearchEntryKind,
+    documentId: match.documentId,
+    summaryId: match.summaryId,
+    title: match.title,
+    bookTitle: match.bookTitle,
+    bookAuthor: match.bookAuthor,
+    noteType: match.noteType,
+    location: match.location ? (JSON.parse(match.location) as SearchLocation) : {},
+    score: Number(match.score),
+    snippet: splitHighlights(match.snippet),
+  };
+}
+
+function splitOnce(value: string, separator: string): [string, string] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, ""] : [value.slice(0, index), value.slice(index + separator.length)];
+}
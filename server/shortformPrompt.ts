@@ -5,10 +5,179 @@
  * CRITICAL FIX: Explicitly instructs LLM to ignore testimonials/reviews and use plain text formatting.
  */
 
-export function generateShortformPrompt(documentText: string, bookTitle?: string, bookAuthor?: string): string {
-  return `You are Jonathan's Jots, creating a premium research-backed summary that EXCEEDS Shortform quality standards.
+import { languageName, type LanguageCode } from "./language";
+import { JOTS_NOTE_TYPES, type JotsNoteType } from "./summarySchema";
 
-🚨 CRITICAL CONTENT EXTRACTION RULES 🚨
+/**
+ * Largest slice of source text that fits in a single summary prompt. Longer
+ * documents are condensed chapter by chapter first (see progressiveSummary.ts).
+ */
+export const MAX_PROMPT_DOCUMENT_CHARS = 100000;
+
+/**
+ * Identifiers recorded on each summary version. Bump them whenever the wording
+ * of the corresponding prompt changes, so runs can be compared fairly.
+ */
+export const SHORTFORM_PROMPT_VERSION = "shortform-3";
+export const PART_REGENERATION_PROMPT_VERSION = "part-regeneration-1";
+
+export const QUALITY_GATE_PROMPT_VERSION = "quality-gate-1";
+export const TRANSLATION_PROMPT_VERSION = "translation-1";
+export const COMPARISON_PROMPT_VERSION = "comparison-1";
+
+export type TargetRange = { min: number; max: number };
+
+/**
+ * The length and structure targets the summary prompt asks for. The quality
+ * gate (qualityGate.ts) scores finished summaries against the same numbers.
+ */
+export const SUMMARY_TARGETS = {
+  totalWords: { min: 4000, max: 6000 },
+  introductionWords: { min: 300, max: 400 },
+  onePageSummaryWords: { min: 500, max: 750 },
+  subsectionWords: { min: 300, max: 500 },
+  noteWords: { min: 100, max: 150 },
+  sections: { min: 5, max: 8 },
+  subsectionsPerSection: { min: 2, max: 4 },
+  notesPerSubsection: { min: 1, max: 2 },
+  researchSources: { min: 8, max: 12 },
+} satisfies Record<string, TargetRange>;
+
+function range({ min, max }: TargetRange): string {
+  return `${min.toLocaleString("en-US")}-${max.toLocaleString("en-US")}`;
+}
+
+export type SummaryTargets = Record<keyof typeof SUMMARY_TARGETS, TargetRange>;
+
+/**
+ * The values a summary prompt template is rendered with. Each template stores
+ * its own, so a style can ask for a shorter summary or fewer kinds of note.
+ */
+export type PromptTemplateVariables = {
+  targets: SummaryTargets;
+  noteTypes: JotsNoteType[];
+};
+
+export type ShortformPromptOptions = {
+  /** The text is a chapter-by-chapter digest of the book rather than the book itself. */
+  isChapterDigest?: boolean;
+};
+
+export type SummaryPromptContext = ShortformPromptOptions & {
+  documentText: string;
+  bookTitle?: string;
+  bookAuthor?: string;
+  /** Language to write the summary in; English by default. */
+  outputLanguage?: LanguageCode;
+  /** Detected language of the document, when known. */
+  sourceLanguage?: LanguageCode | null;
+};
+
+const NOTE_TYPE_GUIDANCE: Record<JotsNoteType, string> = {
+  Comparative: "Compare to other research or frameworks",
+  Context: "Historical, cultural, or scientific context",
+  Critique: "Evaluate arguments, present counterarguments",
+  Practical: "Implementation techniques and frameworks",
+  Expert: "Insights from related fields",
+};
+
+const COUNT_WORDS = ["No", "One", "Two", "Three", "Four", "Five"];
+
+/**
+ * Placeholders a template body may use, written `{{name}}`. The document and
+ * book details come from the request; everything else from the template's
+ * variables.
+ */
+export const PROMPT_PLACEHOLDERS = [
+  "documentHeading",
+  "documentText",
+  "bookTitleLine",
+  "bookAuthorLine",
+  ...(Object.keys(SUMMARY_TARGETS) as Array<keyof SummaryTargets>),
+  "noteTypeCount",
+  "noteTypeGuide",
+  "noteTypeList",
+] as const;
+
+export type PromptPlaceholder = (typeof PROMPT_PLACEHOLDERS)[number];
+
+/**
+ * Fill in a template body. Values are substituted in a single pass, so text
+ * from the document that happens to contain `{{...}}` is left alone.
+ */
+export function renderSummaryPrompt(
+  body: string,
+  variables: PromptTemplateVariables,
+  context: SummaryPromptContext,
+): string {
+  const { documentText, bookTitle, bookAuthor, isChapterDigest } = context;
+  if (documentText.length > MAX_PROMPT_DOCUMENT_CHARS) {
+    console.warn(
+      `[Prompt] Document text is ${documentText.length} characters; only the first ${MAX_PROMPT_DOCUMENT_CHARS} fit in a single prompt.`,
+    );
+  }
+
+  const { noteTypes } = variables;
+  const values: Record<PromptPlaceholder, string> = {
+    documentHeading: isChapterDigest
+      ? `CHAPTER-BY-CHAPTER DIGEST OF THE COMPLETE BOOK:
+(Each block condenses one chapter, in reading order. Cover the whole book, not just the opening chapters.)`
+      : "DOCUMENT TO ANALYZE:",
+    documentText: documentText.slice(0, MAX_PROMPT_DOCUMENT_CHARS),
+    bookTitleLine: bookTitle ? `BOOK TITLE: ${bookTitle}` : "BOOK TITLE: Extract from document",
+    bookAuthorLine: bookAuthor ? `BOOK AUTHOR: ${bookAuthor}` : "BOOK AUTHOR: Extract from document",
+    totalWords: range(variables.targets.totalWords),
+    introductionWords: range(variables.targets.introductionWords),
+    onePageSummaryWords: range(variables.targets.onePageSummaryWords),
+    subsectionWords: range(variables.targets.subsectionWords),
+    noteWords: range(variables.targets.noteWords),
+    sections: range(variables.targets.sections),
+    subsectionsPerSection: range(variables.targets.subsectionsPerSection),
+    notesPerSubsection: range(variables.targets.notesPerSubsection),
+    researchSources: range(variables.targets.researchSources),
+    noteTypeCount: `${COUNT_WORDS[noteTypes.length] ?? noteTypes.length} ${noteTypes.length === 1 ? "type of note" : "types of notes"}`,
+    noteTypeGuide: noteTypes.map(noteType => `- **${noteType}**: ${NOTE_TYPE_GUIDANCE[noteType]}`).join("\n   "),
+    noteTypeList: noteTypes.join("|"),
+  };
+
+  const prompt = body.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    name in values ? values[name as PromptPlaceholder] : placeholder,
+  );
+  return outputLanguageInstruction(context) + prompt;
+}
+
+/**
+ * Block prepended to the summary prompt when the summary is not plain
+ * English-from-English, so English prompts stay exactly as they were.
+ */
+function outputLanguageInstruction({ outputLanguage, sourceLanguage }: SummaryPromptContext): string {
+  if (!outputLanguage || (outputLanguage === "en" && (sourceLanguage ?? "en") === "en")) {
+    return "";
+  }
+  const name = languageName(outputLanguage);
+  const source =
+    sourceLanguage && sourceLanguage !== outputLanguage
+      ? ` The document is written in ${languageName(sourceLanguage)}; summarize it in ${name}, do not copy it.`
+      : "";
+  return `OUTPUT LANGUAGE: ${name}
+Write every text value in the JSON (titles, introduction, summary, subsection content, notes and source relevance) in ${name}.${source}
+Keep the JSON keys and the "noteType" values exactly as specified below, in English. Research source titles keep their published titles.
+
+`;
+}
+
+/**
+ * RULES line asking for a part in the summary's language. English summaries
+ * get none, so their prompts are unchanged.
+ */
+function languageRule(language?: LanguageCode | null): string {
+  if (!language || language === "en") {
+    return "";
+  }
+  return `\n- Write all text in ${languageName(language)}, the language of the rest of the summary. Keep JSON keys and "noteType" values in English.`;
+}
+
+const PROMPT_PREAMBLE = `🚨 CRITICAL CONTENT EXTRACTION RULES 🚨
 YOU MUST FOLLOW THESE RULES TO AVOID GENERATING GARBAGE OUTPUT:
 
 1. **IGNORE ALL TESTIMONIALS AND BOOK REVIEWS**
@@ -35,36 +204,84 @@ YOU MUST FOLLOW THESE RULES TO AVOID GENERATING GARBAGE OUTPUT:
    - Use \\n\\n for paragraph breaks
    - Write in clear, professional prose
 
-DOCUMENT TO ANALYZE:
-${documentText.slice(0, 100000)}
+{{documentHeading}}
+{{documentText}}
+
+{{bookTitleLine}}
+{{bookAuthorLine}}`;
+
+const OUTPUT_FORMAT = `REQUIRED JSON OUTPUT FORMAT:
+{
+  "bookTitle": "Exact title of the book",
+  "bookAuthor": "Full name of the author",
+  "introduction": "2-3 paragraphs ({{introductionWords}} words total) in plain text. Use \\n\\n between paragraphs. NO markdown syntax.",
+  "onePageSummary": "4-6 paragraphs ({{onePageSummaryWords}} words total) in plain text. Use \\n\\n between paragraphs. NO markdown syntax.",
+  "sections": [
+    {
+      "title": "Section or Chapter Title",
+      "subsections": [
+        {
+          "title": "Specific Concept or Key Insight",
+          "content": "{{subsectionWords}} words in plain text explaining this concept. Use \\n\\n for paragraph breaks. NO markdown syntax.",
+          "jotsNotes": [
+            {
+              "type": "jonathans_jots_note",
+              "noteType": "{{noteTypeList}}",
+              "content": "{{noteWords}} words of critical analysis in plain text. NO markdown syntax.",
+              "sources": [
+                {
+                  "title": "Full title of research source",
+                  "author": "Author name",
+                  "authorCredentials": "Complete credentials",
+                  "url": "https://example.com/source"
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    }
+  ],
+  "researchSources": [
+    {
+      "title": "Full title of credible source",
+      "author": "Author name",
+      "authorCredentials": "Complete credentials (PhD, position, institution)",
+      "relevance": "How this source supports or challenges the book's arguments"
+    }
+  ]
+}`;
+
+const CLOSING_INSTRUCTION = "Return ONLY the JSON object (no markdown code blocks, no extra text):";
+
+const DEEP_DIVE_BODY = `You are Jonathan's Jots, creating a premium research-backed summary that EXCEEDS Shortform quality standards.
 
-${bookTitle ? `BOOK TITLE: ${bookTitle}` : 'BOOK TITLE: Extract from document'}
-${bookAuthor ? `BOOK AUTHOR: ${bookAuthor}` : 'BOOK AUTHOR: Extract from document'}
+${PROMPT_PREAMBLE}
 
 QUALITY STANDARDS (Must EXCEED Shortform):
 
 **Length & Depth:**
-- Total summary: 4,000-6,000 words (33-50% longer than Shortform)
-- One-page summary: 500-750 words
-- Each subsection: 300-500 words
-- Each Jonathan's Jots note: 100-150 words
+- Total summary: {{totalWords}} words (33-50% longer than Shortform)
+- One-page summary: {{onePageSummaryWords}} words
+- Each subsection: {{subsectionWords}} words
+- Each Jonathan's Jots note: {{noteWords}} words
 
 **Structure:**
-- 5-8 main sections (matching book chapters or themes)
-- 2-4 subsections per section
-- 1-2 Jonathan's Jots notes per subsection
-- 8-12 research sources with full credentials
+- {{sections}} main sections (matching book chapters or themes)
+- {{subsectionsPerSection}} subsections per section
+- {{notesPerSubsection}} Jonathan's Jots notes per subsection
+- {{researchSources}} research sources with full credentials
 
 **Content Requirements:**
 
-1. **INTRODUCTION (300-400 words, 2-3 paragraphs):**
+1. **INTRODUCTION ({{introductionWords}} words, 2-3 paragraphs):**
    - Author's background and credibility
    - Book's core thesis
    - Why this book matters
    - What readers will learn
    - Use \\n\\n between paragraphs
 
-2. **ONE-PAGE SUMMARY (500-750 words, 4-6 paragraphs):**
+2. **ONE-PAGE SUMMARY ({{onePageSummaryWords}} words, 4-6 paragraphs):**
    - Core thesis statement
    - 3-5 main arguments with explanations
    - Key supporting evidence from the book
@@ -72,29 +289,25 @@ QUALITY STANDARDS (Must EXCEED Shortform):
    - Practical implications
    - Use \\n\\n between paragraphs
 
-3. **DETAILED SECTIONS (5-8 sections):**
+3. **DETAILED SECTIONS ({{sections}} sections):**
    Each section contains:
    - Clear title (e.g., "Chapter 1: Understanding Emotional Immaturity")
-   - 2-4 subsections with specific concepts
-   - Each subsection: 300-500 words explaining the concept
+   - {{subsectionsPerSection}} subsections with specific concepts
+   - Each subsection: {{subsectionWords}} words explaining the concept
    - Include specific examples and evidence from the book
    - Use \\n\\n for paragraph breaks
 
-4. **JONATHAN'S JOTS NOTES (100-150 words each):**
-   Five types of notes:
-   - **Comparative**: Compare to other research or frameworks
-   - **Context**: Historical, cultural, or scientific context
-   - **Critique**: Evaluate arguments, present counterarguments
-   - **Practical**: Implementation techniques and frameworks
-   - **Expert**: Insights from related fields
+4. **JONATHAN'S JOTS NOTES ({{noteWords}} words each):**
+   {{noteTypeCount}}:
+   {{noteTypeGuide}}
    
    Each note must:
    - Provide substantive critical analysis
    - Reference specific research or experts
    - Add value beyond the book's content
-   - Be 100-150 words of plain text
+   - Be {{noteWords}} words of plain text
 
-5. **RESEARCH SOURCES (8-12 sources):**
+5. **RESEARCH SOURCES ({{researchSources}} sources):**
    - Credible books, studies, or expert perspectives
    - Full author credentials (PhD, institution, position)
    - Clear relevance to the book's themes
@@ -119,56 +332,514 @@ QUALITY STANDARDS (Must EXCEED Shortform):
 - Reference meta-analyses when available
 - Note when findings are preliminary
 
-REQUIRED JSON OUTPUT FORMAT:
-{
-  "bookTitle": "Exact title of the book",
-  "bookAuthor": "Full name of the author",
-  "introduction": "2-3 paragraphs (300-400 words total) in plain text. Use \\n\\n between paragraphs. NO markdown syntax.",
-  "onePageSummary": "4-6 paragraphs (500-750 words total) in plain text. Use \\n\\n between paragraphs. NO markdown syntax.",
-  "sections": [
-    {
-      "title": "Section or Chapter Title",
-      "subsections": [
-        {
-          "title": "Specific Concept or Key Insight",
-          "content": "300-500 words in plain text explaining this concept. Use \\n\\n for paragraph breaks. NO markdown syntax.",
-          "jotsNotes": [
-            {
-              "type": "jonathans_jots_note",
-              "noteType": "Comparative|Context|Critique|Practical|Expert",
-              "content": "100-150 words of critical analysis in plain text. NO markdown syntax.",
-              "sources": [
-                {
-                  "title": "Full title of research source",
-                  "author": "Author name",
-                  "authorCredentials": "Complete credentials",
-                  "url": "https://example.com/source"
-                }
-              ]
-            }
-          ]
-        }
-      ]
-    }
-  ],
-  "researchSources": [
-    {
-      "title": "Full title of credible source",
-      "author": "Author name",
-      "authorCredentials": "Complete credentials (PhD, position, institution)",
-      "relevance": "How this source supports or challenges the book's arguments"
-    }
-  ]
-}
+${OUTPUT_FORMAT}
 
 CRITICAL REMINDERS:
 ✓ Summarize ACTUAL BOOK CONTENT (not testimonials or reviews)
 ✓ Use PLAIN TEXT ONLY (no markdown syntax)
-✓ 4,000-6,000 total words
-✓ 8-12 research sources
-✓ 100-150 word Jonathan's Jots notes
+✓ {{totalWords}} total words
+✓ {{researchSources}} research sources
+✓ {{noteWords}} word Jonathan's Jots notes
 ✓ Valid JSON structure
 ✓ Use \\n\\n for paragraph breaks
 
+${CLOSING_INSTRUCTION}`;
+
+const EXECUTIVE_BRIEF_BODY = `You are Jonathan's Jots, writing an executive brief: a short, decision-oriented summary for a reader with ten minutes who needs the book's conclusions and what to do about them.
+
+${PROMPT_PREAMBLE}
+
+BRIEF STANDARDS:
+
+**Length & Structure:**
+- Total summary: {{totalWords}} words
+- {{sections}} main sections, one per major idea rather than one per chapter
+- {{subsectionsPerSection}} subsections per section, {{subsectionWords}} words each
+- {{notesPerSubsection}} Jonathan's Jots notes per subsection, {{noteWords}} words each
+- {{researchSources}} research sources with full credentials
+
+**Content Requirements:**
+
+1. **INTRODUCTION ({{introductionWords}} words):** who the author is, the book's central claim, and why it matters to someone making decisions.
+
+2. **ONE-PAGE SUMMARY ({{onePageSummaryWords}} words):** lead with the bottom line, then the three to five ideas that support it, then the decisions or changes the book argues for. Use \\n\\n between paragraphs.
+
+3. **SECTIONS:** each subsection states one idea, the strongest evidence the author gives for it, and what it means in practice. Prefer concrete implications over background.
+
+4. **JONATHAN'S JOTS NOTES ({{noteWords}} words each):**
+   {{noteTypeCount}}:
+   {{noteTypeGuide}}
+   Each note should tell the reader whether the idea holds up and how to act on it.
+
+5. **RESEARCH SOURCES:** the few most credible books or studies that support or challenge the book's main claim.
+
+${OUTPUT_FORMAT}
+
+CRITICAL REMINDERS:
+✓ Summarize ACTUAL BOOK CONTENT (not testimonials or reviews)
+✓ Use PLAIN TEXT ONLY (no markdown syntax)
+✓ {{totalWords}} total words; be brief and direct
+✓ Valid JSON structure
+
+${CLOSING_INSTRUCTION}`;
+
+const STUDY_GUIDE_BODY = `You are Jonathan's Jots, writing a study guide: a summary for a student who must understand, remember and discuss the book's ideas.
+
+${PROMPT_PREAMBLE}
+
+STUDY GUIDE STANDARDS:
+
+**Length & Structure:**
+- Total summary: {{totalWords}} words
+- {{sections}} main sections that follow the book's chapters in order
+- {{subsectionsPerSection}} subsections per section, {{subsectionWords}} words each
+- {{notesPerSubsection}} Jonathan's Jots notes per subsection, {{noteWords}} words each
+- {{researchSources}} research sources for further reading
+
+**Content Requirements:**
+
+1. **INTRODUCTION ({{introductionWords}} words):** the author, the question the book sets out to answer, and how the book is organized.
+
+2. **ONE-PAGE SUMMARY ({{onePageSummaryWords}} words):** the book's argument from start to finish, in the order the author makes it. Use \\n\\n between paragraphs.
+
+3. **SECTIONS:** each subsection explains one concept. Name and define the key terms the author introduces, give the author's example, and end the subsection with one review question a reader could answer from it.
+
+4. **JONATHAN'S JOTS NOTES ({{noteWords}} words each):**
+   {{noteTypeCount}}:
+   {{noteTypeGuide}}
+   Each note should connect the concept to something the student may already know.
+
+5. **RESEARCH SOURCES:** accessible books and studies suitable for further reading, with why each is worth reading.
+
+${OUTPUT_FORMAT}
+
+CRITICAL REMINDERS:
+✓ Summarize ACTUAL BOOK CONTENT (not testimonials or reviews)
+✓ Use PLAIN TEXT ONLY (no markdown syntax)
+✓ Define key terms and close each subsection with a review question
+✓ Valid JSON structure
+
+${CLOSING_INSTRUCTION}`;
+
+export type BuiltInPromptTemplate = {
+  /** Recorded on the summary and its versions; never reuse one for different wording. */
+  id: string;
+  style: string;
+  version: number;
+  name: string;
+  description: string;
+  body: string;
+  variables: PromptTemplateVariables;
+};
+
+export const DEFAULT_SUMMARY_STYLE = "deep-dive";
+
+/**
+ * The templates every user starts with. Changing one means adding a new
+ * version with a new id, like the prompt versions above.
+ */
+export const BUILT_IN_PROMPT_TEMPLATES: BuiltInPromptTemplate[] = [
+  {
+    id: SHORTFORM_PROMPT_VERSION,
+    style: DEFAULT_SUMMARY_STYLE,
+    version: 3,
+    name: "Deep dive",
+    description: "A full research-backed summary with critical notes on every subsection.",
+    body: DEEP_DIVE_BODY,
+    variables: { targets: SUMMARY_TARGETS, noteTypes: [...JOTS_NOTE_TYPES] },
+  },
+  {
+    id: "executive-brief-1",
+    style: "executive-brief",
+    version: 1,
+    name: "Executive brief",
+    description: "The conclusions and what to do about them, readable in ten minutes.",
+    body: EXECUTIVE_BRIEF_BODY,
+    variables: {
+      targets: {
+        totalWords: { min: 1500, max: 2500 },
+        introductionWords: { min: 120, max: 200 },
+        onePageSummaryWords: { min: 300, max: 450 },
+        subsectionWords: { min: 150, max: 250 },
+        noteWords: { min: 60, max: 100 },
+        sections: { min: 3, max: 5 },
+        subsectionsPerSection: { min: 2, max: 3 },
+        notesPerSubsection: { min: 1, max: 1 },
+        researchSources: { min: 3, max: 5 },
+      },
+      noteTypes: ["Practical", "Critique"],
+    },
+  },
+  {
+    id: "study-guide-1",
+    style: "study-guide",
+    version: 1,
+    name: "Study guide",
+    description: "Chapter by chapter, with key terms defined and a review question for each concept.",
+    body: STUDY_GUIDE_BODY,
+    variables: {
+      targets: {
+        totalWords: { min: 3000, max: 4500 },
+        introductionWords: { min: 200, max: 300 },
+        onePageSummaryWords: { min: 400, max: 600 },
+        subsectionWords: { min: 250, max: 400 },
+        noteWords: { min: 80, max: 120 },
+        sections: { min: 5, max: 8 },
+        subsectionsPerSection: { min: 2, max: 4 },
+        notesPerSubsection: { min: 1, max: 2 },
+        researchSources: { min: 5, max: 8 },
+      },
+      noteTypes: ["Context", "Comparative", "Practical"],
+    },
+  },
+];
+
+export function getBuiltInPromptTemplate(style: string): BuiltInPromptTemplate | undefined {
+  return BUILT_IN_PROMPT_TEMPLATES.find(template => template.style === style);
+}
+
+/**
+ * The deep-dive summary prompt (the built-in default style).
+ */
+export function generateShortformPrompt(
+  documentText: string,
+  bookTitle?: string,
+  bookAuthor?: string,
+  options: ShortformPromptOptions = {},
+): string {
+  const template = getBuiltInPromptTemplate(DEFAULT_SUMMARY_STYLE)!;
+  return renderSummaryPrompt(template.body, template.variables, { ...options, documentText, bookTitle, bookAuthor });
+}
+
+export type ChapterDigestPromptInput = {
+  chapterText: string;
+  chapterTitle: string;
+  chapterIndex: number;
+  totalChapters: number;
+  bookTitle?: string;
+  bookAuthor?: string;
+};
+
+/**
+ * Prompt for the "map" step of long-document summarization: condense a single
+ * chapter into a compact digest that the final summary prompt can combine.
+ */
+export function generateChapterDigestPrompt({
+  chapterText,
+  chapterTitle,
+  chapterIndex,
+  totalChapters,
+  bookTitle,
+  bookAuthor,
+}: ChapterDigestPromptInput): string {
+  return `You are Jonathan's Jots, reading a long book one part at a time so that a complete summary can be written afterwards.
+
+This is part ${chapterIndex + 1} of ${totalChapters}${chapterTitle ? ` (detected heading: "${chapterTitle}")` : ""}.
+${bookTitle ? `BOOK TITLE: ${bookTitle}` : "BOOK TITLE: Unknown"}
+${bookAuthor ? `BOOK AUTHOR: ${bookAuthor}` : "BOOK AUTHOR: Unknown"}
+
+RULES:
+- Ignore testimonials, reviews, copyright pages, tables of contents and other front matter.
+- Capture the author's own arguments, evidence, examples and conclusions from THIS part only.
+- Use plain text (no markdown syntax).
+- If this part contains no substantive book content, return an empty "keyIdeas" array.
+
+TEXT OF THIS PART:
+${chapterText.slice(0, MAX_PROMPT_DOCUMENT_CHARS)}
+
+REQUIRED JSON OUTPUT FORMAT:
+{
+  "chapterTitle": "The chapter's real title if it is stated, otherwise a descriptive title",
+  "synopsis": "150-250 words summarizing what this part argues and why it matters",
+  "keyIdeas": [
+    {
+      "title": "Specific concept introduced in this part",
+      "explanation": "120-200 words explaining the idea in the author's terms",
+      "evidence": "Studies, stories or examples the author uses to support it"
+    }
+  ],
+  "notableQuotes": ["Short, verbatim sentences from the text that capture the argument"]
+}
+
 Return ONLY the JSON object (no markdown code blocks, no extra text):`;
 }
+
+/**
+ * Follow-up prompt sent after a summary fails schema validation. The model's
+ * previous reply is included in the conversation, so only the problems need
+ * to be described.
+ */
+export function generateSummaryRepairPrompt(issues: string[]): string {
+  const listed = issues.slice(0, 20).map(issue => `- ${issue}`).join("\n");
+  const more = issues.length > 20 ? `\n- ...and ${issues.length - 20} more` : "";
+
+  return `Your previous response did not match the required JSON schema:
+${listed}${more}
+
+Return the complete corrected JSON object. Keep all of the content that was already valid, fix only the problems listed above, and do not add any text outside the JSON.`;
+}
+
+export type PartRegenerationPromptInput = {
+  partKind: "section" | "subsection" | "note";
+  bookTitle: string;
+  bookAuthor: string;
+  onePageSummary: string;
+  location: string;
+  currentPart: unknown;
+  sourceExcerpt?: string;
+  instruction?: string;
+  /** Language the summary is written in; English by default. */
+  language?: LanguageCode | null;
+};
+
+const PART_GUIDANCE: Record<PartRegenerationPromptInput["partKind"], string> = {
+  section:
+    "Rewrite the whole section: a clear title and 2-4 subsections of 300-500 words each, every subsection with at least one Jonathan's Jots note of 100-150 words.",
+  subsection:
+    "Rewrite this subsection: a specific title, 300-500 words of content and at least one Jonathan's Jots note of 100-150 words.",
+  note: "Rewrite this Jonathan's Jots note: 100-150 words of critical analysis that adds context the book itself does not provide, citing real, verifiable sources.",
+};
+
+/**
+ * Prompt for regenerating one part of an existing summary, optionally steered
+ * by a reader instruction such as "more critical".
+ */
+export function generatePartRegenerationPrompt({
+  partKind,
+  bookTitle,
+  bookAuthor,
+  onePageSummary,
+  location,
+  currentPart,
+  sourceExcerpt,
+  instruction,
+  language,
+}: PartRegenerationPromptInput): string {
+  return `You are Jonathan's Jots, revising one part of an existing summary of "${bookTitle}" by ${bookAuthor}.
+
+PART TO REVISE: ${location}
+${PART_GUIDANCE[partKind]}
+
+${instruction ? `READER INSTRUCTION (follow it closely): ${instruction}\n\n` : ""}OVERVIEW OF THE WHOLE SUMMARY (for consistency only, do not repeat it):
+${onePageSummary || "Not available."}
+
+CURRENT VERSION OF THIS PART:
+${JSON.stringify(currentPart, null, 2)}
+${sourceExcerpt ? `\nRELEVANT TEXT FROM THE BOOK:\n${sourceExcerpt}\n` : ""}
+RULES:
+- Stay faithful to the book's actual arguments; do not invent claims the author does not make.
+- Use plain text only (no markdown). Use \\n\\n between paragraphs.${languageRule(language)}
+- Return only the revised part as a JSON object matching the required schema.`;
+}
+
+export type GapFillPromptInput = {
+  partKind: "introduction" | "onePageSummary" | "section" | "subsection" | "note" | "researchSources";
+  bookTitle: string;
+  bookAuthor: string;
+  onePageSummary: string;
+  location: string;
+  /** What the summary is missing, e.g. "This section has 1 subsection; it needs at least 2." */
+  shortfall: string;
+  /** The part as it stands, or what surrounds the missing part, so nothing is repeated. */
+  context: unknown;
+  sourceExcerpt?: string;
+  /** The targets of the template the summary was written with; the deep-dive targets by default. */
+  targets?: SummaryTargets;
+  /** Language the summary is written in; English by default. */
+  language?: LanguageCode | null;
+};
+
+function gapGuidance(partKind: GapFillPromptInput["partKind"], targets: SummaryTargets): string {
+  switch (partKind) {
+    case "introduction":
+      return `Write the introduction: ${range(targets.introductionWords)} words in 2-3 paragraphs covering the author's background, the book's core thesis and why it matters.`;
+    case "onePageSummary":
+      return `Write the one-page summary: ${range(targets.onePageSummaryWords)} words in 4-6 paragraphs covering the thesis, the main arguments and their evidence, and the practical takeaways.`;
+    case "section":
+      return `Write one new section on a part of the book the existing sections do not cover: a clear title and ${range(targets.subsectionsPerSection)} subsections of ${range(targets.subsectionWords)} words each, every subsection with at least one Jonathan's Jots note of ${range(targets.noteWords)} words.`;
+    case "subsection":
+      return `Write this subsection: a specific title, ${range(targets.subsectionWords)} words of content and at least one Jonathan's Jots note of ${range(targets.noteWords)} words. If a current version is given, keep its subject and expand it.`;
+    case "note":
+      return `Write this Jonathan's Jots note: ${range(targets.noteWords)} words of critical analysis that adds context the book itself does not provide, citing real, verifiable sources. If a current version is given, keep its point and develop it.`;
+    case "researchSources":
+      return "List additional research sources: real, published books or studies that support or challenge the book's arguments, with full author credentials. Do not repeat the existing sources and do not invent titles.";
+  }
+}
+
+/**
+ * Prompt for filling one gap the quality gate found in a generated summary,
+ * e.g. a missing section or a note that is far too short. Only the missing
+ * part is requested; the rest of the summary is left as the model wrote it.
+ */
+export function generateGapFillPrompt({
+  partKind,
+  bookTitle,
+  bookAuthor,
+  onePageSummary,
+  location,
+  shortfall,
+  context,
+  sourceExcerpt,
+  targets = SUMMARY_TARGETS,
+  language,
+}: GapFillPromptInput): string {
+  return `You are Jonathan's Jots, completing a summary of "${bookTitle}" by ${bookAuthor} that fell short of its targets.
+
+PART TO WRITE: ${location}
+WHAT IS MISSING: ${shortfall}
+${gapGuidance(partKind, targets)}
+
+OVERVIEW OF THE WHOLE SUMMARY (for consistency only, do not repeat it):
+${onePageSummary || "Not available."}
+
+WHAT THE SUMMARY ALREADY HAS HERE:
+${JSON.stringify(context, null, 2)}
+${sourceExcerpt ? `\nRELEVANT TEXT FROM THE BOOK:\n${sourceExcerpt}\n` : ""}
+RULES:
+- Stay faithful to the book's actual arguments; do not invent claims the author does not make.
+- Use plain text only (no markdown). Use \\n\\n between paragraphs.${languageRule(language)}
+- Return only the requested part as a JSON object matching the required schema.`;
+}
+
+export type TranslationPromptInput = {
+  language: LanguageCode;
+  sourceLanguage?: LanguageCode | null;
+  bookTitle: string;
+  bookAuthor: string;
+  /** Which part of the summary this is, e.g. "Section 2 of 6". */
+  location: string;
+  /** The part to translate, as JSON. */
+  content: unknown;
+};
+
+/**
+ * Prompt for translating one part of a finished summary. The model returns
+ * the same JSON with only the text values translated, so sections,
+ * subsections and notes line up with the original one for one.
+ */
+export function generateTranslationPrompt({
+  language,
+  sourceLanguage,
+  bookTitle,
+  bookAuthor,
+  location,
+  content,
+}: TranslationPromptInput): string {
+  const name = languageName(language);
+  return `You are Jonathan's Jots, translating part of a finished summary of "${bookTitle}" by ${bookAuthor}${sourceLanguage ? ` from ${languageName(sourceLanguage)}` : ""} into ${name}.
+
+PART TO TRANSLATE: ${location}
+
+${JSON.stringify(content, null, 2)}
+
+RULES:
+- Translate every text value into natural, fluent ${name}. Do not summarize, shorten or add anything.
+- Keep the JSON structure exactly: the same keys, the same number of items in every array, in the same order.
+- Keep "noteType" values and research source titles and author names unchanged.
+- Use plain text only (no markdown). Keep \\n\\n paragraph breaks where they are.
+- Return only the translated JSON object.`;
+}
+
+export type LibraryQuestionPromptInput = {
+  question: string;
+  /** Retrieved passages, numbered from 1 in this order. */
+  passages: Array<{ bookTitle: string; bookAuthor: string; location: string; content: string }>;
+};
+
+/**
+ * Prompt for answering a question about the user's library from retrieved
+ * passages. The answer cites passages by number, e.g. [2].
+ */
+export function generateLibraryQuestionPrompt({ question, passages }: LibraryQuestionPromptInput): string {
+  const numbered = passages
+    .map(
+      (passage, index) =>
+        `[${index + 1}] "${passage.bookTitle}" by ${passage.bookAuthor} — ${passage.location}\n"""\n${passage.content}\n"""`,
+    )
+    .join("\n\n");
+
+  return `You are Jonathan's Jots, answering a reader's question about the books in their library using only the passages below, taken from the books and from their summaries.
+
+QUESTION: ${question}
+
+PASSAGES:
+${numbered}
+
+RULES:
+- Answer from the passages only. If they do not answer the question, say so plainly rather than guessing.
+- Cite the passages you rely on with their numbers in square brackets, e.g. [1] or [2][4], right after the claim they support.
+- Name the books you are drawing on, so the reader knows where to look.
+- Be concise: a short paragraph, or a few bullet points when comparing books.
+- Return only a JSON object: {"answer": "..."}`;
+}
+
+export type BookChatPromptInput = {
+  bookTitle: string;
+  bookAuthor: string;
+  /** Retrieved passages, numbered from 1 in this order. */
+  passages: Array<{ fromSummary: boolean; location: string; content: string }>;
+};
+
+/**
+ * System prompt for a conversation about one book. The passages are those
+ * retrieved for the latest question; earlier turns follow as messages.
+ */
+export function generateBookChatPrompt({ bookTitle, bookAuthor, passages }: BookChatPromptInput): string {
+  const numbered = passages
+    .map(
+      (passage, index) =>
+        `[${index + 1}] ${passage.fromSummary ? "From the summary" : "From the book"} — ${passage.location}\n"""\n${passage.content}\n"""`,
+    )
+    .join("\n\n");
+
+  return `You are Jonathan's Jots, discussing "${bookTitle}" by ${bookAuthor} with a reader who has its summary open. Answer their questions using the passages below, retrieved from the book and its summary for the latest question.
+
+PASSAGES:
+${numbered || "(No passages matched the question.)"}
+
+RULES:
+- Ground every answer in the passages. If they do not cover the question, say so and suggest what the reader could ask instead; do not invent content of the book.
+- Cite the passages you rely on with their numbers in square brackets, e.g. [1] or [2][3]. Prefer the book's own words over the summary's when both say the same thing.
+- Earlier turns of the conversation are context for follow-up questions; their passages are no longer shown, so do not cite numbers from earlier answers.
+- Be conversational and concise: a few short paragraphs at most. Plain text, no markdown headings.`;
+}
+
+export type ComparisonPromptInput = {
+  /** The books being compared, numbered from 1 in this order. */
+  books: Array<{ bookTitle: string; bookAuthor: string; digest: string }>;
+};
+
+/**
+ * Prompt for a comparison report across several finished summaries. Each
+ * book is given as a digest of its summary; the report refers back to the
+ * books by number.
+ */
+export function generateComparisonPrompt({ books }: ComparisonPromptInput): string {
+  const numbered = books
+    .map((book, index) => `BOOK ${index + 1}: "${book.bookTitle}" by ${book.bookAuthor}\n"""\n${book.digest}\n"""`)
+    .join("\n\n");
+  const noteTypes = Object.entries(NOTE_TYPE_GUIDANCE)
+    .map(([type, guidance]) => `  - ${type}: ${guidance}`)
+    .join("\n");
+
+  return `You are Jonathan's Jots, writing a comparative analysis of ${books.length} books for a reader who has read their summaries. Work only from the summaries below.
+
+${numbered}
+
+WRITE A REPORT WITH:
+- "overview": 2-3 paragraphs on what the books have in common and how they differ in purpose, audience and approach.
+- "sharedThemes": 3-6 themes that at least two of the books address. For each, "books" lists the numbers of the books that address it, and "analysis" explains how their treatments agree or complement each other.
+- "contradictions": the points where the books disagree or give conflicting advice, each with every book's "position" on it. Leave the array empty if they genuinely do not disagree; do not manufacture conflicts.
+- "depth": for 3-6 topics, which book ("deeperBook", a book number) goes deeper on the topic and why it is the better source for it.
+- "conclusion": one paragraph on how to read the books together, and which to pick for which need.
+
+JOTS NOTES:
+Add 0-2 "jotsNotes" to each theme and contradiction with your own commentary, each with a "noteType":
+${noteTypes}
+
+RULES:
+- Refer to books by title in the text; use the book numbers only in "books", "positions" and "deeperBook".
+- Only use the numbers 1 to ${books.length}.
+- Use plain text only (no markdown). Separate paragraphs with \\n\\n.
+- Return only a JSON object matching the required schema.`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Check a summary's research sources against the bibliographic catalog.
+ *
+ * A source is verified when the catalog has a book with its title by one of
+ * its authors (matched on surname), in which case the catalog's ISBN is
+ * recorded. Sources the catalog does not know, or knows under a different
+ * author, are kept but flagged, or dropped under `RESEARCH_SOURCE_POLICY=drop`.
+ * Without a configured catalog everything stays "unchecked".
+ */
+
+import { ENV } from "./_core/env";
+import { getBibliographicCatalog, normalizeTitle, type BibliographicCatalog, type CatalogRecord } from "./catalog";
+
+export const SOURCE_VERIFICATION_STATUSES = ["verified", "author_mismatch", "not_found", "unchecked"] as const;
+
+export type SourceVerificationStatus = (typeof SOURCE_VERIFICATION_STATUSES)[number];
+
+export type SourceVerification = {
+  verificationStatus: SourceVerificationStatus;
+  isbn?: string;
+};
+
+export type UnverifiedSourcePolicy = "flag" | "drop";
+
+type CitedSource = {
+  title: string;
+  author: string;
+};
+
+/**
+ * Verify `sources` in order, returning each with its verification status and
+ * ISBN. Flagged sources are removed when the policy is "drop".
+ */
+export async function verifyResearchSources<T extends CitedSource>(
+  sources: T[],
+  options: { catalog?: BibliographicCatalog | null; policy?: UnverifiedSourcePolicy } = {},
+): Promise<Array<T & SourceVerification>> {
+  const catalog = options.catalog === undefined ? await getBibliographicCatalog() : options.catalog;
+  const policy = options.policy ?? ENV.researchSourcePolicy;
+
+  const verified: Array<T & SourceVerification> = [];
+  for (const source of sources) {
+    const { isbn: _previousIsbn, ...rest } = source as T & Partial<SourceVerification>;
+    const result = catalog ? await verifySource(source, catalog) : { verificationStatus: "unchecked" as const };
+    if (policy === "drop" && (result.verificationStatus === "not_found" || result.verificationStatus === "author_mismatch")) {
+      console.warn(`[Sources] Dropping "${source.title}" by ${source.author || "unknown author"}: ${result.verificationStatus}`);
+      continue;
+    }
+    verified.push({ ...(rest as T), ...result });
+  }
+  return verified;
+}
+
+async function verifySource(source: CitedSource, catalog: BibliographicCatalog): Promise<SourceVerification> {
+  const candidates = await catalog.findByTitle(source.title);
+  if (candidates.length === 0) {
+    return { verificationStatus: "not_found" };
+  }
+
+  const byAuthor = candidates.filter(record => authorMatches(record, source.author));
+  if (byAuthor.length === 0) {
+    return { verificationStatus: "author_mismatch" };
+  }
+
+  // Prefer the edition whose full title matches, then any with an ISBN.
+  const title = normalizeTitle(source.title);
+  const best =
+    byAuthor.find(record => record.isbn && normalizeTitle(record.title) === title) ??
+    byAuthor.find(record => record.isbn) ??
+    byAuthor[0];
+  return { verificationStatus: "verified", ...(best.isbn ? { isbn: best.isbn } : {}) };
+}
+
+function authorMatches(record: CatalogRecord, citedAuthor: string): boolean {
+  const cited = new Set(normalizeTitle(citedAuthor).split(" "));
+  return record.authors.some(author => {
+    // Catalogs write "Cal Newport" or "Newport, Cal".
+    const surname = author.includes(",") ? author.split(",")[0] : author.trim().split(/\s+/).pop() ?? "";
+    const parts = normalizeTitle(surname).split(" ").filter(Boolean);
+    return parts.length > 0 && parts.every(part => cited.has(part));
+  });
+}
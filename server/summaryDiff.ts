@@ -0,0 +1,286 @@
+/**
+ * Section-by-section comparison of two summary versions.
+ *
+ * Sections and subsections are paired by title (so reordered or inserted
+ * sections line up with their counterpart), falling back to position for
+ * retitled ones; text is then diffed word by word.
+ */
+
+export type DiffSegment = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+export type DiffStatus = "unchanged" | "changed" | "added" | "removed";
+
+export type TextDiff = {
+  status: DiffStatus;
+  segments: DiffSegment[];
+};
+
+export type SubsectionDiff = {
+  status: DiffStatus;
+  title: TextDiff;
+  content: TextDiff;
+  notes: TextDiff[];
+};
+
+export type SectionDiff = {
+  status: DiffStatus;
+  title: TextDiff;
+  subsections: SubsectionDiff[];
+};
+
+export type SummaryDiff = {
+  bookTitle: TextDiff;
+  bookAuthor: TextDiff;
+  introduction: TextDiff;
+  onePageSummary: TextDiff;
+  sections: SectionDiff[];
+  stats: {
+    sectionsAdded: number;
+    sectionsRemoved: number;
+    sectionsChanged: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+};
+
+export type DiffableSummary = {
+  bookTitle: string | null;
+  bookAuthor: string | null;
+  introduction: string | null;
+  onePageSummary: string | null;
+  mainContent: string | null;
+};
+
+type Note = { content?: string };
+type Subsection = { title?: string; content?: string; jotsNotes?: Note[] };
+type Section = { title?: string; subsections?: Subsection[] };
+
+// Above this many token comparisons the diff falls back to paragraphs.
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+export function diffSummaries(from: DiffableSummary, to: DiffableSummary): SummaryDiff {
+  const sections = alignByTitle(parseSections(from.mainContent), parseSections(to.mainContent)).map(
+    ({ before, after }) => diffSection(before, after),
+  );
+
+  const diff: SummaryDiff = {
+    bookTitle: diffText(from.bookTitle ?? "", to.bookTitle ?? ""),
+    bookAuthor: diffText(from.bookAuthor ?? "", to.bookAuthor ?? ""),
+    introduction: diffText(from.introduction ?? "", to.introduction ?? ""),
+    onePageSummary: diffText(from.onePageSummary ?? "", to.onePageSummary ?? ""),
+    sections,
+    stats: {
+      sectionsAdded: sections.filter(section => section.status === "added").length,
+      sectionsRemoved: sections.filter(section => section.status === "removed").length,
+      sectionsChanged: sections.filter(section => section.status === "changed").length,
+      wordsAdded: 0,
+      wordsRemoved: 0,
+    },
+  };
+
+  for (const text of collectTextDiffs(diff)) {
+    for (const segment of text.segments) {
+      if (segment.type === "insert") diff.stats.wordsAdded += countWords(segment.text);
+      if (segment.type === "delete") diff.stats.wordsRemoved += countWords(segment.text);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Word-level diff of two strings.
+ */
+export function diffText(before: string, after: string): TextDiff {
+  if (before === after) {
+    return { status: "unchanged", segments: before ? [{ type: "equal", text: before }] : [] };
+  }
+  if (!before) {
+    return { status: "added", segments: [{ type: "insert", text: after }] };
+  }
+  if (!after) {
+    return { status: "removed", segments: [{ type: "delete", text: before }] };
+  }
+
+  let beforeTokens = tokenize(before, /(\s+)/);
+  let afterTokens = tokenize(after, /(\s+)/);
+  if (beforeTokens.length * afterTokens.length > MAX_WORD_DIFF_CELLS) {
+    beforeTokens = tokenize(before, /(\n\n+)/);
+    afterTokens = tokenize(after, /(\n\n+)/);
+  }
+  if (beforeTokens.length * afterTokens.length > MAX_WORD_DIFF_CELLS) {
+    return {
+      status: "changed",
+      segments: [
+        { type: "delete", text: before },
+        { type: "insert", text: after },
+      ],
+    };
+  }
+
+  return { status: "changed", segments: diffTokens(beforeTokens, afterTokens) };
+}
+
+function diffSection(before: Section | undefined, after: Section | undefined): SectionDiff {
+  const subsections = alignByTitle(before?.subsections ?? [], after?.subsections ?? []).map(pair =>
+    diffSubsection(pair.before, pair.after),
+  );
+  const title = diffText(before?.title ?? "", after?.title ?? "");
+
+  return {
+    status: combineStatus(before, after, [title, ...subsections]),
+    title,
+    subsections,
+  };
+}
+
+function diffSubsection(before: Subsection | undefined, after: Subsection | undefined): SubsectionDiff {
+  const beforeNotes = before?.jotsNotes ?? [];
+  const afterNotes = after?.jotsNotes ?? [];
+  const notes = Array.from({ length: Math.max(beforeNotes.length, afterNotes.length) }, (_, index) =>
+    diffText(beforeNotes[index]?.content ?? "", afterNotes[index]?.content ?? ""),
+  );
+  const title = diffText(before?.title ?? "", after?.title ?? "");
+  const content = diffText(before?.content ?? "", after?.content ?? "");
+
+  return {
+    status: combineStatus(before, after, [title, content, ...notes]),
+    title,
+    content,
+    notes,
+  };
+}
+
+function combineStatus(before: unknown, after: unknown, parts: Array<{ status: DiffStatus }>): DiffStatus {
+  if (!before) return "added";
+  if (!after) return "removed";
+  return parts.every(part => part.status === "unchanged") ? "unchanged" : "changed";
+}
+
+/**
+ * Pair items by normalized title. Unmatched items at the same position are
+ * treated as retitled; everything else is an addition or removal. Output
+ * follows the order of `after`, with removals placed after their predecessor.
+ */
+function alignByTitle<T extends { title?: string }>(before: T[], after: T[]): Array<{ before?: T; after?: T }> {
+  const key = (item: T) => (item.title ?? "").trim().toLowerCase();
+  const matchedBefore = new Map<number, number>();
+  const matchedAfter = new Map<number, number>();
+
+  after.forEach((item, afterIndex) => {
+    const beforeIndex = before.findIndex((candidate, index) => !matchedBefore.has(index) && key(candidate) === key(item));
+    if (beforeIndex !== -1) {
+      matchedBefore.set(beforeIndex, afterIndex);
+      matchedAfter.set(afterIndex, beforeIndex);
+    }
+  });
+
+  after.forEach((_, afterIndex) => {
+    if (!matchedAfter.has(afterIndex) && afterIndex < before.length && !matchedBefore.has(afterIndex)) {
+      matchedBefore.set(afterIndex, afterIndex);
+      matchedAfter.set(afterIndex, afterIndex);
+    }
+  });
+
+  const pairs: Array<{ before?: T; after?: T }> = [];
+  const emitRemovedBefore = (limit: number, emitted: Set<number>) => {
+    for (let index = 0; index < limit; index++) {
+      if (!matchedBefore.has(index) && !emitted.has(index)) {
+        emitted.add(index);
+        pairs.push({ before: before[index] });
+      }
+    }
+  };
+
+  const emittedRemovals = new Set<number>();
+  after.forEach((item, afterIndex) => {
+    const beforeIndex = matchedAfter.get(afterIndex);
+    if (beforeIndex !== undefined) {
+      emitRemovedBefore(beforeIndex, emittedRemovals);
+    }
+    pairs.push({ before: beforeIndex !== undefined ? before[beforeIndex] : undefined, after: item });
+  });
+  emitRemovedBefore(before.length, emittedRemovals);
+
+  return pairs;
+}
+
+function tokenize(text: string, separator: RegExp): string[] {
+  return text.split(separator).filter(token => token.length > 0);
+}
+
+/**
+ * Longest-common-subsequence diff over tokens.
+ */
+function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push("equal", before[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      push("delete", before[i++]);
+    } else {
+      push("insert", after[j++]);
+    }
+  }
+  while (i < before.length) push("delete", before[i++]);
+  while (j < after.length) push("insert", after[j++]);
+
+  return segments;
+}
+
+function parseSections(mainContent: string | null): Section[] {
+  if (!mainContent) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(mainContent);
+    return Array.isArray(parsed.sections) ? parsed.sections : [];
+  } catch {
+    return [];
+  }
+}
+
+function collectTextDiffs(diff: SummaryDiff): TextDiff[] {
+  const texts = [diff.bookTitle, diff.bookAuthor, diff.introduction, diff.onePageSummary];
+  for (const section of diff.sections) {
+    texts.push(section.title);
+    for (const subsection of section.subsections) {
+      texts.push(subsection.title, subsection.content, ...subsection.notes);
+    }
+  }
+  return texts;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
@@ -0,0 +1,371 @@
+/**
+ * Targeted changes to a finished summary: regenerating one section,
+ * subsection or Jots note with the model, or replacing text by hand.
+ *
+ * Both operate on the stored `mainContent` JSON and keep the summary's
+ * denormalized counts in step with it. Every change is recorded as a new
+ * version, and older versions can be restored from here too. Changes start
+ * from the summary as stored when they run, not as the caller last read it.
+ */
+
+import { z } from "zod";
+import { groundSections, summarizeSectionGrounding, type SectionGrounding, type SubsectionGrounding } from "./citationGrounding";
+import { getDocument, getSummary, getSummaryVersion, updateSummary, type Document, type Summary, type SummaryVersion } from "./db";
+import { createPassageLocator, parseDocumentOutline, type SourceLocation } from "./documentOutline";
+import { isSupportedLanguage } from "./language";
+import { attachSourceLocations, saveResearchSources, type SanitizedResearchSource } from "./progressiveSummary";
+import type { QualityGateReport } from "./qualityGate";
+import { indexSummary } from "./search";
+import { generatePartRegenerationPrompt, PART_REGENERATION_PROMPT_VERSION } from "./shortformPrompt";
+import {
+  jotsNoteSchema,
+  sectionSchema,
+  subsectionSchema,
+  type ModelJotsNote,
+  type ModelSection,
+  type ModelSubsection,
+} from "./summarySchema";
+import { findRelevantExcerpt, requestSummaryPart } from "./summaryParts";
+import { ensureBaselineVersion, recordSummaryVersion, withSummaryWriteLock } from "./summaryVersions";
+
+const index = z.number().int().min(0);
+
+export const regenerationTargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("section"), sectionIndex: index }),
+  z.object({ kind: z.literal("subsection"), sectionIndex: index, subsectionIndex: index }),
+  z.object({ kind: z.literal("note"), sectionIndex: index, subsectionIndex: index, noteIndex: index }),
+]);
+
+export const editTargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("introduction") }),
+  z.object({ kind: z.literal("onePageSummary") }),
+  z.object({ kind: z.literal("section"), sectionIndex: index }),
+  z.object({ kind: z.literal("subsection"), sectionIndex: index, subsectionIndex: index }),
+  z.object({ kind: z.literal("note"), sectionIndex: index, subsectionIndex: index, noteIndex: index }),
+]);
+
+export type RegenerationTarget = z.infer<typeof regenerationTargetSchema>;
+export type EditTarget = z.infer<typeof editTargetSchema>;
+export type EditField = "title" | "content";
+
+export type StoredNote = { type: string; content: string; machinePadded?: boolean };
+export type StoredSubsection = {
+  title: string;
+  content: string;
+  jotsNotes: StoredNote[];
+  source?: SourceLocation;
+  grounding?: SubsectionGrounding;
+  machinePadded?: boolean;
+};
+export type StoredSection = {
+  title: string;
+  subsections: StoredSubsection[];
+  grounding?: SectionGrounding;
+  machinePadded?: boolean;
+};
+
+export type StoredSummaryContent = {
+  sections: StoredSection[];
+  researchSources: unknown[];
+  qualityGate?: QualityGateReport;
+};
+
+export function parseStoredContent(mainContent: string | null): StoredSummaryContent {
+  if (!mainContent) {
+    return { sections: [], researchSources: [] };
+  }
+
+  const parsed = JSON.parse(mainContent);
+  return {
+    ...parsed,
+    sections: Array.isArray(parsed.sections) ? parsed.sections : [],
+    researchSources: Array.isArray(parsed.researchSources) ? parsed.researchSources : [],
+  };
+}
+
+export function countContentJotsNotes(content: StoredSummaryContent): number {
+  return content.sections.reduce(
+    (total, section) =>
+      total + (section.subsections ?? []).reduce((sum, subsection) => sum + (subsection.jotsNotes?.length ?? 0), 0),
+    0,
+  );
+}
+
+/**
+ * Regenerate one part of a summary and persist the result. Returns the
+ * updated `mainContent`.
+ */
+export async function regenerateSummaryPart(
+  summary: Summary,
+  target: RegenerationTarget,
+  authorId: string,
+  instruction?: string,
+): Promise<string> {
+  return await changeSummary(summary, async summary => {
+    await ensureBaselineVersion(summary);
+    const content = parseStoredContent(summary.mainContent);
+    const section = getSection(content, target.sectionIndex);
+    const location = describeTarget(content, target);
+
+    const document = await getDocument(summary.documentId);
+    const query = [section.title, target.kind !== "section" ? getSubsection(section, target.subsectionIndex).title : ""]
+      .join(" ");
+    const sourceExcerpt = document?.extractedText ? findRelevantExcerpt(document.extractedText, query) : undefined;
+
+    const currentPart =
+      target.kind === "section"
+        ? section
+        : target.kind === "subsection"
+          ? getSubsection(section, target.subsectionIndex)
+          : getNote(getSubsection(section, target.subsectionIndex), target.noteIndex);
+
+    const prompt = generatePartRegenerationPrompt({
+      partKind: target.kind,
+      bookTitle: summary.bookTitle ?? "Untitled",
+      bookAuthor: summary.bookAuthor ?? "Unknown Author",
+      onePageSummary: summary.onePageSummary ?? "",
+      location,
+      currentPart,
+      sourceExcerpt,
+      instruction: instruction?.trim() || undefined,
+      language: isSupportedLanguage(summary.language) ? summary.language : null,
+    });
+
+    let model: string;
+    if (target.kind === "section") {
+      const regenerated = await requestSummaryPart(prompt, "summary_section", sectionSchema);
+      const stored = toStoredSection(regenerated.data);
+      content.sections[target.sectionIndex] = stored;
+      model = regenerated.model;
+      await relinkToSource(stored, stored.subsections, document);
+    } else if (target.kind === "subsection") {
+      const regenerated = await requestSummaryPart(prompt, "summary_subsection", subsectionSchema);
+      section.subsections[target.subsectionIndex] = toStoredSubsection(regenerated.data);
+      model = regenerated.model;
+      await relinkToSource(section, [section.subsections[target.subsectionIndex]], document);
+    } else {
+      const regenerated = await requestSummaryPart(prompt, "jots_note", jotsNoteSchema);
+      getSubsection(section, target.subsectionIndex).jotsNotes[target.noteIndex] = toStoredNote(regenerated.data);
+      model = regenerated.model;
+    }
+
+    const mainContent = await saveContent(summary, content);
+    await recordSummaryVersion(summary.id, {
+      changeType: "regenerated",
+      authorId,
+      model,
+      promptVersion: PART_REGENERATION_PROMPT_VERSION,
+      description: instruction?.trim() ? `${location}: ${instruction.trim()}` : location,
+    });
+    return mainContent;
+  });
+}
+
+/**
+ * Replace the text of one part of a summary with the reader's own wording.
+ */
+export async function editSummaryPart(
+  summary: Summary,
+  target: EditTarget,
+  field: EditField,
+  text: string,
+  authorId: string,
+): Promise<string | null> {
+  return await changeSummary(summary, async summary => {
+    const value = text.trim();
+    if (!value) {
+      throw new Error("Text cannot be empty");
+    }
+    await ensureBaselineVersion(summary);
+
+    if (target.kind === "introduction" || target.kind === "onePageSummary") {
+      const label = target.kind === "introduction" ? "introduction" : "1-page summary";
+      if (field !== "content") {
+        throw new Error(`Only the text of the ${label} can be edited`);
+      }
+      await updateSummary(summary.id, { [target.kind]: value });
+      await indexSummary(summary.id);
+      await recordSummaryVersion(summary.id, { changeType: "edited", authorId, description: `Edited the ${label}` });
+      return summary.mainContent;
+    }
+
+    const content = parseStoredContent(summary.mainContent);
+    const section = getSection(content, target.sectionIndex);
+
+    if (target.kind === "section") {
+      if (field !== "title") {
+        throw new Error("Only a section's title can be edited; edit its subsections for the text");
+      }
+      section.title = value;
+    } else if (target.kind === "subsection") {
+      const subsection = getSubsection(section, target.subsectionIndex);
+      subsection[field] = value;
+      await relinkToSource(section, [subsection], await getDocument(summary.documentId));
+    } else {
+      if (field !== "content") {
+        throw new Error("Jots notes have no title");
+      }
+      getNote(getSubsection(section, target.subsectionIndex), target.noteIndex).content = value;
+    }
+
+    const mainContent = await saveContent(summary, content);
+    await recordSummaryVersion(summary.id, {
+      changeType: "edited",
+      authorId,
+      description: `Edited the ${field} of ${describeTarget(content, target)}`,
+    });
+    return mainContent;
+  });
+}
+
+/**
+ * Put an earlier version's content back and record that as a new version, so
+ * the restore itself can be undone.
+ */
+export async function restoreSummaryVersion(
+  summary: Summary,
+  versionId: string,
+  authorId: string,
+): Promise<SummaryVersion> {
+  return await changeSummary(summary, async summary => {
+    const version = await getSummaryVersion(versionId);
+    if (!version || version.summaryId !== summary.id) {
+      throw new Error("Version not found");
+    }
+    await ensureBaselineVersion(summary);
+
+    await updateSummary(summary.id, {
+      bookTitle: version.bookTitle,
+      bookAuthor: version.bookAuthor,
+      onePageSummary: version.onePageSummary,
+      introduction: version.introduction,
+      mainContent: version.mainContent,
+      researchSourcesCount: version.researchSourcesCount,
+      jotsNotesCount: version.jotsNotesCount,
+    });
+
+    const content = parseStoredContent(version.mainContent);
+    await saveResearchSources(summary.id, content.researchSources as SanitizedResearchSource[]);
+    await indexSummary(summary.id);
+
+    return await recordSummaryVersion(summary.id, {
+      changeType: "restored",
+      authorId,
+      model: version.model,
+      promptVersion: version.promptVersion,
+      description: `Restored version ${version.versionNumber}`,
+    });
+  });
+}
+
+/**
+ * Re-link changed subsections to the book and re-check their quotes, then
+ * refresh the section's grounding roll-up.
+ */
+async function relinkToSource(
+  section: StoredSection,
+  subsections: StoredSubsection[],
+  document: Document | undefined | null,
+): Promise<void> {
+  if (!document?.extractedText) {
+    return;
+  }
+  attachSourceLocations(
+    [{ subsections }],
+    createPassageLocator(document.extractedText, parseDocumentOutline(document.outline)),
+  );
+  await groundSections([{ subsections }], document.extractedText);
+  section.grounding = summarizeSectionGrounding(section);
+}
+
+/**
+ * Make a change to the latest stored state of a completed summary, after any
+ * change already under way.
+ */
+async function changeSummary<T>(summary: Summary, change: (latest: Summary) => Promise<T>): Promise<T> {
+  return await withSummaryWriteLock(summary.id, async () => {
+    const latest = await getSummary(summary.id);
+    if (!latest) {
+      throw new Error("Summary not found");
+    }
+    assertEditable(latest);
+    return await change(latest);
+  });
+}
+
+function assertEditable(summary: Summary): void {
+  if (summary.status !== "completed") {
+    throw new Error("Only completed summaries can be changed");
+  }
+}
+
+async function saveContent(summary: Summary, content: StoredSummaryContent): Promise<string> {
+  const mainContent = JSON.stringify(content);
+  await updateSummary(summary.id, {
+    mainContent,
+    jotsNotesCount: countContentJotsNotes(content),
+    researchSourcesCount: content.researchSources.length,
+  });
+  await indexSummary(summary.id);
+  return mainContent;
+}
+
+function toStoredNote(note: ModelJotsNote): StoredNote {
+  return { type: note.noteType.toLowerCase(), content: note.content.trim() };
+}
+
+function toStoredSubsection(subsection: ModelSubsection): StoredSubsection {
+  return {
+    title: subsection.title.trim(),
+    content: subsection.content.trim(),
+    jotsNotes: subsection.jotsNotes.map(toStoredNote),
+  };
+}
+
+function toStoredSection(section: ModelSection): StoredSection {
+  return {
+    title: section.title.trim(),
+    subsections: section.subsections.map(toStoredSubsection),
+  };
+}
+
+function getSection(content: StoredSummaryContent, sectionIndex: number): StoredSection {
+  const section = content.sections[sectionIndex];
+  if (!section) {
+    throw new Error(`Section ${sectionIndex + 1} does not exist`);
+  }
+  section.subsections ??= [];
+  return section;
+}
+
+function getSubsection(section: StoredSection, subsectionIndex: number): StoredSubsection {
+  const subsection = section.subsections[subsectionIndex];
+  if (!subsection) {
+    throw new Error(`Subsection ${subsectionIndex + 1} of "${section.title}" does not exist`);
+  }
+  subsection.jotsNotes ??= [];
+  return subsection;
+}
+
+function getNote(subsection: StoredSubsection, noteIndex: number): StoredNote {
+  const note = subsection.jotsNotes[noteIndex];
+  if (!note) {
+    throw new Error(`Jots note ${noteIndex + 1} of "${subsection.title}" does not exist`);
+  }
+  return note;
+}
+
+function describeTarget(
+  content: StoredSummaryContent,
+  target: Exclude<EditTarget, { kind: "introduction" | "onePageSummary" }>,
+): string {
+  const section = getSection(content, target.sectionIndex);
+  const sectionLabel = `Section ${target.sectionIndex + 1} "${section.title}"`;
+  if (target.kind === "section") {
+    return sectionLabel;
+  }
+
+  const subsection = getSubsection(section, target.subsectionIndex);
+  const subsectionLabel = `${sectionLabel}, subsection "${subsection.title}"`;
+  return target.kind === "subsection" ? subsectionLabel : `${subsectionLabel}, Jots note ${target.noteIndex + 1}`;
+}
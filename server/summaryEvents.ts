@@ -0,0 +1,29 @@
+/**
+ * In-process fan-out of live summary progress.
+ *
+ * The job queue persists progress to the database, but only every few seconds;
+ * streamed tokens are published here as they arrive so subscribers on the same
+ * instance see the summary being written in real time. Subscribers on other
+ * instances still receive the durable progress via polling.
+ */
+
+import { EventEmitter } from "node:events";
+import type { ProgressUpdate } from "./progressiveSummary";
+
+const emitter = new EventEmitter();
+// One listener per open preview; there is no fixed upper bound.
+emitter.setMaxListeners(0);
+
+export function publishSummaryProgress(summaryId: string, update: ProgressUpdate): void {
+  emitter.emit(summaryId, update);
+}
+
+export function subscribeToSummaryProgress(
+  summaryId: string,
+  listener: (update: ProgressUpdate) => void,
+): () => void {
+  emitter.on(summaryId, listener);
+  return () => {
+    emitter.off(summaryId, listener);
+  };
+}
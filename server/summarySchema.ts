@@ -0,0 +1,119 @@
+/**
+ * The JSON shape every generated summary must follow.
+ *
+ * One zod schema drives both sides: it is converted to JSON Schema and sent to
+ * the provider (OpenAI `json_schema` response format, or a forced Anthropic
+ * tool call), and the same schema validates what comes back. The schema avoids
+ * keywords that OpenAI's strict mode rejects, so emptiness checks are
+ * refinements, which only apply during validation.
+ */
+
+import { z } from "zod";
+import type { OutputSchema } from "./_core/llm";
+
+export const SUMMARY_SCHEMA_NAME = "structured_summary";
+
+export const JOTS_NOTE_TYPES = ["Comparative", "Context", "Critique", "Practical", "Expert"] as const;
+export type JotsNoteType = (typeof JOTS_NOTE_TYPES)[number];
+
+const text = (label: string) =>
+  z.string().refine(value => value.trim().length > 0, { message: `${label} must not be empty` });
+
+const noteSourceSchema = z.object({
+  title: z.string(),
+  author: z.string(),
+  authorCredentials: z.string(),
+  url: z.string(),
+});
+
+export const jotsNoteSchema = z.object({
+  type: z.literal("jonathans_jots_note"),
+  noteType: z.enum(JOTS_NOTE_TYPES),
+  content: text("Note content"),
+  sources: z.array(noteSourceSchema),
+});
+
+export const subsectionSchema = z.object({
+  title: text("Subsection title"),
+  content: text("Subsection content"),
+  jotsNotes: z.array(jotsNoteSchema),
+});
+
+export const sectionSchema = z.object({
+  title: text("Section title"),
+  subsections: z.array(subsectionSchema).min(1),
+});
+
+export const researchSourceSchema = z.object({
+  title: text("Source title"),
+  author: text("Source author"),
+  authorCredentials: z.string(),
+  relevance: z.string(),
+});
+
+export const structuredSummarySchema = z.object({
+  bookTitle: text("Book title"),
+  bookAuthor: text("Book author"),
+  introduction: text("Introduction"),
+  onePageSummary: text("One-page summary"),
+  sections: z.array(sectionSchema).min(1),
+  researchSources: z.array(researchSourceSchema),
+});
+
+export type ModelSummary = z.infer<typeof structuredSummarySchema>;
+export type ModelSection = z.infer<typeof sectionSchema>;
+export type ModelSubsection = z.infer<typeof subsectionSchema>;
+export type ModelJotsNote = z.infer<typeof jotsNoteSchema>;
+
+/**
+ * Build an `OutputSchema` for any object schema (the full summary or a part of it).
+ */
+export function toOutputSchema(name: string, schema: z.ZodObject): OutputSchema {
+  const { $schema: _draft, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return { name, schema: jsonSchema, strict: true };
+}
+
+/** Output schema for `InvokeParams.outputSchema`. */
+export const summaryOutputSchema: OutputSchema = toOutputSchema(SUMMARY_SCHEMA_NAME, structuredSummarySchema);
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+export type SummaryValidationResult = ValidationResult<ModelSummary>;
+
+export function validateModelSummary(raw: string): SummaryValidationResult {
+  return validateModelOutput(raw, structuredSummarySchema);
+}
+
+/**
+ * Parse and validate raw model output. Issues are returned as readable
+ * `path: message` lines so they can be quoted back to the model.
+ */
+export function validateModelOutput<T>(raw: string, schema: z.ZodType<T>): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : "parse error"}`],
+    };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => `${formatPath(issue.path) || "(root)"}: ${issue.message}`),
+  };
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number" ? `[${segment}]` : `${index === 0 ? "" : "."}${String(segment)}`,
+    )
+    .join("");
+}
@@ -0,0 +1,282 @@
+/**
+ * Translation of a finished summary into another language.
+ *
+ * A translation is a summary row of its own, linked to the original through
+ * `translatedFromId`, so it can be read, edited and exported like any other.
+ * The model translates one part at a time (the introduction and one-page
+ * summary together, then each section, then the research sources) and
+ * returns the part's JSON with only the text replaced. A reply whose shape
+ * differs from the original (a dropped note, a merged subsection) is asked
+ * for again, so every section, subsection and note lines up with the
+ * original one for one.
+ *
+ * Source locations, quality gate results and source verification carry over
+ * unchanged. Quote grounding does not: translated quotes no longer match the
+ * book's text, so it is left to the original.
+ */
+
+import { z } from "zod";
+import { runWithLLMUsageScope } from "./_core/llmUsage";
+import { runWithLLMCacheBypass } from "./_core/llmCache";
+import { getLatestSummaryVersion, getSummary, updateSummary, type Summary, type SummaryJob } from "./db";
+import { parseJobPayload, type JobHandler } from "./jobQueue";
+import { DEFAULT_LANGUAGE, isSupportedLanguage, languageName, type LanguageCode } from "./language";
+import {
+  createProgressReporter,
+  saveResearchSources,
+  type ProgressReporter,
+  type SanitizedSummary,
+} from "./progressiveSummary";
+import { generateTranslationPrompt, TRANSLATION_PROMPT_VERSION } from "./shortformPrompt";
+import { indexSummary } from "./search";
+import { requestSummaryPart } from "./summaryParts";
+import { markSummaryGenerationFailed, recordSummaryVersion, withSummaryWriteLock } from "./summaryVersions";
+
+export type TranslationJobPayload = {
+  sourceSummaryId: string;
+  language: LanguageCode;
+};
+
+const MAX_TRANSLATION_ATTEMPTS = 2;
+
+const text = z.string();
+
+const overviewTranslationSchema = z.object({
+  introduction: text,
+  onePageSummary: text,
+});
+
+const sectionTranslationSchema = z.object({
+  title: text,
+  subsections: z.array(
+    z.object({
+      title: text,
+      content: text,
+      jotsNotes: z.array(z.object({ content: text })),
+    }),
+  ),
+});
+
+const sourcesTranslationSchema = z.object({
+  relevance: z.array(text),
+});
+
+type StoredContent = Pick<SanitizedSummary, "sections" | "researchSources"> & { qualityGate?: unknown };
+
+/**
+ * Job queue handler for `translation` jobs. The job's summary is the
+ * translation being written.
+ */
+export const translationJobHandler: JobHandler = {
+  run: async (job, context) => {
+    const translation = await getSummary(job.summaryId);
+    if (!translation) {
+      throw new Error("Summary not found");
+    }
+    if (translation.status === "completed") {
+      return;
+    }
+
+    const payload = parseJobPayload<TranslationJobPayload>(job);
+    await runWithLLMUsageScope({ summaryId: job.summaryId }, () =>
+      translateSummary(
+        { ...payload, summaryId: job.summaryId, requestedBy: job.userId },
+        createProgressReporter(job.summaryId, context.reportProgress),
+      ),
+    );
+  },
+  onFailure: async (job: SummaryJob, error: Error) => {
+    await markSummaryGenerationFailed(job.summaryId, error);
+  },
+};
+
+/**
+ * Translate the summary `sourceSummaryId` into `language` and store it as
+ * `summaryId`.
+ */
+export async function translateSummary(
+  request: TranslationJobPayload & { summaryId: string; requestedBy?: string },
+  reportProgress: ProgressReporter,
+): Promise<void> {
+  const { summaryId, sourceSummaryId, language } = request;
+  const source = await getSummary(sourceSummaryId);
+  if (!source || source.status !== "completed" || !source.mainContent) {
+    throw new Error("The summary to translate is not available");
+  }
+
+  const content = JSON.parse(source.mainContent) as StoredContent;
+  const sourceLanguage = isSupportedLanguage(source.language) ? source.language : DEFAULT_LANGUAGE;
+  const totalSections = content.sections.length + 2;
+  const translate = createPartTranslator(source, sourceLanguage, language);
+  let model: string | null = null;
+
+  await reportProgress({
+    stage: `Translating the introduction and overview into ${languageName(language)}...`,
+    sectionsCompleted: 0,
+    totalSections,
+  });
+  const overview = await translate(
+    "The introduction and the one-page summary",
+    "translated_overview",
+    overviewTranslationSchema,
+    { introduction: source.introduction ?? "", onePageSummary: source.onePageSummary ?? "" },
+    () => [],
+  );
+  model = overview.model;
+
+  const sections: StoredContent["sections"] = [];
+  for (let index = 0; index < content.sections.length; index++) {
+    const section = content.sections[index];
+    await reportProgress({
+      stage: `Translating section ${index + 1} of ${content.sections.length}...`,
+      sectionsCompleted: index + 1,
+      totalSections,
+      currentSection: section.title,
+    });
+
+    const original = {
+      title: section.title,
+      subsections: section.subsections.map(subsection => ({
+        title: subsection.title,
+        content: subsection.content,
+        jotsNotes: subsection.jotsNotes.map(note => ({ content: note.content })),
+      })),
+    };
+    const translated = await translate(
+      `Section ${index + 1} of ${content.sections.length}`,
+      "translated_section",
+      sectionTranslationSchema,
+      original,
+      data => sectionMismatches(original, data),
+    );
+    model = translated.model;
+
+    sections.push({
+      ...section,
+      title: translated.data.title,
+      grounding: undefined,
+      subsections: section.subsections.map((subsection, subsectionIndex) => {
+        const translatedSubsection = translated.data.subsections[subsectionIndex];
+        return {
+          ...subsection,
+          title: translatedSubsection.title,
+          content: translatedSubsection.content,
+          grounding: undefined,
+          jotsNotes: subsection.jotsNotes.map((note, noteIndex) => ({
+            ...note,
+            content: translatedSubsection.jotsNotes[noteIndex].content,
+          })),
+        };
+      }),
+    });
+  }
+
+  let researchSources = content.researchSources;
+  if (researchSources.length > 0) {
+    await reportProgress({
+      stage: "Translating the research sources...",
+      sectionsCompleted: totalSections - 1,
+      totalSections,
+    });
+    const translated = await translate(
+      "Why each research source is relevant, one entry per source",
+      "translated_sources",
+      sourcesTranslationSchema,
+      { relevance: researchSources.map(researchSource => researchSource.relevance) },
+      data =>
+        data.relevance.length === researchSources.length
+          ? []
+          : [`Expected ${researchSources.length} relevance entries, got ${data.relevance.length}`],
+    );
+    model = translated.model;
+    researchSources = researchSources.map((researchSource, index) => ({
+      ...researchSource,
+      relevance: translated.data.relevance[index],
+    }));
+  }
+
+  await withSummaryWriteLock(summaryId, async () => {
+    await updateSummary(summaryId, {
+      bookTitle: source.bookTitle,
+      bookAuthor: source.bookAuthor,
+      introduction: overview.data.introduction,
+      onePageSummary: overview.data.onePageSummary,
+      mainContent: JSON.stringify({ ...content, sections, researchSources }),
+      researchSourcesCount: researchSources.length,
+      jotsNotesCount: source.jotsNotesCount,
+      promptTemplateId: source.promptTemplateId,
+      language,
+      translatedFromId: source.id,
+      status: "completed",
+      errorMessage: null,
+    });
+    await saveResearchSources(summaryId, researchSources);
+    await indexSummary(summaryId);
+
+    const isRerun = Boolean(await getLatestSummaryVersion(summaryId));
+    await recordSummaryVersion(summaryId, {
+      changeType: isRerun ? "regenerated" : "generated",
+      authorId: request.requestedBy ?? "system",
+      model,
+      promptVersion: TRANSLATION_PROMPT_VERSION,
+      description: `Translated from ${languageName(sourceLanguage)} (summary ${source.id})`,
+    });
+  });
+
+  await reportProgress({
+    stage: "Complete!",
+    sectionsCompleted: totalSections,
+    totalSections,
+  });
+}
+
+/**
+ * Request a translated part, asking again when its shape does not match the
+ * original. `mismatches` lists the differences; an empty list accepts it.
+ */
+function createPartTranslator(source: Summary, sourceLanguage: LanguageCode, language: LanguageCode) {
+  return async <T>(
+    location: string,
+    schemaName: string,
+    schema: z.ZodObject & z.ZodType<T>,
+    original: unknown,
+    mismatches: (data: T) => string[],
+  ): Promise<{ data: T; model: string }> => {
+    const prompt = generateTranslationPrompt({
+      language,
+      sourceLanguage,
+      bookTitle: source.bookTitle ?? "Untitled",
+      bookAuthor: source.bookAuthor ?? "Unknown Author",
+      location,
+      content: original,
+    });
+
+    for (let attempt = 1; ; attempt++) {
+      // A retry has to ask again rather than get the rejected translation back from the cache
+      const result = await runWithLLMCacheBypass(attempt > 1, () => requestSummaryPart(prompt, schemaName, schema));
+      const problems = mismatches(result.data);
+      if (problems.length === 0) {
+        return result;
+      }
+      if (attempt >= MAX_TRANSLATION_ATTEMPTS) {
+        throw new Error(`The translation of ${location.toLowerCase()} does not match the original: ${problems[0]}`);
+      }
+      console.warn(`[Translation] Retrying ${location}: ${problems[0]}`);
+    }
+  };
+}
+
+function sectionMismatches(
+  original: z.infer<typeof sectionTranslationSchema>,
+  translated: z.infer<typeof sectionTranslationSchema>,
+): string[] {
+  if (translated.subsections.length !== original.subsections.length) {
+    return [`Expected ${original.subsections.length} subsections, got ${translated.subsections.length}`];
+  }
+  return original.subsections.flatMap((subsection, index) => {
+    const notes = translated.subsections[index].jotsNotes.length;
+    return notes === subsection.jotsNotes.length
+      ? []
+      : [`Expected ${subsection.jotsNotes.length} notes in subsection ${index + 1}, got ${notes}`];
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Revision history for summaries.
+ *
+ * Every change to a summary's content (a full generation, a regenerated part,
+ * a hand edit or a restore) is followed by a snapshot of the result, tagged
+ * with who made it and which model and prompt produced it. Changes to one
+ * summary are made one at a time (see `withSummaryWriteLock`), so none is
+ * lost to another made at the same moment.
+ */
+
+import { nanoid } from "nanoid";
+import {
+  createSummaryVersion,
+  getLatestSummaryVersion,
+  getSummary,
+  updateSummary,
+  type Summary,
+  type SummaryVersion,
+} from "./db";
+
+export type SummaryChangeType = "generated" | "regenerated" | "edited" | "restored";
+
+export type VersionProvenance = {
+  changeType: SummaryChangeType;
+  authorId: string;
+  model?: string | null;
+  promptVersion?: string | null;
+  description?: string;
+};
+
+/** Version metadata without the (large) content snapshot, for listings. */
+export type SummaryVersionInfo = Omit<SummaryVersion, "mainContent" | "introduction" | "onePageSummary">;
+
+const summaryWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` once earlier changes to the summary in this process have finished.
+ * Code that changes a summary's content and records the version reads the
+ * summary inside `fn`, so it builds on the latest content.
+ */
+export async function withSummaryWriteLock<T>(summaryId: string, fn: () => Promise<T>): Promise<T> {
+  const run = (summaryWrites.get(summaryId) ?? Promise.resolve()).then(fn);
+  const settled = run.catch(() => undefined);
+  summaryWrites.set(summaryId, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (summaryWrites.get(summaryId) === settled) {
+      summaryWrites.delete(summaryId);
+    }
+  }
+}
+
+/**
+ * Snapshot the summary's current content as a new version.
+ */
+export async function recordSummaryVersion(
+  summaryId: string,
+  provenance: VersionProvenance,
+): Promise<SummaryVersion> {
+  const summary = await getSummary(summaryId);
+  if (!summary) {
+    throw new Error("Summary not found");
+  }
+
+  return await createSummaryVersion({
+    id: nanoid(),
+    summaryId,
+    bookTitle: summary.bookTitle,
+    bookAuthor: summary.bookAuthor,
+    onePageSummary: summary.onePageSummary,
+    introduction: summary.introduction,
+    mainContent: summary.mainContent,
+    researchSourcesCount: summary.researchSourcesCount,
+    jotsNotesCount: summary.jotsNotesCount,
+    changeType: provenance.changeType,
+    changeDescription: provenance.description ?? null,
+    authorId: provenance.authorId,
+    model: provenance.model ?? null,
+    promptVersion: provenance.promptVersion ?? null,
+  });
+}
+
+/**
+ * Summaries generated before history was recorded have no versions. Capture
+ * their current state first so the change about to be made can be undone.
+ */
+export async function ensureBaselineVersion(summary: Summary): Promise<void> {
+  if (summary.status !== "completed" || (await getLatestSummaryVersion(summary.id))) {
+    return;
+  }
+
+  await recordSummaryVersion(summary.id, {
+    changeType: "generated",
+    authorId: summary.userId,
+    description: "Recorded before the first change",
+  });
+}
+
+/**
+ * Record that generating a summary failed. A summary that already had
+ * content (a re-run or re-translation failed) keeps it and stays completed,
+ * so it can still be edited or restored; the error is kept alongside.
+ */
+export async function markSummaryGenerationFailed(summaryId: string, error: Error): Promise<void> {
+  await withSummaryWriteLock(summaryId, async () => {
+    const summary = await getSummary(summaryId);
+    await updateSummary(summaryId, {
+      status: summary?.mainContent ? "completed" : "failed",
+      errorMessage: error.message,
+    });
+  });
+}
+
+export function toVersionInfo(version: SummaryVersion): SummaryVersionInfo {
+  const { mainContent: _mainContent, introduction: _introduction, onePageSummary: _onePageSummary, ...info } = version;
+  return info;
+}
@@ -0,0 +1,178 @@
+import { crc32, deflateRawSync, inflateRawSync } from "zlib";
+
+export type ZipArchive = {
+  paths: string[];
+  read: (path: string) => Buffer | undefined;
+};
+
+export type ZipEntry = {
+  path: string;
+  data: string | Buffer;
+  /** Store without compression (EPUB requires this for `mimetype`). */
+  store?: boolean;
+};
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FILENAMES = 0x0800;
+
+/**
+ * Most a single entry, and all entries together, may inflate to. Uploaded
+ * archives are untrusted, and a few megabytes of deflated zeros can claim
+ * gigabytes.
+ */
+export const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024;
+export const MAX_ZIP_TOTAL_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Build a ZIP archive. EPUB and DOCX are both ZIP containers, and neither
+ * needs more than plain stored/deflated entries, so this avoids pulling in a
+ * full archive library.
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, "utf8");
+    const raw = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data;
+    const method = entry.store ? 0 : 8;
+    const compressed = entry.store ? raw : deflateRawSync(raw);
+    const checksum = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FILENAMES, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FILENAMES, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Open a ZIP archive (EPUB, DOCX, ...). Entries are listed from the central
+ * directory and only decompressed when read.
+ *
+ * Archives whose entries claim to be larger than MAX_ZIP_ENTRY_BYTES each or
+ * MAX_ZIP_TOTAL_BYTES together are rejected, and an entry is never inflated
+ * past the size it claims, so a lying header cannot exhaust memory either.
+ */
+export function readZip(archive: Buffer): ZipArchive {
+  const endOffset = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, { method: number; compressedSize: number; size: number; localOffset: number }>();
+  let totalSize = 0;
+
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP archive: bad central directory");
+    }
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const path = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+    const size = archive.readUInt32LE(offset + 24);
+    if (size > MAX_ZIP_ENTRY_BYTES) {
+      throw new Error(`ZIP entry ${path} is too large to extract (${size} bytes)`);
+    }
+    totalSize += size;
+    if (totalSize > MAX_ZIP_TOTAL_BYTES) {
+      throw new Error("ZIP archive is too large to extract");
+    }
+    entries.set(path, {
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size,
+      localOffset: archive.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    paths: Array.from(entries.keys()),
+    read: path => {
+      const entry = entries.get(path);
+      if (!entry) {
+        return undefined;
+      }
+      const { localOffset } = entry;
+      if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP archive: bad local header for ${path}`);
+      }
+      const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(dataStart, dataStart + entry.compressedSize);
+      if (entry.method === 0) return Buffer.from(data);
+      if (entry.method === 8) return inflateEntry(path, data, entry.size);
+      throw new Error(`Unsupported ZIP compression method ${entry.method} for ${path}`);
+    },
+  };
+}
+
+function inflateEntry(path: string, data: Buffer, size: number): Buffer {
+  try {
+    // zlib refuses a zero limit; an empty entry inflates to nothing anyway
+    return inflateRawSync(data, { maxOutputLength: Math.max(1, size) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`ZIP entry ${path} inflates past its declared size of ${size} bytes`);
+    }
+    throw error;
+  }
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus an optional comment of up to 64KB.
+  const lowest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(1980, value.getFullYear());
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}